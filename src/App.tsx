@@ -8,8 +8,11 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { queryClient } from "@/lib/query";
 import PageLoader from "./components/PageLoader";
+import { OfflineStatusBar } from "@/components/OfflineStatusBar";
 
 const ParentDashboard = lazy(() => import("./pages/ParentDashboard"));
+const TeacherHome = lazy(() => import("./pages/TeacherHome"));
+const TeacherClassConsole = lazy(() => import("./pages/TeacherClassConsole"));
 const Leaderboard = lazy(() => import("./pages/Leaderboard"));
 const Challenges = lazy(() => import("./pages/Challenges"));
 const PrivacyPolicy = lazy(() => import("./pages/PrivacyPolicy"));
@@ -21,18 +24,22 @@ const StudentHome = lazy(() => import("./pages/StudentHome"));
 const StudentOnboarding = lazy(() => import("./pages/StudentOnboarding"));
 const StudentProfile = lazy(() => import("./pages/StudentProfile"));
 const Rewards = lazy(() => import("./pages/Rewards"));
+const CoinShop = lazy(() => import("./pages/CoinShop"));
+const MysteryPacks = lazy(() => import("./pages/MysteryPacks"));
 const AssignmentDetail = lazy(() => import("./pages/AssignmentDetail"));
 const Support = lazy(() => import("./pages/Support"));
 const GradingResult = lazy(() => import("./pages/GradingResult"));
 const PracticeSet = lazy(() => import("./pages/PracticeSet"));
 const PracticeCenter = lazy(() => import("./pages/PracticeCenter"));
 const PracticeExercise = lazy(() => import("./pages/PracticeExercise"));
+const DailyReview = lazy(() => import("./pages/DailyReview"));
 const PrintableWorksheet = lazy(() => import("./pages/PrintableWorksheet"));
 const RewardsEarned = lazy(() => import("./pages/RewardsEarned"));
 const NotificationCenter = lazy(() => import("./pages/NotificationCenter"));
 const Raffle = lazy(() => import("./pages/Raffle"));
 const GameCenter = lazy(() => import("./pages/GameCenter"));
 const PlayGame = lazy(() => import("./pages/PlayGame"));
+const QuizBattle = lazy(() => import("./pages/QuizBattle"));
 const RegentsPrep = lazy(() => import("./pages/RegentsPrep"));
 const StudyPlan = lazy(() => import("./pages/StudyPlan"));
 const StudentInvite = lazy(() => import("./pages/StudentInvite"));
@@ -41,6 +48,11 @@ const AdminDashboard = lazy(() => import("./pages/AdminDashboard"));
 const ExternalStudents = lazy(() => import("./pages/ExternalStudents"));
 const AdminClasses = lazy(() => import("./pages/AdminClasses"));
 const AdminGeoBloxIntegration = lazy(() => import("./pages/AdminGeoBloxIntegration"));
+const AdminQuestionBank = lazy(() => import("./pages/AdminQuestionBank"));
+const AdminEconomy = lazy(() => import("./pages/AdminEconomy"));
+const AdminCalendar = lazy(() => import("./pages/AdminCalendar"));
+const AdminBadges = lazy(() => import("./pages/AdminBadges"));
+const AdminChallenges = lazy(() => import("./pages/AdminChallenges"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const PrivateLayout = lazy(() => import("./layouts/PrivateLayout"));
 
@@ -50,6 +62,7 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <OfflineStatusBar />
         <BrowserRouter>
           <AuthRedirectWrapper>
             <Suspense fallback={<PageLoader />}>
@@ -65,6 +78,8 @@ const App = () => (
                   <Route path="/student/onboarding" element={<StudentOnboarding />} />
                   <Route path="/student/profile" element={<StudentProfile />} />
                   <Route path="/student/rewards" element={<Rewards />} />
+                  <Route path="/student/shop" element={<CoinShop />} />
+                  <Route path="/student/packs" element={<MysteryPacks />} />
                   <Route path="/student/leaderboard" element={<Leaderboard />} />
                   <Route path="/student/challenges" element={<Challenges />} />
                   <Route path="/student/assignment/:id" element={<AssignmentDetail />} />
@@ -74,19 +89,28 @@ const App = () => (
                   <Route path="/student/practice-center" element={<PracticeCenter />} />
                   <Route path="/student/practice/:id" element={<PracticeExercise />} />
                   <Route path="/student/practice/:id/print" element={<PrintableWorksheet />} />
+                  <Route path="/student/review" element={<DailyReview />} />
                   <Route path="/student/rewards-earned" element={<RewardsEarned />} />
                   <Route path="/student/raffle" element={<Raffle />} />
                   <Route path="/student/notifications" element={<NotificationCenter />} />
                   <Route path="/games" element={<GameCenter />} />
+                  <Route path="/games/battle" element={<QuizBattle />} />
                   <Route path="/games/:id" element={<PlayGame />} />
                   <Route path="/regents-prep" element={<RegentsPrep />} />
                   <Route path="/study-plan" element={<StudyPlan />} />
                   <Route path="/parent" element={<ParentDashboard />} />
+                  <Route path="/teacher" element={<TeacherHome />} />
+                  <Route path="/teacher/class/:id" element={<TeacherClassConsole />} />
                   <Route path="/admin" element={<AdminDashboard />} />
                   <Route path="/admin/settings" element={<AdminSettings />} />
                   <Route path="/admin/external-students" element={<ExternalStudents />} />
                   <Route path="/admin/classes" element={<AdminClasses />} />
                   <Route path="/admin/geoblox" element={<AdminGeoBloxIntegration />} />
+                  <Route path="/admin/questions" element={<AdminQuestionBank />} />
+                  <Route path="/admin/economy" element={<AdminEconomy />} />
+                  <Route path="/admin/calendar" element={<AdminCalendar />} />
+                  <Route path="/admin/badges" element={<AdminBadges />} />
+                  <Route path="/admin/challenges" element={<AdminChallenges />} />
                 </Route>
                 <Route path="*" element={<NotFound />} />
               </Routes>
@@ -10,6 +10,9 @@ import {
   Bell,
   LogOut,
   Webhook,
+  CalendarDays,
+  Library,
+  Coins,
 } from "lucide-react";
 import {
   Sidebar,
@@ -37,8 +40,11 @@ const mainItems = [
 
 const managementItems = [
   { title: "Classes", url: "/admin/classes", icon: GraduationCap },
+  { title: "Question Bank", url: "/admin/questions", icon: Library },
   { title: "Badges", url: "/admin/badges", icon: Trophy },
   { title: "Rewards", url: "/admin/rewards", icon: Gift },
+  { title: "Economy", url: "/admin/economy", icon: Coins },
+  { title: "School Calendar", url: "/admin/calendar", icon: CalendarDays },
   { title: "GeoBlox Integration", url: "/admin/geoblox", icon: Webhook },
 ];
 
@@ -19,6 +19,7 @@ import {
   HelpCircle
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { MathText } from "@/components/MathText";
 
 interface Message {
   id: string;
@@ -222,15 +223,13 @@ export function AlgebraTutor({
                         ? "bg-primary text-primary-foreground"
                         : "bg-muted"
                     )}>
-                      <div 
+                      <MathText
+                        as="div"
+                        formatted
                         className="text-sm prose prose-sm dark:prose-invert max-w-none"
-                        dangerouslySetInnerHTML={{ 
-                          __html: message.content
-                            .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-                            .replace(/\n/g, '<br/>')
-                            .replace(/• /g, '• ')
-                        }}
-                      />
+                      >
+                        {message.content}
+                      </MathText>
                     </div>
                   </motion.div>
                 ))}
@@ -1,10 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { motion } from "framer-motion";
+import { format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
-import { Calendar, Clock, MapPin, BookOpen } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Calendar, CalendarOff, Download, MapPin, BookOpen, ClipboardList } from "lucide-react";
+import { useSchoolCalendar } from "@/hooks/queries/useSchoolCalendar";
+import { useActiveAssignments } from "@/hooks/queries/useAssignments";
+import type { Assignment } from "@/lib/api/assignments";
+import { buildIcsFeed, NO_SCHOOL_KINDS, type IcsFeedEvent, type SchoolCalendar } from "@/lib/schoolCalendar";
+import { dayOfWeek, shiftDay, toDayKey, type DayKey } from "@/lib/streaks";
 
 interface ClassPeriod {
   id: string;
@@ -101,33 +107,121 @@ const demoSchedule: ClassPeriod[] = [
 
 const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
+/** How far ahead the exported calendar repeats the class schedule */
+const EXPORT_WEEKS = 8;
+
+/** Minutes since midnight for a time like "1:00 PM" */
+function parseTime(time: string): number {
+  const [timePart, period] = time.split(" ");
+  let [hours, minutes] = timePart.split(":").map(Number);
+  if (period === "PM" && hours !== 12) hours += 12;
+  if (period === "AM" && hours === 12) hours = 0;
+  return hours * 60 + minutes;
+}
+
+/** "1:00 PM" on a day as YYYY-MM-DDTHH:mm */
+function toLocalDateTime(day: DayKey, time: string): string {
+  const minutes = parseTime(time);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${day}T${hh}:${mm}`;
+}
+
+function dueDay(assignment: Assignment): DayKey | null {
+  return assignment.due_at ? toDayKey(new Date(assignment.due_at)) : null;
+}
+
+/**
+ * Class periods on every school day for the next few weeks, due dates,
+ * and the days school is closed
+ */
+function buildScheduleFeed(
+  schedule: ClassPeriod[],
+  assignments: Assignment[],
+  calendar: SchoolCalendar,
+  today: DayKey
+): string {
+  const events: IcsFeedEvent[] = [];
+
+  for (let offset = 0; offset < EXPORT_WEEKS * 7; offset++) {
+    const day = shiftDay(today, offset);
+    if (!calendar.isSchoolDay(day)) continue;
+    for (const period of schedule) {
+      events.push({
+        uid: `class-${period.id}-${day}@scholar`,
+        summary: period.name,
+        description: [period.teacher, period.room].filter(Boolean).join(" · "),
+        start: toLocalDateTime(day, period.startTime),
+        end: toLocalDateTime(day, period.endTime),
+      });
+    }
+  }
+
+  for (const assignment of assignments) {
+    const day = dueDay(assignment);
+    if (!day) continue;
+    events.push({
+      uid: `due-${assignment.id}@scholar`,
+      summary: `Due: ${assignment.title}`,
+      description: assignment.subject ?? undefined,
+      start: day,
+    });
+  }
+
+  for (const event of calendar.events) {
+    if (event.endDate < today) continue;
+    events.push({
+      uid: event.uid,
+      summary: event.title,
+      start: event.startDate,
+      end: shiftDay(event.endDate, 1),
+    });
+  }
+
+  return buildIcsFeed("My School Schedule", events);
+}
+
 export function ClassSchedule() {
   const [schedule] = useState<ClassPeriod[]>(demoSchedule);
-  const [selectedDay, setSelectedDay] = useState(new Date().getDay());
-  
+  const today = toDayKey(new Date());
+  const [selectedDay, setSelectedDay] = useState(dayOfWeek(today));
+  const { calendar } = useSchoolCalendar();
+  const { data: assignments = [] } = useActiveAssignments();
+
+  // Selected weekday in the current week
+  const selectedDate = shiftDay(today, selectedDay - dayOfWeek(today));
+  const dayEvents = calendar.eventsOn(selectedDate);
+  const closure = dayEvents.find((e) => NO_SCHOOL_KINDS.includes(e.kind));
+  const examWeek = dayEvents.find((e) => e.kind === "exam_week");
+  const dueToday = assignments.filter((a) => dueDay(a) === selectedDate);
+
   // Get current time to highlight current class
   const now = new Date();
   const currentHour = now.getHours();
   const currentMinute = now.getMinutes();
 
   const isCurrentClass = (startTime: string, endTime: string) => {
-    const parseTime = (time: string) => {
-      const [timePart, period] = time.split(" ");
-      let [hours, minutes] = timePart.split(":").map(Number);
-      if (period === "PM" && hours !== 12) hours += 12;
-      if (period === "AM" && hours === 12) hours = 0;
-      return hours * 60 + minutes;
-    };
-
     const currentMinutes = currentHour * 60 + currentMinute;
     const start = parseTime(startTime);
     const end = parseTime(endTime);
 
-    return currentMinutes >= start && currentMinutes < end && selectedDay === now.getDay();
+    return currentMinutes >= start && currentMinutes < end && selectedDate === today;
   };
 
-  // Filter schedule for selected day (using modulo to simulate week)
-  const daySchedule = schedule;
+  // No classes when school is closed
+  const daySchedule = closure ? [] : schedule;
+
+  const handleExport = () => {
+    const blob = new Blob([buildScheduleFeed(schedule, assignments, calendar, today)], {
+      type: "text/calendar;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "scholar-schedule.ics";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <Card className="bg-card border-border">
@@ -137,9 +231,14 @@ export function ClassSchedule() {
             <Calendar className="w-5 h-5 text-primary" />
             Today's Schedule
           </CardTitle>
-          <Badge variant="outline" className="text-xs">
-            {days[selectedDay]}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {days[selectedDay]}
+            </Badge>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleExport} title="Export to calendar (.ics)">
+              <Download className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -148,7 +247,7 @@ export function ClassSchedule() {
           <div className="flex gap-2 pb-2">
             {days.slice(1, 6).map((day, index) => {
               const dayIndex = index + 1;
-              const isToday = dayIndex === now.getDay();
+              const isToday = dayIndex === dayOfWeek(today);
               return (
                 <button
                   key={day}
@@ -169,6 +268,35 @@ export function ClassSchedule() {
           <ScrollBar orientation="horizontal" />
         </ScrollArea>
 
+        {examWeek && (
+          <Badge variant="secondary" className="mb-3">
+            {examWeek.title}
+          </Badge>
+        )}
+
+        {closure && (
+          <div className="flex items-center gap-3 p-3 mb-2 rounded-xl bg-muted/50 text-muted-foreground">
+            <CalendarOff className="w-5 h-5" />
+            <div>
+              <p className="font-semibold text-foreground">No school</p>
+              <p className="text-xs">{closure.title}</p>
+            </div>
+          </div>
+        )}
+
+        {dueToday.length > 0 && (
+          <div className="mb-3 space-y-1">
+            {dueToday.map((assignment) => (
+              <div key={assignment.id} className="flex items-center gap-2 text-xs text-warning">
+                <ClipboardList className="w-3.5 h-3.5" />
+                <span className="truncate">
+                  Due {format(new Date(assignment.due_at!), "h:mm a")}: {assignment.title}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Schedule list */}
         <div className="space-y-2">
           {daySchedule.map((period, index) => {
@@ -0,0 +1,115 @@
+import { useRef } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { MathText } from "@/components/MathText";
+import { cn } from "@/lib/utils";
+import { plainMathToLatex } from "@/lib/mathNotation";
+
+interface MathInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit?: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  className?: string;
+  inputClassName?: string;
+}
+
+interface PaletteSymbol {
+  label: string;
+  insert: string;
+  /** Where the caret lands, counted back from the end of the inserted text */
+  caretBack?: number;
+  title: string;
+}
+
+// Inserted text uses the plain notation the answer checker understands
+const PALETTE: PaletteSymbol[] = [
+  { label: "x²", insert: "^2", title: "Squared" },
+  { label: "xⁿ", insert: "^", title: "Exponent" },
+  { label: "√", insert: "sqrt()", caretBack: 1, title: "Square root" },
+  { label: "a/b", insert: "/", title: "Fraction" },
+  { label: "( )", insert: "()", caretBack: 1, title: "Parentheses" },
+  { label: "|x|", insert: "||", caretBack: 1, title: "Absolute value" },
+  { label: "π", insert: "π", title: "Pi" },
+  { label: "±", insert: "±", title: "Plus or minus" },
+  { label: "≤", insert: "≤", title: "Less than or equal to" },
+  { label: "≥", insert: "≥", title: "Greater than or equal to" },
+  { label: "≠", insert: "≠", title: "Not equal to" },
+];
+
+// Text input with a math symbol palette and a rendered preview of the answer
+export function MathInput({
+  value,
+  onChange,
+  onSubmit,
+  placeholder = "Type your answer...",
+  disabled = false,
+  autoFocus = false,
+  className,
+  inputClassName,
+}: MathInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const insertSymbol = (symbol: PaletteSymbol) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    const next = value.slice(0, start) + symbol.insert + value.slice(end);
+    onChange(next);
+
+    const caret = start + symbol.insert.length - (symbol.caretBack ?? 0);
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(caret, caret);
+    });
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && onSubmit) {
+            e.preventDefault();
+            onSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={autoFocus}
+        autoComplete="off"
+        spellCheck={false}
+        className={inputClassName}
+      />
+
+      {!disabled && (
+        <div className="flex flex-wrap gap-1">
+          {PALETTE.map((symbol) => (
+            <Button
+              key={symbol.label}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 min-w-[2.5rem] px-2 font-mono"
+              title={symbol.title}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertSymbol(symbol)}
+            >
+              {symbol.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value.trim() && /[\^√/π±≤≥≠]|sqrt|pi|[<>]=?/.test(value) && (
+        <div className="text-sm text-muted-foreground">
+          Preview: <MathText className="text-foreground">{`\\(${plainMathToLatex(value)}\\)`}</MathText>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Fragment, useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import { cn } from "@/lib/utils";
+import { splitMathSegments } from "@/lib/mathNotation";
+
+interface MathTextProps {
+  children: string | null | undefined;
+  className?: string;
+  as?: keyof JSX.IntrinsicElements;
+  /** Render **bold** and keep line breaks, for tutor chat messages */
+  formatted?: boolean;
+}
+
+const renderCache = new Map<string, string>();
+
+function renderLatex(latex: string, displayMode: boolean): string {
+  const key = `${displayMode ? "D" : "I"}:${latex}`;
+  let html = renderCache.get(key);
+  if (html === undefined) {
+    html = katex.renderToString(latex, { displayMode, throwOnError: false, strict: "ignore" });
+    renderCache.set(key, html);
+  }
+  return html;
+}
+
+function renderFormatted(text: string, key: number) {
+  return text.split(/\*\*(.+?)\*\*/g).map((part, index) =>
+    index % 2 === 1 ? <strong key={`${key}-${index}`}>{part}</strong> : <Fragment key={`${key}-${index}`}>{part}</Fragment>
+  );
+}
+
+// Renders text with inline ($…$, \(…\)) and display ($$…$$, \[…\]) LaTeX
+export function MathText({ children, className, as: Component = "span", formatted = false }: MathTextProps) {
+  const segments = useMemo(() => splitMathSegments(children ?? ""), [children]);
+
+  return (
+    <Component className={cn(formatted && "whitespace-pre-line", className)}>
+      {segments.map((segment, index) => {
+        if (segment.type === "text") {
+          return formatted ? renderFormatted(segment.value, index) : <Fragment key={index}>{segment.value}</Fragment>;
+        }
+        return (
+          <span
+            key={index}
+            className={segment.type === "display" ? "block my-2 overflow-x-auto" : undefined}
+            dangerouslySetInnerHTML={{ __html: renderLatex(segment.value, segment.type === "display") }}
+          />
+        );
+      })}
+    </Component>
+  );
+}
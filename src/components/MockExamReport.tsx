@@ -0,0 +1,172 @@
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Brain, CheckCircle, Flag, TrendingDown, TrendingUp, Trophy, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MathText } from "@/components/MathText";
+import { PASSING_SCORE } from "@/constants";
+import type { MockExam, MockExamScore } from "@/lib/mockExam";
+import type { MockExamResult } from "@/lib/api/regents";
+
+interface MockExamReportProps {
+  exam: MockExam;
+  examName: string;
+  score: MockExamScore;
+  answers: Record<string, string>;
+  flagged: string[];
+  timeUsedSeconds: number;
+  previousResults: MockExamResult[];
+  onDone: () => void;
+}
+
+/** Regents passing scaled score */
+const REGENTS_PASSING_SCALED = 65;
+
+export default function MockExamReport({
+  exam,
+  examName,
+  score,
+  answers,
+  flagged,
+  timeUsedSeconds,
+  previousResults,
+  onDone,
+}: MockExamReportProps) {
+  const passed = score.scaledScore >= REGENTS_PASSING_SCALED;
+  const mastery = score.scaledScore >= 85;
+  const lastResult = previousResults[previousResults.length - 1];
+  const change = lastResult ? score.scaledScore - lastResult.scaled_score : null;
+  const bestPrevious = previousResults.reduce((best, r) => Math.max(best, r.scaled_score), 0);
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <main className="container mx-auto px-4 py-6 max-w-3xl space-y-6">
+        <motion.div initial={{ opacity: 0, y: 16 }} animate={{ opacity: 1, y: 0 }}>
+          <Card className="bg-gradient-to-br from-primary/10 to-primary/5">
+            <CardContent className="p-6 text-center space-y-2">
+              <Trophy className={cn("w-10 h-10 mx-auto", passed ? "text-amber-500" : "text-muted-foreground")} />
+              <p className="text-sm text-muted-foreground">{examName} Mock Exam</p>
+              <p className="text-5xl font-bold">{score.scaledScore}</p>
+              <p className="text-sm text-muted-foreground">Scaled score</p>
+              <div className="flex items-center justify-center gap-2 flex-wrap">
+                <Badge variant={passed ? "default" : "secondary"}>
+                  {mastery ? "Mastery (85+)" : passed ? "Passing (65+)" : "Below passing"}
+                </Badge>
+                <Badge variant="outline">
+                  Raw {score.rawScore}/{score.maxRawScore}
+                </Badge>
+                <Badge variant="outline">
+                  {Math.floor(timeUsedSeconds / 60)} min used
+                </Badge>
+              </div>
+              {change !== null && (
+                <p
+                  className={cn(
+                    "text-sm flex items-center justify-center gap-1",
+                    change >= 0 ? "text-green-600" : "text-red-600"
+                  )}
+                >
+                  {change >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+                  {change >= 0 ? "+" : ""}
+                  {change} since your last mock exam
+                  {score.scaledScore > bestPrevious && " • New personal best!"}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Score by Part</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {score.parts.map((part) => {
+              const percent = part.maxRawScore > 0 ? (part.rawScore / part.maxRawScore) * 100 : 0;
+              return (
+                <div key={part.partId} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{part.name}</span>
+                    <span className="text-muted-foreground">
+                      {part.rawScore}/{part.maxRawScore} credits • {part.correct}/{part.total} correct
+                    </span>
+                  </div>
+                  <Progress value={percent} className={cn("h-2", percent < PASSING_SCORE && "opacity-70")} />
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        {previousResults.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Previous Mock Exams</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {[...previousResults].reverse().slice(0, 5).map((result) => (
+                <div key={result.id} className="flex items-center justify-between p-2 rounded-lg bg-muted/50 text-sm">
+                  <span className="text-muted-foreground">
+                    {new Date(result.submitted_at).toLocaleDateString()}
+                  </span>
+                  <span className="font-semibold">{result.scaled_score}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Review Answers</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {exam.sections.flatMap((section) =>
+              section.questions.map((question) => {
+                const chosen = answers[question.id];
+                const isCorrect = chosen === question.correctAnswer;
+                return (
+                  <div key={question.id} className="p-4 rounded-lg border border-border space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <Badge variant="outline">{section.name}</Badge>
+                      <Badge variant="outline">{question.standardCode}</Badge>
+                      {flagged.includes(question.id) && <Flag className="w-3 h-3 text-amber-500" />}
+                      <span className="ml-auto">
+                        {isCorrect ? (
+                          <CheckCircle className="w-4 h-4 text-green-500" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-red-500" />
+                        )}
+                      </span>
+                    </div>
+                    <MathText as="p" className="font-medium">{question.prompt}</MathText>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Your answer: </span>
+                      {chosen ? <MathText>{chosen}</MathText> : <em>No answer</em>}
+                    </p>
+                    {!isCorrect && (
+                      <p className="text-sm">
+                        <span className="text-muted-foreground">Correct answer: </span>
+                        <MathText>{question.correctAnswer}</MathText>
+                      </p>
+                    )}
+                    <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                      <Brain className="w-4 h-4 text-primary mt-0.5 shrink-0" />
+                      <MathText>{question.explanation}</MathText>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        <Button onClick={onDone} className="w-full" size="lg">
+          Back to Regents Prep
+        </Button>
+      </main>
+    </div>
+  );
+}
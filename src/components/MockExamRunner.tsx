@@ -0,0 +1,269 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, ChevronLeft, ChevronRight, Flag, Timer, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { QuestionImage } from "@/components/QuestionImage";
+import { MathText } from "@/components/MathText";
+import type { MockExam } from "@/lib/mockExam";
+
+interface MockExamRunnerProps {
+  exam: MockExam;
+  examName: string;
+  onSubmit: (result: {
+    answers: Record<string, string>;
+    answerTimes: Record<string, number>;
+    flagged: string[];
+    timeUsedSeconds: number;
+  }) => void;
+  onExit: () => void;
+}
+
+function formatClock(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+export default function MockExamRunner({ exam, examName, onSubmit, onExit }: MockExamRunnerProps) {
+  const questions = exam.sections.flatMap((section) =>
+    section.questions.map((question) => ({ question, section }))
+  );
+
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answerTimes, setAnswerTimes] = useState<Record<string, number>>({});
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+  const [timeLeft, setTimeLeft] = useState(exam.totalSeconds);
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const viewStartedAt = useRef(Date.now());
+  const submitted = useRef(false);
+
+  const current = questions[currentIndex];
+
+  // Whole-exam countdown; the exam is submitted automatically when time runs out
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setTimeLeft((prev) => Math.max(0, prev - 1));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (timeLeft === 0) submitRef.current();
+  }, [timeLeft]);
+
+  // Accumulate time spent on the question being left
+  const leaveQuestion = () => {
+    const elapsed = Math.round((Date.now() - viewStartedAt.current) / 1000);
+    const id = current.question.id;
+    setAnswerTimes((prev) => ({ ...prev, [id]: (prev[id] ?? 0) + elapsed }));
+    viewStartedAt.current = Date.now();
+  };
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= questions.length || index === currentIndex) return;
+    leaveQuestion();
+    setCurrentIndex(index);
+  };
+
+  const toggleFlag = () => {
+    setFlagged((prev) => {
+      const next = new Set(prev);
+      if (next.has(current.question.id)) next.delete(current.question.id);
+      else next.add(current.question.id);
+      return next;
+    });
+  };
+
+  const submit = () => {
+    if (submitted.current) return;
+    submitted.current = true;
+    const elapsed = Math.round((Date.now() - viewStartedAt.current) / 1000);
+    const id = current.question.id;
+    onSubmit({
+      answers,
+      answerTimes: { ...answerTimes, [id]: (answerTimes[id] ?? 0) + elapsed },
+      flagged: [...flagged],
+      timeUsedSeconds: exam.totalSeconds - timeLeft,
+    });
+  };
+
+  const submitRef = useRef(submit);
+  submitRef.current = submit;
+
+  const answeredCount = Object.keys(answers).length;
+  const unanswered = questions.length - answeredCount;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card border-b border-border sticky top-0 z-40">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" onClick={onExit}>
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div>
+                <h1 className="font-bold">{examName} Mock Exam</h1>
+                <p className="text-sm text-muted-foreground">
+                  {current.section.name} • Question {currentIndex + 1}/{questions.length}
+                </p>
+              </div>
+            </div>
+            <div
+              className={cn(
+                "flex items-center gap-2 px-3 py-1.5 rounded-full font-mono",
+                timeLeft <= 300 ? "bg-red-100 text-red-600 dark:bg-red-900/30" : "bg-muted"
+              )}
+            >
+              <Timer className="w-4 h-4" />
+              <span className="font-bold">{formatClock(timeLeft)}</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-3xl space-y-6">
+        <Progress value={(answeredCount / questions.length) * 100} className="h-2" />
+
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs">
+            {current.question.standardCode}
+          </Badge>
+          <span className="text-xs text-muted-foreground ml-auto">
+            {current.question.pointValue} {current.question.pointValue === 1 ? "credit" : "credits"}
+          </span>
+        </div>
+
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            {current.question.imagePrompt && (
+              <QuestionImage
+                questionId={current.question.id}
+                imagePrompt={current.question.imagePrompt}
+                subject={current.question.subject}
+                className="mb-4"
+              />
+            )}
+            <MathText as="p" className="text-lg font-medium">{current.question.prompt}</MathText>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 gap-3">
+          {current.question.options.map((option, index) => {
+            const isSelected = answers[current.question.id] === option;
+            return (
+              <button
+                key={option}
+                onClick={() => setAnswers((prev) => ({ ...prev, [current.question.id]: option }))}
+                className={cn(
+                  "p-4 rounded-lg border-2 text-left transition-all hover:border-primary hover:bg-primary/5",
+                  isSelected ? "border-primary bg-primary/10" : "border-border"
+                )}
+              >
+                <span className="font-mono text-muted-foreground mr-3">({index + 1})</span>
+                <MathText className="font-medium">{option}</MathText>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => goTo(currentIndex - 1)} disabled={currentIndex === 0}>
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Back
+          </Button>
+          <Button
+            variant={flagged.has(current.question.id) ? "default" : "outline"}
+            onClick={toggleFlag}
+            className="gap-2"
+          >
+            <Flag className="w-4 h-4" />
+            {flagged.has(current.question.id) ? "Flagged" : "Flag for review"}
+          </Button>
+          <div className="flex-1" />
+          {currentIndex + 1 < questions.length ? (
+            <Button onClick={() => goTo(currentIndex + 1)}>
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          ) : (
+            <Button onClick={() => setConfirmSubmit(true)} className="gap-2">
+              <Send className="w-4 h-4" />
+              Submit Exam
+            </Button>
+          )}
+        </div>
+
+        {/* Question navigator */}
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            {exam.sections.map((section) => (
+              <div key={section.partId}>
+                <p className="text-xs font-semibold text-muted-foreground mb-2">{section.name}</p>
+                <div className="flex flex-wrap gap-2">
+                  {section.questions.map((question) => {
+                    const index = questions.findIndex((q) => q.question.id === question.id);
+                    return (
+                      <button
+                        key={question.id}
+                        onClick={() => goTo(index)}
+                        className={cn(
+                          "w-9 h-9 rounded-md text-sm font-medium border relative",
+                          index === currentIndex && "ring-2 ring-primary",
+                          answers[question.id] ? "bg-primary/15 border-primary/40" : "bg-muted border-border"
+                        )}
+                      >
+                        {index + 1}
+                        {flagged.has(question.id) && (
+                          <Flag className="w-3 h-3 text-amber-500 absolute -top-1 -right-1" />
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" className="w-full" onClick={() => setConfirmSubmit(true)}>
+              Submit Exam
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={confirmSubmit} onOpenChange={setConfirmSubmit}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit your exam?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unanswered > 0
+                ? `You have ${unanswered} unanswered question${unanswered === 1 ? "" : "s"}`
+                : "All questions are answered"}
+              {flagged.size > 0 ? ` and ${flagged.size} flagged for review.` : "."} You can't change answers
+              after submitting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Working</AlertDialogCancel>
+            <AlertDialogAction onClick={submit}>Submit</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * MysteryPackOdds Component
+ *
+ * The drop rates of every active mystery pack, and what a duplicate turns
+ * into. Shown to students before they open packs and to parents.
+ */
+
+import { Loader2, Percent } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RARITY_COLORS } from "@/components/common/tokens/colors";
+import { DUPLICATE_COIN_VALUES, STREAK_PACK_MILESTONES } from "@/constants";
+import { useMysteryPacks } from "@/hooks/queries/useMysteryPacks";
+import { formatDropRate, RARITY_ORDER, type PackMilestoneType } from "@/lib/api/mysteryPacks";
+
+const MILESTONE_LABELS: Record<PackMilestoneType, string> = {
+  level_up: "Earned on every level-up",
+  streak: `Earned at ${STREAK_PACK_MILESTONES.join(", ")}-day streaks`,
+  challenge: "Earned by completing challenges",
+};
+
+interface MysteryPackOddsProps {
+  className?: string;
+}
+
+export function MysteryPackOdds({ className }: MysteryPackOddsProps) {
+  const { data: packs = [], isLoading, error } = useMysteryPacks();
+
+  return (
+    <section className={cn("space-y-3", className)}>
+      <h2 className="font-bold text-foreground flex items-center gap-2">
+        <Percent className="w-5 h-5" />
+        Mystery Pack Odds
+      </h2>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : packs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No mystery packs are available right now.</p>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {packs.map((pack) => (
+            <div key={pack.id} className="rounded-xl border border-border bg-card p-4">
+              <p className="font-semibold text-foreground">{pack.name}</p>
+              <p className="text-xs text-muted-foreground mb-3">{MILESTONE_LABELS[pack.milestone_type]}</p>
+              <ul className="space-y-1 text-sm">
+                {RARITY_ORDER.map((rarity) => (
+                  <li key={rarity} className="flex justify-between">
+                    <span className={RARITY_COLORS[rarity].text}>{RARITY_COLORS[rarity].label}</span>
+                    <span className="tabular-nums">{formatDropRate(pack.drop_rates[rarity])}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Packs are earned, never bought. A card you already own becomes coins instead:{" "}
+        {RARITY_ORDER.map((rarity) => `${RARITY_COLORS[rarity].label} ${DUPLICATE_COIN_VALUES[rarity]}`).join(", ")}.
+      </p>
+    </section>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Link } from "react-router-dom";
-import { Bell, Trophy, Star, Flame, Check, Trash2, X, BookOpen, ExternalLink, Sparkles, Brain } from "lucide-react";
+import { Bell, Trophy, Star, Flame, Check, Trash2, X, BookOpen, ExternalLink, Sparkles, Brain, CalendarClock, Users, Mail, BellRing, Gift } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Popover,
@@ -12,6 +12,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useNotificationSound } from "@/hooks/useNotificationSound";
+import { useSchoolCalendar } from "@/hooks/queries/useSchoolCalendar";
+import { checkDueSoonAssignments } from "@/lib/api/schoolCalendar";
+import { alertOnMissedAssignments } from "@/lib/api/parentAlerts";
+import { addSchoolDays, DUE_SOON_SCHOOL_DAYS } from "@/lib/schoolCalendar";
+import { toDayKey } from "@/lib/streaks";
 interface Notification {
   id: string;
   type: string;
@@ -32,6 +37,7 @@ export function NotificationBell() {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
+  const { calendar, isLoading: calendarLoading } = useSchoolCalendar();
 
   const fetchNotifications = useCallback(async () => {
     try {
@@ -98,6 +104,24 @@ export function NotificationBell() {
     setupRealtimeSubscription();
   }, [fetchNotifications, toast, notifyUser]);
 
+  // "Due soon" counts school days, so a Friday reminder covers Monday's
+  // work and a long weekend pushes the window out
+  useEffect(() => {
+    if (!userId || calendarLoading) return;
+    const dueBefore = addSchoolDays(calendar, toDayKey(new Date()), DUE_SOON_SCHOOL_DAYS);
+    checkDueSoonAssignments(dueBefore).catch((error) => {
+      console.error("Error checking due dates:", error);
+    });
+  }, [userId, calendar, calendarLoading]);
+
+  // Due dates that passed with nothing handed in alert the student's parents
+  useEffect(() => {
+    if (!userId) return;
+    alertOnMissedAssignments().catch((error) => {
+      console.error("Error checking missed due dates:", error);
+    });
+  }, [userId]);
+
   const checkStreakWarning = async () => {
     try {
       // Call the streak warning function via RPC
@@ -172,6 +196,20 @@ export function NotificationBell() {
         return <Flame className="w-5 h-5 text-streak" />;
       case 'new_assignment':
         return <BookOpen className="w-5 h-5 text-blue-500" />;
+      case 'due_soon':
+        return <CalendarClock className="w-5 h-5 text-warning" />;
+      case 'parent_link_request':
+      case 'parent_link_reviewed':
+        return <Users className="w-5 h-5 text-primary" />;
+      case 'parent_digest':
+        return <Mail className="w-5 h-5 text-primary" />;
+      case 'parent_alert':
+        return <BellRing className="w-5 h-5 text-warning" />;
+      case 'pledge_reached':
+      case 'pledge_claimed':
+      case 'pledge_fulfilled':
+      case 'pledge_declined':
+        return <Gift className="w-5 h-5 text-gold" />;
       case 'inspiration':
         return <Sparkles className="w-5 h-5 text-gold" />;
       case 'practice':
@@ -0,0 +1,44 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { CloudOff, RefreshCw, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+
+// Floating pill shown while offline or while submissions are waiting to sync
+export function OfflineStatusBar() {
+  const { isOnline, pendingCount, isSyncing, syncNow } = useOfflineSync();
+  const visible = !isOnline || pendingCount > 0;
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          role="status"
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-full border border-border bg-card px-4 py-2 text-sm shadow-lg"
+        >
+          {isOnline ? (
+            <CloudOff className="w-4 h-4 text-warning" />
+          ) : (
+            <WifiOff className="w-4 h-4 text-destructive" />
+          )}
+          <span className="font-medium">
+            {isOnline ? "Back online" : "You're offline"}
+            {pendingCount > 0 && (
+              <span className="text-muted-foreground">
+                {" "}· {pendingCount} {pendingCount === 1 ? "update" : "updates"} waiting to sync
+              </span>
+            )}
+          </span>
+          {isOnline && pendingCount > 0 && (
+            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={syncNow} disabled={isSyncing}>
+              <RefreshCw className={`w-3.5 h-3.5 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+              Sync now
+            </Button>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * ParentAlertSettings
+ *
+ * The alerts a parent has opted into for each child: which events, through
+ * which channels, the low-score threshold, and quiet hours during which
+ * email waits until morning. Everything starts off until the parent turns
+ * it on.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { BellRing, Loader2, Moon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useParentAlertRules } from "@/hooks/queries/useParentAlerts";
+import { useSaveParentAlertRules } from "@/hooks/mutations/useParentAlerts";
+import {
+  defaultAlertRule,
+  PARENT_ALERT_KINDS,
+  type AlertChannel,
+  type ParentAlertKind,
+  type ParentAlertRule,
+} from "@/lib/parentAlerts";
+
+interface ParentAlertSettingsProps {
+  students: { studentId: string; name: string }[];
+}
+
+const KINDS = Object.keys(PARENT_ALERT_KINDS) as ParentAlertKind[];
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+};
+
+export function ParentAlertSettings({ students }: ParentAlertSettingsProps) {
+  const { toast } = useToast();
+  const { data: savedRules, isLoading } = useParentAlertRules();
+  const saveRules = useSaveParentAlertRules();
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // Every child gets a rule for every kind, saved or not
+  const rulesByStudent = useMemo(() => {
+    const result: Record<string, ParentAlertRule[]> = {};
+    for (const { studentId } of students) {
+      result[studentId] = KINDS.map(
+        (kind) =>
+          savedRules?.find((r) => r.studentId === studentId && r.kind === kind) ??
+          defaultAlertRule(studentId, kind, timeZone)
+      );
+    }
+    return result;
+  }, [students, savedRules, timeZone]);
+
+  const [drafts, setDrafts] = useState<Record<string, ParentAlertRule[]>>({});
+  const [savingFor, setSavingFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(rulesByStudent);
+  }, [rulesByStudent]);
+
+  if (isLoading || students.length === 0) return null;
+
+  const updateRule = (studentId: string, kind: ParentAlertKind, changes: Partial<ParentAlertRule>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [studentId]: prev[studentId].map((rule) => (rule.kind === kind ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  // Quiet hours are set once per child and apply to all of that child's rules
+  const updateQuietHours = (studentId: string, changes: Pick<Partial<ParentAlertRule>, "quietStart" | "quietEnd">) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [studentId]: prev[studentId].map((rule) => ({ ...rule, ...changes, timeZone })),
+    }));
+  };
+
+  const toggleChannel = (rule: ParentAlertRule, channel: AlertChannel, on: boolean) => {
+    const channels = on ? [...rule.channels, channel] : rule.channels.filter((c) => c !== channel);
+    updateRule(rule.studentId, rule.kind, { channels });
+  };
+
+  const handleSave = (studentId: string, name: string) => {
+    setSavingFor(studentId);
+    saveRules.mutate(drafts[studentId], {
+      onSuccess: () => toast({ title: "Alerts saved", description: `Alert settings for ${name} are updated.` }),
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      onSettled: () => setSavingFor(null),
+    });
+  };
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <h2 className="text-lg font-bold text-foreground mb-4 flex items-center gap-2">
+        <BellRing className="w-5 h-5 text-primary" />
+        Alerts
+      </h2>
+      <div className="space-y-4">
+        {students.map(({ studentId, name }) => {
+          const rules = drafts[studentId];
+          if (!rules) return null;
+          const dirty = JSON.stringify(rules) !== JSON.stringify(rulesByStudent[studentId]);
+          const invalid = rules.some((rule) => rule.enabled && rule.channels.length === 0);
+
+          return (
+            <div key={studentId} className="bg-card rounded-2xl border border-border p-5 space-y-4">
+              <h3 className="font-semibold text-foreground">{name}</h3>
+
+              <div className="divide-y divide-border">
+                {rules.map((rule) => {
+                  const meta = PARENT_ALERT_KINDS[rule.kind];
+                  const switchId = `alert-${studentId}-${rule.kind}`;
+                  return (
+                    <div key={rule.kind} className="py-3 flex flex-wrap items-center gap-4">
+                      <div className="flex items-start gap-3 flex-1 min-w-[12rem]">
+                        <Switch
+                          id={switchId}
+                          checked={rule.enabled}
+                          onCheckedChange={(enabled) => updateRule(studentId, rule.kind, { enabled })}
+                        />
+                        <div>
+                          <Label htmlFor={switchId}>{meta.label}</Label>
+                          <p className="text-xs text-muted-foreground">{meta.description}</p>
+                        </div>
+                      </div>
+
+                      {rule.kind === "low_score" && (
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`${switchId}-threshold`} className="text-xs text-muted-foreground">
+                            Below
+                          </Label>
+                          <Input
+                            id={`${switchId}-threshold`}
+                            type="number"
+                            min={1}
+                            max={100}
+                            className="w-20 h-8"
+                            disabled={!rule.enabled}
+                            value={rule.threshold ?? ""}
+                            onChange={(e) =>
+                              updateRule(studentId, rule.kind, {
+                                threshold: e.target.value === "" ? null : Math.min(100, Math.max(1, Number(e.target.value))),
+                              })
+                            }
+                          />
+                          <span className="text-xs text-muted-foreground">%</span>
+                        </div>
+                      )}
+
+                      <div className="flex items-center gap-4">
+                        {(Object.keys(CHANNEL_LABELS) as AlertChannel[]).map((channel) => (
+                          <div key={channel} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`${switchId}-${channel}`}
+                              checked={rule.channels.includes(channel)}
+                              disabled={!rule.enabled}
+                              onCheckedChange={(checked) => toggleChannel(rule, channel, checked === true)}
+                            />
+                            <Label htmlFor={`${switchId}-${channel}`} className="text-sm">
+                              {CHANNEL_LABELS[channel]}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor={`quiet-start-${studentId}`} className="flex items-center gap-1 text-sm">
+                    <Moon className="w-4 h-4" />
+                    Quiet from
+                  </Label>
+                  <Input
+                    id={`quiet-start-${studentId}`}
+                    type="time"
+                    className="w-32"
+                    value={rules[0].quietStart ?? ""}
+                    onChange={(e) => updateQuietHours(studentId, { quietStart: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`quiet-end-${studentId}`} className="text-sm">
+                    until
+                  </Label>
+                  <Input
+                    id={`quiet-end-${studentId}`}
+                    type="time"
+                    className="w-32"
+                    value={rules[0].quietEnd ?? ""}
+                    onChange={(e) => updateQuietHours(studentId, { quietEnd: e.target.value || null })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground flex-1 min-w-[12rem]">
+                  Email raised during quiet hours is sent when they end. In-app alerts still arrive.
+                </p>
+                <Button
+                  size="sm"
+                  onClick={() => handleSave(studentId, name)}
+                  disabled={!dirty || invalid || savingFor === studentId}
+                >
+                  {savingFor === studentId && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+              {invalid && (
+                <p className="text-xs text-destructive">Pick at least one channel for each alert that is on.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </motion.section>
+  );
+}
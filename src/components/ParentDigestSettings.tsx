@@ -0,0 +1,236 @@
+/**
+ * ParentDigestSettings
+ *
+ * How often the parent gets the progress digest, in which language and
+ * through which channels, with a preview rendered locally exactly as the
+ * email will look. With no linked children the preview uses sample data.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Eye, Loader2, Mail, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useParentDigestPreview, useParentDigestSettings } from "@/hooks/queries/useParentDigest";
+import { useSaveParentDigestSettings, useSendParentDigest } from "@/hooks/mutations/useParentDigest";
+import { languages, type LanguageCode } from "@/i18n/languages";
+import {
+  renderDigestHtml,
+  renderDigestSubject,
+  sampleParentDigest,
+  type DigestCadence,
+} from "@/lib/parentDigest";
+import type { SaveDigestSettingsParams } from "@/lib/api/parentDigest";
+
+const CADENCE_LABELS: Record<DigestCadence, string> = {
+  weekly: "Every week",
+  biweekly: "Every two weeks",
+  monthly: "Every month",
+  off: "Never",
+};
+
+export function ParentDigestSettings() {
+  const { toast } = useToast();
+  const { data: settings, isLoading } = useParentDigestSettings();
+  const saveSettings = useSaveParentDigestSettings();
+  const sendDigest = useSendParentDigest();
+
+  const [draft, setDraft] = useState<SaveDigestSettingsParams | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => {
+    if (settings) {
+      setDraft({
+        cadence: settings.cadence,
+        language: settings.language,
+        emailEnabled: settings.emailEnabled,
+        inAppEnabled: settings.inAppEnabled,
+      });
+    }
+  }, [settings]);
+
+  const previewCadence = draft?.cadence === "off" ? "weekly" : draft?.cadence ?? "weekly";
+  const previewLanguage = draft?.language ?? "en";
+  const { data: digest, isLoading: previewLoading } = useParentDigestPreview(
+    previewCadence,
+    previewLanguage,
+    showPreview
+  );
+
+  const isSample = !!digest && digest.children.length === 0;
+  const previewDigest = useMemo(
+    () => (digest && !isSample ? digest : sampleParentDigest(previewLanguage, new Date())),
+    [digest, isSample, previewLanguage]
+  );
+
+  if (isLoading || !draft || !settings) return null;
+
+  const dirty =
+    draft.cadence !== settings.cadence ||
+    draft.language !== settings.language ||
+    draft.emailEnabled !== settings.emailEnabled ||
+    draft.inAppEnabled !== settings.inAppEnabled;
+
+  const handleSave = () => {
+    saveSettings.mutate(draft, {
+      onSuccess: () => toast({ title: "Digest settings saved" }),
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleSendNow = () => {
+    sendDigest.mutate(
+      { force: true },
+      {
+        onSuccess: (result) => {
+          toast({
+            title: result.sent ? "Digest sent" : "Nothing to send",
+            description: result.sent
+              ? [result.email && "by email", result.inApp && "in the app"].filter(Boolean).join(" and ")
+              : "Link a child first, or turn on email or in-app delivery.",
+          });
+        },
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.35 }}
+    >
+      <h2 className="text-lg font-bold text-foreground mb-4 flex items-center gap-2">
+        <Mail className="w-5 h-5 text-primary" />
+        Progress Digest
+      </h2>
+      <div className="bg-card rounded-2xl border border-border p-5 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          A summary of XP, assignments, streaks, badges, standards and teacher notes for each child.
+          {settings.lastSentAt && ` Last sent ${new Date(settings.lastSentAt).toLocaleDateString()}.`}
+        </p>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>How often</Label>
+            <Select
+              value={draft.cadence}
+              onValueChange={(cadence) => setDraft({ ...draft, cadence: cadence as DigestCadence })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CADENCE_LABELS) as DigestCadence[]).map((cadence) => (
+                  <SelectItem key={cadence} value={cadence}>
+                    {CADENCE_LABELS[cadence]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Language</Label>
+            <Select
+              value={draft.language}
+              onValueChange={(language) => setDraft({ ...draft, language: language as LanguageCode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languages.map((language) => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.flag} {language.nativeName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="digest-email"
+              checked={draft.emailEnabled}
+              onCheckedChange={(emailEnabled) => setDraft({ ...draft, emailEnabled })}
+            />
+            <Label htmlFor="digest-email">Email</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="digest-in-app"
+              checked={draft.inAppEnabled}
+              onCheckedChange={(inAppEnabled) => setDraft({ ...draft, inAppEnabled })}
+            />
+            <Label htmlFor="digest-in-app">In-app notification</Label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={handleSave} disabled={!dirty || saveSettings.isPending}>
+            {saveSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setShowPreview(true)}>
+            <Eye className="w-4 h-4 mr-2" />
+            Preview
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={showPreview} onOpenChange={setShowPreview}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{renderDigestSubject(previewDigest)}</DialogTitle>
+            <DialogDescription>
+              {isSample
+                ? "No linked children yet, so this preview uses sample data."
+                : "Rendered here from this period's data. Nothing is sent until you choose Send now."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {previewLoading ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <iframe
+              title="Digest preview"
+              srcDoc={renderDigestHtml(previewDigest)}
+              sandbox=""
+              className="w-full h-[60vh] rounded-lg border border-border bg-white"
+            />
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPreview(false)}>
+              Close
+            </Button>
+            <Button onClick={handleSendNow} disabled={isSample || sendDigest.isPending || dirty}>
+              {sendDigest.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Send now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </motion.section>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * ParentLinkCode
+ *
+ * Lets a student create a one-time code to give a parent, who enters it on
+ * the Parent Dashboard. The link still needs the teacher's approval.
+ */
+
+import { motion } from "framer-motion";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Copy, KeyRound, Loader2, RefreshCw } from "lucide-react";
+import { useMyParentLinkCode } from "@/hooks/queries/useParentLinks";
+import { useGenerateParentLinkCode } from "@/hooks/mutations/useParentLinks";
+
+export function ParentLinkCode() {
+  const { data: linkCode, isLoading } = useMyParentLinkCode();
+  const generateCode = useGenerateParentLinkCode();
+
+  const handleGenerate = () => {
+    generateCode.mutate(undefined, {
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!linkCode) return;
+    try {
+      await navigator.clipboard.writeText(linkCode.code);
+      toast.success("Code copied");
+    } catch {
+      toast.error("Couldn't copy the code");
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="bg-card rounded-2xl p-6 border border-border"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <KeyRound className="w-5 h-5 text-primary" />
+        <h3 className="font-bold text-lg text-foreground">Parent Link Code</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Give this code to a parent or guardian so they can follow your progress. Your teacher
+        approves the link before they see anything.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : linkCode ? (
+        <div className="flex items-center justify-between gap-4 p-3 bg-muted rounded-xl">
+          <div>
+            <p className="font-mono text-2xl font-bold tracking-widest text-foreground">{linkCode.code}</p>
+            <p className="text-xs text-muted-foreground">
+              Expires {formatDistanceToNow(new Date(linkCode.expiresAt), { addSuffix: true })}, works once
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="icon" variant="outline" onClick={handleCopy} aria-label="Copy code">
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="outline"
+              onClick={handleGenerate}
+              disabled={generateCode.isPending}
+              aria-label="New code"
+            >
+              <RefreshCw className={`w-4 h-4 ${generateCode.isPending ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={handleGenerate} disabled={generateCode.isPending}>
+          {generateCode.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Create Code
+        </Button>
+      )}
+    </motion.div>
+  );
+}
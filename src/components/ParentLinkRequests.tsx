@@ -0,0 +1,96 @@
+/**
+ * ParentLinkRequests
+ *
+ * Pending parent link requests for the signed-in teacher's students, with
+ * approve and reject. Renders nothing when there are none.
+ */
+
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check, Loader2, UserPlus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePendingParentLinks } from "@/hooks/queries/useParentLinks";
+import { useReviewParentLink } from "@/hooks/mutations/useParentLinks";
+
+export function ParentLinkRequests() {
+  const { toast } = useToast();
+  const { data: requests = [] } = usePendingParentLinks();
+  const reviewLink = useReviewParentLink();
+
+  if (requests.length === 0) return null;
+
+  const handleReview = (linkId: string, approve: boolean, parentName: string) => {
+    reviewLink.mutate(
+      { linkId, approve },
+      {
+        onSuccess: () => {
+          toast({
+            title: approve ? "Link approved" : "Link rejected",
+            description: approve
+              ? `${parentName} can now see their child's progress.`
+              : `${parentName} has been told the request was not approved.`,
+          });
+        },
+        onError: (error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <UserPlus className="w-5 h-5 text-primary" />
+          Parent Link Requests
+        </CardTitle>
+        <CardDescription>
+          Approve only if you can confirm the relationship. Approved parents see the student's progress.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => {
+          const reviewing = reviewLink.isPending && reviewLink.variables?.linkId === request.id;
+          return (
+            <div
+              key={request.id}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border p-3"
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-foreground truncate">
+                  {request.parentName} <span className="text-muted-foreground font-normal">→</span>{" "}
+                  {request.studentName}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {request.relationship} · requested{" "}
+                  {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReview(request.id, false, request.parentName)}
+                  disabled={reviewing}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleReview(request.id, true, request.parentName)}
+                  disabled={reviewing}
+                >
+                  {reviewing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Check className="w-4 h-4 mr-1" />}
+                  Approve
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * PledgeActions
+ *
+ * The parent's answer to a claimed pledge: mark the reward given, or
+ * decline it with a reason the child will see.
+ */
+
+import { useState } from "react";
+import { Gift, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useTransitionPledge } from "@/hooks/mutations/usePledges";
+import { canTransition } from "@/lib/pledges";
+import type { Pledge } from "@/lib/api/pledges";
+
+interface PledgeActionsProps {
+  pledge: Pledge;
+}
+
+export function PledgeActions({ pledge }: PledgeActionsProps) {
+  const { toast } = useToast();
+  const transitionPledge = useTransitionPledge();
+  const [showDecline, setShowDecline] = useState(false);
+  const [reason, setReason] = useState("");
+
+  if (!canTransition(pledge.status, "fulfilled", "parent")) return null;
+
+  const handleFulfill = () => {
+    transitionPledge.mutate(
+      { kind: pledge.kind, pledgeId: pledge.id, to: "fulfilled" },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Reward Marked as Given! ✅",
+            description: "Great job following through on your pledge!",
+          });
+        },
+        onError: (error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  const handleDecline = () => {
+    transitionPledge.mutate(
+      { kind: pledge.kind, pledgeId: pledge.id, to: "declined", note: reason.trim() },
+      {
+        onSuccess: () => {
+          toast({ title: "Pledge Declined", description: `${pledge.studentName} will see your reason.` });
+          setShowDecline(false);
+          setReason("");
+        },
+        onError: (error) => {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        },
+      }
+    );
+  };
+
+  return (
+    <>
+      <Button size="sm" className="text-xs" disabled={transitionPledge.isPending} onClick={handleFulfill}>
+        <Gift className="w-3 h-3 mr-1" />
+        Mark Given
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="text-xs"
+        disabled={transitionPledge.isPending}
+        onClick={() => setShowDecline(true)}
+      >
+        <XCircle className="w-3 h-3 mr-1" />
+        Decline
+      </Button>
+
+      <Dialog open={showDecline} onOpenChange={setShowDecline}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Decline Pledge</DialogTitle>
+            <DialogDescription>
+              Let {pledge.studentName} know why "{pledge.rewardDescription}" won't be given.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="e.g., Let's pick a different reward together"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDecline(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDecline}
+              disabled={!reason.trim() || transitionPledge.isPending}
+            >
+              {transitionPledge.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Decline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
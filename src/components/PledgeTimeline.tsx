@@ -0,0 +1,38 @@
+/**
+ * PledgeTimeline
+ *
+ * A pledge's history, one line per move: when it was made, when the goal
+ * was reached, claimed, and given or declined (with the reason).
+ */
+
+import { format } from "date-fns";
+import { PLEDGE_STATUS_LABELS } from "@/lib/pledges";
+import type { Pledge } from "@/lib/api/pledges";
+import { cn } from "@/lib/utils";
+
+interface PledgeTimelineProps {
+  pledge: Pledge;
+  className?: string;
+}
+
+export function PledgeTimeline({ pledge, className }: PledgeTimelineProps) {
+  const steps = [
+    { label: "Pledged", at: pledge.createdAt, note: null as string | null },
+    ...pledge.events.map((event) => ({
+      label: PLEDGE_STATUS_LABELS[event.to],
+      at: event.at,
+      note: event.note,
+    })),
+  ];
+
+  return (
+    <ol className={cn("space-y-1 border-l border-border pl-3 text-xs text-muted-foreground", className)}>
+      {steps.map((step, index) => (
+        <li key={`${step.label}-${step.at}`} className={cn(index === steps.length - 1 && "text-foreground")}>
+          <span className="font-medium">{step.label}</span> · {format(new Date(step.at), "MMM d, h:mm a")}
+          {step.note && <span className="block italic">"{step.note}"</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -20,8 +20,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { supabase } from "@/integrations/supabase/client";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
+import { useDeductPoints, useUndoPointDeduction } from "@/hooks/mutations/useClassroomActions";
 
 interface Student {
   id: string;
@@ -56,9 +57,25 @@ export function PointDeductionDialog({
   const [points, setPoints] = useState<number>(5);
   const [selectedReason, setSelectedReason] = useState<string>("");
   const [customReason, setCustomReason] = useState<string>("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const deductPoints = useDeductPoints();
+  const undoDeduction = useUndoPointDeduction(classId);
+  const isSubmitting = deductPoints.isPending;
   const { toast } = useToast();
 
+  const handleUndo = async (deductionId: string) => {
+    try {
+      await undoDeduction.mutateAsync(deductionId);
+      toast({ title: "Deduction undone", description: "The points have been restored." });
+      onDeductionComplete?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to undo the deduction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeduct = async () => {
     const reason = selectedReason === "Other (custom reason)" ? customReason : selectedReason;
     
@@ -71,39 +88,23 @@ export function PointDeductionDialog({
       return;
     }
 
-    setIsSubmitting(true);
-
     try {
-      const { error } = await supabase.rpc("deduct_student_points", {
-        p_student_id: selectedStudent,
-        p_class_id: classId,
-        p_points: points,
-        p_reason: reason,
+      const deductionId = await deductPoints.mutateAsync({
+        classId,
+        studentId: selectedStudent,
+        studentName: students.find((s) => s.id === selectedStudent)?.full_name,
+        points,
+        reason,
       });
 
-      if (error) throw error;
-
-      // Notify parents via edge function
-      try {
-        const student = students.find((s) => s.id === selectedStudent);
-        await supabase.functions.invoke("send-parent-notification", {
-          body: {
-            type: "points_deducted",
-            student_id: selectedStudent,
-            data: {
-              points_deducted: points,
-              reason: reason,
-              student_name: student?.full_name,
-            },
-          },
-        });
-      } catch (notifyError) {
-        console.log("Parent notification failed:", notifyError);
-      }
-
       toast({
         title: "Points Deducted",
         description: `${points} points deducted. The student and parents have been notified.`,
+        action: (
+          <ToastAction altText="Undo deduction" onClick={() => handleUndo(deductionId)}>
+            Undo
+          </ToastAction>
+        ),
       });
 
       setOpen(false);
@@ -119,8 +120,6 @@ export function PointDeductionDialog({
         description: "Failed to deduct points. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -1,4 +1,11 @@
-import { useState, useEffect } from "react";
+/**
+ * PointPledgeManager
+ *
+ * A parent's coin pledges: create them, follow progress, and give or
+ * decline a reward once the child claims it.
+ */
+
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   Gift, 
@@ -30,8 +37,13 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { supabase } from "@/integrations/supabase/client";
+import { PledgeActions } from "@/components/PledgeActions";
+import { PledgeTimeline } from "@/components/PledgeTimeline";
 import { useToast } from "@/hooks/use-toast";
+import { useParentPledges } from "@/hooks/queries/usePledges";
+import { useCreatePointPledge, useDeletePledge } from "@/hooks/mutations/usePledges";
+import { PLEDGE_STATUS_LABELS } from "@/lib/pledges";
+import type { Pledge } from "@/lib/api/pledges";
 
 interface Student {
   id: string;
@@ -40,24 +52,8 @@ interface Student {
   coins: number;
 }
 
-interface PointPledge {
-  id: string;
-  student_id: string;
-  coin_threshold: number;
-  reward_description: string;
-  reward_type: string;
-  bonus_coins: number;
-  is_active: boolean;
-  claimed: boolean;
-  claimed_at: string | null;
-  created_at: string;
-  student_name?: string;
-  current_coins?: number;
-}
-
 interface PointPledgeManagerProps {
   students: Student[];
-  onPledgeChange?: () => void;
 }
 
 const REWARD_SUGGESTIONS = [
@@ -72,12 +68,14 @@ const REWARD_SUGGESTIONS = [
 
 const THRESHOLD_PRESETS = [50, 100, 250, 500, 1000];
 
-export function PointPledgeManager({ students, onPledgeChange }: PointPledgeManagerProps) {
+export function PointPledgeManager({ students }: PointPledgeManagerProps) {
   const { toast } = useToast();
-  const [pledges, setPledges] = useState<PointPledge[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: allPledges = [], isLoading: loading } = useParentPledges();
+  const pledges = allPledges.filter((pledge) => pledge.kind === "point");
+  const createPledge = useCreatePointPledge();
+  const deletePledge = useDeletePledge();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [creating, setCreating] = useState(false);
+  const creating = createPledge.isPending;
   
   // Form state
   const [selectedStudent, setSelectedStudent] = useState<string>("");
@@ -87,56 +85,7 @@ export function PointPledgeManager({ students, onPledgeChange }: PointPledgeMana
   const [customReward, setCustomReward] = useState<string>("");
   const [bonusCoins, setBonusCoins] = useState<number>(0);
 
-  useEffect(() => {
-    fetchPledges();
-  }, []);
-
-  const fetchPledges = async () => {
-    try {
-      setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('parent_point_pledges')
-        .select('*')
-        .eq('parent_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // Enrich with student names and current coins
-      const enrichedPledges = await Promise.all(
-        (data || []).map(async (pledge) => {
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('id', pledge.student_id)
-            .single();
-          
-          const { data: studentProfile } = await supabase
-            .from('student_profiles')
-            .select('coins')
-            .eq('user_id', pledge.student_id)
-            .single();
-
-          return {
-            ...pledge,
-            student_name: profile?.full_name || 'Unknown',
-            current_coins: studentProfile?.coins || 0,
-          };
-        })
-      );
-
-      setPledges(enrichedPledges);
-    } catch (error) {
-      console.error('Error fetching pledges:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleCreatePledge = async () => {
+  const handleCreatePledge = () => {
     const finalThreshold = customThreshold ? parseInt(customThreshold) : threshold;
     const rewardDesc = rewardType === 'custom' 
       ? customReward 
@@ -151,88 +100,53 @@ export function PointPledgeManager({ students, onPledgeChange }: PointPledgeMana
       return;
     }
 
-    setCreating(true);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      const { error } = await supabase.from('parent_point_pledges').insert({
-        parent_id: user.id,
-        student_id: selectedStudent,
-        coin_threshold: finalThreshold,
-        reward_description: rewardDesc,
-        reward_type: rewardType || 'custom',
-        bonus_coins: bonusCoins,
-      });
-
-      if (error) throw error;
-
-      toast({
-        title: "Reward Pledge Created! 🎁",
-        description: `Your child will be notified when they reach ${finalThreshold} coins!`,
-      });
-
-      setShowCreateDialog(false);
-      resetForm();
-      fetchPledges();
-      onPledgeChange?.();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to create pledge",
-        variant: "destructive",
-      });
-    } finally {
-      setCreating(false);
-    }
+    createPledge.mutate(
+      {
+        studentId: selectedStudent,
+        coinThreshold: finalThreshold,
+        rewardDescription: rewardDesc,
+        rewardType: rewardType || 'custom',
+        bonusCoins,
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Reward Pledge Created! 🎁",
+            description: `Your child will be notified when they reach ${finalThreshold} coins!`,
+          });
+          setShowCreateDialog(false);
+          resetForm();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to create pledge",
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
-  const handleClaimPledge = async (pledgeId: string) => {
-    try {
-      const { error } = await supabase
-        .from('parent_point_pledges')
-        .update({ claimed: true, claimed_at: new Date().toISOString() })
-        .eq('id', pledgeId);
-
-      if (error) throw error;
-
-      toast({
-        title: "Reward Marked as Given! ✅",
-        description: "Great job following through on your pledge!",
-      });
-      fetchPledges();
-      onPledgeChange?.();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to update pledge",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const handleDeletePledge = async (pledgeId: string) => {
-    try {
-      const { error } = await supabase
-        .from('parent_point_pledges')
-        .delete()
-        .eq('id', pledgeId);
-
-      if (error) throw error;
-
-      toast({
-        title: "Pledge Removed",
-        description: "The reward pledge has been deleted",
-      });
-      fetchPledges();
-      onPledgeChange?.();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete pledge",
-        variant: "destructive",
-      });
-    }
+  const handleDeletePledge = (pledge: Pledge) => {
+    deletePledge.mutate(
+      { kind: pledge.kind, pledgeId: pledge.id },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Pledge Removed",
+            description: "The reward pledge has been deleted",
+          });
+        },
+        onError: () => {
+          toast({
+            title: "Error",
+            description: "Failed to delete pledge",
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
   const resetForm = () => {
@@ -244,10 +158,6 @@ export function PointPledgeManager({ students, onPledgeChange }: PointPledgeMana
     setBonusCoins(0);
   };
 
-  const getProgressPercent = (current: number, target: number) => {
-    return Math.min(100, Math.round((current / target) * 100));
-  };
-
   const selectedStudentData = students.find(s => s.student_id === selectedStudent);
 
   return (
@@ -280,8 +190,9 @@ export function PointPledgeManager({ students, onPledgeChange }: PointPledgeMana
         <div className="grid gap-4 md:grid-cols-2">
           <AnimatePresence mode="popLayout">
             {pledges.map((pledge) => {
-              const progress = getProgressPercent(pledge.current_coins || 0, pledge.coin_threshold);
-              const isReached = (pledge.current_coins || 0) >= pledge.coin_threshold;
+              const { current, target, percent: progress } = pledge.progress;
+              const isReached = pledge.status !== "active";
+              const isClosed = pledge.status === "fulfilled" || pledge.status === "declined";
               
               return (
                 <motion.div
@@ -291,64 +202,61 @@ export function PointPledgeManager({ students, onPledgeChange }: PointPledgeMana
                   animate={{ opacity: 1, scale: 1 }}
                   exit={{ opacity: 0, scale: 0.95 }}
                   className={`bg-card rounded-2xl p-5 border shadow-sm ${
-                    pledge.claimed 
+                    pledge.status === "fulfilled"
                       ? 'border-success/30 bg-success/5' 
-                      : isReached
+                      : pledge.status === "declined"
+                      ? 'border-border opacity-70'
+                      : pledge.status === "claimed"
                       ? 'border-primary/50 bg-primary/5 ring-2 ring-primary/20'
                       : 'border-border'
                   }`}
                 >
                   <div className="flex items-start justify-between gap-3 mb-3">
                     <div>
-                      <div className="flex items-center gap-2 mb-1">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
                         <span className="text-lg">
-                          {REWARD_SUGGESTIONS.find(r => r.type === pledge.reward_type)?.icon || '🎁'}
+                          {REWARD_SUGGESTIONS.find(r => r.type === pledge.rewardType)?.icon || '🎁'}
                         </span>
                         <span className="font-bold text-foreground">
-                          {pledge.reward_description}
+                          {pledge.rewardDescription}
                         </span>
-                        {pledge.claimed && (
+                        {pledge.status === "fulfilled" && (
                           <span className="text-xs bg-success/20 text-success px-2 py-0.5 rounded-full">
                             Given ✓
                           </span>
                         )}
-                        {isReached && !pledge.claimed && (
+                        {pledge.status === "claimed" && (
                           <motion.span 
                             initial={{ scale: 0 }}
                             animate={{ scale: 1 }}
                             className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full flex items-center gap-1"
                           >
                             <Sparkles className="w-3 h-3" />
-                            Ready!
+                            Claimed!
                           </motion.span>
                         )}
+                        {(pledge.status === "reached" || pledge.status === "declined") && (
+                          <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded-full">
+                            {PLEDGE_STATUS_LABELS[pledge.status]}
+                          </span>
+                        )}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        For: <span className="font-medium">{pledge.student_name}</span>
-                        {pledge.bonus_coins > 0 && (
+                        For: <span className="font-medium">{pledge.studentName}</span>
+                        {pledge.bonusCoins > 0 && (
                           <span className="ml-2 text-gold font-medium">
-                            +{pledge.bonus_coins} bonus coins
+                            +{pledge.bonusCoins} bonus coins
                           </span>
                         )}
                       </p>
                     </div>
                     <div className="flex flex-col gap-1">
-                      {isReached && !pledge.claimed && (
-                        <Button
-                          size="sm"
-                          variant="default"
-                          className="text-xs"
-                          onClick={() => handleClaimPledge(pledge.id)}
-                        >
-                          <Gift className="w-3 h-3 mr-1" />
-                          Mark Given
-                        </Button>
-                      )}
+                      <PledgeActions pledge={pledge} />
                       <Button
                         size="sm"
                         variant="ghost"
                         className="text-xs text-muted-foreground hover:text-destructive"
-                        onClick={() => handleDeletePledge(pledge.id)}
+                        onClick={() => handleDeletePledge(pledge)}
                       >
                         <Trash2 className="w-3 h-3" />
                       </Button>
@@ -356,26 +264,32 @@ export function PointPledgeManager({ students, onPledgeChange }: PointPledgeMana
                   </div>
 
                   {/* Progress Section */}
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-1 text-muted-foreground">
-                        <Coins className="w-4 h-4 text-gold" />
-                        <span>{pledge.current_coins || 0} / {pledge.coin_threshold}</span>
+                  {!isClosed && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <div className="flex items-center gap-1 text-muted-foreground">
+                          <Coins className="w-4 h-4 text-gold" />
+                          <span>{current} / {target}</span>
+                        </div>
+                        <span className={`font-bold ${isReached ? 'text-success' : 'text-primary'}`}>
+                          {progress}%
+                        </span>
                       </div>
-                      <span className={`font-bold ${isReached ? 'text-success' : 'text-primary'}`}>
-                        {progress}%
-                      </span>
-                    </div>
-                    <Progress 
-                      value={progress} 
-                      className={`h-3 ${isReached ? '[&>div]:bg-success' : ''}`}
-                    />
-                    {!isReached && (
+                      <Progress 
+                        value={progress} 
+                        className={`h-3 ${isReached ? '[&>div]:bg-success' : ''}`}
+                      />
                       <p className="text-xs text-muted-foreground text-center">
-                        {pledge.coin_threshold - (pledge.current_coins || 0)} more coins needed
+                        {pledge.status === "active"
+                          ? `${target - current} more coins needed`
+                          : pledge.status === "reached"
+                          ? `Goal reached! Waiting for ${pledge.studentName} to claim it`
+                          : `${pledge.studentName} claimed this reward`}
                       </p>
-                    )}
-                  </div>
+                    </div>
+                  )}
+
+                  <PledgeTimeline pledge={pledge} className="mt-3" />
                 </motion.div>
               );
             })}
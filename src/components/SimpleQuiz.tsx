@@ -1,7 +1,8 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { MathText } from "@/components/MathText";
+import { MathInput } from "@/components/MathInput";
 import { ScholarBuddy } from "@/components/ScholarBuddy";
 import { ArrowLeft, ArrowRight, Check, Send, Loader2, Star } from "lucide-react";
 import { DragOrderQuestion } from "./quiz/DragOrderQuestion";
@@ -11,7 +12,7 @@ import { FillBlankQuestion } from "./quiz/FillBlankQuestion";
 export interface QuizQuestion {
   id: string;
   prompt: string;
-  question_type: "multiple_choice" | "short_answer" | "drag_order" | "matching" | "fill_blank";
+  question_type: "multiple_choice" | "short_answer" | "numeric" | "drag_order" | "matching" | "fill_blank";
   options?: string[];
   // For drag_order: ordered array of items (correct order)
   // For matching: array of {left, right} pairs
@@ -80,7 +81,7 @@ export function SimpleQuiz({
     if (currentIndex > 0) {
       setCurrentIndex(prev => prev - 1);
       const prevQuestion = questions[currentIndex - 1];
-      if (prevQuestion.question_type === "short_answer" && answers[prevQuestion.id]) {
+      if ((prevQuestion.question_type === "short_answer" || prevQuestion.question_type === "numeric") && answers[prevQuestion.id]) {
         setShortAnswerInput(answers[prevQuestion.id]);
       }
     }
@@ -99,6 +100,7 @@ export function SimpleQuiz({
     switch (type) {
       case "multiple_choice": return "🔘";
       case "short_answer": return "✏️";
+      case "numeric": return "🔢";
       case "drag_order": return "↕️";
       case "matching": return "🔗";
       case "fill_blank": return "📝";
@@ -198,9 +200,9 @@ export function SimpleQuiz({
                 <span className="flex-shrink-0 w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center font-bold text-sm">
                   {currentIndex + 1}
                 </span>
-                <h2 className="text-lg font-bold text-foreground leading-snug">
+                <MathText as="h2" className="text-lg font-bold text-foreground leading-snug">
                   {currentQuestion.prompt}
-                </h2>
+                </MathText>
               </div>
 
               {/* Multiple Choice */}
@@ -220,27 +222,24 @@ export function SimpleQuiz({
                         <span className="w-6 h-6 rounded-full border-2 flex items-center justify-center mr-3 flex-shrink-0">
                           {isSelected && <Check className="w-4 h-4" />}
                         </span>
-                        <span className="text-base">{option}</span>
+                        <MathText className="text-base">{option}</MathText>
                       </Button>
                     );
                   })}
                 </div>
               )}
 
-              {/* Short Answer */}
-              {currentQuestion.question_type === "short_answer" && (
+              {/* Short Answer and Numeric */}
+              {(currentQuestion.question_type === "short_answer" || currentQuestion.question_type === "numeric") && (
                 <div className="space-y-3">
-                  <div className="flex gap-2">
-                    <Input
+                  <div className="flex items-start gap-2">
+                    <MathInput
                       value={shortAnswerInput}
-                      onChange={(e) => setShortAnswerInput(e.target.value)}
+                      onChange={setShortAnswerInput}
+                      onSubmit={handleShortAnswerSubmit}
                       placeholder="Type your answer..."
-                      className="flex-1 h-12 text-base"
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter" && shortAnswerInput.trim()) {
-                          handleShortAnswerSubmit();
-                        }
-                      }}
+                      className="flex-1"
+                      inputClassName="h-12 text-base"
                     />
                     <Button
                       size="icon"
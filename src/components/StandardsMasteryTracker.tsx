@@ -2,6 +2,8 @@
  * StandardsMasteryTracker Component
  *
  * Detailed standards mastery view with subject breakdown.
+ * Mastery is derived from the Regents attempt log, falling back to the
+ * stored student_standard_mastery rows for standards with no logged attempts.
  * Refactored to use common design tokens.
  */
 
@@ -18,6 +20,8 @@ import {
 } from "@/components/ui/accordion";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { fetchRegentsAttempts } from "@/lib/api/regents";
+import { summarizeStandardProgress } from "@/lib/regentsProgress";
 import {
   getSubjectColors,
   MASTERY_COLORS,
@@ -29,7 +33,6 @@ import {
 // ============================================================================
 
 interface StandardMastery {
-  id: string;
   standard_id: string;
   attempts_count: number;
   correct_count: number;
@@ -89,15 +92,40 @@ export function StandardsMasteryTracker({
       setAllStandards(standards || []);
 
       if (studentId) {
-        const { data: mastery } = await supabase
-          .from("student_standard_mastery")
-          .select(`
-            *,
-            standard:nys_standards(code, subject, grade_band, domain, standard_text)
-          `)
-          .eq("student_id", studentId);
+        const [{ data: mastery }, attempts] = await Promise.all([
+          supabase
+            .from("student_standard_mastery")
+            .select(`
+              *,
+              standard:nys_standards(code, subject, grade_band, domain, standard_text)
+            `)
+            .eq("student_id", studentId),
+          fetchRegentsAttempts(studentId),
+        ]);
 
-        setMasteryData(mastery || []);
+        const progressByCode = new Map(
+          summarizeStandardProgress(attempts).map((p) => [p.standardCode, p])
+        );
+
+        const fromLog: StandardMastery[] = (standards || [])
+          .filter((standard) => progressByCode.has(standard.code))
+          .map((standard) => {
+            const progress = progressByCode.get(standard.code)!;
+            return {
+              standard_id: standard.id,
+              attempts_count: progress.questionsAttempted,
+              correct_count: progress.correctAnswers,
+              mastery_level: progress.masteryLevel,
+              last_attempt_at: progress.lastAttemptDate?.toISOString() ?? null,
+              mastered_at: null,
+            };
+          });
+        const loggedIds = new Set(fromLog.map((m) => m.standard_id));
+
+        setMasteryData([
+          ...fromLog,
+          ...(mastery || []).filter((m) => !loggedIds.has(m.standard_id)),
+        ]);
       }
     } catch (error) {
       console.error("Error fetching mastery data:", error);
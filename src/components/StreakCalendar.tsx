@@ -0,0 +1,71 @@
+/**
+ * StreakCalendar Component
+ *
+ * Heatmap of streak days: one column per week, Sunday at the top, shaded
+ * by how many qualifying activities the student finished that day.
+ */
+
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { StreakDay, StreakDayStatus } from "@/lib/streaks";
+
+interface StreakCalendarProps {
+  days: StreakDay[];
+  className?: string;
+}
+
+const STATUS_LABELS: Record<StreakDayStatus, string> = {
+  active: "Streak day",
+  shielded: "Saved by a shield",
+  missed: "Missed",
+  off: "No school",
+  today: "Today",
+  future: "",
+};
+
+function cellClass(day: StreakDay): string {
+  switch (day.status) {
+    case "active":
+      return day.activities >= 3 ? "bg-streak" : day.activities === 2 ? "bg-streak/70" : "bg-streak/40";
+    case "shielded":
+      return "bg-primary/50";
+    case "missed":
+      return "bg-destructive/25";
+    case "off":
+      return "bg-muted/50";
+    case "today":
+      return "bg-muted ring-2 ring-streak ring-offset-1 ring-offset-background";
+    case "future":
+      return "bg-transparent";
+  }
+}
+
+function dayLabel(day: StreakDay): string {
+  const date = format(new Date(`${day.day}T00:00`), "EEE, MMM d");
+  const activities = day.activities > 0 ? ` · ${day.activities} activit${day.activities === 1 ? "y" : "ies"}` : "";
+  return `${date}: ${STATUS_LABELS[day.status]}${activities}`;
+}
+
+export function StreakCalendar({ days, className }: StreakCalendarProps) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="grid grid-flow-col grid-rows-7 gap-1 w-max">
+        {days.map((day) => (
+          <div
+            key={day.day}
+            className={cn("w-3 h-3 rounded-sm", cellClass(day))}
+            title={day.status === "future" ? undefined : dayLabel(day)}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 text-[10px] text-muted-foreground">
+        {(["active", "shielded", "missed", "off"] as const).map((status) => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={cn("w-2.5 h-2.5 rounded-sm", cellClass({ day: "", status, activities: 1 }))} />
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
+import type { ReactNode } from "react";
 import { motion } from "framer-motion";
 import { Flame, Shield } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { StreakCalendar } from "@/components/StreakCalendar";
+import type { StreakDay } from "@/lib/streaks";
 
 interface StreakCounterProps {
   streak: number;
   hasShield?: boolean;
   size?: "sm" | "md" | "lg";
   className?: string;
+  /** When given, tapping the counter opens the streak heatmap */
+  calendar?: StreakDay[];
+  /** Shown under the heatmap, e.g. a shield purchase button */
+  calendarFooter?: ReactNode;
 }
 
 export function StreakCounter({
@@ -13,6 +21,8 @@ export function StreakCounter({
   hasShield = false,
   size = "md",
   className = "",
+  calendar,
+  calendarFooter,
 }: StreakCounterProps) {
   const sizeClasses = {
     sm: {
@@ -37,7 +47,7 @@ export function StreakCounter({
 
   const s = sizeClasses[size];
 
-  return (
+  const counter = (
     <motion.div
       className={`inline-flex items-center gap-2 bg-gradient-streak rounded-full ${s.container} shadow-glow-secondary ${className}`}
       whileHover={{ scale: 1.05 }}
@@ -84,4 +94,23 @@ export function StreakCounter({
       )}
     </motion.div>
   );
+
+  if (!calendar) return counter;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="rounded-full" aria-label="Show streak calendar">
+          {counter}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto space-y-3">
+        <p className="text-sm font-semibold">
+          {streak} day streak{hasShield && " · shield ready"}
+        </p>
+        <StreakCalendar days={calendar} />
+        {calendarFooter}
+      </PopoverContent>
+    </Popover>
+  );
 }
@@ -1,158 +1,120 @@
 /**
  * StudentRewardPledges Component
  *
- * Displays parent reward pledges that students can work toward.
- * Refactored to use common design tokens.
+ * Displays parent reward pledges that students can work toward, with a
+ * progress bar for each, and lets the student claim one once the goal is
+ * reached. Given and declined pledges stay listed for two weeks.
  */
 
-import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Gift, Coins, Target, Trophy, Sparkles } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Gift, Target, Trophy, Sparkles, Loader2, Hourglass, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { getRewardTypeIcon } from "@/components/common/tokens/colors";
 import { CoinBadge } from "@/components/common/StatBadge";
+import { useStudentPledges, type Pledge } from "@/hooks/queries/usePledges";
+import { useStudentProfile } from "@/hooks/queries/useStudentProfile";
+import { useTransitionPledge } from "@/hooks/mutations/usePledges";
+import { isPledgeOpen } from "@/lib/pledges";
 import { cn } from "@/lib/utils";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface PointPledge {
-  id: string;
-  coin_threshold: number;
-  reward_description: string;
-  reward_type: string;
-  parent_name: string;
-}
-
-interface BadgePledge {
-  id: string;
-  badge_id: string;
-  reward_description: string;
-  badge_name: string;
-  parent_name: string;
-  badge_earned: boolean;
-}
-
 interface StudentRewardPledgesProps {
   className?: string;
 }
 
-export function StudentRewardPledges({ className }: StudentRewardPledgesProps) {
-  const [pointPledges, setPointPledges] = useState<PointPledge[]>([]);
-  const [badgePledges, setBadgePledges] = useState<BadgePledge[]>([]);
-  const [currentCoins, setCurrentCoins] = useState(0);
-  const [earnedBadgeIds, setEarnedBadgeIds] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchPledgesAndProgress();
-  }, []);
-
-  const fetchPledgesAndProgress = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      setLoading(false);
-      return;
-    }
-
-    // Fetch student profile for current coins
-    const { data: studentProfile } = await supabase
-      .from('student_profiles')
-      .select('coins')
-      .eq('user_id', user.id)
-      .single();
-
-    if (studentProfile) {
-      setCurrentCoins(studentProfile.coins);
-    }
-
-    // Fetch earned badges
-    const { data: earnedBadges } = await supabase
-      .from('student_badges')
-      .select('badge_id')
-      .eq('student_id', user.id);
-
-    const earnedIds = earnedBadges?.map(b => b.badge_id) || [];
-    setEarnedBadgeIds(earnedIds);
-
-    // Fetch point-based pledges
-    const { data: pointPledgesData } = await supabase
-      .from('parent_point_pledges')
-      .select('id, coin_threshold, reward_description, reward_type, parent_id')
-      .eq('student_id', user.id)
-      .eq('is_active', true)
-      .eq('claimed', false)
-      .order('coin_threshold', { ascending: true });
-
-    if (pointPledgesData && pointPledgesData.length > 0) {
-      const enrichedPointPledges = await Promise.all(
-        pointPledgesData.map(async (pledge) => {
-          const { data: parent } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('id', pledge.parent_id)
-            .single();
+const CLOSED_VISIBLE_DAYS = 14;
 
-          return {
-            id: pledge.id,
-            coin_threshold: pledge.coin_threshold,
-            reward_description: pledge.reward_description,
-            reward_type: pledge.reward_type,
-            parent_name: parent?.full_name || 'Your parent',
-          };
-        })
-      );
-      setPointPledges(enrichedPointPledges);
-    }
-
-    // Fetch badge-based pledges
-    const { data: badgePledgesData } = await supabase
-      .from('parent_reward_pledges')
-      .select('id, badge_id, reward_description, parent_id')
-      .eq('student_id', user.id)
-      .eq('is_active', true)
-      .eq('claimed', false);
-
-    if (badgePledgesData && badgePledgesData.length > 0) {
-      const enrichedBadgePledges = await Promise.all(
-        badgePledgesData.map(async (pledge) => {
-          const { data: badge } = await supabase
-            .from('badges')
-            .select('name')
-            .eq('id', pledge.badge_id)
-            .single();
+function isVisible(pledge: Pledge, now: number): boolean {
+  if (isPledgeOpen(pledge.status)) return true;
+  const closedAt = pledge.fulfilledAt ?? pledge.declinedAt;
+  return !!closedAt && now - new Date(closedAt).getTime() < CLOSED_VISIBLE_DAYS * 24 * 60 * 60 * 1000;
+}
 
-          const { data: parent } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('id', pledge.parent_id)
-            .single();
+export function StudentRewardPledges({ className }: StudentRewardPledgesProps) {
+  const { data: pledges = [], isLoading: loading } = useStudentPledges();
+  const { data: profile } = useStudentProfile();
+  const transitionPledge = useTransitionPledge();
+  const currentCoins = profile?.coins ?? 0;
 
-          return {
-            id: pledge.id,
-            badge_id: pledge.badge_id,
-            reward_description: pledge.reward_description,
-            badge_name: badge?.name || 'Badge',
-            parent_name: parent?.full_name || 'Your parent',
-            badge_earned: earnedIds.includes(pledge.badge_id),
-          };
-        })
-      );
-      setBadgePledges(enrichedBadgePledges);
-    }
+  const now = Date.now();
+  const visible = pledges.filter((pledge) => isVisible(pledge, now));
+  const pointPledges = visible
+    .filter((pledge) => pledge.kind === "point")
+    .sort((a, b) => (a.coinThreshold ?? 0) - (b.coinThreshold ?? 0));
+  const badgePledges = visible.filter((pledge) => pledge.kind === "badge");
 
-    setLoading(false);
+  const handleClaim = (pledge: Pledge) => {
+    transitionPledge.mutate(
+      { kind: pledge.kind, pledgeId: pledge.id, to: "claimed" },
+      {
+        onSuccess: () => toast.success(`Claimed! ${pledge.parentName} has been told.`),
+        onError: (error) => toast.error(error.message),
+      }
+    );
   };
 
-  const getProgressPercentage = (threshold: number) => {
-    return Math.min(100, (currentCoins / threshold) * 100);
+  /** The badge, claim button or outcome shown beside a pledge's title */
+  const renderStatus = (pledge: Pledge) => {
+    switch (pledge.status) {
+      case "reached":
+        return (
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={transitionPledge.isPending}
+            onClick={() => handleClaim(pledge)}
+          >
+            {transitionPledge.isPending ? (
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            ) : (
+              <Gift className="w-3 h-3 mr-1" />
+            )}
+            Claim
+          </Button>
+        );
+      case "claimed":
+        return (
+          <span className="text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full font-medium whitespace-nowrap flex items-center gap-1">
+            <Hourglass className="w-3 h-3" />
+            Claimed
+          </span>
+        );
+      case "fulfilled":
+        return (
+          <span className="text-xs bg-success/20 text-success px-2 py-0.5 rounded-full font-medium whitespace-nowrap">
+            Received! 🎉
+          </span>
+        );
+      case "declined":
+        return (
+          <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded-full font-medium whitespace-nowrap flex items-center gap-1">
+            <XCircle className="w-3 h-3" />
+            Declined
+          </span>
+        );
+      default:
+        return null;
+    }
   };
 
-  const getCoinsNeeded = (threshold: number) => {
-    return Math.max(0, threshold - currentCoins);
+  /** What happens next, under the progress bar */
+  const renderNextStep = (pledge: Pledge) => {
+    switch (pledge.status) {
+      case "reached":
+        return <span className="text-success">Goal reached! Claim your reward.</span>;
+      case "claimed":
+        return <>Waiting for {pledge.parentName} to give it to you</>;
+      case "declined":
+        return <>{pledge.declineReason ? `"${pledge.declineReason}"` : "Not given this time"}</>;
+      default:
+        return null;
+    }
   };
 
   if (loading) {
@@ -202,9 +164,8 @@ export function StudentRewardPledges({ className }: StudentRewardPledgesProps) {
               Coin Goals
             </h4>
             {pointPledges.map((pledge, index) => {
-              const progress = getProgressPercentage(pledge.coin_threshold);
-              const coinsNeeded = getCoinsNeeded(pledge.coin_threshold);
-              const isComplete = currentCoins >= pledge.coin_threshold;
+              const { current, target, percent } = pledge.progress;
+              const isComplete = pledge.status !== "active";
 
               return (
                 <motion.div
@@ -214,7 +175,9 @@ export function StudentRewardPledges({ className }: StudentRewardPledgesProps) {
                   transition={{ delay: index * 0.05 }}
                   className={cn(
                     "p-4 rounded-xl border transition-all",
-                    isComplete
+                    pledge.status === "declined"
+                      ? "bg-muted/40 border-border"
+                      : isComplete
                       ? "bg-success/10 border-success/30"
                       : "bg-card border-border hover:border-primary/30"
                   )}
@@ -224,37 +187,36 @@ export function StudentRewardPledges({ className }: StudentRewardPledgesProps) {
                       "w-12 h-12 rounded-full flex items-center justify-center text-2xl flex-shrink-0",
                       isComplete ? "bg-success/20" : "bg-muted"
                     )}>
-                      {getRewardTypeIcon(pledge.reward_type)}
+                      {getRewardTypeIcon(pledge.rewardType)}
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center justify-between gap-2 mb-1">
                         <p className="font-bold text-foreground truncate">
-                          {pledge.reward_description}
+                          {pledge.rewardDescription}
                         </p>
-                        {isComplete && (
-                          <span className="text-xs bg-success/20 text-success px-2 py-0.5 rounded-full font-medium whitespace-nowrap">
-                            Ready! 🎉
-                          </span>
-                        )}
+                        {renderStatus(pledge)}
                       </div>
                       <p className="text-xs text-muted-foreground mb-2">
-                        From {pledge.parent_name}
+                        From {pledge.parentName}
                       </p>
                       <div className="space-y-1">
                         <div className="flex items-center justify-between text-xs">
                           <span className="text-muted-foreground">
-                            {currentCoins} / {pledge.coin_threshold} coins
+                            {current} / {target} coins
                           </span>
                           {!isComplete && (
                             <span className="text-primary font-medium">
-                              {coinsNeeded} more to go!
+                              {target - current} more to go!
                             </span>
                           )}
                         </div>
                         <Progress 
-                          value={progress} 
-                          className="h-2"
+                          value={percent} 
+                          className={cn("h-2", isComplete && "[&>div]:bg-success")}
                         />
+                        {isComplete && (
+                          <p className="text-xs text-muted-foreground">{renderNextStep(pledge)}</p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -271,57 +233,66 @@ export function StudentRewardPledges({ className }: StudentRewardPledgesProps) {
               <Trophy className="w-4 h-4" />
               Badge Goals
             </h4>
-            {badgePledges.map((pledge, index) => (
-              <motion.div
-                key={pledge.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: (pointPledges.length + index) * 0.05 }}
-                className={cn(
-                  "p-4 rounded-xl border transition-all",
-                  pledge.badge_earned
-                    ? "bg-success/10 border-success/30"
-                    : "bg-card border-border hover:border-primary/30"
-                )}
-              >
-                <div className="flex items-start gap-3">
-                  <div className={cn(
-                    "w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0",
-                    pledge.badge_earned ? "bg-success/20" : "bg-gold/20"
-                  )}>
-                    <Gift className={cn(
-                      "w-6 h-6",
-                      pledge.badge_earned ? "text-success" : "text-gold"
-                    )} />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between gap-2 mb-1">
-                      <p className="font-bold text-foreground truncate">
-                        {pledge.reward_description}
+            {badgePledges.map((pledge, index) => {
+              const isComplete = pledge.status !== "active";
+
+              return (
+                <motion.div
+                  key={pledge.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: (pointPledges.length + index) * 0.05 }}
+                  className={cn(
+                    "p-4 rounded-xl border transition-all",
+                    pledge.status === "declined"
+                      ? "bg-muted/40 border-border"
+                      : isComplete
+                      ? "bg-success/10 border-success/30"
+                      : "bg-card border-border hover:border-primary/30"
+                  )}
+                >
+                  <div className="flex items-start gap-3">
+                    <div className={cn(
+                      "w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0",
+                      isComplete ? "bg-success/20" : "bg-gold/20"
+                    )}>
+                      <Gift className={cn(
+                        "w-6 h-6",
+                        isComplete ? "text-success" : "text-gold"
+                      )} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <p className="font-bold text-foreground truncate">
+                          {pledge.rewardDescription}
+                        </p>
+                        {renderStatus(pledge)}
+                      </div>
+                      <p className="text-xs text-muted-foreground mb-1">
+                        From {pledge.parentName}
                       </p>
-                      {pledge.badge_earned && (
-                        <span className="text-xs bg-success/20 text-success px-2 py-0.5 rounded-full font-medium whitespace-nowrap">
-                          Ready! 🎉
+                      <div className="flex items-center gap-1.5 text-sm mb-2">
+                        <Trophy className="w-3.5 h-3.5 text-primary" />
+                        <span className="text-muted-foreground">
+                          {isComplete ? (
+                            <span className="text-success">You earned the {pledge.badgeName} badge!</span>
+                          ) : (
+                            <>Earn the <span className="font-medium text-primary">{pledge.badgeName}</span> badge</>
+                          )}
                         </span>
+                      </div>
+                      <Progress
+                        value={pledge.progress.percent}
+                        className={cn("h-2", isComplete && "[&>div]:bg-success")}
+                      />
+                      {isComplete && (
+                        <p className="text-xs text-muted-foreground mt-1">{renderNextStep(pledge)}</p>
                       )}
                     </div>
-                    <p className="text-xs text-muted-foreground mb-1">
-                      From {pledge.parent_name}
-                    </p>
-                    <div className="flex items-center gap-1.5 text-sm">
-                      <Trophy className="w-3.5 h-3.5 text-primary" />
-                      <span className="text-muted-foreground">
-                        {pledge.badge_earned ? (
-                          <span className="text-success">You earned the badge!</span>
-                        ) : (
-                          <>Earn the <span className="font-medium text-primary">{pledge.badge_name}</span> badge</>
-                        )}
-                      </span>
-                    </div>
                   </div>
-                </div>
-              </motion.div>
-            ))}
+                </motion.div>
+              );
+            })}
           </div>
         )}
 
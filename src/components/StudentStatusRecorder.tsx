@@ -17,7 +17,8 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { useRecordStudentStatus } from "@/hooks/mutations/useClassroomActions";
+import type { StudentStatusType } from "@/lib/api/teacher";
 import { 
   ClipboardList,
   CheckCircle2,
@@ -30,7 +31,7 @@ import {
   Send
 } from "lucide-react";
 
-type StatusType = "on_task" | "off_task" | "needs_support" | "excellent" | "absent" | "late";
+type StatusType = StudentStatusType;
 
 interface Student {
   id: string;
@@ -57,7 +58,8 @@ export function StudentStatusRecorder({ students, classId, onStatusRecorded }: S
   const [selectedStudent, setSelectedStudent] = useState<string>("");
   const [selectedStatus, setSelectedStatus] = useState<StatusType | "">("");
   const [notes, setNotes] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const recordStatus = useRecordStudentStatus();
+  const isSubmitting = recordStatus.isPending;
   const { toast } = useToast();
 
   const handleSubmit = async () => {
@@ -70,22 +72,14 @@ export function StudentStatusRecorder({ students, classId, onStatusRecorded }: S
       return;
     }
 
-    setIsSubmitting(true);
-
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        toast({
-          title: "Authentication required",
-          description: "Please log in to record status.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // For demo purposes, we'll show a success message
-      // In production, this would insert into the database
+      await recordStatus.mutateAsync({
+        classId,
+        studentId: selectedStudent,
+        status: selectedStatus,
+        notes,
+      });
+
       const studentName = students.find(s => s.id === selectedStudent)?.full_name || "Student";
       const statusLabel = statusOptions.find(s => s.value === selectedStatus)?.label || selectedStatus;
 
@@ -107,8 +101,6 @@ export function StudentStatusRecorder({ students, classId, onStatusRecorded }: S
         description: "Failed to record status. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -232,3 +224,64 @@ export function StudentStatusRecorder({ students, classId, onStatusRecorded }: S
     </Dialog>
   );
 }
+
+interface QuickStatusButtonsProps {
+  classId: string;
+  studentId: string;
+  studentName: string;
+  currentStatus: StatusType | null;
+}
+
+// One-tap status logging for a single roster row
+export function QuickStatusButtons({ classId, studentId, studentName, currentStatus }: QuickStatusButtonsProps) {
+  const recordStatus = useRecordStudentStatus();
+  const { toast } = useToast();
+
+  const handleTap = async (option: (typeof statusOptions)[number]) => {
+    try {
+      await recordStatus.mutateAsync({ classId, studentId, status: option.value });
+      toast({ title: "Status Recorded! 📋", description: `${studentName} marked as "${option.label}"` });
+    } catch (error) {
+      console.error("Error recording status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {statusOptions.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          title={option.label}
+          aria-label={`Mark ${studentName} as ${option.label}`}
+          disabled={recordStatus.isPending}
+          onClick={() => handleTap(option)}
+          className={`p-2 rounded-lg border transition-all disabled:opacity-50 ${
+            currentStatus === option.value
+              ? option.color + " border-current"
+              : "bg-card border-border text-muted-foreground hover:border-muted-foreground/50"
+          }`}
+        >
+          {option.icon}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Label and color for a logged status, for badges and timelines
+export function StatusLabel({ status }: { status: StatusType }) {
+  const option = statusOptions.find((s) => s.value === status);
+  if (!option) return null;
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium ${option.color}`}>
+      {option.icon}
+      {option.label}
+    </span>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * TeamChallengeCard
+ *
+ * A class or group challenge on the challenges page: the team's live
+ * progress bar, what each member has put in, and what everyone gets when
+ * the goal is met. Competitions also list the other teams in standing
+ * order. Reaching the goal settles the team's rewards from here.
+ */
+
+import { useEffect, useRef } from "react";
+import { CheckCircle2, Crown, Swords, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamStandings, type Challenge, type TeamStanding } from "@/hooks/queries/useChallenges";
+import { useSettleTeamChallenge } from "@/hooks/mutations/useChallenges";
+import { CHALLENGE_SCOPE_LABELS, TEAM_GOAL_METRICS, rankTeams, splitReward } from "@/lib/teamChallenges";
+import { cn } from "@/lib/utils";
+
+interface TeamChallengeCardProps {
+  challenge: Challenge;
+}
+
+export function TeamChallengeCard({ challenge }: TeamChallengeCardProps) {
+  const { toast } = useToast();
+  const { data: standings = [], isLoading } = useTeamStandings(challenge);
+  const settleTeam = useSettleTeamChallenge();
+  const settledFor = useRef<string | null>(null);
+
+  const metric = TEAM_GOAL_METRICS[challenge.goal_metric ?? "total_assignments"];
+  const isCompetition = standings.length > 1;
+  const ranked = rankTeams(standings);
+  const myTeam = standings.find((team) => team.isMine);
+  const winnerId = challenge.winner_team_id ?? (isCompetition ? ranked.find((t) => t.goalReachedAt)?.id : null);
+
+  const formatValue = (value: number | null) =>
+    value === null ? "—" : challenge.goal_metric === "average_mastery" ? `${value}%` : value.toLocaleString();
+
+  // Settle once per team; the server ignores repeats and late competitors
+  useEffect(() => {
+    if (!myTeam || !myTeam.progress.reached || myTeam.rewardedAt) return;
+    if (isCompetition && winnerId && winnerId !== myTeam.id) return;
+    if (settledFor.current === myTeam.id) return;
+    settledFor.current = myTeam.id;
+
+    settleTeam.mutate(myTeam.id, {
+      onSuccess: (result) => {
+        if (!result.awarded) return;
+        toast({
+          title: "Team Goal Reached! 🎉",
+          description: `Everyone on ${myTeam.name} gets +${result.xpEach} XP and +${result.coinsEach} coins.`,
+        });
+      },
+    });
+  }, [myTeam, isCompetition, winnerId, settleTeam, toast]);
+
+  if (isLoading) {
+    return <div className="h-24 rounded-xl bg-muted/40 animate-pulse" />;
+  }
+
+  const renderTeamBar = (team: TeamStanding, rank?: number) => (
+    <div key={team.id} className={cn("space-y-1", team.isMine && "font-medium")}>
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-1.5 truncate">
+          {rank !== undefined && <span className="text-muted-foreground">#{rank + 1}</span>}
+          {team.id === winnerId && <Crown className="h-4 w-4 text-amber-400" />}
+          {team.name}
+          {team.isMine && <Badge variant="secondary" className="text-xs">Your team</Badge>}
+        </span>
+        <span className="text-muted-foreground whitespace-nowrap">
+          {formatValue(team.progress.current)} / {formatValue(team.progress.target)} {metric.unit}
+        </span>
+      </div>
+      <Progress value={team.progress.percent} className={cn("h-3", team.progress.reached && "[&>div]:bg-green-500")} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        {isCompetition ? <Swords className="h-4 w-4" /> : <Users className="h-4 w-4" />}
+        <span>
+          {isCompetition ? "Competition" : CHALLENGE_SCOPE_LABELS[challenge.scope]} · {metric.label}
+        </span>
+        {isCompetition && <span>· first team to the goal wins</span>}
+      </div>
+
+      {/* Team progress */}
+      <div className="space-y-3">
+        {ranked.map((team, index) => renderTeamBar(team, isCompetition ? index : undefined))}
+      </div>
+
+      {myTeam && (
+        <>
+          {/* Reward split */}
+          <p className="text-sm text-muted-foreground">
+            {myTeam.rewardedAt ? (
+              <span className="flex items-center gap-1 text-green-400">
+                <CheckCircle2 className="h-4 w-4" />
+                Rewards shared with all {myTeam.memberCount} teammates!
+              </span>
+            ) : (
+              <>
+                When the goal is met, each of the {myTeam.memberCount} teammates gets +
+                {splitReward(challenge.xp_bonus, myTeam.memberCount)} XP and +
+                {splitReward(challenge.coin_bonus, myTeam.memberCount)} coins
+              </>
+            )}
+          </p>
+
+          {/* Contribution breakdown */}
+          <div className="rounded-lg border border-border bg-background/40 p-3 space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Contributions</p>
+            <div className="max-h-48 overflow-y-auto space-y-1.5">
+              {myTeam.progress.contributions.map((member) => (
+                <div key={member.studentId} className="flex items-center gap-2 text-sm">
+                  <span className="w-28 truncate">{member.name}</span>
+                  <Progress value={member.share} className="h-1.5 flex-1" />
+                  <span className="w-16 text-right text-muted-foreground">{formatValue(member.value)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * TransactionHistory Component
+ *
+ * The student's XP, coin and raffle ticket history with source and date
+ * filters, running coin balances and CSV export.
+ */
+
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { endOfDay, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, ExternalLink, Loader2, Receipt } from "lucide-react";
+import { useTransactionHistory, type RewardSourceType } from "@/hooks/queries/useTransactionHistory";
+import { filterTransactions, transactionLink, transactionsToCsv } from "@/lib/api/transactions";
+
+const SOURCE_LABELS: Record<RewardSourceType, string> = {
+  assignment: "Assignment",
+  practice_set: "Practice",
+  game: "Game",
+  battle: "Quiz Battle",
+  challenge: "Challenge",
+  study_goal: "Study Goal",
+  daily_review: "Daily Review",
+  teacher_action: "Teacher",
+  pledge_bonus: "Parent Pledge",
+  raffle: "Raffle",
+  shop_purchase: "Coin Shop",
+  mystery_pack: "Mystery Pack",
+  streak_shield: "Streak Shield",
+  adjustment: "Adjustment",
+};
+
+interface TransactionHistoryProps {
+  studentId: string | undefined;
+}
+
+export function TransactionHistory({ studentId }: TransactionHistoryProps) {
+  const { data: transactions = [], isLoading, error } = useTransactionHistory(studentId);
+  const [source, setSource] = useState<RewardSourceType | "all">("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const visible = useMemo(
+    () =>
+      filterTransactions(transactions, {
+        source,
+        // Date inputs are local calendar days
+        from: from ? new Date(`${from}T00:00`) : undefined,
+        to: to ? endOfDay(new Date(`${to}T00:00`)) : undefined,
+      }),
+    [transactions, source, from, to]
+  );
+
+  const handleExport = () => {
+    const blob = new Blob([transactionsToCsv(visible)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `scholar-transactions-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="w-full text-left space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="font-bold text-foreground flex items-center gap-2">
+          <Receipt className="w-5 h-5" />
+          Transaction History
+        </h2>
+        <Button variant="ghost" size="sm" onClick={handleExport} disabled={visible.length === 0}>
+          <Download className="w-4 h-4 mr-1" />
+          CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={source} onValueChange={(value) => setSource(value as RewardSourceType | "all")}>
+          <SelectTrigger className="col-span-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All sources</SelectItem>
+            {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+        <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No transactions to show.</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-xl border border-border bg-card">
+          {visible.map((t) => {
+            const link = transactionLink(t);
+            return (
+              <li key={t.id} className="p-3 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{t.description}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    {SOURCE_LABELS[t.source]} · {format(new Date(t.at), "MMM d, h:mm a")}
+                    {link && (
+                      <Link to={link} className="inline-flex text-primary" aria-label="Open">
+                        <ExternalLink className="w-3 h-3" />
+                      </Link>
+                    )}
+                  </p>
+                </div>
+                <div className="text-right shrink-0 text-sm">
+                  {t.coinDelta !== 0 && (
+                    <p className={t.coinDelta > 0 ? "font-semibold text-success" : "font-semibold text-destructive"}>
+                      {t.coinDelta > 0 ? "+" : ""}
+                      {t.coinDelta} 🪙
+                    </p>
+                  )}
+                  {t.xpDelta !== 0 && (
+                    <p className="text-xs text-primary">
+                      {t.xpDelta > 0 ? "+" : ""}
+                      {t.xpDelta} XP
+                    </p>
+                  )}
+                  {t.tickets > 0 && <p className="text-xs text-muted-foreground">+{t.tickets} ticket</p>}
+                  <p className="text-xs text-muted-foreground">Balance {t.coinBalance}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -6,6 +6,7 @@ import { Progress } from "@/components/ui/progress";
 import { Zap, RotateCcw, Trophy, Flame, Clock, CheckCircle, XCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Confetti } from "@/components/Confetti";
+import { MathText } from "@/components/MathText";
 import { useQuizSounds } from "@/hooks/useQuizSounds";
 
 interface FlashCard {
@@ -27,6 +28,7 @@ interface FlashcardBattleProps {
     totalQuestions: number;
     streakMax: number;
     timeSpentSeconds: number;
+    missedIds: string[];
   }) => void;
   onExit: () => void;
 }
@@ -50,6 +52,7 @@ export default function FlashcardBattle({
   const [isComplete, setIsComplete] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
   const [lastAnswer, setLastAnswer] = useState<"correct" | "wrong" | null>(null);
+  const missedIds = useRef<string[]>([]);
   
   const { playCorrectSound, playIncorrectSound, playStreakSound, playCompletionSound } = useQuizSounds();
 
@@ -77,6 +80,7 @@ export default function FlashcardBattle({
         playCorrectSound();
       }
     } else {
+      missedIds.current.push(currentCard.id);
       setStreak(0);
       playIncorrectSound();
     }
@@ -111,6 +115,7 @@ export default function FlashcardBattle({
       totalQuestions: cards.length,
       streakMax: finalStreak,
       timeSpentSeconds: timeSpent,
+      missedIds: missedIds.current,
     });
   };
 
@@ -248,9 +253,9 @@ export default function FlashcardBattle({
                     <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2">
                       {isFlipped ? "Answer" : "Question"}
                     </div>
-                    <p className="text-xl font-medium">
+                    <MathText as="p" className="text-xl font-medium">
                       {isFlipped ? currentCard.back : currentCard.front}
-                    </p>
+                    </MathText>
                   </motion.div>
                 </AnimatePresence>
 
@@ -269,7 +274,7 @@ export default function FlashcardBattle({
       {!isFlipped && currentCard.hint && (
         <div className="text-center mb-4">
           {showHint ? (
-            <p className="text-sm text-muted-foreground italic">{currentCard.hint}</p>
+            <MathText as="p" className="text-sm text-muted-foreground italic">{currentCard.hint}</MathText>
           ) : (
             <Button variant="ghost" size="sm" onClick={() => setShowHint(true)}>
               Show Hint
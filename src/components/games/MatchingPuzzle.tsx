@@ -5,6 +5,7 @@ import { Progress } from "@/components/ui/progress";
 import { Zap, Trophy, Flame, Clock, Shuffle, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Confetti } from "@/components/Confetti";
+import { MathText } from "@/components/MathText";
 import { useQuizSounds } from "@/hooks/useQuizSounds";
 
 interface MatchPair {
@@ -303,9 +304,9 @@ export default function MatchingPuzzle({
             >
               <div className="flex items-center gap-2">
                 {card.isMatched && <Sparkles className="w-4 h-4 text-green-500 shrink-0" />}
-                <span className={card.isMatched ? "line-through text-muted-foreground" : ""}>
+                <MathText className={card.isMatched ? "line-through text-muted-foreground" : ""}>
                   {card.content}
-                </span>
+                </MathText>
               </div>
             </motion.button>
           ))}
@@ -332,9 +333,9 @@ export default function MatchingPuzzle({
             >
               <div className="flex items-center gap-2">
                 {card.isMatched && <Sparkles className="w-4 h-4 text-green-500 shrink-0" />}
-                <span className={card.isMatched ? "line-through text-muted-foreground" : ""}>
+                <MathText className={card.isMatched ? "line-through text-muted-foreground" : ""}>
                   {card.content}
-                </span>
+                </MathText>
               </div>
             </motion.button>
           ))}
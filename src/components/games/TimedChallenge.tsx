@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -6,6 +6,7 @@ import { Progress } from "@/components/ui/progress";
 import { Clock, Zap, Trophy, Flame, CheckCircle, XCircle, Play } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Confetti } from "@/components/Confetti";
+import { MathText } from "@/components/MathText";
 import { useQuizSounds } from "@/hooks/useQuizSounds";
 
 interface Question {
@@ -29,6 +30,7 @@ interface TimedChallengeProps {
     totalQuestions: number;
     streakMax: number;
     timeSpentSeconds: number;
+    missedIds: string[];
   }) => void;
   onExit: () => void;
 }
@@ -53,6 +55,7 @@ export default function TimedChallenge({
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
+  const missedIds = useRef<string[]>([]);
   
   const { playCorrectSound, playIncorrectSound, playStreakSound, playCompletionSound, playTimeoutSound } = useQuizSounds();
 
@@ -78,6 +81,7 @@ export default function TimedChallenge({
   }, [gameState, showResult, currentIndex]);
 
   const handleTimeout = () => {
+    missedIds.current.push(currentQuestion.id);
     setStreak(0);
     playTimeoutSound();
     setShowResult(true);
@@ -104,6 +108,7 @@ export default function TimedChallenge({
         playCorrectSound();
       }
     } else {
+      missedIds.current.push(currentQuestion.id);
       setStreak(0);
       playIncorrectSound();
     }
@@ -140,6 +145,7 @@ export default function TimedChallenge({
       totalQuestions: questions.length,
       streakMax: maxStreak,
       timeSpentSeconds: timeSpent,
+      missedIds: missedIds.current,
     });
   };
 
@@ -300,9 +306,9 @@ export default function TimedChallenge({
         >
           <Card className="mb-6">
             <CardContent className="p-6">
-              <p className="text-lg font-medium text-center">
+              <MathText as="p" className="text-lg font-medium text-center">
                 {currentQuestion.prompt}
-              </p>
+              </MathText>
             </CardContent>
           </Card>
 
@@ -330,7 +336,7 @@ export default function TimedChallenge({
                   )}
                 >
                   <div className="flex items-center justify-between">
-                    <span className="font-medium">{option}</span>
+                    <MathText className="font-medium">{option}</MathText>
                     {showCorrectness && isCorrect && (
                       <CheckCircle className="w-5 h-5 text-green-500" />
                     )}
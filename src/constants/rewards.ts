@@ -1,7 +1,9 @@
 /**
  * Reward Constants
  *
- * XP, coins, and progression values used throughout the app.
+ * XP, coins, and progression values used throughout the app. These are the
+ * defaults; admins can publish a per-school economy that overrides them
+ * (see `lib/economy`).
  */
 
 // ============================================================================
@@ -20,6 +22,12 @@ export const STUDY_GOAL_MAX_XP = 25;
 /** Quick action XP reward */
 export const QUICK_ACTION_XP = 50;
 
+/** XP per card answered correctly in a Daily Review session */
+export const REVIEW_XP_PER_CORRECT = 5;
+
+/** Maximum XP from one Daily Review session */
+export const REVIEW_MAX_XP = 50;
+
 // ============================================================================
 // Coin Constants
 // ============================================================================
@@ -33,6 +41,9 @@ export const STUDY_GOAL_MAX_COINS = 10;
 /** Quick action coin reward */
 export const QUICK_ACTION_COINS = 10;
 
+/** Coins for finishing a Daily Review session */
+export const REVIEW_COINS = 3;
+
 // ============================================================================
 // Level Calculation
 // ============================================================================
@@ -66,45 +77,82 @@ export function calculateLevelProgress(xp: number): number {
   return (calculateXpInLevel(xp) / XP_PER_LEVEL) * 100;
 }
 
+// ============================================================================
+// Default Rewards
+// ============================================================================
+
+export const DEFAULT_ASSIGNMENT_REWARDS = {
+  XP: 50,
+  COINS: 10,
+} as const;
+
+export const DEFAULT_PRACTICE_REWARDS = {
+  XP: 25,
+  COINS: 5,
+} as const;
+
+export const DEFAULT_GAME_REWARDS = {
+  XP: 30,
+  COINS: 8,
+} as const;
+
+export const QUIZ_BATTLE_REWARDS = {
+  /** For finishing a battle with at least one correct answer */
+  XP: 20,
+  COINS: 5,
+  /** Extra for first place */
+  WINNER_XP_BONUS: 20,
+  WINNER_COIN_BONUS: 10,
+} as const;
+
 // ============================================================================
 // Reward Calculation
 // ============================================================================
 
 /**
- * Calculate XP earned from a score (score-based formula)
+ * Calculate XP earned from a score: the default assignment XP scaled by the
+ * percentage, so a perfect score earns exactly the default
  */
 export function calculateXpFromScore(score: number, passingThreshold = 70): number {
   if (score < passingThreshold) return 0;
-  return Math.round(score * BASE_XP);
+  return Math.round((score / 100) * DEFAULT_ASSIGNMENT_REWARDS.XP);
 }
 
 /**
- * Calculate coins earned from a score (score-based formula)
+ * Calculate coins earned from a score, scaled the same way as XP
  */
 export function calculateCoinsFromScore(score: number, passingThreshold = 70): number {
   if (score < passingThreshold) return 0;
-  return Math.round(score * BASE_COINS);
+  return Math.round((score / 100) * DEFAULT_ASSIGNMENT_REWARDS.COINS);
 }
 
 // ============================================================================
-// Default Rewards
+// Coin Shop
 // ============================================================================
 
-export const DEFAULT_ASSIGNMENT_REWARDS = {
-  XP: 50,
-  COINS: 10,
+/** Default price by rarity when a shop item has no price of its own */
+export const SHOP_PRICES = {
+  common: 25,
+  rare: 75,
+  epic: 200,
+  legendary: 500,
 } as const;
 
-export const DEFAULT_PRACTICE_REWARDS = {
-  XP: 25,
-  COINS: 5,
-} as const;
+// ============================================================================
+// Mystery Packs
+// ============================================================================
 
-export const DEFAULT_GAME_REWARDS = {
-  XP: 30,
-  COINS: 8,
+/** Coins given instead of a collectible the student already owns */
+export const DUPLICATE_COIN_VALUES = {
+  common: 5,
+  rare: 15,
+  epic: 40,
+  legendary: 100,
 } as const;
 
+/** Streak lengths (in days) that earn a streak pack */
+export const STREAK_PACK_MILESTONES = [7, 14, 30, 60, 100] as const;
+
 // ============================================================================
 // Streak Bonuses
 // ============================================================================
@@ -118,6 +166,26 @@ export const STREAK_BONUSES = {
   COINS_PER_WEEK: 10,
 } as const;
 
+/** Coins to buy a streak shield; a student can hold one at a time */
+export const STREAK_SHIELD_PRICE = 50;
+
+/** Streak days follow the school's clock, not the device's */
+export const STREAK_TIME_ZONE = "America/New_York";
+
+/** School-clock hour after which an inactive school day alerts parents that the streak may break */
+export const STREAK_ALERT_HOUR = 18;
+
+/** Ledger sources that count as a day's qualifying activity */
+export const STREAK_QUALIFYING_SOURCES = [
+  "assignment",
+  "practice_set",
+  "game",
+  "battle",
+  "daily_review",
+  "challenge",
+  "study_goal",
+] as const;
+
 /**
  * Calculate streak bonus XP
  */
@@ -54,6 +54,13 @@ export function getGradeLabel(score: number | null | undefined): string {
   return "Needs Work";
 }
 
+// ============================================================================
+// Parent Alerts
+// ============================================================================
+
+/** Default cutoff for the "low score" parent alert; below this alerts */
+export const LOW_SCORE_ALERT_THRESHOLD = GRADE_THRESHOLDS.NEEDS_WORK;
+
 // ============================================================================
 // Mastery Levels
 // ============================================================================
@@ -75,3 +82,26 @@ export function getMasteryLevel(percentage: number): MasteryLevel {
   if (percentage >= MASTERY_LEVELS.DEVELOPING) return "developing";
   return "not_started";
 }
+
+// ============================================================================
+// Standard Mastery (per-standard rollup)
+// ============================================================================
+
+/** Accuracy thresholds used when rolling question attempts up into a standard */
+export const STANDARD_MASTERY_THRESHOLDS = {
+  MASTERED: 80,
+  APPROACHING: 60,
+} as const;
+
+export type StandardMasteryLevel = "not_started" | "developing" | "approaching" | "mastered";
+
+/**
+ * Get the mastery level for a standard from its attempt counts
+ */
+export function getStandardMasteryLevel(correct: number, attempted: number): StandardMasteryLevel {
+  if (attempted <= 0) return "not_started";
+  const percentage = (correct / attempted) * 100;
+  if (percentage >= STANDARD_MASTERY_THRESHOLDS.MASTERED) return "mastered";
+  if (percentage >= STANDARD_MASTERY_THRESHOLDS.APPROACHING) return "approaching";
+  return "developing";
+}
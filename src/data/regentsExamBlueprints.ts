@@ -0,0 +1,170 @@
+// Mock Regents exam blueprints: part structure, total time and scale conversion
+// Part sizes and times follow the published NYS Regents formats. Conversion
+// anchors approximate the shape of recent official conversion charts.
+
+export interface MockExamPart {
+  id: string;
+  name: string;
+  questionCount: number;
+  difficulties: number[]; // preferred difficulties, in order
+}
+
+export interface MockExamBlueprint {
+  examId: string;
+  totalMinutes: number;
+  parts: MockExamPart[];
+  // [raw score as a fraction of the maximum, scaled score] pairs, ascending
+  conversionTable: [number, number][];
+}
+
+const MATH_CONVERSION: [number, number][] = [
+  [0, 0],
+  [0.1, 30],
+  [0.31, 65],
+  [0.5, 75],
+  [0.73, 85],
+  [0.9, 94],
+  [1, 100],
+];
+
+const SCIENCE_CONVERSION: [number, number][] = [
+  [0, 0],
+  [0.2, 35],
+  [0.55, 65],
+  [0.72, 75],
+  [0.86, 85],
+  [1, 100],
+];
+
+const HUMANITIES_CONVERSION: [number, number][] = [
+  [0, 0],
+  [0.25, 40],
+  [0.5, 65],
+  [0.7, 78],
+  [0.82, 85],
+  [1, 100],
+];
+
+const THREE_HOURS = 180;
+
+export const REGENTS_EXAM_BLUEPRINTS: MockExamBlueprint[] = [
+  {
+    examId: "algebra1",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 24, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 8, difficulties: [2, 1] },
+      { id: "III", name: "Part III", questionCount: 4, difficulties: [3, 2] },
+      { id: "IV", name: "Part IV", questionCount: 1, difficulties: [3, 2] },
+    ],
+    conversionTable: MATH_CONVERSION,
+  },
+  {
+    examId: "geometry",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 24, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 7, difficulties: [2, 1] },
+      { id: "III", name: "Part III", questionCount: 3, difficulties: [3, 2] },
+      { id: "IV", name: "Part IV", questionCount: 1, difficulties: [3, 2] },
+    ],
+    conversionTable: MATH_CONVERSION,
+  },
+  {
+    examId: "algebra2",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 24, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 8, difficulties: [2, 1] },
+      { id: "III", name: "Part III", questionCount: 4, difficulties: [3, 2] },
+      { id: "IV", name: "Part IV", questionCount: 1, difficulties: [3, 2] },
+    ],
+    conversionTable: MATH_CONVERSION,
+  },
+  {
+    examId: "living_env",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "A", name: "Part A", questionCount: 30, difficulties: [1, 2] },
+      { id: "B-1", name: "Part B-1", questionCount: 13, difficulties: [2, 1] },
+      { id: "B-2", name: "Part B-2", questionCount: 12, difficulties: [2, 3] },
+      { id: "C", name: "Part C", questionCount: 17, difficulties: [3, 2] },
+      { id: "D", name: "Part D", questionCount: 13, difficulties: [2, 3] },
+    ],
+    conversionTable: SCIENCE_CONVERSION,
+  },
+  {
+    examId: "chemistry",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "A", name: "Part A", questionCount: 30, difficulties: [1, 2] },
+      { id: "B-1", name: "Part B-1", questionCount: 20, difficulties: [2, 1] },
+      { id: "B-2", name: "Part B-2", questionCount: 15, difficulties: [2, 3] },
+      { id: "C", name: "Part C", questionCount: 20, difficulties: [3, 2] },
+    ],
+    conversionTable: SCIENCE_CONVERSION,
+  },
+  {
+    examId: "physics",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "A", name: "Part A", questionCount: 35, difficulties: [1, 2] },
+      { id: "B-1", name: "Part B-1", questionCount: 15, difficulties: [2, 1] },
+      { id: "B-2", name: "Part B-2", questionCount: 15, difficulties: [2, 3] },
+      { id: "C", name: "Part C", questionCount: 20, difficulties: [3, 2] },
+    ],
+    conversionTable: SCIENCE_CONVERSION,
+  },
+  {
+    examId: "us_history",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 28, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 2, difficulties: [2, 3] },
+      { id: "III", name: "Part III", questionCount: 1, difficulties: [3, 2] },
+    ],
+    conversionTable: HUMANITIES_CONVERSION,
+  },
+  {
+    examId: "global_history",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 28, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 2, difficulties: [2, 3] },
+      { id: "III", name: "Part III", questionCount: 1, difficulties: [3, 2] },
+    ],
+    conversionTable: HUMANITIES_CONVERSION,
+  },
+  {
+    examId: "economics",
+    totalMinutes: 120,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 30, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 5, difficulties: [2, 3] },
+    ],
+    conversionTable: HUMANITIES_CONVERSION,
+  },
+  {
+    examId: "ela",
+    totalMinutes: THREE_HOURS,
+    parts: [
+      { id: "1", name: "Part 1", questionCount: 24, difficulties: [1, 2] },
+      { id: "2", name: "Part 2", questionCount: 1, difficulties: [2, 3] },
+      { id: "3", name: "Part 3", questionCount: 1, difficulties: [3, 2] },
+    ],
+    conversionTable: HUMANITIES_CONVERSION,
+  },
+  {
+    examId: "lote",
+    totalMinutes: 120,
+    parts: [
+      { id: "I", name: "Part I", questionCount: 24, difficulties: [1, 2] },
+      { id: "II", name: "Part II", questionCount: 6, difficulties: [2, 3] },
+    ],
+    conversionTable: HUMANITIES_CONVERSION,
+  },
+];
+
+export function getExamBlueprint(examId: string): MockExamBlueprint | undefined {
+  return REGENTS_EXAM_BLUEPRINTS.find(b => b.examId === examId);
+}
@@ -7,3 +7,21 @@
 
 export * from "./useAwardRewards";
 export * from "./useGradeAssignment";
+export * from "./useRecordRegentsAttempts";
+export * from "./useSaveMockExamResult";
+export * from "./useReviewQueue";
+export * from "./useQuestionBank";
+export * from "./useRetrySyncEvent";
+export * from "./useClassroomActions";
+export * from "./useRecordQuizBattle";
+export * from "./usePurchaseShopItem";
+export * from "./useMysteryPacks";
+export * from "./usePublishEconomyConfig";
+export * from "./useStreakShield";
+export * from "./useSchoolCalendar";
+export * from "./useBadges";
+export * from "./useParentLinks";
+export * from "./useParentDigest";
+export * from "./useParentAlerts";
+export * from "./usePledges";
+export * from "./useChallenges";
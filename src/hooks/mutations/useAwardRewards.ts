@@ -2,13 +2,22 @@
  * Award Rewards Mutation Hook
  *
  * Handles secure reward distribution using React Query mutations.
- * Replaces the old useSecureRewards hook.
+ * Replaces the old useSecureRewards hook. The amount comes from the
+ * school's economy config: the activity's reward rule at the claimed
+ * score, trimmed to what the daily caps leave. Offline claims skip the
+ * cap check; award-rewards applies it again when they sync.
  */
 
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { queryKeys } from "@/lib/query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchMyEarningsToday, fetchMyEconomyConfig } from "@/lib/api/economy";
+import { applyDailyCap, calculateActivityReward, DEFAULT_ECONOMY_CONFIG, type Reward } from "@/lib/economy";
 import { checkRewardClaimed } from "@/lib/api/student";
+import { claimMilestonePacks } from "@/lib/api/mysteryPacks";
+import { syncPledgeProgress } from "@/lib/api/pledges";
+import { enqueueOutbox, isOfflineError } from "@/lib/offlineOutbox";
+import { useEvaluateBadges } from "./useBadges";
 
 // ============================================================================
 // Types
@@ -19,7 +28,9 @@ export type ClaimType =
   | "game"
   | "study_goal"
   | "assignment"
-  | "challenge";
+  | "challenge"
+  | "daily_review"
+  | "battle";
 
 export interface ValidationData {
   score?: number;
@@ -33,8 +44,6 @@ export interface ValidationData {
 export interface AwardRewardsParams {
   claimType: ClaimType;
   referenceId: string;
-  xpAmount: number;
-  coinAmount: number;
   reason: string;
   validationData?: ValidationData;
 }
@@ -47,25 +56,76 @@ export interface AwardResult {
   new_coins_total?: number;
   error?: string;
   already_claimed?: boolean;
+  /** Claimed offline; sent to award-rewards once the device reconnects */
+  queued?: boolean;
+  /** Trimmed, possibly to nothing, by the daily earning caps */
+  capped?: boolean;
 }
 
 // ============================================================================
 // API Functions
 // ============================================================================
 
-async function awardRewardsApi(params: AwardRewardsParams): Promise<AwardResult> {
-  const { data, error } = await supabase.functions.invoke("award-rewards", {
-    body: {
-      claim_type: params.claimType,
-      reference_id: params.referenceId,
-      xp_amount: params.xpAmount,
-      coin_amount: params.coinAmount,
-      reason: params.reason,
-      validation_data: params.validationData,
-    },
-  });
+/**
+ * Keep an offline claim in the outbox, keyed like its reward_claims claim key
+ */
+async function queueAwardRewards(
+  params: AwardRewardsParams,
+  reward: Reward,
+  body: Record<string, unknown>
+): Promise<AwardResult> {
+  const queued = await enqueueOutbox(`${params.claimType}:${params.referenceId}`, "award-rewards", body);
+  if (!queued) {
+    return { success: false, already_claimed: true };
+  }
+  return {
+    success: true,
+    queued: true,
+    xp_awarded: reward.xp,
+    coins_awarded: reward.coins,
+  };
+}
+
+/**
+ * The activity's reward under the economy config, with the daily caps
+ * applied when online
+ */
+async function resolveReward(queryClient: QueryClient, params: AwardRewardsParams): Promise<Reward & { capped: boolean }> {
+  const { config } = await queryClient
+    .fetchQuery({
+      queryKey: queryKeys.economy.mine(),
+      queryFn: fetchMyEconomyConfig,
+      staleTime: STALE_TIMES.STATIC,
+    })
+    .catch(() => ({ config: DEFAULT_ECONOMY_CONFIG }));
+
+  const reward = calculateActivityReward(config.activities[params.claimType], params.validationData?.score);
+  if (!navigator.onLine) return { ...reward, capped: false };
+
+  const capped = applyDailyCap(config.dailyCaps, await fetchMyEarningsToday(), reward);
+  return { ...capped, capped: capped.xp < reward.xp || capped.coins < reward.coins };
+}
+
+async function awardRewardsApi(params: AwardRewardsParams, reward: Reward & { capped: boolean }): Promise<AwardResult> {
+  const body = {
+    claim_type: params.claimType,
+    reference_id: params.referenceId,
+    xp_amount: reward.xp,
+    coin_amount: reward.coins,
+    reason: params.reason,
+    validation_data: params.validationData,
+  };
+
+  if (!navigator.onLine) {
+    return queueAwardRewards(params, reward, body);
+  }
+
+  const { data, error } = await supabase.functions.invoke("award-rewards", { body });
 
   if (error) {
+    if (isOfflineError(error)) {
+      return queueAwardRewards(params, reward, body);
+    }
     throw new Error(error.message || "Failed to award rewards");
   }
 
@@ -73,7 +133,7 @@ async function awardRewardsApi(params: AwardRewardsParams): Promise<AwardResult>
     throw new Error(data.error || "Failed to award rewards");
   }
 
-  return data;
+  return { ...data, capped: reward.capped };
 }
 
 // ============================================================================
@@ -85,15 +145,39 @@ async function awardRewardsApi(params: AwardRewardsParams): Promise<AwardResult>
  */
 export function useAwardRewards() {
   const queryClient = useQueryClient();
+  const { mutate: evaluateBadges } = useEvaluateBadges();
 
   return useMutation({
-    mutationFn: awardRewardsApi,
+    mutationFn: async (params: AwardRewardsParams) => awardRewardsApi(params, await resolveReward(queryClient, params)),
     onSuccess: (data) => {
       // Invalidate student profile to refresh XP/coins
       queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
 
-      // Invalidate reward claims
+      // Invalidate reward claims and the transaction log
       queryClient.invalidateQueries({ queryKey: queryKeys.rewards.claims() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rewards.transactionHistory() });
+
+      // New XP can cross a level or streak milestone that earns a mystery pack,
+      // meet a badge's criteria, or reach a parent's point pledge
+      if (!data.queued) {
+        evaluateBadges();
+        supabase.auth
+          .getUser()
+          .then(({ data: userData }) => (userData.user ? syncPledgeProgress([userData.user.id]) : 0))
+          .then((reached) => {
+            if (reached > 0) {
+              queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all });
+            }
+          })
+          .catch((error) => console.error("Sync pledge progress error:", error));
+        claimMilestonePacks()
+          .then(({ granted }) => {
+            if (granted > 0) {
+              queryClient.invalidateQueries({ queryKey: queryKeys.packs.all });
+            }
+          })
+          .catch((error) => console.error("Claim milestone packs error:", error));
+      }
     },
     onError: (error) => {
       console.error("Award rewards error:", error);
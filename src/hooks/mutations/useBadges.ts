@@ -0,0 +1,100 @@
+/**
+ * Badge Mutation Hooks
+ *
+ * Saving badge definitions and awarding badges. Every award is reported to
+ * NYCologic as a `badge_earned` event.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { evaluateMyBadges, grantBadges, saveBadge } from "@/lib/api/badges";
+import { raiseParentAlerts } from "@/lib/api/parentAlerts";
+import { syncPledgeProgress } from "@/lib/api/pledges";
+import type { BadgeGrant, GrantBadgesParams, SaveBadgeParams } from "@/lib/api/badges";
+import { useSyncToNYCologic } from "@/hooks/useSyncToNYCologic";
+
+/**
+ * Report new awards, alert parents who asked, mark badge pledges reached,
+ * and refresh anything showing badges
+ */
+function useOnBadgesGranted() {
+  const queryClient = useQueryClient();
+  const { syncBadgeEarned } = useSyncToNYCologic();
+
+  return (grants: BadgeGrant[]) => {
+    if (grants.length === 0) return;
+    for (const grant of grants) {
+      syncBadgeEarned(grant);
+    }
+    const byStudent = new Map<string, BadgeGrant[]>();
+    for (const grant of grants) {
+      byStudent.set(grant.studentId, [...(byStudent.get(grant.studentId) ?? []), grant]);
+    }
+    for (const [studentId, studentGrants] of byStudent) {
+      raiseParentAlerts(
+        studentId,
+        studentGrants.map((g) => ({ kind: "badge_earned", badgeId: g.badgeId, badgeName: g.badgeName }))
+      ).catch((error) => console.error("Badge alert error:", error));
+    }
+    syncPledgeProgress([...byStudent.keys()])
+      .then((reached) => {
+        if (reached > 0) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all });
+        }
+      })
+      .catch((error) => console.error("Sync pledge progress error:", error));
+    queryClient.invalidateQueries({ queryKey: queryKeys.badges.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+  };
+}
+
+/**
+ * Hook to award the signed-in student any badges they now qualify for.
+ * Run it after anything that changes XP, streaks, mastery or games.
+ */
+export function useEvaluateBadges() {
+  const onGranted = useOnBadgesGranted();
+
+  return useMutation({
+    mutationFn: evaluateMyBadges,
+    onSuccess: onGranted,
+    onError: (error) => {
+      console.error("Evaluate badges error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to award a badge by hand, e.g. to everyone the preview lists
+ */
+export function useGrantBadges() {
+  const onGranted = useOnBadgesGranted();
+
+  return useMutation({
+    mutationFn: grantBadges,
+    onSuccess: onGranted,
+    onError: (error) => {
+      console.error("Grant badges error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to create or update a badge
+ */
+export function useSaveBadge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveBadge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.badges.all });
+    },
+    onError: (error) => {
+      console.error("Save badge error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { BadgeGrant, GrantBadgesParams, SaveBadgeParams };
@@ -0,0 +1,69 @@
+/**
+ * Challenge Mutation Hooks
+ *
+ * Join individual challenges, create team challenges, and settle a team's
+ * rewards once its goal is met.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { createTeamChallenge, joinChallenge, settleTeamChallenge } from "@/lib/api/challenges";
+
+/**
+ * Hook to join an individual challenge
+ */
+export function useJoinChallenge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: joinChallenge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.challenges.participations() });
+    },
+    onError: (error) => {
+      console.error("Join challenge error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to create a class, group or class-vs-class challenge
+ */
+export function useCreateTeamChallenge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createTeamChallenge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.challenges.all });
+    },
+    onError: (error) => {
+      console.error("Create team challenge error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to split a team's rewards to its members once the goal is met.
+ * The signed-in student's balance and transaction log are refreshed if paid.
+ */
+export function useSettleTeamChallenge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: settleTeamChallenge,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.challenges.all });
+      if (result.awarded) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+        queryClient.invalidateQueries({ queryKey: queryKeys.rewards.transactionHistory() });
+      }
+    },
+    onError: (error) => {
+      console.error("Settle team challenge error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { CreateTeamChallengeParams, SettleTeamChallengeResult } from "@/lib/api/challenges";
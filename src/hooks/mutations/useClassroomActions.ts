@@ -0,0 +1,71 @@
+/**
+ * Classroom Action Mutation Hooks
+ *
+ * Status logging and point deductions from the teacher console.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { deductStudentPoints, recordStudentStatus, undoPointDeduction } from "@/lib/api/teacher";
+import type { DeductPointsParams, RecordStatusParams } from "@/lib/api/teacher";
+
+/**
+ * Hook to log a student's behavior status
+ */
+export function useRecordStudentStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: recordStudentStatus,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classes.students(variables.classId) });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.classes.timeline(variables.classId, variables.studentId),
+      });
+    },
+    onError: (error) => {
+      console.error("Record status error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to deduct points from a student
+ */
+export function useDeductPoints() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deductStudentPoints,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classes.students(variables.classId) });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.classes.timeline(variables.classId, variables.studentId),
+      });
+    },
+    onError: (error) => {
+      console.error("Deduct points error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to reverse a point deduction
+ */
+export function useUndoPointDeduction(classId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: undoPointDeduction,
+    onSuccess: () => {
+      // The deduction id doesn't say which student, so refresh the whole class
+      queryClient.invalidateQueries({ queryKey: queryKeys.classes.detail(classId) });
+    },
+    onError: (error) => {
+      console.error("Undo deduction error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { DeductPointsParams, RecordStatusParams };
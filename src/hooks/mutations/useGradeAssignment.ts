@@ -9,6 +9,10 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { queryKeys } from "@/lib/query";
 import type { QuizQuestion } from "@/components/SimpleQuiz";
+import { matchesAnyAnswer } from "@/lib/answerEquivalence";
+import { enqueueOutbox, isOfflineError } from "@/lib/offlineOutbox";
+import { alertOnAssignmentScore } from "@/lib/api/parentAlerts";
+import { useEvaluateBadges } from "./useBadges";
 
 // ============================================================================
 // Types
@@ -30,6 +34,8 @@ export interface GradeResult {
     student_answer: string;
   }[];
   geoblox_unlocked?: boolean;
+  /** Graded locally while offline; sent to grade-assignment once the device reconnects */
+  queued?: boolean;
 }
 
 export interface GradeParams {
@@ -45,14 +51,65 @@ export interface GradeParams {
 // API Functions
 // ============================================================================
 
+function acceptableAnswers(question: QuizQuestion): string[] {
+  const keys = Array.isArray(question.answer_key) ? question.answer_key : [question.answer_key];
+  return keys.filter((key): key is string => typeof key === "string");
+}
+
+/**
+ * Whether a typed answer is equivalent to one of the keys, so "1/2" counts
+ * for a key of "0.5". Null for question types compared verbatim.
+ */
+function isEquivalentAnswer(question: QuizQuestion | undefined, answer: string): boolean | null {
+  if (question?.question_type !== "short_answer" && question?.question_type !== "numeric") return null;
+  return matchesAnyAnswer(answer, acceptableAnswers(question), {
+    mode: question.question_type === "numeric" ? "numeric" : "auto",
+  });
+}
+
+function isAnswerCorrect(question: QuizQuestion, answer: string | undefined): boolean {
+  if (answer === undefined) return false;
+  const equivalent = isEquivalentAnswer(question, answer);
+  if (equivalent !== null) return equivalent;
+  const key = typeof question.answer_key === "string" ? question.answer_key : JSON.stringify(question.answer_key);
+  return answer.trim() === key.trim();
+}
+
+/**
+ * Provisional score shown while a submission waits in the outbox. XP and
+ * coins are left to the server once it grades the queued attempt.
+ */
+function gradeLocally(params: GradeParams): GradeResult {
+  const questionResults = params.questions.map((q) => ({
+    question_id: q.id,
+    is_correct: isAnswerCorrect(q, params.answers[q.id]),
+    correct_answer: Array.isArray(q.answer_key) ? q.answer_key.join(", ") : String(q.answer_key),
+    student_answer: params.answers[q.id] ?? "",
+  }));
+  const score = questionResults.filter((r) => r.is_correct).length;
+  const percentage = params.questions.length > 0 ? Math.round((score / params.questions.length) * 100) : 0;
+
+  return {
+    score,
+    total_questions: params.questions.length,
+    percentage,
+    meets_threshold: percentage >= 70,
+    feedback: "You're offline. Your answers are saved and will be graded when you reconnect.",
+    incorrect_topics: [],
+    xp_earned: 0,
+    coins_earned: 0,
+    question_results: questionResults,
+    queued: true,
+  };
+}
+
 async function gradeAssignmentApi(params: GradeParams): Promise<GradeResult> {
-  // Transform answers to the expected format
-  const formattedAnswers = Object.entries(params.answers).map(
-    ([question_id, answer]) => ({
-      question_id,
-      answer,
-    })
-  );
+  // Answers go as written, with no verdict attached: grade-assignment checks
+  // equivalence itself, and the local check only grades queued offline work
+  const formattedAnswers = Object.entries(params.answers).map(([question_id, answer]) => ({
+    question_id,
+    answer,
+  }));
 
   // Transform questions to the expected format
   const formattedQuestions = params.questions.map((q) => ({
@@ -65,18 +122,35 @@ async function gradeAssignmentApi(params: GradeParams): Promise<GradeResult> {
     examType: params.examType,
   }));
 
-  const { data, error } = await supabase.functions.invoke("grade-assignment", {
-    body: {
-      student_id: params.studentId,
-      assignment_id: params.assignmentId,
-      attempt_id: params.attemptId,
-      answers: formattedAnswers,
-      questions: formattedQuestions,
-      exam_type: params.examType,
-    },
-  });
+  const body = {
+    student_id: params.studentId,
+    assignment_id: params.assignmentId,
+    attempt_id: params.attemptId,
+    answers: formattedAnswers,
+    questions: formattedQuestions,
+    exam_type: params.examType,
+  };
+
+  const queueSubmission = async () => {
+    // A fixed attempt id lets a replayed submission be recognised as the same attempt
+    const attemptId = params.attemptId ?? crypto.randomUUID();
+    await enqueueOutbox(`grade:${params.assignmentId}:${attemptId}`, "grade-assignment", {
+      ...body,
+      attempt_id: attemptId,
+    });
+    return gradeLocally(params);
+  };
+
+  if (!navigator.onLine) {
+    return queueSubmission();
+  }
+
+  const { data, error } = await supabase.functions.invoke("grade-assignment", { body });
 
   if (error) {
+    if (isOfflineError(error)) {
+      return queueSubmission();
+    }
     throw new Error(error.message || "Failed to grade assignment");
   }
 
@@ -92,6 +166,7 @@ async function gradeAssignmentApi(params: GradeParams): Promise<GradeResult> {
  */
 export function useGradeAssignmentMutation() {
   const queryClient = useQueryClient();
+  const { mutate: evaluateBadges } = useEvaluateBadges();
 
   return useMutation({
     mutationFn: gradeAssignmentApi,
@@ -111,6 +186,15 @@ export function useGradeAssignmentMutation() {
         queryKey: queryKeys.students.profile("me"),
       });
 
+      // A graded assignment can complete a badge's criteria, and a low
+      // score can match a parent's alert rule
+      if (!data.queued) {
+        evaluateBadges();
+        alertOnAssignmentScore(variables.studentId, variables.assignmentId, data.percentage).catch((error) =>
+          console.error("Low score alert error:", error)
+        );
+      }
+
       // If GeoBlox was unlocked, invalidate that too
       if (data.geoblox_unlocked) {
         queryClient.invalidateQueries({
@@ -0,0 +1,52 @@
+/**
+ * Mystery Pack Mutation Hooks
+ *
+ * Claim packs earned through milestones and open them.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { claimMilestonePacks, openMysteryPack } from "@/lib/api/mysteryPacks";
+import type { ClaimPacksResult, OpenPackResult } from "@/lib/api/mysteryPacks";
+
+/**
+ * Hook to grant any milestone packs the student has earned
+ */
+export function useClaimMilestonePacks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: claimMilestonePacks,
+    onSuccess: (data) => {
+      if (data.granted > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.packs.all });
+      }
+    },
+    onError: (error) => {
+      console.error("Claim milestone packs error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to open a pack and refresh coins, collection and history
+ */
+export function useOpenMysteryPack() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: openMysteryPack,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.packs.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rewards.collectibles() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rewards.transactionHistory() });
+    },
+    onError: (error) => {
+      console.error("Open mystery pack error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { ClaimPacksResult, OpenPackResult };
@@ -0,0 +1,30 @@
+/**
+ * Parent Alert Mutation Hooks
+ *
+ * Save a parent's alert rules.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { saveParentAlertRule } from "@/lib/api/parentAlerts";
+import type { SaveParentAlertRuleParams } from "@/lib/api/parentAlerts";
+
+/**
+ * Hook to save the signed-in parent's rules for one child
+ */
+export function useSaveParentAlertRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rules: SaveParentAlertRuleParams[]) => Promise.all(rules.map(saveParentAlertRule)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.parentAlerts.rules() });
+    },
+    onError: (error) => {
+      console.error("Save alert rules error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { SaveParentAlertRuleParams };
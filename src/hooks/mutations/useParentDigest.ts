@@ -0,0 +1,49 @@
+/**
+ * Parent Digest Mutation Hooks
+ *
+ * Save digest settings and send the digest.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { saveParentDigestSettings, sendParentDigest } from "@/lib/api/parentDigest";
+import type { SaveDigestSettingsParams, SendDigestResult } from "@/lib/api/parentDigest";
+
+/**
+ * Hook to save the signed-in parent's digest settings
+ */
+export function useSaveParentDigestSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveParentDigestSettings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.parentDigest.settings() });
+    },
+    onError: (error) => {
+      console.error("Save digest settings error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to send the digest: when due, or right away with `force`
+ */
+export function useSendParentDigest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (options: { force?: boolean } = {}) => sendParentDigest(options),
+    onSuccess: (result) => {
+      if (!result.sent) return;
+      queryClient.invalidateQueries({ queryKey: queryKeys.parentDigest.settings() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+    onError: (error) => {
+      console.error("Send digest error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { SaveDigestSettingsParams, SendDigestResult };
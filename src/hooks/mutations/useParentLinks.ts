@@ -0,0 +1,64 @@
+/**
+ * Parent Link Mutation Hooks
+ *
+ * Request, review and generate codes for parent–student links.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { generateParentLinkCode, requestParentLink, reviewParentLink } from "@/lib/api/parentLinks";
+import type { RequestParentLinkParams, ReviewParentLinkParams } from "@/lib/api/parentLinks";
+
+/**
+ * Hook for a parent to request a link to a student
+ */
+export function useRequestParentLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: requestParentLink,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.parentLinks.mine() });
+    },
+    onError: (error) => {
+      console.error("Request parent link error:", error);
+    },
+  });
+}
+
+/**
+ * Hook for a teacher to approve or reject a link request
+ */
+export function useReviewParentLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: reviewParentLink,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.parentLinks.pending() });
+    },
+    onError: (error) => {
+      console.error("Review parent link error:", error);
+    },
+  });
+}
+
+/**
+ * Hook for a student to create a new one-time link code
+ */
+export function useGenerateParentLinkCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: generateParentLinkCode,
+    onSuccess: (code) => {
+      queryClient.setQueryData(queryKeys.parentLinks.code(), code);
+    },
+    onError: (error) => {
+      console.error("Generate link code error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { RequestParentLinkParams, ReviewParentLinkParams };
@@ -0,0 +1,86 @@
+/**
+ * Pledge Mutation Hooks
+ *
+ * Create and delete pledges, and move them through their lifecycle.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { createBadgePledge, createPointPledge, deletePledge, transitionPledge } from "@/lib/api/pledges";
+import type { CreateBadgePledgeParams, CreatePointPledgeParams, TransitionPledgeParams } from "@/lib/api/pledges";
+
+/**
+ * Hook to promise a reward for reaching a coin balance
+ */
+export function useCreatePointPledge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createPointPledge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all });
+    },
+    onError: (error) => {
+      console.error("Create pledge error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to promise a reward for earning a badge
+ */
+export function useCreateBadgePledge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createBadgePledge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all });
+    },
+    onError: (error) => {
+      console.error("Create pledge error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to delete a pledge
+ */
+export function useDeletePledge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deletePledge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all });
+    },
+    onError: (error) => {
+      console.error("Delete pledge error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to claim, fulfil or decline a pledge. Fulfilling pays bonus coins,
+ * so balances and the transaction log are refreshed too.
+ */
+export function useTransitionPledge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: transitionPledge,
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pledges.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+      if (variables.to === "fulfilled") {
+        queryClient.invalidateQueries({ queryKey: queryKeys.rewards.transactionHistory() });
+      }
+    },
+    onError: (error) => {
+      console.error("Update pledge error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { CreateBadgePledgeParams, CreatePointPledgeParams, TransitionPledgeParams };
@@ -0,0 +1,30 @@
+/**
+ * Publish Economy Config Mutation Hook
+ *
+ * Publishes a new version of a school's reward economy.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { publishEconomyConfig } from "@/lib/api/economy";
+import type { PublishEconomyConfigParams } from "@/lib/api/economy";
+
+/**
+ * Hook to publish an economy config version
+ */
+export function usePublishEconomyConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: publishEconomyConfig,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.economy.all });
+    },
+    onError: (error) => {
+      console.error("Publish economy config error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { PublishEconomyConfigParams };
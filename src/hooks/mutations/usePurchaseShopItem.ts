@@ -0,0 +1,34 @@
+/**
+ * Purchase Shop Item Mutation Hook
+ *
+ * Spends coins on a collectible through the atomic purchase RPC.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { purchaseShopItem } from "@/lib/api/shop";
+import type { PurchaseResult, PurchaseShopItemParams } from "@/lib/api/shop";
+
+/**
+ * Hook to buy a shop item and refresh coins, inventory and history
+ */
+export function usePurchaseShopItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: purchaseShopItem,
+    // A rejected purchase can still mean prices or stock changed
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shop.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rewards.collectibles() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rewards.transactionHistory() });
+    },
+    onError: (error) => {
+      console.error("Purchase shop item error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { PurchaseResult, PurchaseShopItemParams };
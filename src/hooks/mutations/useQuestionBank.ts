@@ -0,0 +1,86 @@
+/**
+ * Question Bank Mutation Hooks
+ *
+ * Authoring, bulk import and the one-time migration of built-in questions.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import {
+  deleteBankQuestion,
+  importBankQuestions,
+  migrateBuiltInQuestions,
+  saveBankQuestion,
+} from "@/lib/api/questionBank";
+import type { MigrateBuiltInQuestionsResult, SaveBankQuestionParams } from "@/lib/api/questionBank";
+
+/**
+ * Hook to create or update a bank question
+ */
+export function useSaveBankQuestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveBankQuestion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.questionBank.all });
+    },
+    onError: (error) => {
+      console.error("Save bank question error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to delete a bank question
+ */
+export function useDeleteBankQuestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteBankQuestion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.questionBank.all });
+    },
+    onError: (error) => {
+      console.error("Delete bank question error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to bulk import validated questions
+ */
+export function useImportBankQuestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importBankQuestions,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.questionBank.all });
+    },
+    onError: (error) => {
+      console.error("Import bank questions error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to load the built-in question literals into the bank
+ */
+export function useMigrateBuiltInQuestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: migrateBuiltInQuestions,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.questionBank.all });
+    },
+    onError: (error) => {
+      console.error("Migrate built-in questions error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { MigrateBuiltInQuestionsResult, SaveBankQuestionParams };
@@ -0,0 +1,34 @@
+/**
+ * Record Quiz Battle Mutation Hook
+ *
+ * Reports a finished quiz battle and returns the student's recorded result.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { recordQuizBattle } from "@/lib/api/battles";
+import type { QuizBattleResult, RecordQuizBattleParams } from "@/lib/api/battles";
+import { useEvaluateBadges } from "./useBadges";
+
+/**
+ * Hook to record a battle result and refresh the student's stats
+ */
+export function useRecordQuizBattle() {
+  const queryClient = useQueryClient();
+  const { mutate: evaluateBadges } = useEvaluateBadges();
+
+  return useMutation({
+    mutationFn: recordQuizBattle,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.students.all });
+      // A won battle can complete a badge's criteria
+      evaluateBadges();
+    },
+    onError: (error) => {
+      console.error("Record quiz battle error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { QuizBattleResult, RecordQuizBattleParams };
@@ -0,0 +1,30 @@
+/**
+ * Record Regents Attempts Mutation Hook
+ *
+ * Saves a finished Regents practice session to the attempt log.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { recordRegentsAttempts } from "@/lib/api/regents";
+import type { RecordRegentsAttemptsParams, RegentsAnswerInput } from "@/lib/api/regents";
+
+/**
+ * Hook to record a session's answers and refresh progress views
+ */
+export function useRecordRegentsAttempts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: recordRegentsAttempts,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.regents.all });
+    },
+    onError: (error) => {
+      console.error("Record Regents attempts error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { RecordRegentsAttemptsParams, RegentsAnswerInput };
@@ -0,0 +1,27 @@
+/**
+ * Retry Sync Event Mutation Hook
+ *
+ * Lets admins resend a failed NYCologic sync event.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { retrySyncEvent } from "@/lib/api/nycologicSync";
+
+/**
+ * Hook to resend a logged sync event
+ */
+export function useRetrySyncEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: retrySyncEvent,
+    // The attempt is logged whether or not it succeeds
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.syncEvents.all });
+    },
+    onError: (error) => {
+      console.error("Retry sync event error:", error);
+    },
+  });
+}
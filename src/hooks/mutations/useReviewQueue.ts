@@ -0,0 +1,42 @@
+/**
+ * Review Queue Mutation Hooks
+ *
+ * Add missed questions to the review queue and reschedule cards after review.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { enqueueMissedQuestions, recordReviewAnswer } from "@/lib/api/review";
+import type { MissedQuestionInput, RecordReviewAnswerParams } from "@/lib/api/review";
+
+/**
+ * Hook to add missed questions to the current user's review queue
+ */
+export function useEnqueueMissedQuestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: enqueueMissedQuestions,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.review.all });
+    },
+    onError: (error) => {
+      console.error("Enqueue missed questions error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to reschedule a review card after it was answered
+ */
+export function useRecordReviewAnswer() {
+  return useMutation({
+    mutationFn: recordReviewAnswer,
+    onError: (error) => {
+      console.error("Record review answer error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { MissedQuestionInput, RecordReviewAnswerParams };
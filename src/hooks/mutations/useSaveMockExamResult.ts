@@ -0,0 +1,30 @@
+/**
+ * Save Mock Exam Result Mutation Hook
+ *
+ * Persists a submitted mock Regents exam and its per-question answers.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { saveMockExamResult } from "@/lib/api/regents";
+import type { SaveMockExamResultParams } from "@/lib/api/regents";
+
+/**
+ * Hook to save a mock exam result and refresh Regents progress
+ */
+export function useSaveMockExamResult() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveMockExamResult,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.regents.all });
+    },
+    onError: (error) => {
+      console.error("Save mock exam result error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { SaveMockExamResultParams };
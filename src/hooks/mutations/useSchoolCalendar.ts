@@ -0,0 +1,47 @@
+/**
+ * School Calendar Mutation Hooks
+ *
+ * Import and remove school calendar events.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { deleteSchoolCalendarEvent, importSchoolCalendar } from "@/lib/api/schoolCalendar";
+import type { ImportSchoolCalendarParams } from "@/lib/api/schoolCalendar";
+
+/**
+ * Hook to import events parsed from an .ics file
+ */
+export function useImportSchoolCalendar() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importSchoolCalendar,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.schoolCalendar.all });
+    },
+    onError: (error) => {
+      console.error("Import school calendar error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to delete a calendar event
+ */
+export function useDeleteSchoolCalendarEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSchoolCalendarEvent,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.schoolCalendar.all });
+    },
+    onError: (error) => {
+      console.error("Delete calendar event error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { ImportSchoolCalendarParams };
@@ -0,0 +1,71 @@
+/**
+ * Streak Shield Mutation Hooks
+ *
+ * Buy a shield with coins, or spend one on a missed day, and save the
+ * streak the engine worked out.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query";
+import { consumeStreakShield, purchaseStreakShield, syncStreak } from "@/lib/api/streaks";
+import type { DayKey } from "@/lib/streaks";
+import type { ShieldResult } from "@/lib/api/streaks";
+
+/**
+ * Hook to spend the student's shield on a missed school day
+ */
+export function useConsumeStreakShield() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: consumeStreakShield,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.streaks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+    },
+    onError: (error) => {
+      console.error("Consume streak shield error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to buy a streak shield
+ */
+export function usePurchaseStreakShield() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: purchaseStreakShield,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.streaks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+      queryClient.invalidateQueries({ queryKey: queryKeys.rewards.transactionHistory() });
+    },
+    onError: (error) => {
+      console.error("Purchase streak shield error:", error);
+    },
+  });
+}
+
+/**
+ * Hook to save the student's current and longest streak to their profile
+ */
+export function useSyncStreak() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ today, current, longest }: { today: DayKey; current: number; longest: number }) =>
+      syncStreak(today, current, longest),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.streaks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+    },
+    onError: (error) => {
+      console.error("Sync streak error:", error);
+    },
+  });
+}
+
+// Re-export types
+export type { ShieldResult };
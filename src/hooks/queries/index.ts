@@ -9,3 +9,24 @@ export * from "./useStudentProfile";
 export * from "./useGeobloxAccess";
 export * from "./useAssignments";
 export * from "./usePracticeSets";
+export * from "./useRegentsProgress";
+export * from "./useLearnerHistory";
+export * from "./useMockExamResults";
+export * from "./useReviewQueue";
+export * from "./useQuestionBank";
+export * from "./useSyncEvents";
+export * from "./useLeaderboard";
+export * from "./useTeacherClass";
+export * from "./useBattlePlayerName";
+export * from "./useTransactionHistory";
+export * from "./useShopItems";
+export * from "./useMysteryPacks";
+export * from "./useEconomyConfig";
+export * from "./useStreakHistory";
+export * from "./useSchoolCalendar";
+export * from "./useBadges";
+export * from "./useParentLinks";
+export * from "./useParentDigest";
+export * from "./useParentAlerts";
+export * from "./usePledges";
+export * from "./useChallenges";
@@ -0,0 +1,38 @@
+/**
+ * Badge Query Hooks
+ *
+ * Badge definitions with parsed criteria, and the qualifying-student preview.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchBadgeDefinitions, fetchBadgeQualifiers } from "@/lib/api/badges";
+import type { BadgeCriteria } from "@/lib/badgeCriteria";
+
+/**
+ * Hook to fetch every badge
+ */
+export function useBadgeDefinitions() {
+  return useQuery({
+    queryKey: queryKeys.badges.definitions(),
+    queryFn: fetchBadgeDefinitions,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Hook to list the students who meet some criteria right now.
+ * Pass null to skip, e.g. while the criteria are still invalid.
+ */
+export function useBadgeQualifiers(criteria: BadgeCriteria | null, badgeId?: string) {
+  return useQuery({
+    queryKey: queryKeys.badges.qualifiers(criteria, badgeId),
+    queryFn: () => fetchBadgeQualifiers(criteria!, badgeId),
+    enabled: !!criteria,
+    staleTime: STALE_TIMES.ASSIGNMENTS,
+  });
+}
+
+// Re-export types
+export type { BadgeDefinition, BadgeQualifier } from "@/lib/api/badges";
+export type { BadgeCriteria } from "@/lib/badgeCriteria";
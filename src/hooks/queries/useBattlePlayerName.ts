@@ -0,0 +1,21 @@
+/**
+ * Battle Player Name Query Hook
+ *
+ * The name a student is shown under in the quiz battle lobby.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchBattlePlayerName } from "@/lib/api/battles";
+
+/**
+ * Hook to fetch the lobby display name for a student
+ */
+export function useBattlePlayerName(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.battles.playerName(userId ?? ""),
+    queryFn: () => fetchBattlePlayerName(userId!),
+    enabled: !!userId,
+    staleTime: STALE_TIMES.USER,
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Challenge Query Hooks
+ *
+ * Active challenges, the student's entries, and live team standings.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import {
+  fetchActiveChallenges,
+  fetchMyChallengeParticipations,
+  fetchTeamChallenges,
+  fetchTeamStandings,
+  type Challenge,
+} from "@/lib/api/challenges";
+
+/** How often team bars refresh while the page is open */
+const TEAM_STANDINGS_REFRESH_MS = 30_000;
+
+/**
+ * Hook to fetch active challenges that haven't ended
+ */
+export function useActiveChallenges() {
+  return useQuery({
+    queryKey: queryKeys.challenges.active(),
+    queryFn: fetchActiveChallenges,
+    staleTime: STALE_TIMES.ASSIGNMENTS,
+  });
+}
+
+/**
+ * Hook to fetch the signed-in student's challenge entries
+ */
+export function useChallengeParticipations() {
+  return useQuery({
+    queryKey: queryKeys.challenges.participations(),
+    queryFn: fetchMyChallengeParticipations,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+/**
+ * Hook to fetch every team's progress in a team challenge, kept live
+ */
+export function useTeamStandings(challenge: Challenge | undefined) {
+  return useQuery({
+    queryKey: queryKeys.challenges.progress(challenge?.id ?? ""),
+    queryFn: () => fetchTeamStandings(challenge!),
+    enabled: !!challenge && challenge.scope !== "individual",
+    staleTime: STALE_TIMES.REALTIME,
+    refetchInterval: TEAM_STANDINGS_REFRESH_MS,
+  });
+}
+
+/**
+ * Hook to fetch team challenges for the admin list
+ */
+export function useTeamChallenges() {
+  return useQuery({
+    queryKey: queryKeys.challenges.teams(),
+    queryFn: fetchTeamChallenges,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { Challenge, ChallengeParticipation, TeamChallengeSummary, TeamStanding } from "@/lib/api/challenges";
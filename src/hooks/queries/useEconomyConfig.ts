@@ -0,0 +1,51 @@
+/**
+ * Economy Config Query Hooks
+ *
+ * The level curve and reward rules in effect, and the published history.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchEconomyConfigVersions, fetchMyEconomyConfig, fetchMySchoolId } from "@/lib/api/economy";
+import { DEFAULT_ECONOMY_CONFIG } from "@/lib/economy";
+
+/**
+ * Hook to load the economy config for the signed-in user's school.
+ * `config` is the built-in default until the real one has loaded.
+ */
+export function useEconomyConfig() {
+  const query = useQuery({
+    queryKey: queryKeys.economy.mine(),
+    queryFn: fetchMyEconomyConfig,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  return { ...query, config: query.data?.config ?? DEFAULT_ECONOMY_CONFIG };
+}
+
+/**
+ * Hook to get the signed-in user's school
+ */
+export function useMySchoolId() {
+  return useQuery({
+    queryKey: queryKeys.economy.mySchool(),
+    queryFn: fetchMySchoolId,
+    staleTime: STALE_TIMES.USER,
+  });
+}
+
+/**
+ * Hook to fetch every published version for a school, or district-wide
+ */
+export function useEconomyConfigVersions(schoolId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.economy.versions(schoolId),
+    queryFn: () => fetchEconomyConfigVersions(schoolId),
+    enabled,
+    staleTime: STALE_TIMES.ASSIGNMENTS,
+  });
+}
+
+// Re-export types
+export type { ActiveEconomyConfig, EconomyConfigVersion } from "@/lib/api/economy";
+export type { EconomyConfig } from "@/lib/economy";
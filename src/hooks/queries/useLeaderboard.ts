@@ -0,0 +1,50 @@
+/**
+ * Leaderboard Query Hooks
+ *
+ * Period rankings among classmates, computed from the reward ledger.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchLeaderboard, fetchLeaderboardClasses } from "@/lib/api/leaderboard";
+import type {
+  LeaderboardClass,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardQuery,
+  LeaderboardResult,
+  LeaderboardSort,
+} from "@/lib/api/leaderboard";
+
+/**
+ * Hook to fetch the ranked leaderboard for the signed-in student
+ */
+export function useLeaderboard(userId: string | undefined, filters: Omit<LeaderboardQuery, "userId">) {
+  return useQuery({
+    queryKey: [...queryKeys.leaderboard.list(filters), userId ?? ""],
+    queryFn: () => fetchLeaderboard({ ...filters, userId: userId! }),
+    enabled: !!userId,
+    staleTime: STALE_TIMES.REALTIME,
+  });
+}
+
+/**
+ * Hook to fetch the classes a student can filter the leaderboard by
+ */
+export function useLeaderboardClasses(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.leaderboard.classes(userId ?? ""),
+    queryFn: () => fetchLeaderboardClasses(userId!),
+    enabled: !!userId,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+// Re-export types
+export type {
+  LeaderboardClass,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardResult,
+  LeaderboardSort,
+};
@@ -0,0 +1,25 @@
+/**
+ * Learner History Query Hook
+ *
+ * Fetches a student's answers from every practice source for adaptive
+ * question selection.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchLearnerHistory } from "@/lib/api/learnerHistory";
+import type { AnswerHistoryEntry } from "@/lib/adaptiveSelection";
+
+/**
+ * Hook to fetch the answer history for a student (defaults to the current user)
+ */
+export function useLearnerHistory(studentId?: string) {
+  return useQuery({
+    queryKey: queryKeys.regents.history(studentId ?? "me"),
+    queryFn: () => fetchLearnerHistory(studentId),
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { AnswerHistoryEntry };
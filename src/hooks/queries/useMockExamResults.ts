@@ -0,0 +1,24 @@
+/**
+ * Mock Exam Results Query Hook
+ *
+ * Fetches saved mock Regents exam results so attempts can be compared over time.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchMockExamResults } from "@/lib/api/regents";
+import type { MockExamResult } from "@/lib/api/regents";
+
+/**
+ * Hook to fetch mock exam results for a student (defaults to the current user)
+ */
+export function useMockExamResults(studentId?: string) {
+  return useQuery({
+    queryKey: queryKeys.regents.mockExams(studentId ?? "me"),
+    queryFn: () => fetchMockExamResults(studentId),
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { MockExamResult };
@@ -0,0 +1,35 @@
+/**
+ * Mystery Pack Query Hooks
+ *
+ * Pack odds and the packs a student has earned.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchMysteryPacks, fetchStudentPacks } from "@/lib/api/mysteryPacks";
+
+/**
+ * Hook to fetch active packs and their drop rates
+ */
+export function useMysteryPacks() {
+  return useQuery({
+    queryKey: queryKeys.packs.catalog(),
+    queryFn: fetchMysteryPacks,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Hook to fetch a student's earned packs
+ */
+export function useStudentPacks(studentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.packs.student(studentId ?? ""),
+    queryFn: () => fetchStudentPacks(studentId!),
+    enabled: !!studentId,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { DropRates, MysteryPack, StudentPack } from "@/lib/api/mysteryPacks";
@@ -0,0 +1,23 @@
+/**
+ * Parent Alert Query Hooks
+ *
+ * The signed-in parent's alert rules.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchParentAlertRules } from "@/lib/api/parentAlerts";
+
+/**
+ * Hook to fetch the signed-in parent's saved alert rules
+ */
+export function useParentAlertRules() {
+  return useQuery({
+    queryKey: queryKeys.parentAlerts.rules(),
+    queryFn: fetchParentAlertRules,
+    staleTime: STALE_TIMES.USER,
+  });
+}
+
+// Re-export types
+export type { ParentAlertRule } from "@/lib/parentAlerts";
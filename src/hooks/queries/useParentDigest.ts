@@ -0,0 +1,39 @@
+/**
+ * Parent Digest Query Hooks
+ *
+ * The signed-in parent's digest settings, and the digest for the current
+ * period as it would be sent right now.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchParentDigest, fetchParentDigestSettings } from "@/lib/api/parentDigest";
+import { digestPeriod, type DigestCadence } from "@/lib/parentDigest";
+import type { LanguageCode } from "@/i18n/languages";
+
+/**
+ * Hook to fetch the signed-in parent's digest settings
+ */
+export function useParentDigestSettings() {
+  return useQuery({
+    queryKey: queryKeys.parentDigest.settings(),
+    queryFn: fetchParentDigestSettings,
+    staleTime: STALE_TIMES.USER,
+  });
+}
+
+/**
+ * Hook to build the digest for the period ending now, for previewing
+ */
+export function useParentDigestPreview(cadence: DigestCadence, language: LanguageCode, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.parentDigest.preview(cadence, language),
+    queryFn: () => fetchParentDigest(digestPeriod(cadence, new Date()), language),
+    enabled,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { ParentDigestSettings } from "@/lib/api/parentDigest";
+export type { ParentDigest } from "@/lib/parentDigest";
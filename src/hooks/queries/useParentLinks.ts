@@ -0,0 +1,46 @@
+/**
+ * Parent Link Query Hooks
+ *
+ * A parent's links, a teacher's pending requests and a student's current
+ * link code.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchMyParentLinkCode, fetchMyParentLinks, fetchPendingParentLinks } from "@/lib/api/parentLinks";
+
+/**
+ * Hook to fetch the signed-in parent's links, in any status
+ */
+export function useMyParentLinks() {
+  return useQuery({
+    queryKey: queryKeys.parentLinks.mine(),
+    queryFn: fetchMyParentLinks,
+    staleTime: STALE_TIMES.USER,
+  });
+}
+
+/**
+ * Hook to fetch link requests waiting on the signed-in teacher
+ */
+export function usePendingParentLinks() {
+  return useQuery({
+    queryKey: queryKeys.parentLinks.pending(),
+    queryFn: fetchPendingParentLinks,
+    staleTime: STALE_TIMES.REALTIME,
+  });
+}
+
+/**
+ * Hook to fetch the signed-in student's active link code
+ */
+export function useMyParentLinkCode() {
+  return useQuery({
+    queryKey: queryKeys.parentLinks.code(),
+    queryFn: fetchMyParentLinkCode,
+    staleTime: STALE_TIMES.USER,
+  });
+}
+
+// Re-export types
+export type { ParentLink, ParentLinkCode, ParentLinkRequest, ParentLinkStatus } from "@/lib/api/parentLinks";
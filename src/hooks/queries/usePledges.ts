@@ -0,0 +1,35 @@
+/**
+ * Pledge Query Hooks
+ *
+ * Coin and badge pledges, for the parent who made them or the student they
+ * are for, with progress and history.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchParentPledges, fetchStudentPledges } from "@/lib/api/pledges";
+
+/**
+ * Hook to fetch every pledge the signed-in parent has made
+ */
+export function useParentPledges() {
+  return useQuery({
+    queryKey: queryKeys.pledges.parent(),
+    queryFn: fetchParentPledges,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+/**
+ * Hook to fetch every pledge made to the signed-in student
+ */
+export function useStudentPledges() {
+  return useQuery({
+    queryKey: queryKeys.pledges.student(),
+    queryFn: fetchStudentPledges,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { Pledge, PledgeEvent } from "@/lib/api/pledges";
@@ -0,0 +1,47 @@
+/**
+ * Question Bank Query Hooks
+ *
+ * Fetches Regents questions from the question bank table.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchBankQuestions } from "@/lib/api/questionBank";
+import type { BankQuestion } from "@/lib/api/questionBank";
+import { REGENTS_QUESTIONS, type RegentsQuestion } from "@/data/regentsSampleQuestions";
+
+/**
+ * Hook to fetch bank questions, optionally for one exam
+ */
+export function useQuestionBank(examType?: string) {
+  return useQuery({
+    queryKey: queryKeys.questionBank.list(examType),
+    queryFn: () => fetchBankQuestions(examType),
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Regents questions to serve to students. Each exam falls back to the
+ * built-in questions until the bank has some for it.
+ */
+export function useRegentsQuestionPool() {
+  const { data, isLoading } = useQuestionBank();
+
+  const questions: RegentsQuestion[] = useMemo(() => {
+    const bank = data ?? [];
+    const bankExams = new Set(bank.map((q) => q.examType));
+    return [...bank, ...REGENTS_QUESTIONS.filter((q) => !bankExams.has(q.examType))];
+  }, [data]);
+
+  const getQuestionsForExam = useCallback(
+    (examType: string) => questions.filter((q) => q.examType === examType),
+    [questions]
+  );
+
+  return { isLoading, questions, getQuestionsForExam };
+}
+
+// Re-export types
+export type { BankQuestion };
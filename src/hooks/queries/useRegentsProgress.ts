@@ -0,0 +1,48 @@
+/**
+ * Regents Progress Query Hook
+ *
+ * Fetches the Regents attempt log and derives exam and standard progress.
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchRegentsAttempts } from "@/lib/api/regents";
+import type { RegentsQuestionAttempt } from "@/lib/api/regents";
+import {
+  summarizeExamProgress,
+  summarizeStandardProgress,
+  type ExamProgress,
+  type StandardProgress,
+} from "@/lib/regentsProgress";
+
+/**
+ * Hook to fetch Regents progress for a student (defaults to the current user)
+ */
+export function useRegentsProgress(studentId?: string) {
+  const query = useQuery({
+    queryKey: queryKeys.regents.attempts(studentId ?? "me"),
+    queryFn: () => fetchRegentsAttempts(studentId),
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+
+  const attempts = query.data;
+
+  const examProgress = useMemo(() => summarizeExamProgress(attempts ?? []), [attempts]);
+  const standardProgress = useMemo(() => summarizeStandardProgress(attempts ?? []), [attempts]);
+
+  return {
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+
+    attempts: attempts ?? [],
+    examProgress,
+    standardProgress,
+
+    refetch: query.refetch,
+  };
+}
+
+// Re-export types
+export type { RegentsQuestionAttempt, ExamProgress, StandardProgress };
@@ -0,0 +1,24 @@
+/**
+ * Review Queue Query Hook
+ *
+ * Fetches the spaced-repetition cards due for review today.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchDueReviewItems } from "@/lib/api/review";
+import type { ReviewQueueItem, ReviewQuestionData } from "@/lib/api/review";
+
+/**
+ * Hook to fetch review cards due today for a student (defaults to the current user)
+ */
+export function useDueReviews(studentId?: string) {
+  return useQuery({
+    queryKey: queryKeys.review.due(studentId ?? "me"),
+    queryFn: () => fetchDueReviewItems(studentId),
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { ReviewQueueItem, ReviewQuestionData };
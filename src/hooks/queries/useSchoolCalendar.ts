@@ -0,0 +1,47 @@
+/**
+ * School Calendar Query Hooks
+ *
+ * Holidays, breaks and exam weeks for the signed-in user's school, and the
+ * school-day rules built from them.
+ */
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchMySchoolCalendar, fetchSchoolCalendarEvents } from "@/lib/api/schoolCalendar";
+import { buildSchoolCalendar, EMPTY_SCHOOL_CALENDAR } from "@/lib/schoolCalendar";
+
+/**
+ * Hook to load the signed-in user's school calendar.
+ * `calendar` treats every weekday as a school day until it has loaded.
+ */
+export function useSchoolCalendar() {
+  const query = useQuery({
+    queryKey: queryKeys.schoolCalendar.mine(),
+    queryFn: fetchMySchoolCalendar,
+    staleTime: STALE_TIMES.STATIC,
+  });
+
+  const calendar = useMemo(
+    () => (query.data ? buildSchoolCalendar(query.data) : EMPTY_SCHOOL_CALENDAR),
+    [query.data]
+  );
+
+  return { ...query, calendar };
+}
+
+/**
+ * Hook to fetch the events imported for one school, or district-wide
+ */
+export function useSchoolCalendarEvents(schoolId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.schoolCalendar.scope(schoolId),
+    queryFn: () => fetchSchoolCalendarEvents(schoolId),
+    enabled,
+    staleTime: STALE_TIMES.ASSIGNMENTS,
+  });
+}
+
+// Re-export types
+export type { SchoolCalendarEvent } from "@/lib/api/schoolCalendar";
+export type { SchoolCalendar } from "@/lib/schoolCalendar";
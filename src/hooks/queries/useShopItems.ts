@@ -0,0 +1,24 @@
+/**
+ * Coin Shop Query Hook
+ *
+ * Collectibles currently for sale, with the student's purchase counts.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchShopItems } from "@/lib/api/shop";
+
+/**
+ * Hook to fetch the shop's current rotation for a student
+ */
+export function useShopItems(studentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.shop.items(studentId ?? ""),
+    queryFn: () => fetchShopItems(studentId!),
+    enabled: !!studentId,
+    staleTime: STALE_TIMES.ASSIGNMENTS,
+  });
+}
+
+// Re-export types
+export type { ShopItem } from "@/lib/api/shop";
@@ -0,0 +1,24 @@
+/**
+ * Streak History Query Hook
+ *
+ * Recent qualifying activity and shield usage for the streak engine.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchStreakHistory } from "@/lib/api/streaks";
+
+/**
+ * Hook to fetch a student's streak history
+ */
+export function useStreakHistory(studentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.streaks.history(studentId ?? ""),
+    queryFn: () => fetchStreakHistory(studentId!),
+    enabled: !!studentId,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { StreakHistory } from "@/lib/api/streaks";
@@ -0,0 +1,24 @@
+/**
+ * NYCologic Sync Event Query Hooks
+ *
+ * Delivery log of events sent to the NYCologic teacher app.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchSyncEvents } from "@/lib/api/nycologicSync";
+import type { SyncEventStatus } from "@/lib/api/nycologicSync";
+
+/**
+ * Hook to fetch recent sync events, optionally filtered by status
+ */
+export function useSyncEvents(status?: SyncEventStatus) {
+  return useQuery({
+    queryKey: queryKeys.syncEvents.list(status),
+    queryFn: () => fetchSyncEvents(status),
+    staleTime: STALE_TIMES.REALTIME,
+  });
+}
+
+// Re-export types
+export type { SyncEvent, SyncEventStatus } from "@/lib/api/nycologicSync";
@@ -0,0 +1,77 @@
+/**
+ * Teacher Classroom Query Hooks
+ *
+ * Classes, rosters and student timelines for the teacher console.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import {
+  fetchAllClasses,
+  fetchClassRoster,
+  fetchStudentTimeline,
+  fetchTeacherClass,
+  fetchTeacherClasses,
+} from "@/lib/api/teacher";
+import type { RosterStudent, StudentStatusType, TeacherClass, TimelineEvent } from "@/lib/api/teacher";
+
+/**
+ * Hook to fetch the classes the current teacher teaches
+ */
+export function useTeacherClasses() {
+  return useQuery({
+    queryKey: queryKeys.classes.list("me"),
+    queryFn: fetchTeacherClasses,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Hook to fetch every class in the school (admins)
+ */
+export function useAllClasses() {
+  return useQuery({
+    queryKey: queryKeys.classes.list(),
+    queryFn: fetchAllClasses,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Hook to fetch one of the current teacher's classes
+ */
+export function useTeacherClass(classId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.classes.detail(classId ?? ""),
+    queryFn: () => fetchTeacherClass(classId!),
+    enabled: !!classId,
+    staleTime: STALE_TIMES.STATIC,
+  });
+}
+
+/**
+ * Hook to fetch a class roster with today's statuses
+ */
+export function useClassRoster(classId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.classes.students(classId ?? ""),
+    queryFn: () => fetchClassRoster(classId!),
+    enabled: !!classId,
+    staleTime: STALE_TIMES.REALTIME,
+  });
+}
+
+/**
+ * Hook to fetch a student's statuses, deductions and rewards
+ */
+export function useStudentTimeline(classId: string | undefined, studentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.classes.timeline(classId ?? "", studentId ?? ""),
+    queryFn: () => fetchStudentTimeline(classId!, studentId!),
+    enabled: !!classId && !!studentId,
+    staleTime: STALE_TIMES.REALTIME,
+  });
+}
+
+// Re-export types
+export type { RosterStudent, StudentStatusType, TeacherClass, TimelineEvent };
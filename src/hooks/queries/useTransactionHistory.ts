@@ -0,0 +1,24 @@
+/**
+ * Transaction History Query Hook
+ *
+ * A student's merged XP, coin and raffle ticket history.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys, STALE_TIMES } from "@/lib/query";
+import { fetchTransactionHistory } from "@/lib/api/transactions";
+
+/**
+ * Hook to fetch a student's transactions, newest first
+ */
+export function useTransactionHistory(studentId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.rewards.transactions(studentId ?? ""),
+    queryFn: () => fetchTransactionHistory(studentId!),
+    enabled: !!studentId,
+    staleTime: STALE_TIMES.PROGRESS,
+  });
+}
+
+// Re-export types
+export type { RewardSourceType, Transaction, TransactionFilters } from "@/lib/api/transactions";
@@ -18,6 +18,7 @@ const getTargetPath = (role: string | undefined): string => {
   switch (role) {
     case "admin": return "/admin";
     case "parent": return "/parent";
+    case "teacher": return "/teacher";
     default: return "/student";
   }
 };
@@ -40,12 +41,6 @@ export const useAuthRedirect = () => {
           const role = session.user.user_metadata?.role;
           const isEmailVerified = !!session.user.email_confirmed_at;
 
-          if (role === "teacher") {
-            await supabase.auth.signOut();
-            setIsLoading(false);
-            return;
-          }
-
           // Check email verification for protected routes
           if (!isEmailVerified && !isPublicRoute(location.pathname)) {
             navigate("/verify-email", { replace: true });
@@ -83,11 +78,6 @@ export const useAuthRedirect = () => {
           const role = session.user.user_metadata?.role;
           const isEmailVerified = !!session.user.email_confirmed_at;
 
-          if (role === "teacher") {
-            await supabase.auth.signOut();
-            return;
-          }
-
           // Redirect to verify-email if not verified
           if (!isEmailVerified) {
             navigate("/verify-email", { replace: true });
@@ -0,0 +1,100 @@
+/**
+ * Offline Sync Hook
+ *
+ * Tracks connectivity and the offline outbox, and replays queued grading,
+ * reward claims and NYCologic sync events whenever the browser comes back
+ * online or a backed-off entry becomes due. Signing out, or a different
+ * student signing in, clears the previous student's offline data.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { queryKeys } from "@/lib/query";
+import {
+  claimOfflineData,
+  clearOfflineData,
+  countOutbox,
+  replayOutbox,
+  subscribeToOutbox,
+  type ReplayOptions,
+} from "@/lib/offlineOutbox";
+
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const refreshCount = useCallback(() => {
+    countOutbox()
+      .then(setPendingCount)
+      .catch((error) => console.error("Failed to read offline outbox:", error));
+  }, []);
+
+  const replay = useCallback(async (options: ReplayOptions = {}) => {
+    if (!navigator.onLine) return;
+    clearTimeout(retryTimer.current);
+    setIsSyncing(true);
+    try {
+      const result = await replayOutbox(options);
+      if (result.nextAttemptAt) {
+        const delay = Math.max(Date.parse(result.nextAttemptAt) - Date.now(), 1000);
+        retryTimer.current = setTimeout(() => replay(), delay);
+      }
+      if (result.replayed > 0) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.students.profile("me") });
+        queryClient.invalidateQueries({ queryKey: queryKeys.rewards.claims() });
+        queryClient.invalidateQueries({ queryKey: queryKeys.assignments.all });
+      }
+    } catch (error) {
+      console.error("Offline sync error:", error);
+    } finally {
+      setIsSyncing(false);
+      refreshCount();
+    }
+  }, [queryClient, refreshCount]);
+
+  // Manual retry skips the backoff wait
+  const syncNow = useCallback(() => replay({ force: true }), [replay]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      replay();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const unsubscribe = subscribeToOutbox(refreshCount);
+    // Entries only replay for the student who queued them. The initial
+    // session also flushes anything left over from a previous visit.
+    const { data: authListener } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_OUT") {
+        clearOfflineData(null)
+          .then(refreshCount)
+          .catch((error) => console.error("Failed to clear offline data:", error));
+      } else if ((event === "SIGNED_IN" || event === "INITIAL_SESSION") && session) {
+        claimOfflineData(session.user.id)
+          .then(() => {
+            // The count is per student, so it changes with who is signed in
+            refreshCount();
+            return replay();
+          })
+          .catch((error) => console.error("Failed to clear offline data:", error));
+      }
+    });
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      unsubscribe();
+      authListener.subscription.unsubscribe();
+      clearTimeout(retryTimer.current);
+    };
+  }, [replay, refreshCount]);
+
+  return { isOnline, pendingCount, isSyncing, syncNow };
+}
@@ -3,19 +3,28 @@ const routeImports: Record<string, () => Promise<unknown>> = {
   '/student': () => import('@/pages/StudentHome'),
   '/student/practice-center': () => import('@/pages/PracticeCenter'),
   '/student/rewards': () => import('@/pages/Rewards'),
+  '/student/shop': () => import('@/pages/CoinShop'),
+  '/student/packs': () => import('@/pages/MysteryPacks'),
   '/student/leaderboard': () => import('@/pages/Leaderboard'),
   '/student/challenges': () => import('@/pages/Challenges'),
   '/student/profile': () => import('@/pages/StudentProfile'),
   '/student/notifications': () => import('@/pages/NotificationCenter'),
   '/student/raffle': () => import('@/pages/Raffle'),
+  '/student/review': () => import('@/pages/DailyReview'),
   '/games': () => import('@/pages/GameCenter'),
   '/games/play': () => import('@/pages/PlayGame'),
+  '/games/battle': () => import('@/pages/QuizBattle'),
   '/regents-prep': () => import('@/pages/RegentsPrep'),
   '/study-plan': () => import('@/pages/StudyPlan'),
   '/practice': () => import('@/pages/PracticeSet'),
   '/parent': () => import('@/pages/ParentDashboard'),
+  '/teacher': () => import('@/pages/TeacherHome'),
   '/admin': () => import('@/pages/AdminDashboard'),
   '/admin/classes': () => import('@/pages/AdminClasses'),
+  '/admin/questions': () => import('@/pages/AdminQuestionBank'),
+  '/admin/economy': () => import('@/pages/AdminEconomy'),
+  '/admin/calendar': () => import('@/pages/AdminCalendar'),
+  '/admin/badges': () => import('@/pages/AdminBadges'),
   '/admin/settings': () => import('@/pages/AdminSettings'),
   '/admin/external-students': () => import('@/pages/ExternalStudents'),
   '/auth': () => import('@/pages/Auth'),
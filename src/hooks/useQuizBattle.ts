@@ -0,0 +1,147 @@
+/**
+ * Quiz Battle Hook
+ *
+ * Joins a class's battle lobby and runs the match: folds transport messages
+ * through the battle reducer and, on the host's device, starts rounds and
+ * reveals answers on time.
+ */
+
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import {
+  allPlayersAnswered,
+  BATTLE_MAX_PLAYERS,
+  BATTLE_MIN_PLAYERS,
+  BATTLE_REVEAL_MS,
+  BATTLE_TIME_LIMIT_MS,
+  battleReducer,
+  currentHostId,
+  initialBattleState,
+  type BattleMessage,
+  type BattleQuestion,
+  type BattleTransport,
+} from "@/lib/quizBattle";
+import { createSupabaseBattleTransport } from "@/lib/supabaseBattleTransport";
+
+/** Extra time after the limit for late answers to arrive before the reveal */
+const REVEAL_GRACE_MS = 750;
+
+export type BattleConnection = "idle" | "connecting" | "connected" | "error";
+
+export interface UseQuizBattleOptions {
+  classId: string | undefined;
+  userId: string | undefined;
+  name: string | undefined;
+  /** Defaults to Supabase Realtime; pass an in-memory transport to play locally */
+  createTransport?: (classId: string) => BattleTransport;
+}
+
+export function useQuizBattle({
+  classId,
+  userId,
+  name,
+  createTransport = createSupabaseBattleTransport,
+}: UseQuizBattleOptions) {
+  const [state, dispatch] = useReducer(battleReducer, initialBattleState);
+  const [connection, setConnection] = useState<BattleConnection>("idle");
+  const transport = useRef<BattleTransport | null>(null);
+  const questionShownAt = useRef(0);
+
+  useEffect(() => {
+    if (!classId || !userId || !name) return;
+
+    const lobby = createTransport(classId);
+    transport.current = lobby;
+    dispatch({ type: "reset" });
+    setConnection("connecting");
+
+    const offMessage = lobby.onMessage((message) => dispatch(message));
+    const offPresence = lobby.onPresence((players) => dispatch({ type: "presence", players }));
+
+    lobby
+      .connect({ userId, name, joinedAt: Date.now() })
+      .then(() => setConnection("connected"))
+      .catch((error) => {
+        console.error("Failed to join battle lobby:", error);
+        setConnection("error");
+      });
+
+    return () => {
+      offMessage();
+      offPresence();
+      transport.current = null;
+      lobby.disconnect().catch((error) => console.error("Failed to leave battle lobby:", error));
+    };
+  }, [classId, userId, name, createTransport]);
+
+  const send = useCallback((message: BattleMessage) => {
+    transport.current?.send(message).catch((error) => console.error("Battle message failed:", error));
+  }, []);
+
+  const hostId = currentHostId(state);
+  const isHost = !!userId && hostId === userId;
+  const isPlayer = !!userId && state.players.some((p) => p.userId === userId);
+  const canStart =
+    isHost && (state.phase === "lobby" || state.phase === "finished") && state.lobby.length >= BATTLE_MIN_PLAYERS;
+
+  // Response times are measured from when this device showed the question
+  useEffect(() => {
+    if (state.phase === "question") questionShownAt.current = Date.now();
+  }, [state.phase, state.round, state.matchId]);
+
+  // Host: reveal once everyone has answered or time runs out
+  const everyoneAnswered = allPlayersAnswered(state);
+  useEffect(() => {
+    if (!isHost || state.phase !== "question" || !state.matchId) return;
+    const reveal: BattleMessage = { type: "reveal", matchId: state.matchId, round: state.round };
+    if (everyoneAnswered) {
+      send(reveal);
+      return;
+    }
+    const timer = setTimeout(() => send(reveal), state.timeLimitMs + REVEAL_GRACE_MS);
+    return () => clearTimeout(timer);
+  }, [isHost, state.phase, state.round, state.matchId, state.timeLimitMs, everyoneAnswered, send]);
+
+  // Host: move on after the reveal
+  const isLastRound = state.round + 1 >= state.questions.length;
+  useEffect(() => {
+    if (!isHost || state.phase !== "reveal" || !state.matchId) return;
+    const message: BattleMessage = isLastRound
+      ? { type: "finish", matchId: state.matchId }
+      : { type: "next", matchId: state.matchId, round: state.round + 1 };
+    const timer = setTimeout(() => send(message), BATTLE_REVEAL_MS);
+    return () => clearTimeout(timer);
+  }, [isHost, state.phase, state.round, state.matchId, isLastRound, send]);
+
+  const start = useCallback(
+    (questions: BattleQuestion[]) => {
+      if (!canStart || !userId || questions.length === 0) return;
+      send({
+        type: "start",
+        matchId: crypto.randomUUID(),
+        hostId: userId,
+        players: state.lobby.slice(0, BATTLE_MAX_PLAYERS),
+        questions,
+        timeLimitMs: BATTLE_TIME_LIMIT_MS,
+      });
+    },
+    [canStart, userId, state.lobby, send]
+  );
+
+  const answer = useCallback(
+    (choice: string) => {
+      if (!userId || !isPlayer || state.phase !== "question" || !state.matchId) return;
+      if (state.answers[state.round]?.[userId]) return;
+      send({
+        type: "answer",
+        matchId: state.matchId,
+        round: state.round,
+        userId,
+        choice,
+        responseMs: Date.now() - questionShownAt.current,
+      });
+    },
+    [userId, isPlayer, state.phase, state.matchId, state.round, state.answers, send]
+  );
+
+  return { state, connection, hostId, isHost, isPlayer, canStart, start, answer };
+}
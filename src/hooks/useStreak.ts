@@ -0,0 +1,112 @@
+/**
+ * Streak Hook
+ *
+ * Runs the streak engine over a student's history: the current and longest
+ * streak, the calendar heatmap, and automatic shield use when a missed
+ * school day would otherwise break the streak. Holidays and breaks come
+ * from the school calendar. When the result differs from the numbers on
+ * the student's profile, the profile is updated to match. An untouched
+ * streak late on a school day raises the parents' "streak about to break"
+ * alert.
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import { useStreakHistory } from "@/hooks/queries/useStreakHistory";
+import { useSchoolCalendar } from "@/hooks/queries/useSchoolCalendar";
+import { useConsumeStreakShield, useSyncStreak } from "@/hooks/mutations/useStreakShield";
+import { raiseParentAlerts } from "@/lib/api/parentAlerts";
+import { isStreakAlertTime } from "@/lib/parentAlerts";
+import {
+  buildStreakCalendar,
+  evaluateStreak,
+  longestStreak,
+  reconcileStreak,
+  toDayKey,
+  type DayKey,
+  type StreakDay,
+} from "@/lib/streaks";
+
+export interface UseStreakOptions {
+  /** Defaults to the school calendar */
+  isSchoolDay?: (day: DayKey) => boolean;
+  /** Weeks shown in the calendar */
+  weeks?: number;
+}
+
+export interface StreakState {
+  current: number;
+  longest: number;
+  atRisk: boolean;
+  shieldAvailable: boolean;
+  calendar: StreakDay[];
+  isLoading: boolean;
+}
+
+export function useStreak(studentId: string | undefined, options: UseStreakOptions = {}): StreakState {
+  const { weeks } = options;
+  const { data: history, isLoading } = useStreakHistory(studentId);
+  const { calendar: schoolCalendar, isLoading: calendarLoading } = useSchoolCalendar();
+  const isSchoolDay = options.isSchoolDay ?? schoolCalendar.isSchoolDay;
+  const { mutate: consumeShield } = useConsumeStreakShield();
+  const { mutate: syncStreak } = useSyncStreak();
+  const requestedFor = useRef<DayKey | null>(null);
+  const syncedAs = useRef<string | null>(null);
+  const alertedFor = useRef<DayKey | null>(null);
+
+  const today = toDayKey(new Date());
+
+  const result = useMemo(() => {
+    // Without the calendar a holiday would look like a missed day
+    if (!history || calendarLoading) return null;
+    const input = { ...history, today, isSchoolDay };
+    const evaluation = evaluateStreak(input);
+    const current = reconcileStreak(evaluation, history.currentRecorded);
+    return {
+      evaluation,
+      current,
+      longest: Math.max(history.longestRecorded, longestStreak(input), current),
+      calendar: buildStreakCalendar(input, weeks),
+    };
+  }, [history, calendarLoading, today, isSchoolDay, weeks]);
+
+  // Spend the shield as soon as a missed day is found, once per day
+  const shieldNeededFor = result?.evaluation.shieldNeededFor ?? null;
+  useEffect(() => {
+    if (!shieldNeededFor || requestedFor.current === shieldNeededFor) return;
+    requestedFor.current = shieldNeededFor;
+    consumeShield(shieldNeededFor);
+  }, [shieldNeededFor, consumeShield]);
+
+  // Save the result once any shield is spent, so other readers agree
+  const longest = result?.longest ?? 0;
+  useEffect(() => {
+    if (!history || !result || shieldNeededFor) return;
+    if (result.current === history.currentRecorded && longest === history.longestRecorded) return;
+    const key = `${today}:${result.current}:${longest}`;
+    if (syncedAs.current === key) return;
+    syncedAs.current = key;
+    syncStreak({ today, current: result.current, longest });
+  }, [history, result, longest, shieldNeededFor, today, syncStreak]);
+
+  // Warn parents once per day; the server drops repeats from other devices
+  const atRisk = result?.evaluation.atRisk ?? false;
+  const current = result?.current ?? 0;
+  useEffect(() => {
+    if (!studentId || !atRisk || alertedFor.current === today) return;
+    if (!isStreakAlertTime(new Date())) return;
+    alertedFor.current = today;
+    raiseParentAlerts(studentId, [{ kind: "streak_at_risk", day: today, streak: current }]).catch((error) =>
+      console.error("Streak alert error:", error)
+    );
+  }, [studentId, atRisk, current, today]);
+
+  return {
+    current,
+    longest,
+    atRisk,
+    // A shield the engine is about to spend is no longer available
+    shieldAvailable: (history?.shieldAvailable ?? false) && !shieldNeededFor,
+    calendar: result?.calendar ?? [],
+    isLoading: isLoading || calendarLoading,
+  };
+}
@@ -1,6 +1,13 @@
-import { supabase } from "@/integrations/supabase/client";
+/**
+ * NYCologic Sync Hook
+ *
+ * Events for the NYCologic teacher app go through the durable outbox: they
+ * survive reloads and lost connections, retry with backoff, and are keyed
+ * so the same event is never delivered twice.
+ */
 
-type SyncEventType = "assignment_completed" | "student_progress" | "badge_earned" | "mastery_update";
+import { enqueueOutbox, isInOutbox, replayOutbox } from "@/lib/offlineOutbox";
+import type { SyncEventPayload, SyncEventType } from "@/lib/api/nycologicSync";
 
 interface SyncData {
   type: SyncEventType;
@@ -8,19 +15,17 @@ interface SyncData {
 }
 
 export function useSyncToNYCologic() {
-  const syncToNYCologic = async (payload: SyncData) => {
+  /**
+   * Queue an event and try to deliver it now. `queued` is true when it is
+   * still waiting in the outbox for a retry.
+   */
+  const syncToNYCologic = async (payload: SyncData, dedupeKey: string) => {
     try {
-      const { data, error } = await supabase.functions.invoke("sync-to-nycologic", {
-        body: payload,
-      });
-
-      if (error) {
-        console.error("Sync to NYCologic failed:", error);
-        return { success: false, error };
-      }
-
-      console.log("Synced to NYCologic:", data);
-      return { success: true, data };
+      const body: SyncEventPayload = { ...payload, dedupe_key: `${payload.type}:${dedupeKey}` };
+      const outboxKey = `nycologic:${body.dedupe_key}`;
+      await enqueueOutbox(outboxKey, "sync-to-nycologic", { ...body });
+      await replayOutbox();
+      return { success: true, queued: await isInOutbox(outboxKey) };
     } catch (err) {
       console.error("Sync to NYCologic error:", err);
       return { success: false, error: err };
@@ -50,7 +55,7 @@ export function useSyncToNYCologic() {
         coins_earned: params.coinsEarned,
         completed_at: params.completedAt,
       },
-    });
+    }, `${params.studentId}:${params.assignmentId}:${params.completedAt}`);
   };
 
   const syncStudentProgress = async (params: {
@@ -69,7 +74,7 @@ export function useSyncToNYCologic() {
         current_streak: params.currentStreak,
         badges_earned: params.badgesEarned,
       },
-    });
+    }, `${params.studentId}:${params.totalXp}:${params.totalCoins}:${params.currentStreak}:${params.badgesEarned}`);
   };
 
   const syncBadgeEarned = async (params: {
@@ -86,7 +91,7 @@ export function useSyncToNYCologic() {
         badge_name: params.badgeName,
         earned_at: params.earnedAt,
       },
-    });
+    }, `${params.studentId}:${params.badgeId}`);
   };
 
   const syncMasteryUpdate = async (params: {
@@ -107,7 +112,7 @@ export function useSyncToNYCologic() {
         attempts_count: params.attemptsCount,
         correct_count: params.correctCount,
       },
-    });
+    }, `${params.studentId}:${params.standardId}:${params.attemptsCount}`);
   };
 
   return {
@@ -122,4 +122,39 @@ export const ar: TranslationKeys = {
     translateError: 'فشلت الترجمة',
     originalLanguage: 'الأصلي',
   },
+
+  digest: {
+    subject: 'ملخص التقدم: {period}',
+    heading: 'ملخص التقدم',
+    intro: 'إليك أداء أبنائك من {from} إلى {to}.',
+    xpEarned: 'نقاط الخبرة المكتسبة',
+    coinsEarned: 'العملات المكتسبة',
+    coinsSpent: 'العملات المنفقة',
+    assignmentsCompleted: 'الواجبات المكتملة',
+    assignmentsMissed: 'الواجبات الفائتة',
+    streak: 'السلسلة',
+    streakChange: '{from} ← {to} يوم',
+    newBadges: 'شارات جديدة',
+    mastery: 'المعايير التي تم التدرب عليها',
+    newlyMastered: 'تم إتقانه حديثًا',
+    teacherNotes: 'ملاحظات المعلم',
+    noActivity: 'لا يوجد نشاط في هذه الفترة.',
+    none: 'لا شيء',
+    inAppTitle: 'ملخص التقدم جاهز',
+    footer: 'تصلك هذه الرسالة لأن حساب طفلك مرتبط بحسابك. يمكنك تغيير عدد مرات الإرسال من لوحة ولي الأمر.',
+    status: {
+      on_task: 'منتبه',
+      off_task: 'غير منتبه',
+      needs_support: 'يحتاج إلى دعم',
+      excellent: 'ممتاز',
+      absent: 'غائب',
+      late: 'متأخر',
+    },
+    masteryLevel: {
+      not_started: 'لم يبدأ',
+      developing: 'قيد التطور',
+      approaching: 'يقترب',
+      mastered: 'متقن',
+    },
+  },
 };
@@ -122,4 +122,39 @@ export const bn: TranslationKeys = {
     translateError: 'অনুবাদ ব্যর্থ হয়েছে',
     originalLanguage: 'মূল',
   },
+
+  digest: {
+    subject: 'অগ্রগতির সারাংশ: {period}',
+    heading: 'অগ্রগতির সারাংশ',
+    intro: '{from} থেকে {to} পর্যন্ত আপনার সন্তানদের অগ্রগতি।',
+    xpEarned: 'অর্জিত XP',
+    coinsEarned: 'অর্জিত কয়েন',
+    coinsSpent: 'খরচ করা কয়েন',
+    assignmentsCompleted: 'সম্পন্ন অ্যাসাইনমেন্ট',
+    assignmentsMissed: 'বাদ পড়া অ্যাসাইনমেন্ট',
+    streak: 'স্ট্রিক',
+    streakChange: '{from} → {to} দিন',
+    newBadges: 'নতুন ব্যাজ',
+    mastery: 'অনুশীলন করা মানদণ্ড',
+    newlyMastered: 'নতুন আয়ত্ত',
+    teacherNotes: 'শিক্ষকের মন্তব্য',
+    noActivity: 'এই সময়ে কোনো কার্যকলাপ নেই।',
+    none: 'নেই',
+    inAppTitle: 'আপনার অগ্রগতির সারাংশ প্রস্তুত',
+    footer: 'আপনার সন্তানের অ্যাকাউন্ট আপনার সাথে যুক্ত থাকায় আপনি এই ইমেইল পাচ্ছেন। অভিভাবক ড্যাশবোর্ডে এর সময়সূচি পরিবর্তন করুন।',
+    status: {
+      on_task: 'মনোযোগী',
+      off_task: 'অমনোযোগী',
+      needs_support: 'সহায়তা প্রয়োজন',
+      excellent: 'চমৎকার',
+      absent: 'অনুপস্থিত',
+      late: 'দেরিতে',
+    },
+    masteryLevel: {
+      not_started: 'শুরু হয়নি',
+      developing: 'উন্নতি হচ্ছে',
+      approaching: 'কাছাকাছি',
+      mastered: 'আয়ত্ত',
+    },
+  },
 };
@@ -132,6 +132,42 @@ export const en = {
     translateError: 'Translation failed',
     originalLanguage: 'Original',
   },
+
+  // Parent digest
+  digest: {
+    subject: 'Progress digest: {period}',
+    heading: 'Progress Digest',
+    intro: 'Here is how your children did from {from} to {to}.',
+    xpEarned: 'XP earned',
+    coinsEarned: 'Coins earned',
+    coinsSpent: 'Coins spent',
+    assignmentsCompleted: 'Assignments completed',
+    assignmentsMissed: 'Missed assignments',
+    streak: 'Streak',
+    streakChange: '{from} → {to} days',
+    newBadges: 'New badges',
+    mastery: 'Standards practiced',
+    newlyMastered: 'Newly mastered',
+    teacherNotes: 'Teacher notes',
+    noActivity: 'No activity this period.',
+    none: 'None',
+    inAppTitle: 'Your progress digest is ready',
+    footer: "You get this email because your child's account is linked to yours. Change how often it arrives on your Parent Dashboard.",
+    status: {
+      on_task: 'On task',
+      off_task: 'Off task',
+      needs_support: 'Needs support',
+      excellent: 'Excellent',
+      absent: 'Absent',
+      late: 'Late',
+    },
+    masteryLevel: {
+      not_started: 'Not started',
+      developing: 'Developing',
+      approaching: 'Approaching',
+      mastered: 'Mastered',
+    },
+  },
 };
 
 export type TranslationKeys = typeof en;
@@ -122,4 +122,39 @@ export const es: TranslationKeys = {
     translateError: 'La traducción falló',
     originalLanguage: 'Original',
   },
+
+  digest: {
+    subject: 'Resumen de progreso: {period}',
+    heading: 'Resumen de Progreso',
+    intro: 'Así les fue a sus hijos del {from} al {to}.',
+    xpEarned: 'XP ganados',
+    coinsEarned: 'Monedas ganadas',
+    coinsSpent: 'Monedas gastadas',
+    assignmentsCompleted: 'Tareas completadas',
+    assignmentsMissed: 'Tareas no entregadas',
+    streak: 'Racha',
+    streakChange: '{from} → {to} días',
+    newBadges: 'Insignias nuevas',
+    mastery: 'Estándares practicados',
+    newlyMastered: 'Dominado recientemente',
+    teacherNotes: 'Notas del maestro',
+    noActivity: 'Sin actividad en este período.',
+    none: 'Ninguno',
+    inAppTitle: 'Su resumen de progreso está listo',
+    footer: 'Recibe este correo porque la cuenta de su hijo está vinculada a la suya. Cambie la frecuencia en su Panel de Padres.',
+    status: {
+      on_task: 'Concentrado',
+      off_task: 'Distraído',
+      needs_support: 'Necesita apoyo',
+      excellent: 'Excelente',
+      absent: 'Ausente',
+      late: 'Tarde',
+    },
+    masteryLevel: {
+      not_started: 'Sin empezar',
+      developing: 'En desarrollo',
+      approaching: 'Casi logrado',
+      mastered: 'Dominado',
+    },
+  },
 };
@@ -122,4 +122,39 @@ export const ht: TranslationKeys = {
     translateError: 'Tradiksyon echwe',
     originalLanguage: 'Orijinal',
   },
+
+  digest: {
+    subject: 'Rezime pwogrè: {period}',
+    heading: 'Rezime Pwogrè',
+    intro: 'Men kijan pitit ou yo te fè soti {from} rive {to}.',
+    xpEarned: 'XP yo genyen',
+    coinsEarned: 'Pyès yo genyen',
+    coinsSpent: 'Pyès yo depanse',
+    assignmentsCompleted: 'Devwa ki fini',
+    assignmentsMissed: 'Devwa ki rate',
+    streak: 'Sekans',
+    streakChange: '{from} → {to} jou',
+    newBadges: 'Nouvo badj',
+    mastery: 'Estanda yo pratike',
+    newlyMastered: 'Fèk metrize',
+    teacherNotes: 'Nòt pwofesè a',
+    noActivity: 'Pa gen aktivite pandan peryòd sa a.',
+    none: 'Okenn',
+    inAppTitle: 'Rezime pwogrè ou a pare',
+    footer: 'Ou resevwa imèl sa a paske kont pitit ou a konekte ak kont ou. Chanje konbyen fwa ou resevwa l sou Tablo Paran an.',
+    status: {
+      on_task: 'Konsantre',
+      off_task: 'Distrè',
+      needs_support: 'Bezwen sipò',
+      excellent: 'Ekselan',
+      absent: 'Absan',
+      late: 'An reta',
+    },
+    masteryLevel: {
+      not_started: 'Poko kòmanse',
+      developing: 'Ap devlope',
+      approaching: 'Prèske',
+      mastered: 'Metrize',
+    },
+  },
 };
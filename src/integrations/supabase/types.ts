@@ -214,6 +214,7 @@ export type Database = {
           joined_at: string
           rewards_claimed: boolean
           student_id: string
+          team_id: string | null
         }
         Insert: {
           assignments_completed?: number
@@ -223,6 +224,7 @@ export type Database = {
           joined_at?: string
           rewards_claimed?: boolean
           student_id: string
+          team_id?: string | null
         }
         Update: {
           assignments_completed?: number
@@ -232,6 +234,7 @@ export type Database = {
           joined_at?: string
           rewards_claimed?: boolean
           student_id?: string
+          team_id?: string | null
         }
         Relationships: [
           {
@@ -241,6 +244,58 @@ export type Database = {
             referencedRelation: "challenges"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "challenge_participants_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "challenge_teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      challenge_teams: {
+        Row: {
+          challenge_id: string
+          class_id: string
+          created_at: string
+          goal_reached_at: string | null
+          id: string
+          name: string
+          rewarded_at: string | null
+        }
+        Insert: {
+          challenge_id: string
+          class_id: string
+          created_at?: string
+          goal_reached_at?: string | null
+          id?: string
+          name: string
+          rewarded_at?: string | null
+        }
+        Update: {
+          challenge_id?: string
+          class_id?: string
+          created_at?: string
+          goal_reached_at?: string | null
+          id?: string
+          name?: string
+          rewarded_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenge_teams_challenge_id_fkey"
+            columns: ["challenge_id"]
+            isOneToOne: false
+            referencedRelation: "challenges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "challenge_teams_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       challenges: {
@@ -250,12 +305,16 @@ export type Database = {
           created_at: string
           description: string | null
           end_date: string
+          goal_metric: Database["public"]["Enums"]["team_goal_metric"] | null
+          goal_target: number | null
           id: string
           is_active: boolean
           min_assignments: number
+          scope: Database["public"]["Enums"]["challenge_scope"]
           start_date: string
           theme: string
           title: string
+          winner_team_id: string | null
           xp_bonus: number
         }
         Insert: {
@@ -264,12 +323,16 @@ export type Database = {
           created_at?: string
           description?: string | null
           end_date: string
+          goal_metric?: Database["public"]["Enums"]["team_goal_metric"] | null
+          goal_target?: number | null
           id?: string
           is_active?: boolean
           min_assignments?: number
+          scope?: Database["public"]["Enums"]["challenge_scope"]
           start_date: string
           theme: string
           title: string
+          winner_team_id?: string | null
           xp_bonus?: number
         }
         Update: {
@@ -278,12 +341,16 @@ export type Database = {
           created_at?: string
           description?: string | null
           end_date?: string
+          goal_metric?: Database["public"]["Enums"]["team_goal_metric"] | null
+          goal_target?: number | null
           id?: string
           is_active?: boolean
           min_assignments?: number
+          scope?: Database["public"]["Enums"]["challenge_scope"]
           start_date?: string
           theme?: string
           title?: string
+          winner_team_id?: string | null
           xp_bonus?: number
         }
         Relationships: [
@@ -294,6 +361,13 @@ export type Database = {
             referencedRelation: "badges"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "challenges_winner_team_id_fkey"
+            columns: ["winner_team_id"]
+            isOneToOne: false
+            referencedRelation: "challenge_teams"
+            referencedColumns: ["id"]
+          },
         ]
       }
       classes: {
@@ -362,6 +436,36 @@ export type Database = {
         }
         Relationships: []
       }
+      economy_configs: {
+        Row: {
+          config: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          school_id: string | null
+          version: number
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          school_id?: string | null
+          version: number
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          school_id?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
       enrollments: {
         Row: {
           class_id: string
@@ -512,11 +616,13 @@ export type Database = {
       }
       game_sessions: {
         Row: {
+          battle_id: string | null
+          battle_rank: number | null
           coins_earned: number | null
           completed_at: string | null
           correct_count: number
           created_at: string
-          game_id: string
+          game_id: string | null
           id: string
           score: number
           streak_max: number | null
@@ -526,11 +632,13 @@ export type Database = {
           xp_earned: number | null
         }
         Insert: {
+          battle_id?: string | null
+          battle_rank?: number | null
           coins_earned?: number | null
           completed_at?: string | null
           correct_count?: number
           created_at?: string
-          game_id: string
+          game_id?: string | null
           id?: string
           score?: number
           streak_max?: number | null
@@ -540,11 +648,13 @@ export type Database = {
           xp_earned?: number | null
         }
         Update: {
+          battle_id?: string | null
+          battle_rank?: number | null
           coins_earned?: number | null
           completed_at?: string | null
           correct_count?: number
           created_at?: string
-          game_id?: string
+          game_id?: string | null
           id?: string
           score?: number
           streak_max?: number | null
@@ -716,6 +826,36 @@ export type Database = {
           },
         ]
       }
+      mystery_packs: {
+        Row: {
+          created_at: string
+          description: string | null
+          drop_rates: Json
+          id: string
+          is_active: boolean
+          milestone_type: Database["public"]["Enums"]["pack_milestone_type"]
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          drop_rates: Json
+          id?: string
+          is_active?: boolean
+          milestone_type: Database["public"]["Enums"]["pack_milestone_type"]
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          drop_rates?: Json
+          id?: string
+          is_active?: boolean
+          milestone_type?: Database["public"]["Enums"]["pack_milestone_type"]
+          name?: string
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string
@@ -752,6 +892,51 @@ export type Database = {
         }
         Relationships: []
       }
+      nycologic_sync_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          dedupe_key: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          payload: Json
+          sent_at: string | null
+          status: string
+          student_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          dedupe_key: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          payload: Json
+          sent_at?: string | null
+          status?: string
+          student_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          dedupe_key?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          payload?: Json
+          sent_at?: string | null
+          status?: string
+          student_id?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       nys_standards: {
         Row: {
           cluster: string | null
@@ -785,6 +970,87 @@ export type Database = {
         }
         Relationships: []
       }
+      parent_alert_rules: {
+        Row: {
+          channels: Database["public"]["Enums"]["alert_channel"][]
+          created_at: string
+          enabled: boolean
+          id: string
+          kind: Database["public"]["Enums"]["parent_alert_kind"]
+          parent_id: string
+          quiet_end: string | null
+          quiet_start: string | null
+          student_id: string
+          threshold: number | null
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          channels?: Database["public"]["Enums"]["alert_channel"][]
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          kind: Database["public"]["Enums"]["parent_alert_kind"]
+          parent_id: string
+          quiet_end?: string | null
+          quiet_start?: string | null
+          student_id: string
+          threshold?: number | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          channels?: Database["public"]["Enums"]["alert_channel"][]
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          kind?: Database["public"]["Enums"]["parent_alert_kind"]
+          parent_id?: string
+          quiet_end?: string | null
+          quiet_start?: string | null
+          student_id?: string
+          threshold?: number | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      parent_digest_settings: {
+        Row: {
+          cadence: Database["public"]["Enums"]["digest_cadence"]
+          created_at: string
+          email_enabled: boolean
+          id: string
+          in_app_enabled: boolean
+          language: string
+          last_sent_at: string | null
+          parent_id: string
+          updated_at: string
+        }
+        Insert: {
+          cadence?: Database["public"]["Enums"]["digest_cadence"]
+          created_at?: string
+          email_enabled?: boolean
+          id?: string
+          in_app_enabled?: boolean
+          language?: string
+          last_sent_at?: string | null
+          parent_id: string
+          updated_at?: string
+        }
+        Update: {
+          cadence?: Database["public"]["Enums"]["digest_cadence"]
+          created_at?: string
+          email_enabled?: boolean
+          id?: string
+          in_app_enabled?: boolean
+          language?: string
+          last_sent_at?: string | null
+          parent_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       parent_point_pledges: {
         Row: {
           bonus_coins: number
@@ -792,11 +1058,17 @@ export type Database = {
           claimed_at: string | null
           coin_threshold: number
           created_at: string
+          decline_reason: string | null
+          declined_at: string | null
+          fulfilled_at: string | null
           id: string
           is_active: boolean
           parent_id: string
+          reached_at: string | null
           reward_description: string
           reward_type: string
+          status: Database["public"]["Enums"]["pledge_status"]
+          student_claimed_at: string | null
           student_id: string
           updated_at: string
         }
@@ -806,11 +1078,17 @@ export type Database = {
           claimed_at?: string | null
           coin_threshold: number
           created_at?: string
+          decline_reason?: string | null
+          declined_at?: string | null
+          fulfilled_at?: string | null
           id?: string
           is_active?: boolean
           parent_id: string
+          reached_at?: string | null
           reward_description: string
           reward_type?: string
+          status?: Database["public"]["Enums"]["pledge_status"]
+          student_claimed_at?: string | null
           student_id: string
           updated_at?: string
         }
@@ -820,11 +1098,17 @@ export type Database = {
           claimed_at?: string | null
           coin_threshold?: number
           created_at?: string
+          decline_reason?: string | null
+          declined_at?: string | null
+          fulfilled_at?: string | null
           id?: string
           is_active?: boolean
           parent_id?: string
+          reached_at?: string | null
           reward_description?: string
           reward_type?: string
+          status?: Database["public"]["Enums"]["pledge_status"]
+          student_claimed_at?: string | null
           student_id?: string
           updated_at?: string
         }
@@ -836,10 +1120,16 @@ export type Database = {
           claimed: boolean
           claimed_at: string | null
           created_at: string
+          decline_reason: string | null
+          declined_at: string | null
+          fulfilled_at: string | null
           id: string
           is_active: boolean
           parent_id: string
+          reached_at: string | null
           reward_description: string
+          status: Database["public"]["Enums"]["pledge_status"]
+          student_claimed_at: string | null
           student_id: string
           updated_at: string
         }
@@ -848,10 +1138,16 @@ export type Database = {
           claimed?: boolean
           claimed_at?: string | null
           created_at?: string
+          decline_reason?: string | null
+          declined_at?: string | null
+          fulfilled_at?: string | null
           id?: string
           is_active?: boolean
           parent_id: string
+          reached_at?: string | null
           reward_description: string
+          status?: Database["public"]["Enums"]["pledge_status"]
+          student_claimed_at?: string | null
           student_id: string
           updated_at?: string
         }
@@ -860,10 +1156,16 @@ export type Database = {
           claimed?: boolean
           claimed_at?: string | null
           created_at?: string
+          decline_reason?: string | null
+          declined_at?: string | null
+          fulfilled_at?: string | null
           id?: string
           is_active?: boolean
           parent_id?: string
+          reached_at?: string | null
           reward_description?: string
+          status?: Database["public"]["Enums"]["pledge_status"]
+          student_claimed_at?: string | null
           student_id?: string
           updated_at?: string
         }
@@ -890,6 +1192,9 @@ export type Database = {
           id: string
           parent_id: string
           relationship: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["parent_link_status"]
           student_id: string
           verified: boolean
         }
@@ -898,6 +1203,9 @@ export type Database = {
           id?: string
           parent_id: string
           relationship?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["parent_link_status"]
           student_id: string
           verified?: boolean
         }
@@ -906,6 +1214,9 @@ export type Database = {
           id?: string
           parent_id?: string
           relationship?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["parent_link_status"]
           student_id?: string
           verified?: boolean
         }
@@ -952,6 +1263,39 @@ export type Database = {
           },
         ]
       }
+      pledge_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["pledge_status"] | null
+          id: string
+          note: string | null
+          pledge_id: string
+          pledge_kind: Database["public"]["Enums"]["pledge_kind"]
+          to_status: Database["public"]["Enums"]["pledge_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["pledge_status"] | null
+          id?: string
+          note?: string | null
+          pledge_id: string
+          pledge_kind: Database["public"]["Enums"]["pledge_kind"]
+          to_status: Database["public"]["Enums"]["pledge_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["pledge_status"] | null
+          id?: string
+          note?: string | null
+          pledge_id?: string
+          pledge_kind?: Database["public"]["Enums"]["pledge_kind"]
+          to_status?: Database["public"]["Enums"]["pledge_status"]
+        }
+        Relationships: []
+      }
       point_deductions: {
         Row: {
           class_id: string
@@ -961,6 +1305,7 @@ export type Database = {
           reason: string
           student_id: string
           teacher_id: string
+          undone_at: string | null
         }
         Insert: {
           class_id: string
@@ -970,6 +1315,7 @@ export type Database = {
           reason: string
           student_id: string
           teacher_id: string
+          undone_at?: string | null
         }
         Update: {
           class_id?: string
@@ -979,6 +1325,7 @@ export type Database = {
           reason?: string
           student_id?: string
           teacher_id?: string
+          undone_at?: string | null
         }
         Relationships: []
       }
@@ -1125,42 +1472,75 @@ export type Database = {
       questions: {
         Row: {
           answer_key: Json
-          assignment_id: string
+          assignment_id: string | null
           created_at: string
+          created_by: string | null
           difficulty: number
+          exam_type: string | null
+          explanation: string | null
+          external_id: string | null
           hint: string | null
           id: string
+          image_prompt: string | null
+          image_url: string | null
           options: Json | null
           order_index: number
+          point_value: number
           prompt: string
           question_type: Database["public"]["Enums"]["question_type"]
           skill_tag: string | null
+          standard_code: string | null
+          subject: string | null
+          topic: string | null
+          updated_at: string
         }
         Insert: {
           answer_key: Json
-          assignment_id: string
+          assignment_id?: string | null
           created_at?: string
+          created_by?: string | null
           difficulty?: number
+          exam_type?: string | null
+          explanation?: string | null
+          external_id?: string | null
           hint?: string | null
           id?: string
+          image_prompt?: string | null
+          image_url?: string | null
           options?: Json | null
           order_index?: number
+          point_value?: number
           prompt: string
           question_type?: Database["public"]["Enums"]["question_type"]
           skill_tag?: string | null
+          standard_code?: string | null
+          subject?: string | null
+          topic?: string | null
+          updated_at?: string
         }
         Update: {
           answer_key?: Json
-          assignment_id?: string
+          assignment_id?: string | null
           created_at?: string
+          created_by?: string | null
           difficulty?: number
+          exam_type?: string | null
+          explanation?: string | null
+          external_id?: string | null
           hint?: string | null
           id?: string
+          image_prompt?: string | null
+          image_url?: string | null
           options?: Json | null
           order_index?: number
+          point_value?: number
           prompt?: string
           question_type?: Database["public"]["Enums"]["question_type"]
           skill_tag?: string | null
+          standard_code?: string | null
+          subject?: string | null
+          topic?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
@@ -1172,6 +1552,141 @@ export type Database = {
           },
         ]
       }
+      regents_mock_exam_results: {
+        Row: {
+          created_at: string
+          exam_type: string
+          flagged_count: number
+          id: string
+          max_raw_score: number
+          part_scores: Json
+          raw_score: number
+          scaled_score: number
+          started_at: string
+          student_id: string
+          submitted_at: string
+          time_used_seconds: number
+        }
+        Insert: {
+          created_at?: string
+          exam_type: string
+          flagged_count?: number
+          id?: string
+          max_raw_score: number
+          part_scores?: Json
+          raw_score: number
+          scaled_score: number
+          started_at: string
+          student_id: string
+          submitted_at?: string
+          time_used_seconds: number
+        }
+        Update: {
+          created_at?: string
+          exam_type?: string
+          flagged_count?: number
+          id?: string
+          max_raw_score?: number
+          part_scores?: Json
+          raw_score?: number
+          scaled_score?: number
+          started_at?: string
+          student_id?: string
+          submitted_at?: string
+          time_used_seconds?: number
+        }
+        Relationships: []
+      }
+      regents_question_attempts: {
+        Row: {
+          answered_at: string
+          created_at: string
+          exam_type: string
+          id: string
+          is_correct: boolean
+          question_id: string
+          selected_answer: string | null
+          session_id: string
+          standard_code: string
+          student_id: string
+          time_taken_seconds: number
+        }
+        Insert: {
+          answered_at?: string
+          created_at?: string
+          exam_type: string
+          id?: string
+          is_correct: boolean
+          question_id: string
+          selected_answer?: string | null
+          session_id: string
+          standard_code: string
+          student_id: string
+          time_taken_seconds?: number
+        }
+        Update: {
+          answered_at?: string
+          created_at?: string
+          exam_type?: string
+          id?: string
+          is_correct?: boolean
+          question_id?: string
+          selected_answer?: string | null
+          session_id?: string
+          standard_code?: string
+          student_id?: string
+          time_taken_seconds?: number
+        }
+        Relationships: []
+      }
+      review_queue_items: {
+        Row: {
+          created_at: string
+          due_on: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          question_data: Json
+          question_id: string
+          repetitions: number
+          source: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          due_on?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          question_data: Json
+          question_id: string
+          repetitions?: number
+          source: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          due_on?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          question_data?: Json
+          question_id?: string
+          repetitions?: number
+          source?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       reward_claims: {
         Row: {
           claim_key: string
@@ -1212,6 +1727,8 @@ export type Database = {
           created_at: string
           id: string
           reason: string
+          reference_id: string | null
+          source_type: Database["public"]["Enums"]["reward_source_type"] | null
           student_id: string
           xp_delta: number
         }
@@ -1221,6 +1738,8 @@ export type Database = {
           created_at?: string
           id?: string
           reason: string
+          reference_id?: string | null
+          source_type?: Database["public"]["Enums"]["reward_source_type"] | null
           student_id: string
           xp_delta?: number
         }
@@ -1230,6 +1749,8 @@ export type Database = {
           created_at?: string
           id?: string
           reason?: string
+          reference_id?: string | null
+          source_type?: Database["public"]["Enums"]["reward_source_type"] | null
           student_id?: string
           xp_delta?: number
         }
@@ -1243,6 +1764,131 @@ export type Database = {
           },
         ]
       }
+      school_calendar_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          kind: Database["public"]["Enums"]["school_calendar_event_kind"]
+          school_id: string | null
+          scope_key: string
+          start_date: string
+          title: string
+          uid: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          kind?: Database["public"]["Enums"]["school_calendar_event_kind"]
+          school_id?: string | null
+          scope_key: string
+          start_date: string
+          title: string
+          uid: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["school_calendar_event_kind"]
+          school_id?: string | null
+          scope_key?: string
+          start_date?: string
+          title?: string
+          uid?: string
+        }
+        Relationships: []
+      }
+      shop_items: {
+        Row: {
+          available_from: string | null
+          available_until: string | null
+          collectible_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          price_coins: number | null
+          purchase_limit: number | null
+        }
+        Insert: {
+          available_from?: string | null
+          available_until?: string | null
+          collectible_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          price_coins?: number | null
+          purchase_limit?: number | null
+        }
+        Update: {
+          available_from?: string | null
+          available_until?: string | null
+          collectible_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          price_coins?: number | null
+          purchase_limit?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_items_collectible_id_fkey"
+            columns: ["collectible_id"]
+            isOneToOne: false
+            referencedRelation: "collectibles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_purchases: {
+        Row: {
+          collectible_id: string
+          created_at: string
+          id: string
+          price_coins: number
+          request_id: string
+          shop_item_id: string
+          student_id: string
+        }
+        Insert: {
+          collectible_id: string
+          created_at?: string
+          id?: string
+          price_coins: number
+          request_id: string
+          shop_item_id: string
+          student_id: string
+        }
+        Update: {
+          collectible_id?: string
+          created_at?: string
+          id?: string
+          price_coins?: number
+          request_id?: string
+          shop_item_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_purchases_shop_item_id_fkey"
+            columns: ["shop_item_id"]
+            isOneToOne: false
+            referencedRelation: "shop_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shop_purchases_collectible_id_fkey"
+            columns: ["collectible_id"]
+            isOneToOne: false
+            referencedRelation: "collectibles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       skill_games: {
         Row: {
           attempts_count: number
@@ -1306,6 +1952,36 @@ export type Database = {
         }
         Relationships: []
       }
+      streak_shield_events: {
+        Row: {
+          coins_spent: number | null
+          created_at: string
+          day_key: string | null
+          id: string
+          kind: Database["public"]["Enums"]["streak_shield_event"]
+          request_id: string | null
+          student_id: string
+        }
+        Insert: {
+          coins_spent?: number | null
+          created_at?: string
+          day_key?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["streak_shield_event"]
+          request_id?: string | null
+          student_id: string
+        }
+        Update: {
+          coins_spent?: number | null
+          created_at?: string
+          day_key?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["streak_shield_event"]
+          request_id?: string | null
+          student_id?: string
+        }
+        Relationships: []
+      }
       student_badges: {
         Row: {
           badge_id: string
@@ -1414,6 +2090,84 @@ export type Database = {
           },
         ]
       }
+      student_link_codes: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          id: string
+          student_id: string
+          used_at: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          student_id: string
+          used_at?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          student_id?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      student_mystery_packs: {
+        Row: {
+          collectible_id: string | null
+          duplicate_coins: number | null
+          earned_at: string
+          id: string
+          milestone_key: string
+          opened_at: string | null
+          pack_id: string
+          rarity: Database["public"]["Enums"]["collectible_rarity"] | null
+          student_id: string
+        }
+        Insert: {
+          collectible_id?: string | null
+          duplicate_coins?: number | null
+          earned_at?: string
+          id?: string
+          milestone_key: string
+          opened_at?: string | null
+          pack_id: string
+          rarity?: Database["public"]["Enums"]["collectible_rarity"] | null
+          student_id: string
+        }
+        Update: {
+          collectible_id?: string | null
+          duplicate_coins?: number | null
+          earned_at?: string
+          id?: string
+          milestone_key?: string
+          opened_at?: string | null
+          pack_id?: string
+          rarity?: Database["public"]["Enums"]["collectible_rarity"] | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_mystery_packs_collectible_id_fkey"
+            columns: ["collectible_id"]
+            isOneToOne: false
+            referencedRelation: "collectibles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_mystery_packs_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "mystery_packs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       student_profiles: {
         Row: {
           accommodations: string[] | null
@@ -1615,6 +2369,7 @@ export type Database = {
       webhook_event_logs: {
         Row: {
           created_at: string
+          dedupe_key: string | null
           error_message: string | null
           event_type: string
           id: string
@@ -1626,6 +2381,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          dedupe_key?: string | null
           error_message?: string | null
           event_type: string
           id?: string
@@ -1637,6 +2393,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          dedupe_key?: string | null
           error_message?: string | null
           event_type?: string
           id?: string
@@ -1686,7 +2443,18 @@ export type Database = {
         }
         Returns: Json
       }
+      check_due_soon_assignments: {
+        Args: { p_due_before: string }
+        Returns: number
+      }
       check_streak_warnings: { Args: never; Returns: undefined }
+      claim_milestone_packs: { Args: never; Returns: Json }
+      claim_parent_digest: { Args: { p_period_end: string }; Returns: boolean }
+      consume_streak_shield: { Args: { p_day: string }; Returns: Json }
+      create_team_challenge: {
+        Args: { p_challenge: Json; p_teams: Json }
+        Returns: string
+      }
       deduct_student_points: {
         Args: {
           p_class_id: string
@@ -1696,11 +2464,25 @@ export type Database = {
         }
         Returns: string
       }
+      evaluate_my_badges: { Args: never; Returns: Json }
       generate_class_code: { Args: never; Returns: string }
+      generate_parent_link_code: { Args: never; Returns: Json }
+      get_leaderboard_period_xp: {
+        Args: { p_class_id: string | null; p_since: string }
+        Returns: { student_id: string; xp: number }[]
+      }
+      get_team_challenge_progress: {
+        Args: { p_challenge_id: string }
+        Returns: Json
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      grant_badges: {
+        Args: { p_badge_id: string; p_student_ids: string[] }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["user_role"]
@@ -1713,16 +2495,90 @@ export type Database = {
         Returns: boolean
       }
       link_my_external_student: { Args: never; Returns: boolean }
+      log_rejected_content: {
+        Args: {
+          p_dedupe_key: string
+          p_error: string
+          p_event_type: string
+          p_payload: Json
+        }
+        Returns: undefined
+      }
       process_invite_link: {
         Args: { p_token: string; p_user_id: string }
         Returns: Json
       }
+      open_mystery_pack: {
+        Args: { p_student_pack_id: string }
+        Returns: Json
+      }
+      purchase_shop_item: {
+        Args: {
+          p_request_id: string
+          p_shop_item_id: string
+        }
+        Returns: Json
+      }
+      purchase_streak_shield: { Args: { p_request_id: string }; Returns: Json }
+      raise_parent_alerts: {
+        Args: { p_alerts: Json; p_student_id: string }
+        Returns: Json
+      }
+      record_quiz_battle: {
+        Args: {
+          p_answers: Json
+          p_battle_id: string
+          p_class_id: string
+          p_host_id: string
+          p_player_ids: string[]
+          p_question_ids: string[]
+        }
+        Returns: Json
+      }
+      record_regents_attempts: {
+        Args: { p_answers: Json; p_session_id: string }
+        Returns: Json
+      }
+      request_parent_link: {
+        Args: { p_identifier: string; p_relationship: string }
+        Returns: Json
+      }
+      review_parent_link: {
+        Args: { p_approve: boolean; p_link_id: string }
+        Returns: Json
+      }
+      settle_team_challenge: {
+        Args: { p_team_id: string }
+        Returns: Json
+      }
+      sync_streak: {
+        Args: { p_current_streak: number; p_longest_streak: number; p_today: string }
+        Returns: undefined
+      }
+      sync_pledge_progress: {
+        Args: { p_student_ids: string[] }
+        Returns: Json
+      }
       teacher_can_view_student: {
         Args: { p_student_id: string; p_teacher_id: string }
         Returns: boolean
       }
+      transition_pledge: {
+        Args: {
+          p_kind: Database["public"]["Enums"]["pledge_kind"]
+          p_note?: string
+          p_pledge_id: string
+          p_to: Database["public"]["Enums"]["pledge_status"]
+        }
+        Returns: Json
+      }
+      undo_point_deduction: {
+        Args: { p_deduction_id: string }
+        Returns: Json
+      }
     }
     Enums: {
+      alert_channel: "in_app" | "email"
       assignment_status: "pending" | "active" | "completed" | "archived"
       attempt_mode: "paper" | "in_app"
       attempt_status:
@@ -1731,13 +2587,42 @@ export type Database = {
         | "submitted"
         | "verified"
         | "rejected"
+      challenge_scope: "individual" | "class" | "group"
       collectible_rarity: "common" | "rare" | "epic" | "legendary"
+      digest_cadence: "weekly" | "biweekly" | "monthly" | "off"
+      pack_milestone_type: "level_up" | "streak" | "challenge"
+      parent_alert_kind:
+        | "low_score"
+        | "missed_due_date"
+        | "streak_at_risk"
+        | "badge_earned"
+        | "pledge_reached"
+      parent_link_status: "pending" | "approved" | "rejected"
+      pledge_kind: "point" | "badge"
+      pledge_status: "active" | "reached" | "claimed" | "fulfilled" | "declined"
       question_type:
         | "multiple_choice"
         | "short_answer"
         | "numeric"
         | "drag_order"
         | "matching"
+      reward_source_type:
+        | "assignment"
+        | "practice_set"
+        | "game"
+        | "battle"
+        | "challenge"
+        | "study_goal"
+        | "daily_review"
+        | "teacher_action"
+        | "pledge_bonus"
+        | "raffle"
+        | "shop_purchase"
+        | "mystery_pack"
+        | "streak_shield"
+        | "adjustment"
+      school_calendar_event_kind: "holiday" | "break" | "exam_week" | "event"
+      streak_shield_event: "purchased" | "consumed"
       student_status_type:
         | "on_task"
         | "off_task"
@@ -1745,6 +2630,7 @@ export type Database = {
         | "excellent"
         | "absent"
         | "late"
+      team_goal_metric: "total_xp" | "total_assignments" | "average_mastery"
       user_role: "student" | "teacher" | "parent" | "admin"
     }
     CompositeTypes: {
@@ -1873,6 +2759,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      alert_channel: ["in_app", "email"],
       assignment_status: ["pending", "active", "completed", "archived"],
       attempt_mode: ["paper", "in_app"],
       attempt_status: [
@@ -1882,7 +2769,20 @@ export const Constants = {
         "verified",
         "rejected",
       ],
+      challenge_scope: ["individual", "class", "group"],
       collectible_rarity: ["common", "rare", "epic", "legendary"],
+      digest_cadence: ["weekly", "biweekly", "monthly", "off"],
+      pack_milestone_type: ["level_up", "streak", "challenge"],
+      parent_alert_kind: [
+        "low_score",
+        "missed_due_date",
+        "streak_at_risk",
+        "badge_earned",
+        "pledge_reached",
+      ],
+      parent_link_status: ["pending", "approved", "rejected"],
+      pledge_kind: ["point", "badge"],
+      pledge_status: ["active", "reached", "claimed", "fulfilled", "declined"],
       question_type: [
         "multiple_choice",
         "short_answer",
@@ -1890,6 +2790,24 @@ export const Constants = {
         "drag_order",
         "matching",
       ],
+      reward_source_type: [
+        "assignment",
+        "practice_set",
+        "game",
+        "battle",
+        "challenge",
+        "study_goal",
+        "daily_review",
+        "teacher_action",
+        "pledge_bonus",
+        "raffle",
+        "shop_purchase",
+        "mystery_pack",
+        "streak_shield",
+        "adjustment",
+      ],
+      school_calendar_event_kind: ["holiday", "break", "exam_week", "event"],
+      streak_shield_event: ["purchased", "consumed"],
       student_status_type: [
         "on_task",
         "off_task",
@@ -1898,6 +2816,7 @@ export const Constants = {
         "absent",
         "late",
       ],
+      team_goal_metric: ["total_xp", "total_assignments", "average_mastery"],
       user_role: ["student", "teacher", "parent", "admin"],
     },
   },
@@ -0,0 +1,396 @@
+/**
+ * Adaptive Question Selection
+ *
+ * Picks the next questions for a student from their per-standard mastery and
+ * recent answer history. Weak standards are targeted first, difficulty steps
+ * up or down after streaks, and recently seen questions are spaced out.
+ *
+ * Everything here is a pure function over plain data so RegentsPrep,
+ * PracticeCenter and the game generators share one selection API.
+ *
+ * History comes from every place a student practises a standard: the
+ * Regents attempt log (mock exam answers included), graded assignments on
+ * a tagged standard, and daily review cards. An assignment counts as one
+ * answer, correct when it passed; a review card as its latest review.
+ */
+
+import { PASSING_SCORE, STANDARD_MASTERY_THRESHOLDS } from "@/constants";
+import { getQuestionsByExam, type RegentsQuestion } from "@/data/regentsSampleQuestions";
+import { getAlgebraQuestionsByCourse, type AlgebraQuestion } from "@/data/algebraQuestions";
+import type { RegentsQuestionAttempt } from "@/lib/api/regents";
+import type { ReviewQueueItem } from "@/lib/api/review";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Minimal shape shared by RegentsQuestion and AlgebraQuestion */
+export interface SelectableQuestion {
+  id: string;
+  standardCode: string;
+  difficulty: number;
+}
+
+export interface AnswerHistoryEntry {
+  questionId: string;
+  standardCode: string;
+  difficulty?: number;
+  isCorrect: boolean;
+  answeredAt: string;
+}
+
+/** A graded assignment attempt on an assignment tagged with a standard */
+export interface GradedAssignmentAttempt {
+  assignmentId: string;
+  standardCode: string;
+  /** Percentage */
+  score: number;
+  submittedAt: string;
+}
+
+export interface StandardMasteryStat {
+  attempted: number;
+  correct: number;
+}
+
+export interface LearnerState {
+  /** Per-standard attempt counts, keyed by standard code */
+  mastery: Record<string, StandardMasteryStat>;
+  /** Answers, oldest first */
+  history: AnswerHistoryEntry[];
+}
+
+export interface AdaptiveOptions {
+  /** Difficulty to start from when there is no history (default 1) */
+  baseDifficulty?: number;
+  /** Consecutive correct answers that step difficulty up (default 3) */
+  stepUpStreak?: number;
+  /** Consecutive incorrect answers that step difficulty down (default 2) */
+  stepDownStreak?: number;
+  /** Number of most recent answers whose questions are held back (default 10) */
+  repeatWindow?: number;
+  /** Random source used for tie-breaking jitter */
+  random?: () => number;
+}
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 3;
+
+/** Weight given to a standard the student has never attempted */
+const UNSEEN_STANDARD_WEAKNESS = 0.5;
+
+// ============================================================================
+// Learner State
+// ============================================================================
+
+/**
+ * Build learner state from an answer history. Stored mastery counts (e.g.
+ * student_standard_mastery rows) take precedence for the standards they
+ * cover; every other standard is counted from the history.
+ */
+export function buildLearnerState(
+  history: AnswerHistoryEntry[],
+  storedMastery: Record<string, StandardMasteryStat> = {}
+): LearnerState {
+  const mastery: Record<string, StandardMasteryStat> = {};
+  history.forEach((entry) => {
+    if (storedMastery[entry.standardCode]) return;
+    const stat = mastery[entry.standardCode] ?? { attempted: 0, correct: 0 };
+    mastery[entry.standardCode] = {
+      attempted: stat.attempted + 1,
+      correct: stat.correct + (entry.isCorrect ? 1 : 0),
+    };
+  });
+  Object.entries(storedMastery).forEach(([code, stat]) => {
+    mastery[code] = { ...stat };
+  });
+
+  const sorted = [...history].sort((a, b) => a.answeredAt.localeCompare(b.answeredAt));
+  return { mastery, history: sorted };
+}
+
+/**
+ * Convert the Regents attempt log into answer history entries
+ */
+export function historyFromAttempts(attempts: RegentsQuestionAttempt[]): AnswerHistoryEntry[] {
+  return attempts.map((attempt) => ({
+    questionId: attempt.question_id,
+    standardCode: attempt.standard_code,
+    isCorrect: attempt.is_correct,
+    answeredAt: attempt.answered_at,
+  }));
+}
+
+/**
+ * Convert graded assignments into answer history entries, one per attempt
+ */
+export function historyFromAssignmentAttempts(attempts: GradedAssignmentAttempt[]): AnswerHistoryEntry[] {
+  return attempts.map((attempt) => ({
+    questionId: `assignment:${attempt.assignmentId}`,
+    standardCode: attempt.standardCode,
+    isCorrect: attempt.score >= PASSING_SCORE,
+    answeredAt: attempt.submittedAt,
+  }));
+}
+
+/**
+ * Convert answered review cards into answer history entries. A miss resets
+ * a card's repetitions, so a card with repetitions was last answered right.
+ */
+export function historyFromReviewItems(items: ReviewQueueItem[]): AnswerHistoryEntry[] {
+  return items
+    .filter((item) => item.last_reviewed_at && item.question_data.standardCode)
+    .map((item) => ({
+      questionId: item.question_id,
+      standardCode: item.question_data.standardCode!,
+      isCorrect: item.repetitions > 0,
+      answeredAt: item.last_reviewed_at!,
+    }));
+}
+
+/**
+ * Return a new state with one more answer applied
+ */
+export function applyAnswer(state: LearnerState, entry: AnswerHistoryEntry): LearnerState {
+  const stat = state.mastery[entry.standardCode] ?? { attempted: 0, correct: 0 };
+  return {
+    mastery: {
+      ...state.mastery,
+      [entry.standardCode]: {
+        attempted: stat.attempted + 1,
+        correct: stat.correct + (entry.isCorrect ? 1 : 0),
+      },
+    },
+    history: [...state.history, entry],
+  };
+}
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * How much a standard needs practice, from 0 (mastered) to 1 (never correct)
+ */
+export function standardWeakness(state: LearnerState, standardCode: string): number {
+  const stat = state.mastery[standardCode];
+  if (!stat || stat.attempted === 0) return UNSEEN_STANDARD_WEAKNESS;
+  const accuracy = stat.correct / stat.attempted;
+  // Few attempts are weak evidence, so pull the estimate toward the unseen weight
+  const confidence = Math.min(1, stat.attempted / 3);
+  return confidence * (1 - accuracy) + (1 - confidence) * UNSEEN_STANDARD_WEAKNESS;
+}
+
+/**
+ * Walk the history and step difficulty up after correct streaks and down
+ * after incorrect streaks.
+ */
+export function targetDifficulty(history: AnswerHistoryEntry[], options: AdaptiveOptions = {}): number {
+  const stepUp = options.stepUpStreak ?? 3;
+  const stepDown = options.stepDownStreak ?? 2;
+  let difficulty = options.baseDifficulty ?? MIN_DIFFICULTY;
+  let streak = 0;
+
+  history.forEach((entry) => {
+    streak = entry.isCorrect ? Math.max(1, streak + 1) : Math.min(-1, streak - 1);
+    if (streak >= stepUp) {
+      difficulty = Math.min(MAX_DIFFICULTY, difficulty + 1);
+      streak = 0;
+    } else if (streak <= -stepDown) {
+      difficulty = Math.max(MIN_DIFFICULTY, difficulty - 1);
+      streak = 0;
+    }
+  });
+
+  return difficulty;
+}
+
+/**
+ * Penalty for showing a question again, from 1 (just seen) down to 0
+ */
+export function repeatPenalty(history: AnswerHistoryEntry[], questionId: string, repeatWindow = 10): number {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].questionId === questionId) {
+      const answersSince = history.length - 1 - i;
+      if (answersSince >= repeatWindow) return history[i].isCorrect ? 0.3 : 0;
+      return 1 - answersSince / repeatWindow;
+    }
+  }
+  return 0;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Score a candidate question; higher is a better next pick
+ */
+export function scoreQuestion(
+  question: SelectableQuestion,
+  state: LearnerState,
+  difficulty: number,
+  options: AdaptiveOptions = {}
+): number {
+  const weakness = standardWeakness(state, question.standardCode);
+  const difficultyFit = 1 - Math.abs(question.difficulty - difficulty) / (MAX_DIFFICULTY - MIN_DIFFICULTY);
+  const penalty = repeatPenalty(state.history, question.id, options.repeatWindow);
+  return weakness * 3 + difficultyFit - penalty * 3;
+}
+
+/**
+ * Pick the single best next question, or null for an empty pool
+ */
+export function selectNextQuestion<T extends SelectableQuestion>(
+  pool: T[],
+  state: LearnerState,
+  options: AdaptiveOptions = {}
+): T | null {
+  if (pool.length === 0) return null;
+  const random = options.random ?? Math.random;
+  const difficulty = targetDifficulty(state.history, options);
+
+  let best: T | null = null;
+  let bestScore = -Infinity;
+  for (const question of pool) {
+    const score = scoreQuestion(question, state, difficulty, options) + random() * 0.1;
+    if (score > bestScore) {
+      best = question;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Pick `count` distinct questions. Each pick is treated as seen so later picks
+ * spread across standards instead of repeating the weakest one.
+ */
+export function selectAdaptiveQuestions<T extends SelectableQuestion>(
+  pool: T[],
+  state: LearnerState,
+  count: number,
+  options: AdaptiveOptions = {}
+): T[] {
+  const picked: T[] = [];
+  let remaining = [...pool];
+  let working = state;
+  // Picks are not answers yet, so the target difficulty is fixed for the batch
+  const difficulty = targetDifficulty(state.history, options);
+  const random = options.random ?? Math.random;
+
+  while (picked.length < count && remaining.length > 0) {
+    let next: T | null = null;
+    let bestScore = -Infinity;
+    for (const question of remaining) {
+      const score = scoreQuestion(question, working, difficulty, options) + random() * 0.1;
+      if (score > bestScore) {
+        next = question;
+        bestScore = score;
+      }
+    }
+    if (!next) break;
+    picked.push(next);
+    remaining = remaining.filter((q) => q.id !== next.id);
+    // Nudge the picked standard toward "practiced" so the next pick varies
+    working = {
+      ...working,
+      mastery: {
+        ...working.mastery,
+        [next.standardCode]: {
+          attempted: (working.mastery[next.standardCode]?.attempted ?? 0) + 1,
+          correct: (working.mastery[next.standardCode]?.correct ?? 0) + 1,
+        },
+      },
+    };
+  }
+
+  return picked;
+}
+
+/**
+ * Standards most in need of practice among those covered by the pool
+ */
+export function recommendFocusStandards(
+  pool: SelectableQuestion[],
+  state: LearnerState,
+  limit = 3
+): string[] {
+  const codes = [...new Set(pool.map((q) => q.standardCode))];
+  return codes
+    .filter((code) => {
+      const stat = state.mastery[code];
+      return stat && stat.attempted > 0 && (stat.correct / stat.attempted) * 100 < STANDARD_MASTERY_THRESHOLDS.MASTERED;
+    })
+    .sort((a, b) => standardWeakness(state, b) - standardWeakness(state, a))
+    .slice(0, limit);
+}
+
+// ============================================================================
+// Question Banks
+// ============================================================================
+
+/**
+ * Adaptive set of questions for a Regents exam
+ */
+export function selectRegentsQuestions(
+  examId: string,
+  state: LearnerState,
+  count: number,
+  options: AdaptiveOptions = {}
+): RegentsQuestion[] {
+  return selectAdaptiveQuestions(getQuestionsByExam(examId), state, count, options);
+}
+
+/**
+ * Adaptive set of questions for an algebra course
+ */
+export function selectAlgebraQuestions(
+  course: AlgebraQuestion["course"],
+  state: LearnerState,
+  count: number,
+  options: AdaptiveOptions = {}
+): AlgebraQuestion[] {
+  return selectAdaptiveQuestions(getAlgebraQuestionsByCourse(course), state, count, options);
+}
+
+// ============================================================================
+// Game Generators
+// ============================================================================
+
+type GameQuestion = SelectableQuestion & {
+  prompt: string;
+  options: string[];
+  correctAnswer: string;
+  hint?: string;
+};
+
+/**
+ * game_data for a timed_challenge skill game
+ */
+export function buildTimedChallengeData(questions: GameQuestion[], timePerQuestion = 30) {
+  return {
+    timePerQuestion,
+    questions: questions.map((q) => ({
+      id: q.id,
+      prompt: q.prompt,
+      options: q.options,
+      correctAnswer: q.correctAnswer,
+      hint: q.hint,
+    })),
+  };
+}
+
+/**
+ * game_data for a flashcard_battle skill game
+ */
+export function buildFlashcardData(questions: GameQuestion[]) {
+  return {
+    cards: questions.map((q) => ({
+      id: q.id,
+      front: q.prompt,
+      back: q.correctAnswer,
+      hint: q.hint,
+    })),
+  };
+}
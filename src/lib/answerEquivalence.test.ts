@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { areAnswersEquivalent, type AnswerCheckOptions } from "./answerEquivalence";
+
+type Case = [response: string, expected: string, equivalent: boolean, options?: AnswerCheckOptions];
+
+const CASES: Record<string, Case[]> = {
+  "numbers in different forms": [
+    ["1/2", "0.5", true],
+    ["0.5", "1/2", true],
+    [".50", "0.5", true],
+    ["50%", "0.5", true],
+    ["50", "50%", true],
+    ["1 1/2", "1.5", true],
+    ["1,000", "1000", true],
+    ["-3", "-3.0", true],
+    ["2/4", "0.5", true],
+    ["0.6", "0.5", false],
+    ["5", "0.5", false],
+  ],
+  "units": [
+    ["150 cm", "1.5 m", true],
+    ["1.5", "1.5 m", true],
+    ["1.5", "1.5 m", false, { requireUnits: true }],
+    ["1.5 kg", "1.5 m", false],
+  ],
+  "rounded answers": [
+    ["6.28", "2pi", true],
+    ["1.57", "pi/2", true],
+    ["1.571", "pi/2", true],
+    ["0.33", "1/3", true],
+    ["0.333", "1/3", true],
+    ["1.41", "sqrt(2)", true],
+    ["6.3", "2pi", false],
+    ["6.29", "2pi", false],
+    ["0.33", "1/3", false, { acceptRounded: false }],
+  ],
+  "rounding false positives": [
+    ["0.5", "0.46", false],
+    ["0.5", "0.54", false],
+    ["0.3", "0.25", false],
+    ["0.3", "1/3", false],
+    ["0.1", "1/9", false],
+    ["0.13", "1/8", false],
+    ["3", "2.5", false],
+  ],
+  "questions that ask for rounding": [
+    ["0.5", "0.46", true, { roundTo: 1 }],
+    ["0.46", "0.46", true, { roundTo: 1 }],
+    ["0.50", "0.46", false, { roundTo: 1 }],
+    ["0.4", "0.46", false, { roundTo: 1 }],
+    ["0.3", "1/3", true, { roundTo: 1 }],
+  ],
+  "expressions": [
+    ["(x-3)(x+3)", "x^2 - 9", true],
+    ["x^2 - 9", "(x+3)(x-3)", true],
+    ["2(x + 1)", "2x + 2", true],
+    ["x^2 + 9", "x^2 - 9", false],
+  ],
+  "relations": [
+    ["y = 2x + 1", "2x - y = -1", true],
+    ["x > 3", "3 < x", true],
+    ["x = 3", "3", true],
+    ["3", "x = 3", true],
+    ["x > 3", "x < 3", false],
+  ],
+  "lists": [
+    ["3, -3", "-3, 3", true],
+    ["x = ±3", "3, -3", true],
+    ["(2, 5)", "(2, 5)", true],
+    ["(5, 2)", "(2, 5)", false],
+    ["3", "3, -3", false],
+  ],
+  "text": [
+    ["Paris", "paris", true],
+    ["  Paris. ", "Paris", true],
+    ["Paris", "paris", false, { caseSensitive: true }],
+    ["London", "Paris", false],
+    ["", "Paris", false],
+  ],
+  "numeric mode": [
+    ["0.5", "1/2", true, { mode: "numeric" }],
+    ["2x + 2", "2(x + 1)", false, { mode: "numeric" }],
+  ],
+};
+
+describe("areAnswersEquivalent", () => {
+  Object.entries(CASES).forEach(([group, cases]) => {
+    describe(group, () => {
+      it.each(cases)("%j vs %j → %s", (response, expected, equivalent, options) => {
+        expect(areAnswersEquivalent(response, expected, options)).toBe(equivalent);
+      });
+    });
+  });
+});
@@ -0,0 +1,817 @@
+/**
+ * Answer Equivalence
+ *
+ * Decides whether a typed answer matches an answer key for short_answer and
+ * numeric questions. Answers are compared, in order, as:
+ *
+ * - lists: "3, -3" or "x = ±3" match in any order; "(2, 5)" matches in order
+ * - relations: "y = 2x + 1" matches "2x - y = -1", "x > 3" matches "3 < x"
+ * - numbers with units: "0.5", "1/2", "50%", " .50 ", "1 1/2", "1,000",
+ *   "150 cm" and "1.5 m", within a tolerance
+ * - expressions: "(x-3)(x+3)" matches "x^2 - 9", checked by evaluating both
+ *   sides at random points
+ * - text: case-insensitive with whitespace and trailing punctuation ignored
+ *
+ * Everything here is a pure function so grading and practice pages agree.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AnswerCheckMode = "auto" | "numeric" | "text";
+
+export interface AnswerCheckOptions {
+  /** "numeric" only accepts numbers, "text" skips all math parsing (default "auto") */
+  mode?: AnswerCheckMode;
+  /** Largest accepted absolute difference between numbers (default 1e-9) */
+  absoluteTolerance?: number;
+  /** Largest accepted difference relative to the larger number (default 1e-6) */
+  relativeTolerance?: number;
+  /**
+   * Accept a decimal that equals the key rounded to the places written, e.g.
+   * 6.28 for 2π or 0.33 for 1/3 (default true). Only keys with no exact
+   * decimal form qualify, and only to `minRoundedDecimals` places or more, so
+   * 0.5 never matches 0.46 and 0.3 never matches 1/3.
+   */
+  acceptRounded?: boolean;
+  /** Fewest decimal places a rounded answer may have (default 2) */
+  minRoundedDecimals?: number;
+  /**
+   * The question asks for answers rounded to this many places: the answer
+   * must have exactly these places and equal the key rounded to them. Applies
+   * to any key, including exact decimals.
+   */
+  roundTo?: number;
+  /** Reject a bare number when the key has units (default false) */
+  requireUnits?: boolean;
+  /** Compare text answers case-sensitively (default false) */
+  caseSensitive?: boolean;
+  /** Random points used to compare expressions (default 12) */
+  samples?: number;
+  /** Random source for sample points; defaults to a fixed seed so results are repeatable */
+  random?: () => number;
+}
+
+export interface CompiledExpression {
+  /** Variable names, sorted */
+  variables: string[];
+  evaluate: (scope: Record<string, number>) => number;
+}
+
+export interface AnswerUnit {
+  dimension: string;
+  /** 2 for areas, 3 for volumes */
+  power: number;
+  /** Multiplier that converts to the dimension's base unit */
+  factor: number;
+}
+
+export interface NumericAnswer {
+  value: number;
+  unit: AnswerUnit | null;
+  isPercent: boolean;
+  /** Decimal places written, or null when the number is not a plain decimal */
+  decimals: number | null;
+}
+
+type Relation = "=" | "<" | "<=" | "!=";
+
+const DEFAULT_ABSOLUTE_TOLERANCE = 1e-9;
+const DEFAULT_RELATIVE_TOLERANCE = 1e-6;
+const DEFAULT_SAMPLES = 12;
+const DEFAULT_MIN_ROUNDED_DECIMALS = 2;
+
+/**
+ * Most decimal places checked before a key counts as non-terminating; past
+ * this, floating point error makes every number look terminating
+ */
+const MAX_TERMINATING_DECIMALS = 6;
+
+/** Valid sample points needed before two expressions are called equivalent */
+const MIN_VALID_SAMPLES = 4;
+
+// ============================================================================
+// Text Normalization
+// ============================================================================
+
+/**
+ * Rewrite unicode math symbols and simple LaTeX into plain ASCII math
+ */
+function normalizeMathSymbols(input: string): string {
+  return input
+    .replace(/\$/g, (_, offset: number, whole: string) => (/\d/.test(whole[offset + 1] ?? "") ? "$" : ""))
+    .replace(/\\left|\\right|\\,|\\!|\\;/g, "")
+    .replace(/\\d?frac\{([^{}]*)\}\{([^{}]*)\}/g, "($1)/($2)")
+    .replace(/\\sqrt\{([^{}]*)\}/g, "sqrt($1)")
+    .replace(/\\(cdot|times)/g, "*")
+    .replace(/\\div/g, "/")
+    .replace(/\\pi/g, "pi")
+    .replace(/\\pm/g, "±")
+    .replace(/\\le(q)?/g, "<=")
+    .replace(/\\ge(q)?/g, ">=")
+    .replace(/\\ne(q)?/g, "!=")
+    .replace(/\\(sin|cos|tan|ln|log)/g, "$1")
+    .replace(/[{}]/g, (brace) => (brace === "{" ? "(" : ")"))
+    .replace(/[−–]/g, "-")
+    .replace(/[×·⋅∙]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/π/g, "pi")
+    .replace(/√/g, "sqrt")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/≤/g, "<=")
+    .replace(/≥/g, ">=")
+    .replace(/≠/g, "!=")
+    .replace(/\+\/-|\+-/g, "±")
+    .replace(/\*\*/g, "^")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Canonical form for plain text comparison
+ */
+export function normalizeAnswerText(answer: string, caseSensitive = false): string {
+  const text = answer
+    .normalize("NFKC")
+    .trim()
+    .replace(/^["'“”‘’]+|["'“”‘’]+$/g, "")
+    .replace(/[.!?]+$/, "")
+    .replace(/(?<=[a-z])[-‐‑](?=[a-z])/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return caseSensitive ? text : text.toLowerCase();
+}
+
+/** Anything with digits, operators or math symbols is worth parsing */
+function looksMathematical(answer: string): boolean {
+  return /[\d=+\-*/^()<>±√π²³|%$°]/.test(answer);
+}
+
+// ============================================================================
+// Expression Parsing
+// ============================================================================
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/** Longest names first so "asin" wins over "sin" */
+const NAMED_TOKENS = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length);
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+type Evaluator = (scope: Record<string, number>) => number;
+
+function tokenize(input: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === " ") {
+      i++;
+    } else if (/[\d.]/.test(char)) {
+      const match = input.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i);
+      if (!match) return null;
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[a-z]/i.test(char)) {
+      // Split a run of letters into known names and single-letter variables: "xsqrty" -> x, sqrt, y
+      let run = input.slice(i).match(/^[a-z]+/i)![0].toLowerCase();
+      let variableRun = 0;
+      i += run.length;
+      while (run.length > 0) {
+        const named = NAMED_TOKENS.find((name) => run.startsWith(name));
+        const name = named ?? run[0];
+        variableRun = named ? 0 : variableRun + 1;
+        // Three or more unknown letters in a row is a word, not a product
+        if (variableRun > 2) return null;
+        tokens.push({ type: "name", value: name });
+        run = run.slice(name.length);
+      }
+    } else if ("+-*/^()|".includes(char)) {
+      tokens.push({ type: "op", value: char });
+      i++;
+    } else {
+      return null;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser. Supports + - * / ^, implicit multiplication
+ * ("2x", "(x-3)(x+3)", "3sqrt(2)"), unary signs, |x| and the functions above.
+ */
+class ExpressionParser {
+  private position = 0;
+  readonly variables = new Set<string>();
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Evaluator | null {
+    const result = this.parseSum();
+    return this.position === this.tokens.length ? result : null;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private takeOp(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === "op" && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private parseSum(): Evaluator | null {
+    let left = this.parseProduct();
+    while (left) {
+      if (this.takeOp("+")) {
+        const a = left;
+        const b = this.parseProduct();
+        if (!b) return null;
+        left = (s) => a(s) + b(s);
+      } else if (this.takeOp("-")) {
+        const a = left;
+        const b = this.parseProduct();
+        if (!b) return null;
+        left = (s) => a(s) - b(s);
+      } else {
+        break;
+      }
+    }
+    return left;
+  }
+
+  private startsPrimary(): boolean {
+    const token = this.peek();
+    return !!token && (token.type !== "op" || token.value === "(");
+  }
+
+  private parseProduct(): Evaluator | null {
+    let left = this.parseUnary();
+    while (left) {
+      if (this.takeOp("*")) {
+        const a = left;
+        const b = this.parseUnary();
+        if (!b) return null;
+        left = (s) => a(s) * b(s);
+      } else if (this.takeOp("/")) {
+        const a = left;
+        const b = this.parseUnary();
+        if (!b) return null;
+        left = (s) => a(s) / b(s);
+      } else if (this.startsPrimary()) {
+        const a = left;
+        const b = this.parsePower();
+        if (!b) return null;
+        left = (s) => a(s) * b(s);
+      } else {
+        break;
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): Evaluator | null {
+    if (this.takeOp("-")) {
+      const operand = this.parseUnary();
+      return operand && ((s) => -operand(s));
+    }
+    if (this.takeOp("+")) return this.parseUnary();
+    return this.parsePower();
+  }
+
+  private parsePower(): Evaluator | null {
+    const base = this.parsePrimary();
+    if (!base || !this.takeOp("^")) return base;
+    const exponent = this.parseUnary();
+    return exponent && ((s) => Math.pow(base(s), exponent(s)));
+  }
+
+  private parsePrimary(): Evaluator | null {
+    const token = this.peek();
+    if (!token) return null;
+
+    if (token.type === "number") {
+      this.position++;
+      return () => token.value;
+    }
+
+    if (token.type === "name") {
+      this.position++;
+      const fn = FUNCTIONS[token.value];
+      if (fn) {
+        // "sin(x)^2" squares the sine; "sqrt 2x" takes the root of 2 only
+        const next = this.peek();
+        const argument = next?.type === "op" && next.value === "(" ? this.parsePrimary() : this.parsePower();
+        return argument && ((s) => fn(argument(s)));
+      }
+      if (token.value in CONSTANTS) {
+        const value = CONSTANTS[token.value];
+        return () => value;
+      }
+      this.variables.add(token.value);
+      return (s) => s[token.value];
+    }
+
+    if (this.takeOp("(")) {
+      const inner = this.parseSum();
+      return inner && this.takeOp(")") ? inner : null;
+    }
+
+    if (this.takeOp("|")) {
+      const inner = this.parseSum();
+      return inner && this.takeOp("|") ? (s) => Math.abs(inner(s)) : null;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Parse a math expression such as "3x^2 - 2(x + 1)" or "sqrt(2)/2".
+ * Returns null when the input is not a well-formed expression.
+ */
+export function parseMathExpression(input: string): CompiledExpression | null {
+  const tokens = tokenize(normalizeMathSymbols(input));
+  if (!tokens || tokens.length === 0) return null;
+
+  const parser = new ExpressionParser(tokens);
+  const evaluate = parser.parse();
+  if (!evaluate) return null;
+
+  return { variables: [...parser.variables].sort(), evaluate };
+}
+
+// ============================================================================
+// Numbers and Units
+// ============================================================================
+
+const UNIT_DEFINITIONS: { dimension: string; factor: number; names: string[] }[] = [
+  { dimension: "length", factor: 0.001, names: ["mm", "millimeter", "millimeters", "millimetre", "millimetres"] },
+  { dimension: "length", factor: 0.01, names: ["cm", "centimeter", "centimeters", "centimetre", "centimetres"] },
+  { dimension: "length", factor: 1, names: ["m", "meter", "meters", "metre", "metres"] },
+  { dimension: "length", factor: 1000, names: ["km", "kilometer", "kilometers", "kilometre", "kilometres"] },
+  { dimension: "length", factor: 0.0254, names: ["in", "inch", "inches"] },
+  { dimension: "length", factor: 0.3048, names: ["ft", "foot", "feet"] },
+  { dimension: "length", factor: 0.9144, names: ["yd", "yard", "yards"] },
+  { dimension: "length", factor: 1609.344, names: ["mi", "mile", "miles"] },
+  { dimension: "mass", factor: 0.001, names: ["mg", "milligram", "milligrams"] },
+  { dimension: "mass", factor: 1, names: ["g", "gram", "grams"] },
+  { dimension: "mass", factor: 1000, names: ["kg", "kilogram", "kilograms"] },
+  { dimension: "mass", factor: 28.349523125, names: ["oz", "ounce", "ounces"] },
+  { dimension: "mass", factor: 453.59237, names: ["lb", "lbs", "pound", "pounds"] },
+  { dimension: "time", factor: 1, names: ["s", "sec", "secs", "second", "seconds"] },
+  { dimension: "time", factor: 60, names: ["min", "mins", "minute", "minutes"] },
+  { dimension: "time", factor: 3600, names: ["h", "hr", "hrs", "hour", "hours"] },
+  { dimension: "time", factor: 86400, names: ["day", "days"] },
+  { dimension: "volume", factor: 0.001, names: ["ml", "milliliter", "milliliters", "millilitre", "millilitres"] },
+  { dimension: "volume", factor: 1, names: ["l", "liter", "liters", "litre", "litres"] },
+  { dimension: "volume", factor: 3.785411784, names: ["gal", "gallon", "gallons"] },
+  { dimension: "angle", factor: 1, names: ["°", "deg", "degree", "degrees"] },
+  { dimension: "angle", factor: 180 / Math.PI, names: ["rad", "rads", "radian", "radians"] },
+  { dimension: "money", factor: 1, names: ["$", "dollar", "dollars"] },
+  { dimension: "money", factor: 0.01, names: ["¢", "cent", "cents"] },
+  { dimension: "unit", factor: 1, names: ["unit", "units"] },
+];
+
+const UNITS_BY_NAME = new Map(
+  UNIT_DEFINITIONS.flatMap((def) => def.names.map((name) => [name, def] as const))
+);
+
+/**
+ * Parse a unit such as "cm", "sq ft", "square units", "m^2" or "cubic inches"
+ */
+function parseUnit(text: string): AnswerUnit | null {
+  let name = text.toLowerCase().replace(/\.$/, "").trim();
+  let power = 1;
+
+  const prefix = name.match(/^(sq\.?|square|cu\.?|cubic)\s+/);
+  if (prefix) {
+    power = prefix[1].startsWith("s") ? 2 : 3;
+    name = name.slice(prefix[0].length);
+  }
+  const exponent = name.match(/\s*\^\s*([23])$/);
+  if (exponent) {
+    power = Number(exponent[1]);
+    name = name.slice(0, -exponent[0].length);
+  }
+
+  const def = UNITS_BY_NAME.get(name);
+  // Single letters like "m" or "s" are units only when written after a number
+  return def ? { dimension: def.dimension, power, factor: Math.pow(def.factor, power) } : null;
+}
+
+function countDecimals(text: string): number | null {
+  const match = text.match(/^[+-]?\d*\.(\d+)$/);
+  if (match) return match[1].length;
+  return /^[+-]?\d+$/.test(text) ? 0 : null;
+}
+
+/**
+ * Parse a numeric answer: decimals, fractions, mixed numbers, percents,
+ * thousands separators, constant expressions like "2pi", and a trailing or
+ * leading ("$") unit. Returns null when the answer is not a single number.
+ */
+export function parseNumericAnswer(input: string): NumericAnswer | null {
+  let text = normalizeMathSymbols(input);
+  let unit: AnswerUnit | null = null;
+
+  if (text.startsWith("$")) {
+    unit = parseUnit("$");
+    text = text.slice(1).trim();
+  }
+
+  const isPercent = /%$/.test(text);
+  if (isPercent) text = text.slice(0, -1).trim();
+
+  if (!unit && !isPercent) {
+    const unitMatch = text.match(/^(.*?[\d)i])\s*((?:(?:sq\.?|square|cu\.?|cubic)\s+)?[a-z°¢$]+\.?(?:\s*\^\s*[23])?)$/i);
+    const parsedUnit = unitMatch && parseUnit(unitMatch[2]);
+    if (parsedUnit) {
+      unit = parsedUnit;
+      text = unitMatch[1].trim();
+    }
+  }
+
+  // "1,000" and "12,500.5" are thousands separators, not lists
+  if (/^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/,/g, "");
+  }
+
+  let value: number | null = null;
+  const mixed = text.match(/^([+-]?)(\d+) (\d+)\/(\d+)$/);
+  if (mixed) {
+    const magnitude = Number(mixed[2]) + Number(mixed[3]) / Number(mixed[4]);
+    value = mixed[1] === "-" ? -magnitude : magnitude;
+  } else {
+    const expression = parseMathExpression(text);
+    if (expression && expression.variables.length === 0) {
+      value = expression.evaluate({});
+    }
+  }
+
+  if (value === null || !Number.isFinite(value)) return null;
+
+  return {
+    value: isPercent ? value / 100 : value,
+    unit,
+    isPercent,
+    decimals: isPercent ? null : countDecimals(text),
+  };
+}
+
+function numbersClose(a: number, b: number, options: AnswerCheckOptions): boolean {
+  const absolute = options.absoluteTolerance ?? DEFAULT_ABSOLUTE_TOLERANCE;
+  const relative = options.relativeTolerance ?? DEFAULT_RELATIVE_TOLERANCE;
+  return Math.abs(a - b) <= Math.max(absolute, relative * Math.max(Math.abs(a), Math.abs(b)));
+}
+
+/**
+ * Whether a number can be written exactly as a short decimal: 0.46 and 1/8
+ * can, 1/3 and 2π can't
+ */
+function hasExactDecimal(answer: NumericAnswer, value: number): boolean {
+  if (answer.decimals !== null) return true;
+  for (let places = 0; places <= MAX_TERMINATING_DECIMALS; places++) {
+    const scaled = value * Math.pow(10, places);
+    if (Math.abs(scaled - Math.round(scaled)) <= 1e-6) return true;
+  }
+  return false;
+}
+
+function roundToPlaces(value: number, places: number): number {
+  const scale = Math.pow(10, places);
+  return Math.round(value * scale) / scale;
+}
+
+function numericAnswersMatch(response: NumericAnswer, expected: NumericAnswer, options: AnswerCheckOptions): boolean {
+  let responseValue = response.value;
+  let expectedValue = expected.value;
+
+  if (response.unit && expected.unit) {
+    if (response.unit.dimension !== expected.unit.dimension || response.unit.power !== expected.unit.power) {
+      return false;
+    }
+    responseValue *= response.unit.factor;
+    expectedValue *= expected.unit.factor;
+  } else if (expected.unit && options.requireUnits) {
+    return false;
+  }
+
+  if (numbersClose(responseValue, expectedValue, options)) return true;
+
+  // "50" for a key of "50%": the student left off the percent sign
+  if (expected.isPercent && !response.isPercent && numbersClose(response.value, expected.value * 100, options)) {
+    return true;
+  }
+
+  if (response.decimals === null) return false;
+
+  // "0.5" for a key of "0.46" when the question says to round to the nearest tenth
+  if (options.roundTo !== undefined) {
+    return response.decimals === options.roundTo &&
+      numbersClose(responseValue, roundToPlaces(expectedValue, options.roundTo), options);
+  }
+
+  // "6.28" for a key of "2pi": the student rounded to the places they wrote
+  const minDecimals = options.minRoundedDecimals ?? DEFAULT_MIN_ROUNDED_DECIMALS;
+  if (
+    (options.acceptRounded ?? true) &&
+    response.decimals >= minDecimals &&
+    !hasExactDecimal(expected, expected.value)
+  ) {
+    return numbersClose(responseValue, roundToPlaces(expectedValue, response.decimals), options);
+  }
+
+  return false;
+}
+
+// ============================================================================
+// Expressions and Relations
+// ============================================================================
+
+/** Deterministic PRNG so grading the same answer twice gives the same result */
+function seededRandom(seed = 0x5eed): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Evaluate two expressions at random points and collect finite value pairs
+ */
+function samplePairs(
+  a: CompiledExpression,
+  b: CompiledExpression,
+  options: AnswerCheckOptions
+): [number, number][] {
+  const variables = [...new Set([...a.variables, ...b.variables])];
+  const random = options.random ?? seededRandom();
+  const samples = options.samples ?? DEFAULT_SAMPLES;
+  const pairs: [number, number][] = [];
+
+  // Allow extra attempts for points outside a domain (e.g. sqrt of a negative)
+  for (let attempt = 0; attempt < samples * 4 && pairs.length < samples; attempt++) {
+    const scope: Record<string, number> = {};
+    variables.forEach((name) => {
+      scope[name] = (random() * 2 - 1) * 4;
+    });
+    const valueA = a.evaluate(scope);
+    const valueB = b.evaluate(scope);
+    if (Number.isFinite(valueA) && Number.isFinite(valueB)) {
+      pairs.push([valueA, valueB]);
+    }
+  }
+
+  return pairs;
+}
+
+function expressionsEquivalent(a: CompiledExpression, b: CompiledExpression, options: AnswerCheckOptions): boolean {
+  const pairs = samplePairs(a, b, options);
+  const needed = a.variables.length === 0 && b.variables.length === 0 ? 1 : MIN_VALID_SAMPLES;
+  return pairs.length >= needed && pairs.every(([x, y]) => numbersClose(x, y, options));
+}
+
+/**
+ * Split "lhs op rhs" into a relation "difference op 0". "a > b" becomes
+ * "b - a < 0" so equivalent inequalities share an operator.
+ */
+function parseRelation(input: string): { relation: Relation; difference: CompiledExpression } | null {
+  const match = normalizeMathSymbols(input).match(/^([^<>=!]+)(<=|>=|!=|=|<|>)([^<>=!]+)$/);
+  if (!match) return null;
+
+  const [, lhsText, operator, rhsText] = match;
+  const lhs = parseMathExpression(lhsText);
+  const rhs = parseMathExpression(rhsText);
+  if (!lhs || !rhs) return null;
+
+  const flipped = operator === ">" || operator === ">=";
+  const [left, right] = flipped ? [rhs, lhs] : [lhs, rhs];
+  const relation: Relation = operator === ">" ? "<" : operator === ">=" ? "<=" : (operator as Relation);
+
+  return {
+    relation,
+    difference: {
+      variables: [...new Set([...left.variables, ...right.variables])].sort(),
+      evaluate: (scope) => left.evaluate(scope) - right.evaluate(scope),
+    },
+  };
+}
+
+/**
+ * Relations are equivalent when their differences are proportional: any
+ * nonzero factor for "=" and "!=", a positive factor for inequalities.
+ */
+function relationsEquivalent(response: string, expected: string, options: AnswerCheckOptions): boolean | null {
+  const a = parseRelation(response);
+  const b = parseRelation(expected);
+  if (!a || !b) return null;
+  if (a.relation !== b.relation) return false;
+
+  const pairs = samplePairs(a.difference, b.difference, options).filter(
+    ([x, y]) => !(numbersClose(x, 0, options) && numbersClose(y, 0, options))
+  );
+  if (pairs.length < MIN_VALID_SAMPLES) return false;
+  if (pairs.some(([x, y]) => numbersClose(x, 0, options) !== numbersClose(y, 0, options))) return false;
+
+  const ratio = pairs[0][1] / pairs[0][0];
+  if (a.relation !== "=" && a.relation !== "!=" && ratio <= 0) return false;
+  return pairs.every(([x, y]) => numbersClose(y / x, ratio, options));
+}
+
+/** "x = 3" -> "3" when the left side is a lone variable */
+function stripSolvedVariable(answer: string): string {
+  const match = normalizeMathSymbols(answer).match(/^[a-z]\s*=\s*([^<>=!]+)$/i);
+  return match ? match[1] : answer;
+}
+
+// ============================================================================
+// Lists
+// ============================================================================
+
+/** Split on commas, semicolons, " or " and " and " outside brackets */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === "(" || char === "[") depth++;
+    if (char === ")" || char === "]") depth--;
+
+    const word = input.slice(i).match(/^ (or|and) /i);
+    if (depth === 0 && (char === "," || char === ";" || word)) {
+      parts.push(current.trim());
+      current = "";
+      if (word) i += word[0].length - 1;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  return parts.filter(Boolean);
+}
+
+/** "x = ±3" -> ["x = 3", "x = -3"] */
+function expandPlusMinus(answer: string): string[] {
+  const normalized = normalizeMathSymbols(answer);
+  const count = (normalized.match(/±/g) ?? []).length;
+  if (count !== 1) return [answer];
+  return [normalized.replace("±", "+"), normalized.replace("±", "-")];
+}
+
+interface AnswerList {
+  ordered: boolean;
+  items: string[];
+}
+
+/**
+ * Read an answer as a list. "(2, 5)" and "[2, 5]" are ordered tuples; other
+ * comma lists and ± answers are unordered sets. Single answers return null.
+ */
+function parseAnswerList(answer: string): AnswerList | null {
+  const normalized = normalizeMathSymbols(answer);
+  if (/^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(normalized)) return null;
+
+  const tuple = normalized.match(/^[([](.*)[)\]]$/);
+  if (tuple) {
+    const items = splitTopLevel(tuple[1]);
+    // "(x-3)(x+3)" also starts and ends with brackets; a tuple needs a top-level comma
+    if (items.length > 1 && splitTopLevel(normalized).length === 1 && !/[)\]]\s*[([]/.test(normalized)) {
+      return { ordered: true, items };
+    }
+  }
+
+  const items = splitTopLevel(normalized).flatMap(expandPlusMinus);
+  return items.length > 1 ? { ordered: false, items } : null;
+}
+
+function listsMatch(response: AnswerList, expected: AnswerList, options: AnswerCheckOptions): boolean {
+  if (response.items.length !== expected.items.length) return false;
+
+  if (expected.ordered) {
+    return response.items.every((item, index) => singleAnswersMatch(item, expected.items[index], options));
+  }
+
+  // Each expected item must be claimed by a different response item
+  const unclaimed = [...response.items];
+  return expected.items.every((item) => {
+    const index = unclaimed.findIndex((candidate) => singleAnswersMatch(candidate, item, options));
+    if (index < 0) return false;
+    unclaimed.splice(index, 1);
+    return true;
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+function singleAnswersMatch(response: string, expected: string, options: AnswerCheckOptions): boolean {
+  const mode = options.mode ?? "auto";
+  if (normalizeAnswerText(response, options.caseSensitive) === normalizeAnswerText(expected, options.caseSensitive)) {
+    return true;
+  }
+  if (mode === "text" || !looksMathematical(expected)) return false;
+
+  const responseHasRelation = /[<>=≤≥≠]/.test(response);
+  const expectedHasRelation = /[<>=≤≥≠]/.test(expected);
+  if (mode === "auto" && responseHasRelation && expectedHasRelation) {
+    return relationsEquivalent(response, expected, options) ?? false;
+  }
+
+  // Accept "3" for "x = 3" and "x = 3" for "3"
+  const responseValue = expectedHasRelation ? response : stripSolvedVariable(response);
+  const expectedValue = responseHasRelation ? expected : stripSolvedVariable(expected);
+
+  const responseNumber = parseNumericAnswer(responseValue);
+  const expectedNumber = parseNumericAnswer(expectedValue);
+  if (responseNumber && expectedNumber) {
+    return numericAnswersMatch(responseNumber, expectedNumber, options);
+  }
+  if (mode === "numeric") return false;
+
+  const responseExpression = parseMathExpression(responseValue);
+  const expectedExpression = parseMathExpression(expectedValue);
+  return !!responseExpression && !!expectedExpression &&
+    expressionsEquivalent(responseExpression, expectedExpression, options);
+}
+
+/**
+ * Whether a typed answer is equivalent to an answer key
+ */
+export function areAnswersEquivalent(
+  response: string,
+  expected: string,
+  options: AnswerCheckOptions = {}
+): boolean {
+  if (!response?.trim() || expected == null) return false;
+  if (options.mode !== "text") {
+    const responseList = parseAnswerList(response);
+    const expectedList = parseAnswerList(String(expected));
+    if (responseList || expectedList) {
+      return listsMatch(
+        responseList ?? { ordered: expectedList!.ordered, items: [response] },
+        expectedList ?? { ordered: responseList!.ordered, items: [String(expected)] },
+        options
+      );
+    }
+  }
+  return singleAnswersMatch(response, String(expected), options);
+}
+
+/**
+ * Whether a typed answer is equivalent to any of the accepted answers
+ */
+export function matchesAnyAnswer(
+  response: string,
+  acceptable: string[],
+  options: AnswerCheckOptions = {}
+): boolean {
+  return acceptable.some((answer) => areAnswersEquivalent(response, answer, options));
+}
+
+/**
+ * The accepted answer a typed answer matches, or null
+ */
+export function findMatchingAnswer(
+  response: string,
+  acceptable: string[],
+  options: AnswerCheckOptions = {}
+): string | null {
+  return acceptable.find((answer) => areAnswersEquivalent(response, answer, options)) ?? null;
+}
@@ -19,7 +19,7 @@ export interface Assignment {
   xp_reward: number;
   coin_reward: number;
   status: "pending" | "active" | "completed" | "archived";
-  due_date: string | null;
+  due_at: string | null;
   standard_id: string | null;
   class_id: string | null;
   created_at: string;
@@ -162,7 +162,7 @@ export async function fetchActiveAssignments(): Promise<Assignment[]> {
     .from("assignments")
     .select("*")
     .in("status", ["pending", "active"])
-    .order("due_date", { ascending: true });
+    .order("due_at", { ascending: true });
 
   if (error) {
     throw new Error(`Failed to fetch active assignments: ${error.message}`);
@@ -0,0 +1,317 @@
+/**
+ * Badge API Functions
+ *
+ * Badge definitions, the facts their criteria are checked against, and
+ * awarding. Facts are loaded in bulk for the admin preview. Awards only
+ * happen on the server: `evaluate_my_badges` checks the same criteria for
+ * the signed-in student, and `grant_badges` lets admins award by hand.
+ * Both insert `student_badges` and the students' notifications.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  EMPTY_BADGE_FACTS,
+  isWinningSession,
+  meetsCriteria,
+  parseBadgeCriteria,
+  requiredFacts,
+  type BadgeCriteria,
+  type BadgeFactKind,
+  type BadgeFacts,
+} from "@/lib/badgeCriteria";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string | null;
+  icon_url: string | null;
+  xp_reward: number;
+  /** null when the badge is only awarded by hand */
+  criteria: BadgeCriteria | null;
+  created_at: string;
+}
+
+export interface SaveBadgeParams {
+  /** Omit to create a new badge */
+  id?: string;
+  name: string;
+  description: string | null;
+  icon_url: string | null;
+  xp_reward: number;
+  criteria: BadgeCriteria | null;
+}
+
+export interface BadgeQualifier {
+  studentId: string;
+  name: string;
+  alreadyEarned: boolean;
+}
+
+export interface BadgeGrant {
+  studentId: string;
+  badgeId: string;
+  badgeName: string;
+  earnedAt: string;
+}
+
+export interface GrantBadgesParams {
+  badge: Pick<BadgeDefinition, "id" | "name">;
+  studentIds: string[];
+}
+
+const PAGE_SIZE = 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read every page of a query; PostgREST caps a single response
+ */
+async function fetchAllPages<T>(
+  label: string,
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Awards as returned by `grant_badges` and `evaluate_my_badges`
+ */
+function toBadgeGrants(data: Json): BadgeGrant[] {
+  const rows = (data as unknown as {
+    student_id: string;
+    badge_id: string;
+    badge_name: string;
+    earned_at: string;
+  }[] | null) ?? [];
+
+  return rows.map((row) => ({
+    studentId: row.student_id,
+    badgeId: row.badge_id,
+    badgeName: row.badge_name,
+    earnedAt: row.earned_at,
+  }));
+}
+
+function factsFor(facts: Map<string, BadgeFacts>, studentId: string): BadgeFacts {
+  let entry = facts.get(studentId);
+  if (!entry) {
+    entry = { ...EMPTY_BADGE_FACTS, completedAssignments: [], mastery: {}, gamesWon: { games: 0, battles: 0 } };
+    facts.set(studentId, entry);
+  }
+  return entry;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Every badge, with criteria validated. Criteria that no longer parse are
+ * treated as manual-only rather than blocking the rest.
+ */
+export async function fetchBadgeDefinitions(): Promise<BadgeDefinition[]> {
+  const { data, error } = await supabase.from("badges").select("*").order("name");
+
+  if (error) {
+    throw new Error(`Failed to fetch badges: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => {
+    let criteria: BadgeCriteria | null = null;
+    if (row.criteria !== null) {
+      const parsed = parseBadgeCriteria(row.criteria);
+      if (parsed.success) {
+        criteria = parsed.data;
+      } else {
+        console.error(`Ignoring invalid criteria on badge "${row.name}":`, parsed.error);
+      }
+    }
+    return { ...row, criteria };
+  });
+}
+
+/**
+ * Facts for the given students, or every student the caller can see.
+ * Only the kinds listed are loaded; the rest stay empty.
+ */
+export async function fetchBadgeFacts(
+  kinds: Set<BadgeFactKind>,
+  studentIds?: string[]
+): Promise<Map<string, BadgeFacts>> {
+  const facts = new Map<string, BadgeFacts>();
+
+  if (kinds.has("profile")) {
+    const rows = await fetchAllPages("student profiles", (from, to) => {
+      let query = supabase.from("student_profiles").select("user_id, xp, current_streak, longest_streak");
+      if (studentIds) query = query.in("user_id", studentIds);
+      return query.order("user_id").range(from, to);
+    });
+    for (const row of rows) {
+      const entry = factsFor(facts, row.user_id);
+      entry.totalXp = row.xp;
+      entry.longestStreak = Math.max(row.current_streak, row.longest_streak);
+    }
+  }
+
+  if (kinds.has("assignments")) {
+    const rows = await fetchAllPages("completed assignments", (from, to) => {
+      let query = supabase.from("attempts").select("student_id, score, assignments(subject)").eq("status", "verified");
+      if (studentIds) query = query.in("student_id", studentIds);
+      return query.order("id").range(from, to);
+    });
+    for (const row of rows) {
+      factsFor(facts, row.student_id).completedAssignments.push({
+        subject: row.assignments?.subject ?? null,
+        score: row.score,
+      });
+    }
+  }
+
+  if (kinds.has("mastery")) {
+    const rows = await fetchAllPages("standard mastery", (from, to) => {
+      let query = supabase
+        .from("student_standard_mastery")
+        .select("student_id, correct_count, attempts_count, nys_standards(code)");
+      if (studentIds) query = query.in("student_id", studentIds);
+      return query.order("id").range(from, to);
+    });
+    for (const row of rows) {
+      const code = row.nys_standards?.code;
+      if (!code) continue;
+      factsFor(facts, row.student_id).mastery[code] = {
+        correct: row.correct_count,
+        attempts: row.attempts_count,
+      };
+    }
+  }
+
+  if (kinds.has("games")) {
+    const rows = await fetchAllPages("game sessions", (from, to) => {
+      let query = supabase
+        .from("game_sessions")
+        .select("student_id, battle_id, battle_rank, correct_count, total_questions")
+        .not("completed_at", "is", null);
+      if (studentIds) query = query.in("student_id", studentIds);
+      return query.order("id").range(from, to);
+    });
+    for (const row of rows) {
+      if (!isWinningSession(row)) continue;
+      const won = factsFor(facts, row.student_id).gamesWon;
+      if (row.battle_id) won.battles++;
+      else won.games++;
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Students who meet a badge's criteria right now, for previewing a badge
+ * before it is published
+ */
+export async function fetchBadgeQualifiers(criteria: BadgeCriteria, badgeId?: string): Promise<BadgeQualifier[]> {
+  const facts = await fetchBadgeFacts(requiredFacts(criteria));
+  const studentIds = [...facts.entries()]
+    .filter(([, studentFacts]) => meetsCriteria(criteria, studentFacts))
+    .map(([studentId]) => studentId);
+  if (studentIds.length === 0) return [];
+
+  const [profilesResult, earnedResult] = await Promise.all([
+    supabase.from("profiles").select("id, full_name").in("id", studentIds),
+    badgeId
+      ? supabase.from("student_badges").select("student_id").eq("badge_id", badgeId).in("student_id", studentIds)
+      : Promise.resolve({ data: [] as { student_id: string }[], error: null }),
+  ]);
+
+  const failed = profilesResult.error ?? earnedResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch qualifying students: ${failed.message}`);
+  }
+
+  const names = new Map((profilesResult.data ?? []).map((p) => [p.id, p.full_name]));
+  const earned = new Set((earnedResult.data ?? []).map((row) => row.student_id));
+
+  return studentIds
+    .map((studentId) => ({
+      studentId,
+      name: names.get(studentId) || "Student",
+      alreadyEarned: earned.has(studentId),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Create or update a badge
+ */
+export async function saveBadge(params: SaveBadgeParams): Promise<string> {
+  const row = {
+    name: params.name.trim(),
+    description: params.description?.trim() || null,
+    icon_url: params.icon_url?.trim() || null,
+    xp_reward: params.xp_reward,
+    criteria: params.criteria as unknown as Json,
+  };
+
+  const { data, error } = params.id
+    ? await supabase.from("badges").update(row).eq("id", params.id).select("id").single()
+    : await supabase.from("badges").insert(row).select("id").single();
+
+  if (error) {
+    throw new Error(`Failed to save badge: ${error.message}`);
+  }
+
+  return data.id;
+}
+
+/**
+ * Award a badge by hand to the chosen students and notify them. Admins
+ * only; students who already hold it are skipped, so only new awards come
+ * back.
+ */
+export async function grantBadges(params: GrantBadgesParams): Promise<BadgeGrant[]> {
+  if (params.studentIds.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("grant_badges", {
+    p_badge_id: params.badge.id,
+    p_student_ids: params.studentIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to award badges: ${error.message}`);
+  }
+
+  return toBadgeGrants(data);
+}
+
+/**
+ * Check every badge with criteria against the signed-in student on the
+ * server, and award and notify the ones they now qualify for
+ */
+export async function evaluateMyBadges(): Promise<BadgeGrant[]> {
+  const { data, error } = await supabase.rpc("evaluate_my_badges");
+
+  if (error) {
+    throw new Error(`Failed to check badges: ${error.message}`);
+  }
+
+  return toBadgeGrants(data);
+}
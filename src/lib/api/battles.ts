@@ -0,0 +1,110 @@
+/**
+ * Quiz Battle API Functions
+ *
+ * Records live quiz battle results through `record_quiz_battle`. The first
+ * player to report a match records it with its players and questions;
+ * every player's call then gets their own result, scored on the server
+ * from the answer log. The server writes each player's `game_sessions` row
+ * (linked by `battle_id`, with their `battle_rank`) and awards rewards once per player by the
+ * school economy config's `battle` rule and daily caps, skipping them once
+ * the student has reached the day's limit of rewarded battles.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { BattleAnswerLogEntry } from "@/lib/quizBattle";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecordQuizBattleParams {
+  battleId: string;
+  classId: string;
+  hostId: string;
+  playerIds: string[];
+  questionIds: string[];
+  answers: BattleAnswerLogEntry[];
+}
+
+export interface QuizBattleResult {
+  rank: number;
+  points: number;
+  correct: number;
+  total: number;
+  xpEarned: number;
+  coinsEarned: number;
+  /** False when this player was already rewarded for the match */
+  awarded: boolean;
+  /** The student has reached the day's limit of rewarded battles */
+  dailyLimitReached: boolean;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Name shown to classmates in the battle lobby
+ */
+export async function fetchBattlePlayerName(userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("full_name")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch player name: ${error.message}`);
+  }
+
+  return data?.full_name || "Student";
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Record a finished battle and the current student's result
+ */
+export async function recordQuizBattle(params: RecordQuizBattleParams): Promise<QuizBattleResult> {
+  const { data, error } = await supabase.rpc("record_quiz_battle", {
+    p_battle_id: params.battleId,
+    p_class_id: params.classId,
+    p_host_id: params.hostId,
+    p_player_ids: params.playerIds,
+    p_question_ids: params.questionIds,
+    p_answers: params.answers.map((answer) => ({
+      round: answer.round,
+      user_id: answer.userId,
+      choice: answer.choice,
+      response_ms: answer.responseMs,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Failed to record battle result: ${error.message}`);
+  }
+
+  const result = data as {
+    rank?: number;
+    points?: number;
+    correct?: number;
+    total?: number;
+    xp_earned?: number;
+    coins_earned?: number;
+    awarded?: boolean;
+    daily_limit_reached?: boolean;
+  } | null;
+
+  return {
+    rank: result?.rank ?? 0,
+    points: result?.points ?? 0,
+    correct: result?.correct ?? 0,
+    total: result?.total ?? params.questionIds.length,
+    xpEarned: result?.xp_earned ?? 0,
+    coinsEarned: result?.coins_earned ?? 0,
+    awarded: !!result?.awarded,
+    dailyLimitReached: !!result?.daily_limit_reached,
+  };
+}
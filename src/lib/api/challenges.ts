@@ -0,0 +1,262 @@
+/**
+ * Challenge API Functions
+ *
+ * Individual and team challenges. Team membership and contributions cross
+ * students, so they come from server RPCs: `create_team_challenge` enrols
+ * a whole class or the chosen group, `get_team_challenge_progress` returns
+ * each member's numbers since the start date, and `settle_team_challenge`
+ * checks the goal, records a competition's winner and splits the bonuses
+ * to every member, notifying them. Settling is idempotent, so any member's
+ * client may call it once their team's goal shows as reached.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  teamProgress,
+  type ChallengeScope,
+  type TeamGoalMetric,
+  type TeamMemberStats,
+  type TeamProgress,
+} from "@/lib/teamChallenges";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Challenge = Database["public"]["Tables"]["challenges"]["Row"] & {
+  badge: { name: string; icon_url: string | null } | null;
+};
+
+export type ChallengeParticipation = Database["public"]["Tables"]["challenge_participants"]["Row"];
+
+export interface TeamStanding {
+  id: string;
+  challengeId: string;
+  classId: string;
+  name: string;
+  memberCount: number;
+  goalReachedAt: string | null;
+  rewardedAt: string | null;
+  progress: TeamProgress;
+  /** The signed-in student is on this team */
+  isMine: boolean;
+}
+
+export interface TeamChallengeSummary extends Challenge {
+  teams: { id: string; name: string; class_id: string; goal_reached_at: string | null }[];
+}
+
+export interface CreateTeamChallengeParams {
+  title: string;
+  description: string;
+  theme: string;
+  startDate: string;
+  endDate: string;
+  scope: Exclude<ChallengeScope, "individual">;
+  goalMetric: TeamGoalMetric;
+  goalTarget: number;
+  /** Split across each rewarded team's members */
+  xpBonus: number;
+  coinBonus: number;
+  badgeId: string | null;
+  /** One team is a shared goal; two or more is a competition */
+  teams: {
+    classId: string;
+    name: string;
+    /** Group scope only; a class team is everyone enrolled */
+    studentIds?: string[];
+  }[];
+}
+
+export interface SettleTeamChallengeResult {
+  /** False when the goal isn't met, or another team won the competition */
+  awarded: boolean;
+  xpEach: number;
+  coinsEach: number;
+}
+
+/** One team as returned by `get_team_challenge_progress` */
+interface TeamProgressRow {
+  team_id: string;
+  class_id: string;
+  name: string;
+  goal_reached_at: string | null;
+  rewarded_at: string | null;
+  members: {
+    student_id: string;
+    name: string | null;
+    xp: number;
+    assignments: number;
+    mastery: number | null;
+  }[];
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Active challenges that haven't ended, soonest first
+ */
+export async function fetchActiveChallenges(): Promise<Challenge[]> {
+  const { data, error } = await supabase
+    .from("challenges")
+    .select("*, badge:badges(name, icon_url)")
+    .eq("is_active", true)
+    .gte("end_date", new Date().toISOString())
+    .order("start_date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch challenges: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * The signed-in student's challenge entries, team ones included
+ */
+export async function fetchMyChallengeParticipations(): Promise<ChallengeParticipation[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from("challenge_participants")
+    .select("*")
+    .eq("student_id", user.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch challenge participation: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Every team in a team challenge with its progress and member contributions
+ */
+export async function fetchTeamStandings(challenge: Challenge): Promise<TeamStanding[]> {
+  const [{ data: { user } }, { data, error }] = await Promise.all([
+    supabase.auth.getUser(),
+    supabase.rpc("get_team_challenge_progress", { p_challenge_id: challenge.id }),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch team progress: ${error.message}`);
+  }
+
+  const metric = challenge.goal_metric ?? "total_assignments";
+  const target = challenge.goal_target ?? challenge.min_assignments;
+
+  return ((data as unknown as TeamProgressRow[] | null) ?? []).map((row) => {
+    const members: TeamMemberStats[] = row.members.map((m) => ({
+      studentId: m.student_id,
+      name: m.name || "Student",
+      xp: m.xp,
+      assignments: m.assignments,
+      mastery: m.mastery,
+    }));
+
+    return {
+      id: row.team_id,
+      challengeId: challenge.id,
+      classId: row.class_id,
+      name: row.name,
+      memberCount: members.length,
+      goalReachedAt: row.goal_reached_at,
+      rewardedAt: row.rewarded_at,
+      progress: teamProgress(metric, target, members),
+      isMine: !!user && members.some((m) => m.studentId === user.id),
+    };
+  });
+}
+
+/**
+ * Team challenges for the admin list, newest first
+ */
+export async function fetchTeamChallenges(): Promise<TeamChallengeSummary[]> {
+  const { data, error } = await supabase
+    .from("challenges")
+    .select("*, badge:badges(name, icon_url), teams:challenge_teams!challenge_teams_challenge_id_fkey(id, name, class_id, goal_reached_at)")
+    .neq("scope", "individual")
+    .order("start_date", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch team challenges: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Sign the current student up for an individual challenge
+ */
+export async function joinChallenge(challengeId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+
+  const { error } = await supabase
+    .from("challenge_participants")
+    .insert({ challenge_id: challengeId, student_id: user.id });
+
+  if (error) {
+    throw new Error(`Failed to join challenge: ${error.message}`);
+  }
+}
+
+/**
+ * Create a team challenge and enrol its teams. Returns the challenge id.
+ */
+export async function createTeamChallenge(params: CreateTeamChallengeParams): Promise<string> {
+  const { data, error } = await supabase.rpc("create_team_challenge", {
+    p_challenge: {
+      title: params.title,
+      description: params.description,
+      theme: params.theme,
+      start_date: params.startDate,
+      end_date: params.endDate,
+      scope: params.scope,
+      goal_metric: params.goalMetric,
+      goal_target: params.goalTarget,
+      xp_bonus: params.xpBonus,
+      coin_bonus: params.coinBonus,
+      badge_id: params.badgeId,
+    },
+    p_teams: params.teams.map((team) => ({
+      class_id: team.classId,
+      name: team.name,
+      student_ids: params.scope === "group" ? team.studentIds ?? [] : null,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Failed to create team challenge: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Reward a team whose goal is met, if it hasn't been already
+ */
+export async function settleTeamChallenge(teamId: string): Promise<SettleTeamChallengeResult> {
+  const { data, error } = await supabase.rpc("settle_team_challenge", { p_team_id: teamId });
+
+  if (error) {
+    throw new Error(`Failed to settle team challenge: ${error.message}`);
+  }
+
+  const result = data as { awarded?: boolean; xp_each?: number; coins_each?: number } | null;
+  return {
+    awarded: !!result?.awarded,
+    xpEach: result?.xp_each ?? 0,
+    coinsEach: result?.coins_each ?? 0,
+  };
+}
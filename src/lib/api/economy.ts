@@ -0,0 +1,181 @@
+/**
+ * Economy Config API Functions
+ *
+ * Versioned reward economy configs. Every publish inserts a new version;
+ * the highest version for a school is the live one, falling back to the
+ * district-wide config (no school) and then to the built-in defaults.
+ * Restoring an old version publishes it again as a new version.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { DEFAULT_ECONOMY_CONFIG, parseEconomyConfig, type EconomyConfig, type Reward } from "@/lib/economy";
+import { startOfDayIn, toDayKey } from "@/lib/streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EconomyConfigVersion {
+  id: string;
+  school_id: string | null;
+  version: number;
+  config: EconomyConfig;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface ActiveEconomyConfig {
+  config: EconomyConfig;
+  /** 0 when nothing has been published and the defaults apply */
+  version: number;
+  /** School the config belongs to; null for the district-wide config */
+  schoolId: string | null;
+}
+
+export interface PublishEconomyConfigParams {
+  schoolId: string | null;
+  config: EconomyConfig;
+  notes?: string;
+  /** Version the edit started from, so a concurrent publish is not overwritten */
+  baseVersion: number;
+}
+
+const DEFAULT_ACTIVE_CONFIG: ActiveEconomyConfig = {
+  config: DEFAULT_ECONOMY_CONFIG,
+  version: 0,
+  schoolId: null,
+};
+
+function scopedQuery(schoolId: string | null) {
+  const query = supabase.from("economy_configs").select("*");
+  return schoolId ? query.eq("school_id", schoolId) : query.is("school_id", null);
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Every published version for a school (or district-wide), newest first.
+ * Versions that no longer validate are skipped.
+ */
+export async function fetchEconomyConfigVersions(schoolId: string | null): Promise<EconomyConfigVersion[]> {
+  const { data, error } = await scopedQuery(schoolId).order("version", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch economy configs: ${error.message}`);
+  }
+
+  return (data ?? []).flatMap((row) => {
+    const parsed = parseEconomyConfig(row.config);
+    if (!parsed.success) {
+      console.error(`Skipping invalid economy config v${row.version}:`, parsed.error);
+      return [];
+    }
+    return [{ ...row, config: parsed.data }];
+  });
+}
+
+/**
+ * The config in effect for a school
+ */
+export async function fetchEconomyConfig(schoolId: string | null): Promise<ActiveEconomyConfig> {
+  const scopes = schoolId ? [schoolId, null] : [null];
+  for (const scope of scopes) {
+    const [latest] = await fetchEconomyConfigVersions(scope);
+    if (latest) {
+      return { config: latest.config, version: latest.version, schoolId: scope };
+    }
+  }
+  return DEFAULT_ACTIVE_CONFIG;
+}
+
+/**
+ * The signed-in user's school, if they belong to one
+ */
+export async function fetchMySchoolId(): Promise<string | null> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return null;
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("school_id")
+    .eq("id", userData.user.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch profile: ${error.message}`);
+  }
+
+  return data?.school_id ?? null;
+}
+
+/**
+ * The config in effect for the signed-in user's school
+ */
+export async function fetchMyEconomyConfig(): Promise<ActiveEconomyConfig> {
+  return fetchEconomyConfig(await fetchMySchoolId());
+}
+
+/**
+ * XP and coins the signed-in student has earned today, for the daily caps.
+ * Deductions and purchases don't give room back.
+ */
+export async function fetchMyEarningsToday(): Promise<Reward> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { xp: 0, coins: 0 };
+
+  const { data, error } = await supabase
+    .from("reward_ledger")
+    .select("xp_delta, coin_delta")
+    .eq("student_id", user.id)
+    .gte("created_at", startOfDayIn(toDayKey(new Date())).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to fetch today's earnings: ${error.message}`);
+  }
+
+  return (data ?? []).reduce<Reward>(
+    (total, row) => ({
+      xp: total.xp + Math.max(0, row.xp_delta),
+      coins: total.coins + Math.max(0, row.coin_delta),
+    }),
+    { xp: 0, coins: 0 }
+  );
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Publish a config as the next version
+ */
+export async function publishEconomyConfig(params: PublishEconomyConfigParams): Promise<number> {
+  const parsed = parseEconomyConfig(params.config);
+  if (!parsed.success) {
+    throw new Error(`Invalid economy config: ${parsed.error}`);
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  const version = params.baseVersion + 1;
+
+  const { error } = await supabase.from("economy_configs").insert({
+    school_id: params.schoolId,
+    version,
+    config: parsed.data as unknown as Json,
+    notes: params.notes?.trim() || null,
+    created_by: userData.user?.id ?? null,
+  });
+
+  if (error) {
+    // (school_id, version) is unique, so this means someone published first
+    if (error.code === "23505") {
+      throw new Error("Someone else published a newer version. Reload and try again.");
+    }
+    throw new Error(`Failed to publish economy config: ${error.message}`);
+  }
+
+  return version;
+}
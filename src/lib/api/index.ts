@@ -7,3 +7,24 @@
 export * from "./student";
 export * from "./assignments";
 export * from "./practice";
+export * from "./regents";
+export * from "./review";
+export * from "./learnerHistory";
+export * from "./questionBank";
+export * from "./nycologicSync";
+export * from "./leaderboard";
+export * from "./teacher";
+export * from "./webhookLogs";
+export * from "./battles";
+export * from "./transactions";
+export * from "./shop";
+export * from "./mysteryPacks";
+export * from "./economy";
+export * from "./streaks";
+export * from "./schoolCalendar";
+export * from "./badges";
+export * from "./parentLinks";
+export * from "./parentDigest";
+export * from "./parentAlerts";
+export * from "./pledges";
+export * from "./challenges";
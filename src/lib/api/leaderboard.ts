@@ -0,0 +1,215 @@
+/**
+ * Leaderboard API Functions
+ *
+ * Rankings among a student's classmates. Period boards (daily, weekly,
+ * monthly) use `get_leaderboard_period_xp`, which sums each classmate's
+ * `reward_ledger.xp_delta` inside the window on the server, so students
+ * never read each other's ledgers. Windows follow the school's time zone.
+ * The all-time board uses the XP total on the student profile.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { PAGINATION } from "@/constants";
+import { fetchMyEconomyConfig } from "@/lib/api/economy";
+import { levelProgress } from "@/lib/economy";
+import { dayOfWeek, shiftDay, startOfDayIn, toDayKey } from "@/lib/streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LeaderboardPeriod = "daily" | "weekly" | "monthly" | "all-time";
+
+export type LeaderboardSort = "xp" | "streak";
+
+export interface LeaderboardQuery {
+  userId: string;
+  period: LeaderboardPeriod;
+  sortBy: LeaderboardSort;
+  /** A class id, or "all" for every class the student is enrolled in */
+  classId: string;
+  gradeLevel?: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  name: string;
+  avatar_initial: string;
+  /** XP earned in the period (total XP for all-time) */
+  xp: number;
+  level: number;
+  current_streak: number;
+  longest_streak: number;
+  isCurrentUser: boolean;
+}
+
+export interface LeaderboardResult {
+  entries: LeaderboardEntry[];
+  /** The requesting student's row, even when ranked below the shown entries */
+  currentUser: LeaderboardEntry | null;
+  totalStudents: number;
+}
+
+export interface LeaderboardClass {
+  id: string;
+  name: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Start of the leaderboard window in the school's time zone, or null for
+ * all-time. Weeks start on Monday.
+ */
+export function getPeriodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | null {
+  const today = toDayKey(now);
+  switch (period) {
+    case "daily":
+      return startOfDayIn(today);
+    case "weekly":
+      return startOfDayIn(shiftDay(today, -((dayOfWeek(today) + 6) % 7)));
+    case "monthly":
+      return startOfDayIn(`${today.slice(0, 8)}01`);
+    default:
+      return null;
+  }
+}
+
+async function fetchScopeStudentIds(userId: string, classId: string): Promise<string[]> {
+  let classIds = [classId];
+
+  if (classId === "all") {
+    const { data, error } = await supabase
+      .from("enrollments")
+      .select("class_id")
+      .eq("student_id", userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch enrollments: ${error.message}`);
+    }
+    classIds = (data ?? []).map((e) => e.class_id);
+  }
+
+  if (classIds.length === 0) return [userId];
+
+  const { data, error } = await supabase
+    .from("enrollments")
+    .select("student_id")
+    .in("class_id", classIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch classmates: ${error.message}`);
+  }
+
+  return [...new Set([userId, ...(data ?? []).map((e) => e.student_id)])];
+}
+
+async function fetchPeriodXp(classId: string, since: Date): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc("get_leaderboard_period_xp", {
+    p_class_id: classId === "all" ? null : classId,
+    p_since: since.toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch period XP: ${error.message}`);
+  }
+
+  return new Map((data ?? []).map((row) => [row.student_id, row.xp]));
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Classes the student can filter the leaderboard by
+ */
+export async function fetchLeaderboardClasses(userId: string): Promise<LeaderboardClass[]> {
+  const { data, error } = await supabase
+    .from("enrollments")
+    .select("class_id, classes(id, name)")
+    .eq("student_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch classes: ${error.message}`);
+  }
+
+  return (data ?? [])
+    .filter((e) => e.classes)
+    .map((e) => ({ id: e.classes!.id, name: e.classes!.name }));
+}
+
+/**
+ * Ranked leaderboard for the student's classmates
+ */
+export async function fetchLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult> {
+  const scopeIds = await fetchScopeStudentIds(query.userId, query.classId);
+
+  let profileQuery = supabase
+    .from("student_profiles")
+    .select("user_id, xp, current_streak, longest_streak, grade_level")
+    .in("user_id", scopeIds);
+
+  if (query.gradeLevel !== undefined) {
+    profileQuery = profileQuery.eq("grade_level", query.gradeLevel);
+  }
+
+  const { data: studentProfiles, error: profilesError } = await profileQuery;
+
+  if (profilesError) {
+    throw new Error(`Failed to fetch student profiles: ${profilesError.message}`);
+  }
+
+  const students = studentProfiles ?? [];
+  const studentIds = students.map((s) => s.user_id);
+  if (studentIds.length === 0) {
+    return { entries: [], currentUser: null, totalStudents: 0 };
+  }
+
+  const [{ data: names, error: namesError }, { config }] = await Promise.all([
+    supabase.from("profiles").select("id, full_name").in("id", studentIds),
+    fetchMyEconomyConfig(),
+  ]);
+
+  if (namesError) {
+    throw new Error(`Failed to fetch student names: ${namesError.message}`);
+  }
+
+  const periodStart = getPeriodStart(query.period);
+  const periodXp = periodStart ? await fetchPeriodXp(query.classId, periodStart) : null;
+  const nameById = new Map((names ?? []).map((p) => [p.id, p.full_name]));
+
+  const ranked: LeaderboardEntry[] = students
+    .map((s) => {
+      const name = nameById.get(s.user_id) || "Student";
+      return {
+        rank: 0,
+        user_id: s.user_id,
+        name,
+        avatar_initial: name.charAt(0).toUpperCase(),
+        xp: periodXp ? periodXp.get(s.user_id) ?? 0 : s.xp,
+        level: levelProgress(config.levelCurve, s.xp).level,
+        current_streak: s.current_streak,
+        longest_streak: s.longest_streak,
+        isCurrentUser: s.user_id === query.userId,
+      };
+    })
+    .sort((a, b) =>
+      query.sortBy === "xp"
+        ? b.xp - a.xp || b.current_streak - a.current_streak
+        : b.current_streak - a.current_streak || b.xp - a.xp
+    );
+
+  ranked.forEach((entry, index) => {
+    entry.rank = index + 1;
+  });
+
+  return {
+    entries: ranked.slice(0, PAGINATION.LEADERBOARD_LIMIT),
+    currentUser: ranked.find((entry) => entry.isCurrentUser) ?? null,
+    totalStudents: ranked.length,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Learner History API Functions
+ *
+ * Everything a student has answered on a standard, for adaptive selection:
+ * the Regents attempt log, graded assignments on a tagged standard, and
+ * answered daily review cards, merged into one answer history.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import {
+  historyFromAssignmentAttempts,
+  historyFromAttempts,
+  historyFromReviewItems,
+  type AnswerHistoryEntry,
+  type GradedAssignmentAttempt,
+} from "@/lib/adaptiveSelection";
+import { fetchRegentsAttempts } from "./regents";
+import type { ReviewQuestionData, ReviewSource } from "./review";
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Fetch a student's answer history from every practice source (defaults to
+ * the current user), oldest first
+ */
+export async function fetchLearnerHistory(studentId?: string): Promise<AnswerHistoryEntry[]> {
+  let targetId = studentId;
+  if (!targetId) {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return [];
+    targetId = userData.user.id;
+  }
+
+  const [regentsAttempts, assignmentResult, reviewResult] = await Promise.all([
+    fetchRegentsAttempts(targetId),
+    supabase
+      .from("attempts")
+      .select("assignment_id, score, submitted_at, assignments!inner(nys_standards!inner(code))")
+      .eq("student_id", targetId)
+      .in("status", ["submitted", "verified"])
+      .not("score", "is", null)
+      .not("submitted_at", "is", null),
+    supabase
+      .from("review_queue_items")
+      .select("*")
+      .eq("student_id", targetId)
+      .not("last_reviewed_at", "is", null),
+  ]);
+
+  if (assignmentResult.error) {
+    throw new Error(`Failed to fetch assignment history: ${assignmentResult.error.message}`);
+  }
+  if (reviewResult.error) {
+    throw new Error(`Failed to fetch review history: ${reviewResult.error.message}`);
+  }
+
+  const graded: GradedAssignmentAttempt[] = (assignmentResult.data ?? []).map((row) => ({
+    assignmentId: row.assignment_id,
+    standardCode: row.assignments.nys_standards.code,
+    score: row.score!,
+    submittedAt: row.submitted_at!,
+  }));
+
+  const reviewed = (reviewResult.data ?? []).map((row) => ({
+    ...row,
+    source: row.source as ReviewSource,
+    question_data: row.question_data as unknown as ReviewQuestionData,
+  }));
+
+  return [
+    ...historyFromAttempts(regentsAttempts),
+    ...historyFromAssignmentAttempts(graded),
+    ...historyFromReviewItems(reviewed),
+  ].sort((a, b) => a.answeredAt.localeCompare(b.answeredAt));
+}
@@ -0,0 +1,198 @@
+/**
+ * Mystery Pack API Functions
+ *
+ * Packs are earned through milestones (level-ups, streak milestones and
+ * challenge completions), never bought. Each pack has its own drop table,
+ * and the server rolls the rarity when a pack is opened. A collectible the
+ * student already owns is converted into coins instead.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { CollectibleRarity } from "./shop";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PackMilestoneType = Database["public"]["Enums"]["pack_milestone_type"];
+
+/** Chance of each rarity as a percentage; the values add up to 100 */
+export type DropRates = Record<CollectibleRarity, number>;
+
+export interface MysteryPack {
+  id: string;
+  name: string;
+  description: string | null;
+  milestone_type: PackMilestoneType;
+  drop_rates: DropRates;
+}
+
+export interface StudentPack {
+  id: string;
+  pack_id: string;
+  pack_name: string;
+  drop_rates: DropRates;
+  /** What earned the pack, e.g. "level:5", "streak:7" or "challenge:<id>" */
+  milestone_key: string;
+  earned_at: string;
+  opened_at: string | null;
+  rarity: CollectibleRarity | null;
+  collectible_name: string | null;
+  duplicate_coins: number | null;
+}
+
+export interface PackCollectible {
+  id: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  rarity: CollectibleRarity;
+}
+
+export interface OpenPackResult {
+  success: boolean;
+  error?: string;
+  collectible?: PackCollectible;
+  /** The student already owned it, so it was converted to coins */
+  duplicate?: boolean;
+  coins_awarded?: number;
+}
+
+export interface ClaimPacksResult {
+  /** Packs newly earned by this call */
+  granted: number;
+}
+
+export const RARITY_ORDER: CollectibleRarity[] = ["common", "rare", "epic", "legendary"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read a pack's drop table into percentages, whatever scale it was stored in
+ */
+export function parseDropRates(value: Json): DropRates {
+  const raw = value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  const weights = RARITY_ORDER.map((rarity) => {
+    const weight = Number(raw[rarity]);
+    return Number.isFinite(weight) && weight > 0 ? weight : 0;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return Object.fromEntries(
+    RARITY_ORDER.map((rarity, i) => [rarity, total > 0 ? (weights[i] / total) * 100 : 0])
+  ) as DropRates;
+}
+
+/**
+ * A percentage for display, keeping small odds visible
+ */
+export function formatDropRate(percent: number): string {
+  if (percent === 0) return "0%";
+  if (percent < 1) return `${percent.toFixed(1)}%`;
+  return `${Math.round(percent)}%`;
+}
+
+/**
+ * Human-readable reason a pack was earned
+ */
+export function describeMilestone(milestoneKey: string): string {
+  const [kind, value] = milestoneKey.split(":");
+  switch (kind) {
+    case "level":
+      return `Reached level ${value}`;
+    case "streak":
+      return `${value}-day streak`;
+    case "challenge":
+      return "Completed a challenge";
+    default:
+      return "Milestone reward";
+  }
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Active packs and their odds
+ */
+export async function fetchMysteryPacks(): Promise<MysteryPack[]> {
+  const { data, error } = await supabase
+    .from("mystery_packs")
+    .select("id, name, description, milestone_type, drop_rates")
+    .eq("is_active", true)
+    .order("name");
+
+  if (error) {
+    throw new Error(`Failed to fetch mystery packs: ${error.message}`);
+  }
+
+  return (data ?? []).map((pack) => ({ ...pack, drop_rates: parseDropRates(pack.drop_rates) }));
+}
+
+/**
+ * A student's packs, unopened first, then newest
+ */
+export async function fetchStudentPacks(studentId: string): Promise<StudentPack[]> {
+  const { data, error } = await supabase
+    .from("student_mystery_packs")
+    .select("*, mystery_packs(name, drop_rates), collectibles(name)")
+    .eq("student_id", studentId)
+    .order("earned_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch student packs: ${error.message}`);
+  }
+
+  return (data ?? [])
+    .map((row) => ({
+      id: row.id,
+      pack_id: row.pack_id,
+      pack_name: row.mystery_packs?.name ?? "Mystery Pack",
+      drop_rates: parseDropRates(row.mystery_packs?.drop_rates ?? null),
+      milestone_key: row.milestone_key,
+      earned_at: row.earned_at,
+      opened_at: row.opened_at,
+      rarity: row.rarity,
+      collectible_name: row.collectibles?.name ?? null,
+      duplicate_coins: row.duplicate_coins,
+    }))
+    .sort((a, b) => Number(!!a.opened_at) - Number(!!b.opened_at));
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Grant any packs the current student has earned but not yet received.
+ * The server checks level, streak and challenge progress itself and grants
+ * each milestone once, so this is safe to call after every reward.
+ */
+export async function claimMilestonePacks(): Promise<ClaimPacksResult> {
+  const { data, error } = await supabase.rpc("claim_milestone_packs");
+
+  if (error) {
+    throw new Error(`Failed to claim milestone packs: ${error.message}`);
+  }
+
+  return data as unknown as ClaimPacksResult;
+}
+
+/**
+ * Open an earned pack
+ */
+export async function openMysteryPack(studentPackId: string): Promise<OpenPackResult> {
+  const { data, error } = await supabase.rpc("open_mystery_pack", {
+    p_student_pack_id: studentPackId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to open mystery pack: ${error.message}`);
+  }
+
+  return data as unknown as OpenPackResult;
+}
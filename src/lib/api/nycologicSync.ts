@@ -0,0 +1,162 @@
+/**
+ * NYCologic Sync API Functions
+ *
+ * Delivery log for events sent to the NYCologic teacher app through the
+ * sync-to-nycologic edge function. Each event has a dedupe key, so a
+ * retried or replayed event updates its existing row instead of adding one.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SyncEventType = "assignment_completed" | "student_progress" | "badge_earned" | "mastery_update";
+
+export type SyncEventStatus = "sent" | "failed";
+
+export interface SyncEventPayload {
+  type: SyncEventType;
+  data: Record<string, unknown>;
+  /** Forwarded so the edge function can drop events it has already delivered */
+  dedupe_key: string;
+}
+
+export interface SyncEvent {
+  id: string;
+  dedupe_key: string;
+  student_id: string | null;
+  event_type: SyncEventType;
+  payload: Record<string, unknown>;
+  status: SyncEventStatus;
+  attempts: number;
+  last_error: string | null;
+  last_attempt_at: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecordSyncAttemptParams {
+  payload: SyncEventPayload;
+  attempts: number;
+  error: string | null;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Fetch recent sync events, newest first
+ */
+export async function fetchSyncEvents(status?: SyncEventStatus): Promise<SyncEvent[]> {
+  let query = supabase
+    .from("nycologic_sync_events")
+    .select("*")
+    .order("updated_at", { ascending: false })
+    .limit(50);
+
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch sync events: ${error.message}`);
+  }
+
+  return (data ?? []) as unknown as SyncEvent[];
+}
+
+/**
+ * Whether an event with this dedupe key has already been delivered
+ */
+export async function isSyncEventSent(dedupeKey: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("nycologic_sync_events")
+    .select("status")
+    .eq("dedupe_key", dedupeKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check sync event: ${error.message}`);
+  }
+
+  return data?.status === "sent";
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Record the outcome of a delivery attempt against the event's dedupe key
+ */
+export async function recordSyncAttempt(params: RecordSyncAttemptParams): Promise<void> {
+  const now = new Date().toISOString();
+  const studentId = params.payload.data.student_id;
+
+  const { error } = await supabase.from("nycologic_sync_events").upsert(
+    {
+      dedupe_key: params.payload.dedupe_key,
+      student_id: typeof studentId === "string" ? studentId : null,
+      event_type: params.payload.type,
+      payload: params.payload.data as Json,
+      status: params.error ? "failed" : "sent",
+      attempts: params.attempts,
+      last_error: params.error,
+      last_attempt_at: now,
+      sent_at: params.error ? null : now,
+      updated_at: now,
+    },
+    { onConflict: "dedupe_key" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to record sync event: ${error.message}`);
+  }
+}
+
+/**
+ * Send a logged event again (admin retry) and record the outcome
+ */
+export async function retrySyncEvent(event: SyncEvent): Promise<SyncEvent> {
+  const payload: SyncEventPayload = {
+    type: event.event_type,
+    data: event.payload,
+    dedupe_key: event.dedupe_key,
+  };
+
+  const { error: invokeError } = await supabase.functions.invoke("sync-to-nycologic", {
+    body: payload,
+  });
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("nycologic_sync_events")
+    .update({
+      status: invokeError ? "failed" : "sent",
+      attempts: event.attempts + 1,
+      last_error: invokeError?.message ?? null,
+      last_attempt_at: now,
+      sent_at: invokeError ? event.sent_at : now,
+      updated_at: now,
+    })
+    .eq("id", event.id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update sync event: ${error.message}`);
+  }
+
+  if (invokeError) {
+    throw new Error(`Failed to sync event: ${invokeError.message}`);
+  }
+
+  return data as unknown as SyncEvent;
+}
@@ -0,0 +1,281 @@
+/**
+ * Parent Alert API Functions
+ *
+ * Parents' alert rules, and raising alerts when something happens to a
+ * student. Whoever sees the event raises it (the student's own client, or
+ * the teacher's when grading). Missed due dates and streaks about to break
+ * are checked whenever the student's app or a parent's dashboard is open,
+ * so either one seeing it is enough. `raise_parent_alerts` matches them
+ * against the rules of the student's approved parents, skips ones already
+ * sent, writes the in-app notifications (type `parent_alert`) and returns
+ * the emails to send. Those go through the `send-parent-notification` edge
+ * function, which looks up the parent's address and passes `scheduledAt`
+ * on to Brevo so email raised in quiet hours arrives when they end.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { buildSchoolCalendar } from "@/lib/schoolCalendar";
+import { evaluateStreak, reconcileStreak, toDayKey } from "@/lib/streaks";
+import {
+  buildParentAlert,
+  isStreakAlertTime,
+  nextDeliveryTime,
+  type ParentAlertEvent,
+  type ParentAlertKind,
+  type ParentAlertRule,
+} from "@/lib/parentAlerts";
+import { fetchMySchoolCalendar } from "./schoolCalendar";
+import { fetchStreakHistory } from "./streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SaveParentAlertRuleParams = ParentAlertRule;
+
+/** An email `raise_parent_alerts` matched, with the rule's quiet hours */
+interface AlertEmail {
+  parent_id: string;
+  kind: ParentAlertKind;
+  title: string;
+  message: string;
+  quiet_start: string | null;
+  quiet_end: string | null;
+  time_zone: string;
+}
+
+interface RaiseAlertsResult {
+  in_app: number;
+  emails: AlertEmail[];
+}
+
+/** How far back a missed due date still alerts */
+const MISSED_LOOKBACK_DAYS = 7;
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * The signed-in parent's saved rules, for every child. Kinds a parent has
+ * never saved are missing; `defaultAlertRule` fills them in.
+ */
+export async function fetchParentAlertRules(): Promise<ParentAlertRule[]> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return [];
+
+  const { data, error } = await supabase
+    .from("parent_alert_rules")
+    .select("*")
+    .eq("parent_id", userData.user.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch alert rules: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    studentId: row.student_id,
+    kind: row.kind,
+    enabled: row.enabled,
+    channels: row.channels,
+    threshold: row.threshold,
+    quietStart: row.quiet_start,
+    quietEnd: row.quiet_end,
+    timeZone: row.time_zone,
+  }));
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Save one of the signed-in parent's rules
+ */
+export async function saveParentAlertRule(rule: SaveParentAlertRuleParams): Promise<void> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Not authenticated");
+
+  const { error } = await supabase.from("parent_alert_rules").upsert(
+    {
+      parent_id: userData.user.id,
+      student_id: rule.studentId,
+      kind: rule.kind,
+      enabled: rule.enabled,
+      channels: rule.channels,
+      threshold: rule.threshold,
+      quiet_start: rule.quietStart,
+      quiet_end: rule.quietEnd,
+      time_zone: rule.timeZone,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "parent_id,student_id,kind" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save alert rule: ${error.message}`);
+  }
+}
+
+/**
+ * Raise alerts about a student for any parent whose rules match. Returns
+ * how many parents were alerted, in the app or by email.
+ */
+export async function raiseParentAlerts(studentId: string, events: ParentAlertEvent[]): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("full_name")
+    .eq("id", studentId)
+    .maybeSingle();
+  const studentName = profile?.full_name?.split(" ")[0] || "Your child";
+
+  const alerts = events.map((event) => {
+    const { dedupeKey, ...alert } = buildParentAlert(event, studentName);
+    return { ...alert, dedupe_key: dedupeKey };
+  });
+
+  const { data, error } = await supabase.rpc("raise_parent_alerts", {
+    p_student_id: studentId,
+    p_alerts: alerts,
+  });
+
+  if (error) {
+    throw new Error(`Failed to raise parent alerts: ${error.message}`);
+  }
+
+  const result = (data ?? { in_app: 0, emails: [] }) as unknown as RaiseAlertsResult;
+  const now = new Date();
+
+  const sent = await Promise.all(
+    result.emails.map(async (email) => {
+      const sendAt = nextDeliveryTime(
+        { quietStart: email.quiet_start, quietEnd: email.quiet_end, timeZone: email.time_zone },
+        now
+      );
+      const { error: sendError } = await supabase.functions.invoke("send-parent-notification", {
+        body: {
+          type: "parent_alert",
+          parent_id: email.parent_id,
+          student_id: studentId,
+          data: {
+            kind: email.kind,
+            title: email.title,
+            message: email.message,
+            scheduled_at: sendAt > now ? sendAt.toISOString() : undefined,
+          },
+        },
+      });
+      // The in-app copy already went out; a failed email is logged, not fatal
+      if (sendError) console.error("Parent alert email failed:", sendError);
+      return !sendError;
+    })
+  );
+
+  return result.in_app + sent.filter(Boolean).length;
+}
+
+// ============================================================================
+// Triggers
+// ============================================================================
+
+/**
+ * After grading: a score parents may have asked to hear about
+ */
+export async function alertOnAssignmentScore(
+  studentId: string,
+  assignmentId: string,
+  percentage: number
+): Promise<number> {
+  // No threshold can sit above a perfect score
+  if (percentage >= 100) return 0;
+
+  const { data: assignment } = await supabase
+    .from("assignments")
+    .select("title")
+    .eq("id", assignmentId)
+    .maybeSingle();
+
+  return raiseParentAlerts(studentId, [
+    {
+      kind: "low_score",
+      assignmentId,
+      assignmentTitle: assignment?.title ?? "an assignment",
+      score: Math.round(percentage),
+    },
+  ]);
+}
+
+/**
+ * A student's assignments (the signed-in student's by default) whose due
+ * date passed in the last week with nothing handed in. Already-sent ones
+ * are skipped by the server.
+ */
+export async function alertOnMissedAssignments(forStudentId?: string): Promise<number> {
+  let studentId = forStudentId;
+  if (!studentId) {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return 0;
+    studentId = userData.user.id;
+  }
+
+  const { data: enrollments, error: enrollmentError } = await supabase
+    .from("enrollments")
+    .select("class_id")
+    .eq("student_id", studentId);
+  if (enrollmentError) {
+    throw new Error(`Failed to check missed assignments: ${enrollmentError.message}`);
+  }
+  if (!enrollments?.length) return 0;
+
+  const now = new Date();
+  const since = new Date(now.getTime() - MISSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data: due, error: dueError } = await supabase
+    .from("assignments")
+    .select("id, title, due_at")
+    .in("class_id", enrollments.map((e) => e.class_id))
+    .gte("due_at", since.toISOString())
+    .lt("due_at", now.toISOString());
+  if (dueError) {
+    throw new Error(`Failed to check missed assignments: ${dueError.message}`);
+  }
+  if (!due?.length) return 0;
+
+  const { data: handedIn, error: attemptError } = await supabase
+    .from("attempts")
+    .select("assignment_id")
+    .eq("student_id", studentId)
+    .in("assignment_id", due.map((a) => a.id))
+    .in("status", ["submitted", "verified"]);
+  if (attemptError) {
+    throw new Error(`Failed to check missed assignments: ${attemptError.message}`);
+  }
+
+  const handedInIds = new Set((handedIn ?? []).map((a) => a.assignment_id));
+  return raiseParentAlerts(
+    studentId,
+    due
+      .filter((a) => !handedInIds.has(a.id))
+      .map((a) => ({ kind: "missed_due_date", assignmentId: a.id, assignmentTitle: a.title, dueAt: a.due_at }))
+  );
+}
+
+/**
+ * A student's streak that is about to break: late on a school day with no
+ * activity yet. Raised at most once a day per parent.
+ */
+export async function alertOnStreakAtRisk(studentId: string): Promise<number> {
+  const now = new Date();
+  if (!isStreakAlertTime(now)) return 0;
+
+  const [history, calendarEvents] = await Promise.all([fetchStreakHistory(studentId), fetchMySchoolCalendar()]);
+  const today = toDayKey(now);
+  const evaluation = evaluateStreak({ ...history, today, isSchoolDay: buildSchoolCalendar(calendarEvents).isSchoolDay });
+  if (!evaluation.atRisk) return 0;
+
+  return raiseParentAlerts(studentId, [
+    { kind: "streak_at_risk", day: today, streak: reconcileStreak(evaluation, history.currentRecorded) },
+  ]);
+}
@@ -0,0 +1,340 @@
+/**
+ * Parent Digest API Functions
+ *
+ * Loads everything a parent digest covers for the signed-in parent's
+ * approved links, and delivers it as an in-app notification and an email.
+ * Each query covers every child at once, so a digest costs the same number
+ * of round trips however many children are linked.
+ *
+ * A digest goes out on the parent's cadence, in their language, the next
+ * time they open the dashboard after it comes due; `claim_parent_digest`
+ * moves `last_sent_at` first, so other tabs and devices don't repeat it.
+ * Email goes through the `send-parent-notification` edge function, which
+ * holds the Brevo key and posts the Brevo payload as-is to `BREVO_API_URL`.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getTranslations } from "@/i18n/translations";
+import { languages, type LanguageCode } from "@/i18n/languages";
+import { buildSchoolCalendar } from "@/lib/schoolCalendar";
+import { evaluateStreak, shiftDay, toDayKey } from "@/lib/streaks";
+import {
+  buildChildDigest,
+  digestPeriod,
+  isDigestDue,
+  summarizeDigest,
+  toBrevoEmail,
+  type ChildDigest,
+  type ChildDigestInput,
+  type DigestCadence,
+  type DigestPeriod,
+  type ParentDigest,
+} from "@/lib/parentDigest";
+import { fetchMyParentLinks } from "./parentLinks";
+import { fetchMySchoolCalendar } from "./schoolCalendar";
+import { fetchStreakHistory } from "./streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParentDigestSettings {
+  cadence: DigestCadence;
+  language: LanguageCode;
+  emailEnabled: boolean;
+  inAppEnabled: boolean;
+  lastSentAt: string | null;
+}
+
+export type SaveDigestSettingsParams = Omit<ParentDigestSettings, "lastSentAt">;
+
+export interface SendDigestResult {
+  /** False when nothing was due or no child is linked yet */
+  sent: boolean;
+  email: boolean;
+  inApp: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function requireUser() {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Not authenticated");
+  return userData.user;
+}
+
+function toLanguageCode(value: string | null | undefined): LanguageCode {
+  return languages.some((l) => l.code === value) ? (value as LanguageCode) : "en";
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * The signed-in parent's digest settings. Parents who never saved any get
+ * a weekly digest in their profile language.
+ */
+export async function fetchParentDigestSettings(): Promise<ParentDigestSettings> {
+  const user = await requireUser();
+
+  const [settingsResult, profileResult] = await Promise.all([
+    supabase.from("parent_digest_settings").select("*").eq("parent_id", user.id).maybeSingle(),
+    supabase.from("profiles").select("preferred_language").eq("id", user.id).maybeSingle(),
+  ]);
+
+  const failed = settingsResult.error ?? profileResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch digest settings: ${failed.message}`);
+  }
+
+  const row = settingsResult.data;
+  if (!row) {
+    return {
+      cadence: "weekly",
+      language: toLanguageCode(profileResult.data?.preferred_language),
+      emailEnabled: true,
+      inAppEnabled: true,
+      lastSentAt: null,
+    };
+  }
+
+  return {
+    cadence: row.cadence,
+    language: toLanguageCode(row.language),
+    emailEnabled: row.email_enabled,
+    inAppEnabled: row.in_app_enabled,
+    lastSentAt: row.last_sent_at,
+  };
+}
+
+/**
+ * Everything the digest covers for each approved child in the period
+ */
+export async function fetchParentDigest(period: DigestPeriod, language: LanguageCode): Promise<ParentDigest> {
+  const user = await requireUser();
+  const [links, profileResult] = await Promise.all([
+    fetchMyParentLinks(),
+    supabase.from("profiles").select("full_name").eq("id", user.id).maybeSingle(),
+  ]);
+
+  const children = links.filter((link) => link.status === "approved");
+  const digest: ParentDigest = {
+    parentName: profileResult.data?.full_name || "",
+    language,
+    period,
+    children: [],
+  };
+  if (children.length === 0) return digest;
+
+  const ids = children.map((link) => link.studentId);
+  const { start, end } = period;
+
+  const [ledger, completed, enrollments, badges, mastery, statusLogs, calendarEvents] = await Promise.all([
+    supabase
+      .from("reward_ledger")
+      .select("student_id, xp_delta, coin_delta")
+      .in("student_id", ids)
+      .gte("created_at", start)
+      .lt("created_at", end),
+    supabase
+      .from("attempts")
+      .select("student_id, score, assignments(title)")
+      .in("student_id", ids)
+      .in("status", ["submitted", "verified"])
+      .gte("submitted_at", start)
+      .lt("submitted_at", end),
+    supabase.from("enrollments").select("student_id, class_id").in("student_id", ids),
+    supabase
+      .from("student_badges")
+      .select("student_id, earned_at, badges(name)")
+      .in("student_id", ids)
+      .gte("earned_at", start)
+      .lt("earned_at", end),
+    supabase
+      .from("student_standard_mastery")
+      .select("student_id, mastery_level, correct_count, attempts_count, mastered_at, nys_standards(code)")
+      .in("student_id", ids)
+      .gte("last_attempt_at", start)
+      .lt("last_attempt_at", end),
+    supabase
+      .from("student_status_logs")
+      .select("student_id, status, notes, recorded_at")
+      .in("student_id", ids)
+      .gte("recorded_at", start)
+      .lt("recorded_at", end),
+    fetchMySchoolCalendar(),
+  ]);
+
+  const failed =
+    ledger.error ?? completed.error ?? enrollments.error ?? badges.error ?? mastery.error ?? statusLogs.error;
+  if (failed) {
+    throw new Error(`Failed to fetch digest: ${failed.message}`);
+  }
+
+  // Missed: due in the period in one of the child's classes, nothing handed in
+  const classIds = [...new Set((enrollments.data ?? []).map((row) => row.class_id))];
+  const { data: due, error: dueError } = classIds.length
+    ? await supabase
+        .from("assignments")
+        .select("id, class_id, title, due_at")
+        .in("class_id", classIds)
+        .gte("due_at", start)
+        .lt("due_at", end)
+    : { data: [] as { id: string; class_id: string; title: string; due_at: string }[], error: null };
+  if (dueError) {
+    throw new Error(`Failed to fetch digest assignments: ${dueError.message}`);
+  }
+
+  const dueIds = (due ?? []).map((a) => a.id);
+  const { data: handedIn, error: handedInError } = dueIds.length
+    ? await supabase
+        .from("attempts")
+        .select("student_id, assignment_id")
+        .in("student_id", ids)
+        .in("assignment_id", dueIds)
+        .in("status", ["submitted", "verified"])
+    : { data: [] as { student_id: string; assignment_id: string }[], error: null };
+  if (handedInError) {
+    throw new Error(`Failed to fetch digest attempts: ${handedInError.message}`);
+  }
+
+  const handedInKeys = new Set((handedIn ?? []).map((row) => `${row.student_id}:${row.assignment_id}`));
+  const isSchoolDay = buildSchoolCalendar(calendarEvents).isSchoolDay;
+  const startDay = shiftDay(toDayKey(new Date(start)), -1);
+  const endDay = toDayKey(new Date(new Date(end).getTime() - 1));
+
+  digest.children = await Promise.all(
+    children.map(async (link): Promise<ChildDigest> => {
+      const studentId = link.studentId;
+      const mine = <T extends { student_id: string }>(rows: T[] | null) =>
+        (rows ?? []).filter((row) => row.student_id === studentId);
+
+      const history = await fetchStreakHistory(studentId);
+      const streakOn = (today: string) =>
+        evaluateStreak({ ...history, shieldAvailable: false, today, isSchoolDay }).current;
+
+      const classes = new Set(mine(enrollments.data).map((row) => row.class_id));
+
+      const input: ChildDigestInput = {
+        studentId,
+        name: link.studentName ?? "Student",
+        ledger: mine(ledger.data).map((row) => ({ xpDelta: row.xp_delta, coinDelta: row.coin_delta })),
+        completed: mine(completed.data).map((row) => ({
+          title: row.assignments?.title ?? "Assignment",
+          score: row.score,
+        })),
+        missed: (due ?? [])
+          .filter((a) => classes.has(a.class_id) && !handedInKeys.has(`${studentId}:${a.id}`))
+          .map((a) => ({ title: a.title, dueAt: a.due_at })),
+        streakStart: streakOn(startDay),
+        streakEnd: streakOn(endDay),
+        badges: mine(badges.data).map((row) => ({
+          name: row.badges?.name ?? "Badge",
+          earnedAt: row.earned_at,
+        })),
+        mastery: mine(mastery.data).map((row) => ({
+          code: row.nys_standards?.code ?? "—",
+          level: row.mastery_level,
+          correct: row.correct_count,
+          attempts: row.attempts_count,
+          masteredInPeriod: !!row.mastered_at && row.mastered_at >= start && row.mastered_at < end,
+        })),
+        statusLogs: mine(statusLogs.data).map((row) => ({
+          status: row.status,
+          notes: row.notes,
+          recordedAt: row.recorded_at,
+        })),
+      };
+      return buildChildDigest(input);
+    })
+  );
+
+  return digest;
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Save the signed-in parent's digest settings
+ */
+export async function saveParentDigestSettings(params: SaveDigestSettingsParams): Promise<void> {
+  const user = await requireUser();
+
+  const { error } = await supabase.from("parent_digest_settings").upsert(
+    {
+      parent_id: user.id,
+      cadence: params.cadence,
+      language: params.language,
+      email_enabled: params.emailEnabled,
+      in_app_enabled: params.inAppEnabled,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "parent_id" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save digest settings: ${error.message}`);
+  }
+}
+
+/**
+ * Send the signed-in parent's digest if one is due. With `force`, send the
+ * current period now without moving the schedule.
+ */
+export async function sendParentDigest(options: { force?: boolean } = {}): Promise<SendDigestResult> {
+  const notSent = { sent: false, email: false, inApp: false };
+  const user = await requireUser();
+  const settings = await fetchParentDigestSettings();
+  const now = new Date();
+
+  if (!options.force) {
+    if (!isDigestDue(settings.cadence, settings.lastSentAt, now)) return notSent;
+
+    // The server refuses a second claim for the same period, so two open tabs send once
+    const { data: claimed, error } = await supabase.rpc("claim_parent_digest", { p_period_end: now.toISOString() });
+    if (error) {
+      throw new Error(`Failed to schedule digest: ${error.message}`);
+    }
+    if (!claimed) return notSent;
+  }
+
+  const digest = await fetchParentDigest(digestPeriod(settings.cadence, now), settings.language);
+  if (digest.children.length === 0) return notSent;
+
+  let inApp = false;
+  if (settings.inAppEnabled) {
+    const { error } = await supabase.from("notifications").insert({
+      user_id: user.id,
+      type: "parent_digest",
+      title: getTranslations(settings.language).digest.inAppTitle,
+      message: summarizeDigest(digest),
+      icon: "📬",
+      data: { period_start: digest.period.start, period_end: digest.period.end },
+    });
+    if (error) {
+      throw new Error(`Failed to send digest notification: ${error.message}`);
+    }
+    inApp = true;
+  }
+
+  let email = false;
+  if (settings.emailEnabled && user.email) {
+    const { error } = await supabase.functions.invoke("send-parent-notification", {
+      body: {
+        type: "parent_digest",
+        parent_id: user.id,
+        data: { email: toBrevoEmail(digest, { email: user.email, name: digest.parentName || undefined }) },
+      },
+    });
+    // The in-app copy already went out; a failed email is logged, not fatal
+    if (error) console.error("Digest email failed:", error);
+    else email = true;
+  }
+
+  return { sent: inApp || email, email, inApp };
+}
@@ -0,0 +1,225 @@
+/**
+ * Parent Link API Functions
+ *
+ * Parent–student links. A parent asks for a link by the student's email or
+ * a one-time code the student generates; the student's teacher approves or
+ * rejects it. Matching the student, notifying everyone and setting
+ * `verified` happen in RPCs, so a parent never learns who an identifier
+ * belongs to until the link is approved.
+ *
+ * Notifications sent: `parent_link_request` to the teacher and student,
+ * `parent_link_reviewed` to the parent and student.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParentLinkStatus = Database["public"]["Enums"]["parent_link_status"];
+
+/** A link as the parent sees it */
+export interface ParentLink {
+  id: string;
+  studentId: string;
+  /** Only filled in once the link is approved */
+  studentName: string | null;
+  relationship: string;
+  status: ParentLinkStatus;
+  createdAt: string;
+  reviewedAt: string | null;
+}
+
+/** A pending request as the teacher sees it */
+export interface ParentLinkRequest {
+  id: string;
+  parentId: string;
+  parentName: string;
+  studentId: string;
+  studentName: string;
+  relationship: string;
+  createdAt: string;
+}
+
+export interface ParentLinkCode {
+  code: string;
+  expiresAt: string;
+}
+
+export interface RequestParentLinkParams {
+  /** Student email, or a code from `generateParentLinkCode` */
+  identifier: string;
+  relationship: string;
+}
+
+export interface ReviewParentLinkParams {
+  linkId: string;
+  approve: boolean;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Every link the signed-in parent has asked for, newest first
+ */
+export async function fetchMyParentLinks(): Promise<ParentLink[]> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return [];
+
+  const { data, error } = await supabase
+    .from("parent_students")
+    .select("id, student_id, relationship, status, created_at, reviewed_at")
+    .eq("parent_id", userData.user.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch linked students: ${error.message}`);
+  }
+
+  const links = data ?? [];
+  const approvedIds = links.filter((link) => link.status === "approved").map((link) => link.student_id);
+
+  let names = new Map<string, string>();
+  if (approvedIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, full_name")
+      .in("id", approvedIds);
+
+    if (profilesError) {
+      throw new Error(`Failed to fetch student names: ${profilesError.message}`);
+    }
+    names = new Map((profiles ?? []).map((p) => [p.id, p.full_name || "Student"]));
+  }
+
+  return links.map((link) => ({
+    id: link.id,
+    studentId: link.student_id,
+    studentName: link.status === "approved" ? names.get(link.student_id) ?? "Student" : null,
+    relationship: link.relationship,
+    status: link.status,
+    createdAt: link.created_at,
+    reviewedAt: link.reviewed_at,
+  }));
+}
+
+/**
+ * Pending requests for the signed-in teacher's students, oldest first
+ */
+export async function fetchPendingParentLinks(): Promise<ParentLinkRequest[]> {
+  const { data, error } = await supabase
+    .from("parent_students")
+    .select("id, parent_id, student_id, relationship, created_at")
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch link requests: ${error.message}`);
+  }
+
+  const requests = data ?? [];
+  if (requests.length === 0) return [];
+
+  const userIds = [...new Set(requests.flatMap((r) => [r.parent_id, r.student_id]))];
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", userIds);
+
+  if (profilesError) {
+    throw new Error(`Failed to fetch link request names: ${profilesError.message}`);
+  }
+
+  const names = new Map((profiles ?? []).map((p) => [p.id, p.full_name]));
+
+  return requests.map((request) => ({
+    id: request.id,
+    parentId: request.parent_id,
+    parentName: names.get(request.parent_id) || "Parent",
+    studentId: request.student_id,
+    studentName: names.get(request.student_id) || "Student",
+    relationship: request.relationship,
+    createdAt: request.created_at,
+  }));
+}
+
+/**
+ * The signed-in student's unused, unexpired link code, if any
+ */
+export async function fetchMyParentLinkCode(): Promise<ParentLinkCode | null> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return null;
+
+  const { data, error } = await supabase
+    .from("student_link_codes")
+    .select("code, expires_at")
+    .eq("student_id", userData.user.id)
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch link code: ${error.message}`);
+  }
+
+  return data ? { code: data.code, expiresAt: data.expires_at } : null;
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Create a one-time code the signed-in student can give a parent. Any
+ * earlier unused code stops working.
+ */
+export async function generateParentLinkCode(): Promise<ParentLinkCode> {
+  const { data, error } = await supabase.rpc("generate_parent_link_code");
+
+  if (error) {
+    throw new Error(`Failed to generate link code: ${error.message}`);
+  }
+
+  const result = data as { code: string; expires_at: string };
+  return { code: result.code, expiresAt: result.expires_at };
+}
+
+/**
+ * Ask to be linked to a student. Creates a pending link and notifies the
+ * student and their teacher. Returns the new link's id.
+ */
+export async function requestParentLink(params: RequestParentLinkParams): Promise<string> {
+  const { data, error } = await supabase.rpc("request_parent_link", {
+    p_identifier: params.identifier.trim(),
+    p_relationship: params.relationship,
+  });
+
+  if (error) {
+    throw new Error(`Failed to send link request: ${error.message}`);
+  }
+
+  return (data as { link_id: string }).link_id;
+}
+
+/**
+ * Approve or reject a pending link as the student's teacher. The parent
+ * and student are both notified.
+ */
+export async function reviewParentLink(params: ReviewParentLinkParams): Promise<ParentLinkStatus> {
+  const { data, error } = await supabase.rpc("review_parent_link", {
+    p_link_id: params.linkId,
+    p_approve: params.approve,
+  });
+
+  if (error) {
+    throw new Error(`Failed to review link request: ${error.message}`);
+  }
+
+  return (data as { status: ParentLinkStatus }).status;
+}
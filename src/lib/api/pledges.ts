@@ -0,0 +1,325 @@
+/**
+ * Pledge API Functions
+ *
+ * Coin and badge pledges as one list, for the parent who made them or the
+ * student they are for. Names, balances, earned badges and history are
+ * loaded in one query each for every pledge, whatever the count.
+ *
+ * Progress is synced before loading: `sync_pledge_progress` moves any
+ * active pledge whose goal is met to `reached`. The server keeps the old
+ * `claimed`/`claimed_at` columns set on fulfilled pledges for older
+ * clients; everything here reads `status`.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { pledgeProgress, type PledgeKind, type PledgeProgress, type PledgeStatus } from "@/lib/pledges";
+import { fetchMyParentLinks } from "./parentLinks";
+import { raiseParentAlerts } from "./parentAlerts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PledgeEvent {
+  from: PledgeStatus | null;
+  to: PledgeStatus;
+  /** Null when progress detection made the move */
+  actorId: string | null;
+  note: string | null;
+  at: string;
+}
+
+export interface Pledge {
+  id: string;
+  kind: PledgeKind;
+  parentId: string;
+  parentName: string;
+  studentId: string;
+  studentName: string;
+  rewardDescription: string;
+  /** Coin pledges only */
+  rewardType: string | null;
+  coinThreshold: number | null;
+  bonusCoins: number;
+  /** Badge pledges only */
+  badgeId: string | null;
+  badgeName: string | null;
+  status: PledgeStatus;
+  createdAt: string;
+  reachedAt: string | null;
+  studentClaimedAt: string | null;
+  fulfilledAt: string | null;
+  declinedAt: string | null;
+  declineReason: string | null;
+  progress: PledgeProgress;
+  /** Oldest first */
+  events: PledgeEvent[];
+}
+
+export interface CreatePointPledgeParams {
+  studentId: string;
+  coinThreshold: number;
+  rewardDescription: string;
+  rewardType: string;
+  bonusCoins: number;
+}
+
+export interface CreateBadgePledgeParams {
+  studentId: string;
+  badgeId: string;
+  rewardDescription: string;
+}
+
+export interface TransitionPledgeParams {
+  kind: PledgeKind;
+  pledgeId: string;
+  to: PledgeStatus;
+  /** Shown to the student; used for a decline reason */
+  note?: string;
+}
+
+/** A pledge `sync_pledge_progress` just moved to `reached` */
+interface ReachedPledge {
+  pledge_id: string;
+  kind: PledgeKind;
+  student_id: string;
+  reward_description: string;
+  coin_threshold: number | null;
+  coins: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function loadPledges(column: "parent_id" | "student_id", id: string): Promise<Pledge[]> {
+  const [pointResult, badgeResult] = await Promise.all([
+    supabase.from("parent_point_pledges").select("*").eq(column, id).eq("is_active", true),
+    supabase.from("parent_reward_pledges").select("*, badges(name)").eq(column, id).eq("is_active", true),
+  ]);
+
+  const failed = pointResult.error ?? badgeResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch pledges: ${failed.message}`);
+  }
+
+  const points = pointResult.data ?? [];
+  const badgePledges = badgeResult.data ?? [];
+  if (points.length === 0 && badgePledges.length === 0) return [];
+
+  const studentIds = [...new Set([...points, ...badgePledges].map((p) => p.student_id))];
+  const peopleIds = [...new Set([...studentIds, ...[...points, ...badgePledges].map((p) => p.parent_id)])];
+  const badgeIds = [...new Set(badgePledges.map((p) => p.badge_id))];
+  const pledgeIds = [...points, ...badgePledges].map((p) => p.id);
+
+  const [profileResult, balanceResult, earnedResult, eventResult] = await Promise.all([
+    supabase.from("profiles").select("id, full_name").in("id", peopleIds),
+    supabase.from("student_profiles").select("user_id, coins").in("user_id", studentIds),
+    badgeIds.length
+      ? supabase.from("student_badges").select("student_id, badge_id").in("student_id", studentIds).in("badge_id", badgeIds)
+      : Promise.resolve({ data: [] as { student_id: string; badge_id: string }[], error: null }),
+    supabase.from("pledge_events").select("*").in("pledge_id", pledgeIds).order("created_at", { ascending: true }),
+  ]);
+
+  const lookupFailed = profileResult.error ?? balanceResult.error ?? earnedResult.error ?? eventResult.error;
+  if (lookupFailed) {
+    throw new Error(`Failed to fetch pledge details: ${lookupFailed.message}`);
+  }
+
+  const names = new Map((profileResult.data ?? []).map((p) => [p.id, p.full_name]));
+  const coins = new Map((balanceResult.data ?? []).map((s) => [s.user_id, s.coins]));
+  const earned = new Set((earnedResult.data ?? []).map((b) => `${b.student_id}:${b.badge_id}`));
+  const eventsFor = (pledgeId: string, kind: PledgeKind): PledgeEvent[] =>
+    (eventResult.data ?? [])
+      .filter((e) => e.pledge_id === pledgeId && e.pledge_kind === kind)
+      .map((e) => ({ from: e.from_status, to: e.to_status, actorId: e.actor_id, note: e.note, at: e.created_at }));
+
+  const common = (row: (typeof points)[number] | (typeof badgePledges)[number], kind: PledgeKind) => ({
+    id: row.id,
+    kind,
+    parentId: row.parent_id,
+    parentName: names.get(row.parent_id) || "Your parent",
+    studentId: row.student_id,
+    studentName: names.get(row.student_id) || "Student",
+    rewardDescription: row.reward_description,
+    status: row.status,
+    createdAt: row.created_at,
+    reachedAt: row.reached_at,
+    studentClaimedAt: row.student_claimed_at,
+    fulfilledAt: row.fulfilled_at,
+    declinedAt: row.declined_at,
+    declineReason: row.decline_reason,
+    events: eventsFor(row.id, kind),
+  });
+
+  const pledges: Pledge[] = [
+    ...points.map((row) => ({
+      ...common(row, "point"),
+      rewardType: row.reward_type,
+      coinThreshold: row.coin_threshold,
+      bonusCoins: row.bonus_coins,
+      badgeId: null,
+      badgeName: null,
+      progress: pledgeProgress(
+        { kind: "point", status: row.status, coinThreshold: row.coin_threshold },
+        coins.get(row.student_id) ?? 0,
+        false
+      ),
+    })),
+    ...badgePledges.map((row) => ({
+      ...common(row, "badge"),
+      rewardType: null,
+      coinThreshold: null,
+      bonusCoins: 0,
+      badgeId: row.badge_id,
+      badgeName: row.badges?.name ?? "Badge",
+      progress: pledgeProgress(
+        { kind: "badge", status: row.status, coinThreshold: null },
+        0,
+        earned.has(`${row.student_id}:${row.badge_id}`)
+      ),
+    })),
+  ];
+
+  return pledges.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Every pledge the signed-in parent has made, newest first
+ */
+export async function fetchParentPledges(): Promise<Pledge[]> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return [];
+
+  const links = await fetchMyParentLinks();
+  await syncPledgeProgress(links.filter((l) => l.status === "approved").map((l) => l.studentId));
+  return loadPledges("parent_id", userData.user.id);
+}
+
+/**
+ * Every pledge made to the signed-in student, newest first
+ */
+export async function fetchStudentPledges(): Promise<Pledge[]> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return [];
+
+  await syncPledgeProgress([userData.user.id]);
+  return loadPledges("student_id", userData.user.id);
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Move active pledges for these students to `reached` where the goal is
+ * met, and alert parents who asked to hear about coin goals. Returns how
+ * many pledges moved.
+ */
+export async function syncPledgeProgress(studentIds: string[]): Promise<number> {
+  if (studentIds.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc("sync_pledge_progress", { p_student_ids: studentIds });
+
+  if (error) {
+    throw new Error(`Failed to sync pledge progress: ${error.message}`);
+  }
+
+  const reached = ((data as unknown as { reached?: ReachedPledge[] })?.reached ?? []);
+  const byStudent = new Map<string, ReachedPledge[]>();
+  for (const pledge of reached.filter((p) => p.kind === "point")) {
+    byStudent.set(pledge.student_id, [...(byStudent.get(pledge.student_id) ?? []), pledge]);
+  }
+  for (const [studentId, pledges] of byStudent) {
+    raiseParentAlerts(
+      studentId,
+      pledges.map((p) => ({
+        kind: "pledge_reached",
+        pledgeId: p.pledge_id,
+        reward: p.reward_description,
+        coins: p.coins,
+        threshold: p.coin_threshold ?? 0,
+      }))
+    ).catch((alertError) => console.error("Pledge alert error:", alertError));
+  }
+
+  return reached.length;
+}
+
+/**
+ * Promise a reward for reaching a coin balance
+ */
+export async function createPointPledge(params: CreatePointPledgeParams): Promise<void> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Not authenticated");
+
+  const { error } = await supabase.from("parent_point_pledges").insert({
+    parent_id: userData.user.id,
+    student_id: params.studentId,
+    coin_threshold: params.coinThreshold,
+    reward_description: params.rewardDescription,
+    reward_type: params.rewardType,
+    bonus_coins: params.bonusCoins,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create pledge: ${error.message}`);
+  }
+
+  // A goal the student already meets is reached straight away
+  await syncPledgeProgress([params.studentId]);
+}
+
+/**
+ * Promise a reward for earning a badge
+ */
+export async function createBadgePledge(params: CreateBadgePledgeParams): Promise<void> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Not authenticated");
+
+  const { error } = await supabase.from("parent_reward_pledges").insert({
+    parent_id: userData.user.id,
+    student_id: params.studentId,
+    badge_id: params.badgeId,
+    reward_description: params.rewardDescription,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create pledge: ${error.message}`);
+  }
+
+  await syncPledgeProgress([params.studentId]);
+}
+
+/**
+ * Delete one of the signed-in parent's pledges
+ */
+export async function deletePledge(params: { kind: PledgeKind; pledgeId: string }): Promise<void> {
+  const table = params.kind === "point" ? "parent_point_pledges" : "parent_reward_pledges";
+  const { error } = await supabase.from(table).delete().eq("id", params.pledgeId);
+
+  if (error) {
+    throw new Error(`Failed to delete pledge: ${error.message}`);
+  }
+}
+
+/**
+ * Claim, fulfil or decline a pledge. The server checks the move is allowed
+ * for the caller (see `canTransition`).
+ */
+export async function transitionPledge(params: TransitionPledgeParams): Promise<void> {
+  const { error } = await supabase.rpc("transition_pledge", {
+    p_kind: params.kind,
+    p_pledge_id: params.pledgeId,
+    p_to: params.to,
+    p_note: params.note,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update pledge: ${error.message}`);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Question Bank API Functions
+ *
+ * Regents questions stored in the `questions` table. Bank questions have an
+ * exam_type and no assignment_id; `external_id` keeps the stable question id
+ * (e.g. "alg1-001") that attempt logs and review cards refer to.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { REGENTS_QUESTIONS, type RegentsQuestion } from "@/data/regentsSampleQuestions";
+import { isKnownStandardCode, validateRegentsQuestion } from "@/lib/questionImport";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BankQuestion extends RegentsQuestion {
+  /** Primary key of the `questions` row */
+  rowId: string;
+}
+
+export interface SaveBankQuestionParams {
+  question: RegentsQuestion;
+  /** Row to update; omitted when creating */
+  rowId?: string;
+}
+
+export interface MigrateBuiltInQuestionsResult {
+  imported: number;
+  /** Standard codes used by built-in questions but missing from the standards lists */
+  unknownStandards: string[];
+}
+
+// ============================================================================
+// Row Mapping
+// ============================================================================
+
+type QuestionRow = {
+  id: string;
+  external_id: string | null;
+  exam_type: string | null;
+  standard_code: string | null;
+  subject: string | null;
+  topic: string | null;
+  prompt: string;
+  options: Json | null;
+  answer_key: Json;
+  explanation: string | null;
+  difficulty: number;
+  point_value: number;
+  hint: string | null;
+  image_prompt: string | null;
+  image_url: string | null;
+};
+
+function fromQuestionRow(row: QuestionRow): BankQuestion {
+  return {
+    rowId: row.id,
+    id: row.external_id ?? row.id,
+    standardCode: row.standard_code ?? "",
+    subject: row.subject ?? "",
+    examType: row.exam_type ?? "",
+    prompt: row.prompt,
+    options: (row.options as string[]) ?? [],
+    correctAnswer: (row.answer_key as { correct?: string })?.correct ?? "",
+    explanation: row.explanation ?? "",
+    difficulty: row.difficulty,
+    pointValue: row.point_value,
+    hint: row.hint ?? undefined,
+    topic: row.topic ?? undefined,
+    imagePrompt: row.image_prompt ?? undefined,
+    imageUrl: row.image_url ?? undefined,
+  };
+}
+
+function toQuestionRow(question: RegentsQuestion, userId: string | null) {
+  return {
+    external_id: question.id,
+    exam_type: question.examType,
+    standard_code: question.standardCode,
+    skill_tag: question.standardCode,
+    subject: question.subject,
+    topic: question.topic ?? null,
+    prompt: question.prompt,
+    question_type: "multiple_choice" as const,
+    options: question.options as unknown as Json,
+    answer_key: { correct: question.correctAnswer } as unknown as Json,
+    explanation: question.explanation,
+    difficulty: question.difficulty,
+    point_value: question.pointValue,
+    hint: question.hint ?? null,
+    image_prompt: question.imagePrompt ?? null,
+    image_url: question.imageUrl ?? null,
+    created_by: userId,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Fetch bank questions, optionally for one exam
+ */
+export async function fetchBankQuestions(examType?: string): Promise<BankQuestion[]> {
+  let query = supabase
+    .from("questions")
+    .select("*")
+    .is("assignment_id", null)
+    .not("exam_type", "is", null);
+
+  if (examType) {
+    query = query.eq("exam_type", examType);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch question bank: ${error.message}`);
+  }
+
+  return (data ?? []).map(fromQuestionRow);
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Create or update a single bank question after validating it
+ */
+export async function saveBankQuestion(params: SaveBankQuestionParams): Promise<BankQuestion> {
+  const errors = validateRegentsQuestion(params.question);
+  if (errors.length > 0) {
+    throw new Error(errors.join(". "));
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  const row = toQuestionRow(params.question, userData.user?.id ?? null);
+
+  const { data, error } = params.rowId
+    ? await supabase.from("questions").update(row).eq("id", params.rowId).select("*").single()
+    : await supabase.from("questions").insert(row).select("*").single();
+
+  if (error) {
+    throw new Error(`Failed to save question: ${error.message}`);
+  }
+
+  return fromQuestionRow(data);
+}
+
+/**
+ * Delete a bank question
+ */
+export async function deleteBankQuestion(rowId: string): Promise<void> {
+  const { error } = await supabase.from("questions").delete().eq("id", rowId);
+
+  if (error) {
+    throw new Error(`Failed to delete question: ${error.message}`);
+  }
+}
+
+/**
+ * Bulk import validated questions. Questions whose id is already in the bank
+ * are updated in place.
+ */
+export async function importBankQuestions(questions: RegentsQuestion[]): Promise<number> {
+  if (questions.length === 0) return 0;
+
+  const invalid = questions.find((q) => validateRegentsQuestion(q).length > 0);
+  if (invalid) {
+    throw new Error(`Question ${invalid.id} failed validation`);
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  const userId = userData.user?.id ?? null;
+
+  const { data, error } = await supabase
+    .from("questions")
+    .upsert(questions.map((q) => toQuestionRow(q, userId)), { onConflict: "external_id" })
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to import questions: ${error.message}`);
+  }
+
+  return data?.length ?? 0;
+}
+
+/**
+ * One-time load of the built-in TypeScript question literals into the bank.
+ * Questions already in the bank are left untouched, so it is safe to re-run.
+ * Built-in questions are imported even when their standard code is missing
+ * from the standards lists; those codes are returned for follow-up.
+ */
+export async function migrateBuiltInQuestions(): Promise<MigrateBuiltInQuestionsResult> {
+  const { data: userData } = await supabase.auth.getUser();
+  const userId = userData.user?.id ?? null;
+
+  const rows = REGENTS_QUESTIONS
+    .filter((q) => validateRegentsQuestion(q, { allowUnknownStandards: true }).length === 0)
+    .map((q) => toQuestionRow(q, userId));
+
+  const { data, error } = await supabase
+    .from("questions")
+    .upsert(rows, { onConflict: "external_id", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to migrate built-in questions: ${error.message}`);
+  }
+
+  return {
+    imported: data?.length ?? 0,
+    unknownStandards: [...new Set(REGENTS_QUESTIONS.map((q) => q.standardCode))]
+      .filter((code) => !isKnownStandardCode(code))
+      .sort(),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Regents Prep API Functions
+ *
+ * Attempt log for Regents practice questions and the rollup of those
+ * attempts into per-standard mastery. The rollup happens server-side, in
+ * the same transaction as the insert.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RegentsQuestionAttempt {
+  id: string;
+  student_id: string;
+  session_id: string;
+  question_id: string;
+  exam_type: string;
+  standard_code: string;
+  selected_answer: string | null;
+  is_correct: boolean;
+  time_taken_seconds: number;
+  answered_at: string;
+}
+
+export interface RegentsAnswerInput {
+  questionId: string;
+  examType: string;
+  standardCode: string;
+  selectedAnswer: string | null;
+  isCorrect: boolean;
+  timeTakenSeconds: number;
+  answeredAt: string;
+}
+
+export interface RecordRegentsAttemptsParams {
+  sessionId: string;
+  answers: RegentsAnswerInput[];
+}
+
+export interface MockExamPartResult {
+  partId: string;
+  name: string;
+  rawScore: number;
+  maxRawScore: number;
+  correct: number;
+  total: number;
+}
+
+export interface MockExamResult {
+  id: string;
+  student_id: string;
+  exam_type: string;
+  raw_score: number;
+  max_raw_score: number;
+  scaled_score: number;
+  time_used_seconds: number;
+  flagged_count: number;
+  part_scores: MockExamPartResult[];
+  started_at: string;
+  submitted_at: string;
+}
+
+export interface SaveMockExamResultParams {
+  examType: string;
+  rawScore: number;
+  maxRawScore: number;
+  scaledScore: number;
+  timeUsedSeconds: number;
+  flaggedCount: number;
+  partScores: MockExamPartResult[];
+  startedAt: string;
+  answers: RegentsAnswerInput[];
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Fetch the Regents attempt log for a student (defaults to the current user)
+ */
+export async function fetchRegentsAttempts(
+  studentId?: string
+): Promise<RegentsQuestionAttempt[]> {
+  let targetId = studentId;
+  if (!targetId) {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return [];
+    targetId = userData.user.id;
+  }
+
+  const { data, error } = await supabase
+    .from("regents_question_attempts")
+    .select("*")
+    .eq("student_id", targetId)
+    .order("answered_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch Regents attempts: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Fetch mock exam results for a student (defaults to the current user), oldest first
+ */
+export async function fetchMockExamResults(studentId?: string): Promise<MockExamResult[]> {
+  let targetId = studentId;
+  if (!targetId) {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return [];
+    targetId = userData.user.id;
+  }
+
+  const { data, error } = await supabase
+    .from("regents_mock_exam_results")
+    .select("*")
+    .eq("student_id", targetId)
+    .order("submitted_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch mock exam results: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    ...row,
+    part_scores: (row.part_scores as unknown as MockExamPartResult[]) ?? [],
+  }));
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Record every answered question from a practice session and roll the new
+ * attempts up into student_standard_mastery. `record_regents_attempts`
+ * does both in one transaction and skips questions already logged for the
+ * session, so a retry after a failure never double-counts and concurrent
+ * tabs can't overwrite each other's mastery counts. Standards that are not
+ * in nys_standards stay in the attempt log only.
+ */
+export async function recordRegentsAttempts(
+  params: RecordRegentsAttemptsParams
+): Promise<RegentsQuestionAttempt[]> {
+  if (params.answers.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("record_regents_attempts", {
+    p_session_id: params.sessionId,
+    p_answers: params.answers.map((answer) => ({
+      question_id: answer.questionId,
+      exam_type: answer.examType,
+      standard_code: answer.standardCode,
+      selected_answer: answer.selectedAnswer,
+      is_correct: answer.isCorrect,
+      time_taken_seconds: answer.timeTakenSeconds,
+      answered_at: answer.answeredAt,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Failed to record Regents attempts: ${error.message}`);
+  }
+
+  return (data as unknown as RegentsQuestionAttempt[] | null) ?? [];
+}
+
+/**
+ * Save a submitted mock exam. Every answer also goes to the attempt log,
+ * using the result id as the session id.
+ */
+export async function saveMockExamResult(
+  params: SaveMockExamResultParams
+): Promise<MockExamResult> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Not authenticated");
+
+  const { data, error } = await supabase
+    .from("regents_mock_exam_results")
+    .insert({
+      student_id: userData.user.id,
+      exam_type: params.examType,
+      raw_score: params.rawScore,
+      max_raw_score: params.maxRawScore,
+      scaled_score: params.scaledScore,
+      time_used_seconds: params.timeUsedSeconds,
+      flagged_count: params.flaggedCount,
+      part_scores: params.partScores as unknown as Json,
+      started_at: params.startedAt,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save mock exam result: ${error.message}`);
+  }
+
+  await recordRegentsAttempts({ sessionId: data.id, answers: params.answers });
+
+  return { ...data, part_scores: params.partScores };
+}
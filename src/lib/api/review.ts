@@ -0,0 +1,159 @@
+/**
+ * Review Queue API Functions
+ *
+ * Per-student spaced-repetition queue of missed questions. Each row keeps a
+ * snapshot of the question so it can be shown again whatever its source.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { newCardSchedule, scheduleReview, toDateKey, type ReviewSchedule } from "@/lib/spacedRepetition";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReviewSource = "regents" | "practice" | "game";
+
+export type ReviewQuestionKind = "multiple_choice" | "short_answer" | "flashcard";
+
+export interface ReviewQuestionData {
+  kind: ReviewQuestionKind;
+  prompt: string;
+  options?: string[];
+  correctAnswer: string;
+  /** Other accepted answers for short_answer questions */
+  acceptableAnswers?: string[];
+  explanation?: string;
+  hint?: string;
+  standardCode?: string;
+}
+
+export interface ReviewQueueItem extends ReviewSchedule {
+  id: string;
+  student_id: string;
+  question_id: string;
+  source: ReviewSource;
+  question_data: ReviewQuestionData;
+  last_reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface MissedQuestionInput {
+  /** Unique across sources, e.g. a bank id or `${gameId}:${questionId}` */
+  questionId: string;
+  source: ReviewSource;
+  question: ReviewQuestionData;
+}
+
+export interface RecordReviewAnswerParams {
+  item: ReviewQueueItem;
+  isCorrect: boolean;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Fetch review cards due today or earlier (defaults to the current user)
+ */
+export async function fetchDueReviewItems(studentId?: string): Promise<ReviewQueueItem[]> {
+  let targetId = studentId;
+  if (!targetId) {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return [];
+    targetId = userData.user.id;
+  }
+
+  const { data, error } = await supabase
+    .from("review_queue_items")
+    .select("*")
+    .eq("student_id", targetId)
+    .lte("due_on", toDateKey(new Date()))
+    .order("due_on", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch review queue: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    ...row,
+    source: row.source as ReviewSource,
+    question_data: row.question_data as unknown as ReviewQuestionData,
+  }));
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Add missed questions to the current user's review queue. Questions already
+ * in the queue are reset as if they were missed in a review.
+ */
+export async function enqueueMissedQuestions(questions: MissedQuestionInput[]): Promise<void> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Not authenticated");
+
+  const unique = [...new Map(questions.map((q) => [q.questionId, q])).values()];
+  if (unique.length === 0) return;
+
+  const studentId = userData.user.id;
+
+  const { data: existing, error: existingError } = await supabase
+    .from("review_queue_items")
+    .select("*")
+    .eq("student_id", studentId)
+    .in("question_id", unique.map((q) => q.questionId));
+
+  if (existingError) {
+    throw new Error(`Failed to fetch review queue: ${existingError.message}`);
+  }
+
+  const existingById = new Map((existing ?? []).map((row) => [row.question_id, row]));
+  const now = new Date();
+
+  const rows = unique.map((question) => {
+    const previous = existingById.get(question.questionId);
+    return {
+      student_id: studentId,
+      question_id: question.questionId,
+      source: question.source,
+      question_data: question.question as unknown as Json,
+      ...(previous ? scheduleReview(previous, false, now) : newCardSchedule(now)),
+      updated_at: now.toISOString(),
+    };
+  });
+
+  const { error } = await supabase
+    .from("review_queue_items")
+    .upsert(rows, { onConflict: "student_id,question_id" });
+
+  if (error) {
+    throw new Error(`Failed to add questions to review queue: ${error.message}`);
+  }
+}
+
+/**
+ * Reschedule a card after it was answered in a review session
+ */
+export async function recordReviewAnswer(params: RecordReviewAnswerParams): Promise<ReviewQueueItem> {
+  const now = new Date();
+  const schedule = scheduleReview(params.item, params.isCorrect, now);
+
+  const { error } = await supabase
+    .from("review_queue_items")
+    .update({
+      ...schedule,
+      last_reviewed_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", params.item.id);
+
+  if (error) {
+    throw new Error(`Failed to update review card: ${error.message}`);
+  }
+
+  return { ...params.item, ...schedule, last_reviewed_at: now.toISOString() };
+}
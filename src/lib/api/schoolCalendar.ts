@@ -0,0 +1,130 @@
+/**
+ * School Calendar API Functions
+ *
+ * Calendar events imported by admins. A school sees its own events plus
+ * the district-wide ones (no school), so the DOE calendar only has to be
+ * imported once. Re-importing a file updates events by their iCal UID
+ * within the scope. The scope is keyed by `scope_key` (the school id, or
+ * "district") rather than `school_id`, because NULLs never match in a
+ * unique constraint.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { CalendarEvent } from "@/lib/schoolCalendar";
+import { fetchMySchoolId } from "./economy";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchoolCalendarEvent extends CalendarEvent {
+  id: string;
+  schoolId: string | null;
+}
+
+/** `scope_key` of district-wide events */
+const DISTRICT_SCOPE_KEY = "district";
+
+export interface ImportSchoolCalendarParams {
+  schoolId: string | null;
+  events: CalendarEvent[];
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Events for one scope only: a school, or district-wide when null
+ */
+export async function fetchSchoolCalendarEvents(schoolId: string | null): Promise<SchoolCalendarEvent[]> {
+  const query = supabase.from("school_calendar_events").select("*").order("start_date", { ascending: true });
+  const { data, error } = await (schoolId ? query.eq("school_id", schoolId) : query.is("school_id", null));
+
+  if (error) {
+    throw new Error(`Failed to fetch school calendar: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    schoolId: row.school_id,
+    uid: row.uid,
+    title: row.title,
+    kind: row.kind,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  }));
+}
+
+/**
+ * Every event that applies to the signed-in user's school
+ */
+export async function fetchMySchoolCalendar(): Promise<SchoolCalendarEvent[]> {
+  const schoolId = await fetchMySchoolId();
+  const [district, school] = await Promise.all([
+    fetchSchoolCalendarEvents(null),
+    schoolId ? fetchSchoolCalendarEvents(schoolId) : Promise.resolve([]),
+  ]);
+  return [...district, ...school];
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Add or update imported events. A UID repeated within the file keeps its
+ * last event. Returns how many were saved.
+ */
+export async function importSchoolCalendar(params: ImportSchoolCalendarParams): Promise<number> {
+  if (params.events.length === 0) return 0;
+
+  const { data: userData } = await supabase.auth.getUser();
+  const byUid = new Map(params.events.map((event) => [event.uid, event]));
+  const rows = [...byUid.values()].map((event) => ({
+    school_id: params.schoolId,
+    scope_key: params.schoolId ?? DISTRICT_SCOPE_KEY,
+    uid: event.uid,
+    title: event.title,
+    kind: event.kind,
+    start_date: event.startDate,
+    end_date: event.endDate,
+    created_by: userData.user?.id ?? null,
+  }));
+
+  const { error } = await supabase
+    .from("school_calendar_events")
+    .upsert(rows, { onConflict: "scope_key,uid" });
+
+  if (error) {
+    throw new Error(`Failed to import school calendar: ${error.message}`);
+  }
+
+  return rows.length;
+}
+
+/**
+ * Remove a calendar event
+ */
+export async function deleteSchoolCalendarEvent(id: string): Promise<void> {
+  const { error } = await supabase.from("school_calendar_events").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to delete calendar event: ${error.message}`);
+  }
+}
+
+/**
+ * Notify the signed-in student about assignments due on or before a day
+ * they have not been told about yet. Returns how many notifications were
+ * created.
+ */
+export async function checkDueSoonAssignments(dueBefore: string): Promise<number> {
+  const { data, error } = await supabase.rpc("check_due_soon_assignments", { p_due_before: dueBefore });
+
+  if (error) {
+    throw new Error(`Failed to check due dates: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
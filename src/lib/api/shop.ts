@@ -0,0 +1,150 @@
+/**
+ * Coin Shop API Functions
+ *
+ * Collectibles students can buy with coins. Items can rotate in and out
+ * with an availability window and cap how many times one student may buy
+ * them. Purchases go through the `purchase_shop_item` RPC, which spends the
+ * coins, grants the collectible and writes the reward ledger in one
+ * transaction; the request id makes retries safe.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { SHOP_PRICES } from "@/constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CollectibleRarity = Database["public"]["Enums"]["collectible_rarity"];
+
+export interface ShopItem {
+  id: string;
+  collectible_id: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  rarity: CollectibleRarity;
+  slot: string | null;
+  price: number;
+  available_until: string | null;
+  purchase_limit: number | null;
+  /** Times the current student has bought this item */
+  purchased_count: number;
+  owned: boolean;
+}
+
+export interface PurchaseShopItemParams {
+  shopItemId: string;
+  /** Generated once per purchase attempt; repeating it never charges twice */
+  requestId: string;
+}
+
+export interface PurchaseResult {
+  success: boolean;
+  error?: string;
+  new_coins_total?: number;
+  purchase_id?: string;
+  /** The request id was already processed; nothing was charged this time */
+  already_processed?: boolean;
+}
+
+type ShopItemRow = Database["public"]["Tables"]["shop_items"]["Row"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * An item's own price, or the default for its rarity
+ */
+export function resolveShopPrice(priceCoins: number | null, rarity: CollectibleRarity): number {
+  return priceCoins ?? SHOP_PRICES[rarity];
+}
+
+/**
+ * Whether an item is in the current rotation
+ */
+export function isShopItemAvailable(
+  item: Pick<ShopItemRow, "is_active" | "available_from" | "available_until">,
+  now: Date = new Date()
+): boolean {
+  if (!item.is_active) return false;
+  if (item.available_from && new Date(item.available_from) > now) return false;
+  if (item.available_until && new Date(item.available_until) <= now) return false;
+  return true;
+}
+
+/**
+ * Whether the student has hit the item's purchase limit
+ */
+export function isPurchaseLimitReached(item: Pick<ShopItem, "purchase_limit" | "purchased_count">): boolean {
+  return item.purchase_limit !== null && item.purchased_count >= item.purchase_limit;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Items in the current rotation, with the student's purchases and ownership
+ */
+export async function fetchShopItems(studentId: string): Promise<ShopItem[]> {
+  const [itemsResult, purchasesResult, ownedResult] = await Promise.all([
+    supabase
+      .from("shop_items")
+      .select("*, collectibles(id, name, description, image_url, rarity, slot)")
+      .eq("is_active", true),
+    supabase.from("shop_purchases").select("shop_item_id").eq("student_id", studentId),
+    supabase.from("student_collectibles").select("collectible_id").eq("student_id", studentId),
+  ]);
+
+  const failed = itemsResult.error ?? purchasesResult.error ?? ownedResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch shop items: ${failed.message}`);
+  }
+
+  const purchaseCounts = new Map<string, number>();
+  for (const purchase of purchasesResult.data ?? []) {
+    purchaseCounts.set(purchase.shop_item_id, (purchaseCounts.get(purchase.shop_item_id) ?? 0) + 1);
+  }
+  const owned = new Set((ownedResult.data ?? []).map((c) => c.collectible_id));
+
+  return (itemsResult.data ?? [])
+    .filter((item) => item.collectibles && isShopItemAvailable(item))
+    .map((item) => ({
+      id: item.id,
+      collectible_id: item.collectible_id,
+      name: item.collectibles!.name,
+      description: item.collectibles!.description,
+      image_url: item.collectibles!.image_url,
+      rarity: item.collectibles!.rarity,
+      slot: item.collectibles!.slot,
+      price: resolveShopPrice(item.price_coins, item.collectibles!.rarity),
+      available_until: item.available_until,
+      purchase_limit: item.purchase_limit,
+      purchased_count: purchaseCounts.get(item.id) ?? 0,
+      owned: owned.has(item.collectible_id),
+    }))
+    .sort((a, b) => a.price - b.price || a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Buy a shop item with coins
+ */
+export async function purchaseShopItem(params: PurchaseShopItemParams): Promise<PurchaseResult> {
+  const { data, error } = await supabase.rpc("purchase_shop_item", {
+    p_shop_item_id: params.shopItemId,
+    p_request_id: params.requestId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to purchase item: ${error.message}`);
+  }
+
+  return data as unknown as PurchaseResult;
+}
@@ -0,0 +1,166 @@
+/**
+ * Streak API Functions
+ *
+ * Activity history for the streak engine, and streak shields. Shields are
+ * bought and consumed through RPCs so coins and the shield flag change
+ * together; the server rechecks that a consumed day really was missed.
+ * The engine's streak is saved to `student_profiles` with `sync_streak`
+ * so leaderboards, badges and parents see the same number.
+ *
+ * History reaches back far enough to cover the streak on record, and
+ * `historyStart` says where it stops so the engine never reads the days
+ * before it as missed.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { isQualifyingActivity, shiftDay, startOfDayIn, toDayKey, type DayKey } from "@/lib/streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StreakHistory {
+  /** Qualifying activity count per school-time-zone day */
+  activity: Map<DayKey, number>;
+  /** First day whose activity was fully loaded */
+  historyStart: DayKey;
+  shieldedDays: Set<DayKey>;
+  shieldAvailable: boolean;
+  /** Current streak saved on the student profile */
+  currentRecorded: number;
+  /** Longest streak the server has on record, including history older than the window */
+  longestRecorded: number;
+}
+
+export interface ShieldResult {
+  success: boolean;
+  error?: string;
+  new_coins_total?: number;
+  /** The request id was already processed; nothing was charged this time */
+  already_processed?: boolean;
+}
+
+/** Fewest days of history loaded for the streak and its calendar */
+export const STREAK_HISTORY_DAYS = 120;
+
+/** Calendar days loaded per day of recorded streak, enough for weekends and breaks */
+const DAYS_PER_STREAK_DAY = 2;
+
+const LEDGER_LIMIT = 1000;
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * A student's qualifying activity and shield usage, back far enough to
+ * cover their recorded streak
+ */
+export async function fetchStreakHistory(studentId: string): Promise<StreakHistory> {
+  const profileResult = await supabase
+    .from("student_profiles")
+    .select("current_streak, longest_streak, streak_shield_available")
+    .eq("user_id", studentId)
+    .maybeSingle();
+
+  if (profileResult.error) {
+    throw new Error(`Failed to fetch streak history: ${profileResult.error.message}`);
+  }
+
+  const today = toDayKey(new Date());
+  const recorded = profileResult.data?.current_streak ?? 0;
+  let historyStart = shiftDay(today, -Math.max(STREAK_HISTORY_DAYS, recorded * DAYS_PER_STREAK_DAY));
+
+  const [ledgerResult, shieldResult] = await Promise.all([
+    supabase
+      .from("reward_ledger")
+      .select("created_at, source_type, assignment_id, xp_delta")
+      .eq("student_id", studentId)
+      .gte("created_at", startOfDayIn(historyStart).toISOString())
+      .order("created_at", { ascending: false })
+      .limit(LEDGER_LIMIT),
+    supabase
+      .from("streak_shield_events")
+      .select("day_key")
+      .eq("student_id", studentId)
+      .eq("kind", "consumed"),
+  ]);
+
+  const failed = ledgerResult.error ?? shieldResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch streak history: ${failed.message}`);
+  }
+
+  // A full page may have cut off part of its oldest day, so start after it
+  const rows = ledgerResult.data ?? [];
+  if (rows.length >= LEDGER_LIMIT) {
+    historyStart = shiftDay(toDayKey(new Date(rows[rows.length - 1].created_at)), 1);
+  }
+
+  const activity = new Map<DayKey, number>();
+  for (const row of rows) {
+    // Rows written before source_type existed were all activity rewards, so
+    // untyped XP qualifies
+    const qualifies = row.source_type
+      ? isQualifyingActivity(row.source_type, row.xp_delta)
+      : row.xp_delta > 0;
+    if (!qualifies) continue;
+    const day = toDayKey(new Date(row.created_at));
+    activity.set(day, (activity.get(day) ?? 0) + 1);
+  }
+
+  return {
+    activity,
+    historyStart,
+    shieldedDays: new Set((shieldResult.data ?? []).flatMap((row) => (row.day_key ? [row.day_key] : []))),
+    shieldAvailable: profileResult.data?.streak_shield_available ?? false,
+    currentRecorded: profileResult.data?.current_streak ?? 0,
+    longestRecorded: profileResult.data?.longest_streak ?? 0,
+  };
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Spend the student's shield on a missed school day
+ */
+export async function consumeStreakShield(day: DayKey): Promise<ShieldResult> {
+  const { data, error } = await supabase.rpc("consume_streak_shield", { p_day: day });
+
+  if (error) {
+    throw new Error(`Failed to use streak shield: ${error.message}`);
+  }
+
+  return data as unknown as ShieldResult;
+}
+
+/**
+ * Save the engine's streak to the signed-in student's profile. The server
+ * caps it at what the student's ledger and shields support.
+ */
+export async function syncStreak(today: DayKey, current: number, longest: number): Promise<void> {
+  const { error } = await supabase.rpc("sync_streak", {
+    p_today: today,
+    p_current_streak: current,
+    p_longest_streak: longest,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save streak: ${error.message}`);
+  }
+}
+
+/**
+ * Buy a streak shield with coins
+ */
+export async function purchaseStreakShield(requestId: string): Promise<ShieldResult> {
+  const { data, error } = await supabase.rpc("purchase_streak_shield", { p_request_id: requestId });
+
+  if (error) {
+    throw new Error(`Failed to buy streak shield: ${error.message}`);
+  }
+
+  return data as unknown as ShieldResult;
+}
@@ -0,0 +1,334 @@
+/**
+ * Teacher Classroom API Functions
+ *
+ * Class rosters, behavior status logging, point deductions and the
+ * per-student timeline shown in the teacher console.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StudentStatusType = Database["public"]["Enums"]["student_status_type"];
+
+export interface TeacherClass {
+  id: string;
+  name: string;
+  class_code: string;
+  subject: string | null;
+  grade_level: number | null;
+  teacher_id: string;
+}
+
+export interface RosterStudent {
+  id: string;
+  full_name: string;
+  coins: number;
+  xp: number;
+  current_streak: number;
+  /** Most recent status logged today in this class */
+  today_status: StudentStatusType | null;
+}
+
+export interface RecordStatusParams {
+  classId: string;
+  studentId: string;
+  status: StudentStatusType;
+  notes?: string;
+}
+
+export interface DeductPointsParams {
+  classId: string;
+  studentId: string;
+  studentName?: string;
+  points: number;
+  reason: string;
+}
+
+export type TimelineEvent =
+  | {
+      kind: "status";
+      id: string;
+      at: string;
+      status: StudentStatusType;
+      notes: string | null;
+    }
+  | {
+      kind: "deduction";
+      id: string;
+      at: string;
+      points: number;
+      reason: string;
+      undone_at: string | null;
+    }
+  | {
+      kind: "reward";
+      id: string;
+      at: string;
+      xp: number;
+      coins: number;
+      reason: string;
+    };
+
+const TIMELINE_LIMIT = 50;
+
+async function requireUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+  return user.id;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * Classes taught by the current user
+ */
+export async function fetchTeacherClasses(): Promise<TeacherClass[]> {
+  const teacherId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("classes")
+    .select("id, name, class_code, subject, grade_level, teacher_id")
+    .eq("teacher_id", teacherId)
+    .order("name");
+
+  if (error) {
+    throw new Error(`Failed to fetch classes: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Every class in the school, for admins
+ */
+export async function fetchAllClasses(): Promise<TeacherClass[]> {
+  const { data, error } = await supabase
+    .from("classes")
+    .select("id, name, class_code, subject, grade_level, teacher_id")
+    .order("name");
+
+  if (error) {
+    throw new Error(`Failed to fetch classes: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * A class taught by the current user, or null if it is not theirs
+ */
+export async function fetchTeacherClass(classId: string): Promise<TeacherClass | null> {
+  const teacherId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("classes")
+    .select("id, name, class_code, subject, grade_level, teacher_id")
+    .eq("id", classId)
+    .eq("teacher_id", teacherId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch class: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Enrolled students with their balances and today's latest status
+ */
+export async function fetchClassRoster(classId: string): Promise<RosterStudent[]> {
+  const { data: enrollments, error: enrollmentsError } = await supabase
+    .from("enrollments")
+    .select("student_id")
+    .eq("class_id", classId);
+
+  if (enrollmentsError) {
+    throw new Error(`Failed to fetch enrollments: ${enrollmentsError.message}`);
+  }
+
+  const studentIds = (enrollments ?? []).map((e) => e.student_id);
+  if (studentIds.length === 0) return [];
+
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const [profilesResult, studentsResult, statusResult] = await Promise.all([
+    supabase.from("profiles").select("id, full_name").in("id", studentIds),
+    supabase
+      .from("student_profiles")
+      .select("user_id, coins, xp, current_streak")
+      .in("user_id", studentIds),
+    supabase
+      .from("student_status_logs")
+      .select("student_id, status, recorded_at")
+      .eq("class_id", classId)
+      .gte("recorded_at", startOfToday.toISOString())
+      .order("recorded_at", { ascending: false }),
+  ]);
+
+  const failed = profilesResult.error ?? studentsResult.error ?? statusResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch roster: ${failed.message}`);
+  }
+
+  const names = new Map((profilesResult.data ?? []).map((p) => [p.id, p.full_name]));
+  const stats = new Map((studentsResult.data ?? []).map((s) => [s.user_id, s]));
+  const todayStatus = new Map<string, StudentStatusType>();
+  // Logs are newest first, so the first one seen per student wins
+  for (const log of statusResult.data ?? []) {
+    if (!todayStatus.has(log.student_id)) todayStatus.set(log.student_id, log.status);
+  }
+
+  return studentIds
+    .map((id) => ({
+      id,
+      full_name: names.get(id) || "Student",
+      coins: stats.get(id)?.coins ?? 0,
+      xp: stats.get(id)?.xp ?? 0,
+      current_streak: stats.get(id)?.current_streak ?? 0,
+      today_status: todayStatus.get(id) ?? null,
+    }))
+    .sort((a, b) => a.full_name.localeCompare(b.full_name));
+}
+
+/**
+ * Statuses and deductions in this class plus rewards earned, newest first
+ */
+export async function fetchStudentTimeline(classId: string, studentId: string): Promise<TimelineEvent[]> {
+  const [statusResult, deductionResult, rewardResult] = await Promise.all([
+    supabase
+      .from("student_status_logs")
+      .select("id, status, notes, recorded_at")
+      .eq("class_id", classId)
+      .eq("student_id", studentId)
+      .order("recorded_at", { ascending: false })
+      .limit(TIMELINE_LIMIT),
+    supabase
+      .from("point_deductions")
+      .select("id, points_deducted, reason, created_at, undone_at")
+      .eq("class_id", classId)
+      .eq("student_id", studentId)
+      .order("created_at", { ascending: false })
+      .limit(TIMELINE_LIMIT),
+    supabase
+      .from("reward_ledger")
+      .select("id, xp_delta, coin_delta, reason, created_at")
+      .eq("student_id", studentId)
+      .gt("xp_delta", 0)
+      .order("created_at", { ascending: false })
+      .limit(TIMELINE_LIMIT),
+  ]);
+
+  const failed = statusResult.error ?? deductionResult.error ?? rewardResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch student timeline: ${failed.message}`);
+  }
+
+  const events: TimelineEvent[] = [
+    ...(statusResult.data ?? []).map((s) => ({
+      kind: "status" as const,
+      id: s.id,
+      at: s.recorded_at,
+      status: s.status,
+      notes: s.notes,
+    })),
+    ...(deductionResult.data ?? []).map((d) => ({
+      kind: "deduction" as const,
+      id: d.id,
+      at: d.created_at,
+      points: d.points_deducted,
+      reason: d.reason,
+      undone_at: d.undone_at,
+    })),
+    ...(rewardResult.data ?? []).map((r) => ({
+      kind: "reward" as const,
+      id: r.id,
+      at: r.created_at,
+      xp: r.xp_delta,
+      coins: r.coin_delta,
+      reason: r.reason,
+    })),
+  ];
+
+  return events.sort((a, b) => b.at.localeCompare(a.at)).slice(0, TIMELINE_LIMIT);
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Log a behavior status for a student in a class
+ */
+export async function recordStudentStatus(params: RecordStatusParams): Promise<void> {
+  const teacherId = await requireUserId();
+
+  const { error } = await supabase.from("student_status_logs").insert({
+    class_id: params.classId,
+    student_id: params.studentId,
+    teacher_id: teacherId,
+    status: params.status,
+    notes: params.notes?.trim() || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record status: ${error.message}`);
+  }
+}
+
+/**
+ * Deduct points and notify parents. Returns the deduction id for undo.
+ */
+export async function deductStudentPoints(params: DeductPointsParams): Promise<string> {
+  const { data, error } = await supabase.rpc("deduct_student_points", {
+    p_student_id: params.studentId,
+    p_class_id: params.classId,
+    p_points: params.points,
+    p_reason: params.reason,
+  });
+
+  if (error) {
+    throw new Error(`Failed to deduct points: ${error.message}`);
+  }
+
+  // Parent notification is best effort; the deduction already stands
+  try {
+    await supabase.functions.invoke("send-parent-notification", {
+      body: {
+        type: "points_deducted",
+        student_id: params.studentId,
+        data: {
+          points_deducted: params.points,
+          reason: params.reason,
+          student_name: params.studentName,
+        },
+      },
+    });
+  } catch (notifyError) {
+    console.log("Parent notification failed:", notifyError);
+  }
+
+  return data;
+}
+
+/**
+ * Reverse a deduction and restore the student's points
+ */
+export async function undoPointDeduction(deductionId: string): Promise<void> {
+  const { error } = await supabase.rpc("undo_point_deduction", {
+    p_deduction_id: deductionId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to undo deduction: ${error.message}`);
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Transaction History API Functions
+ *
+ * One history of everything that changed a student's XP, coins or raffle
+ * tickets: reward ledger entries, teacher point deductions, fulfilled parent
+ * pledge bonuses and raffle entries.
+ *
+ * Each source is read up to `HISTORY_LIMIT` rows. When one runs out before
+ * the others, the history stops at the oldest entry every source still
+ * covers, so nothing is missing inside the window and the running balance
+ * (walked back from the current balance) stays right.
+ */
+
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RewardSourceType = Database["public"]["Enums"]["reward_source_type"];
+
+export interface Transaction {
+  /** Unique across sources, e.g. "ledger-<id>" */
+  id: string;
+  at: string;
+  source: RewardSourceType;
+  description: string;
+  xpDelta: number;
+  coinDelta: number;
+  tickets: number;
+  /** The assignment, game, challenge or other record behind the entry */
+  referenceId: string | null;
+  /** Coin balance right after this entry */
+  coinBalance: number;
+}
+
+export interface TransactionFilters {
+  source?: RewardSourceType | "all";
+  from?: Date;
+  to?: Date;
+}
+
+const HISTORY_LIMIT = 500;
+
+type LedgerRow = Database["public"]["Tables"]["reward_ledger"]["Row"];
+
+const CLAIM_SOURCES: readonly string[] = [
+  "assignment",
+  "practice_set",
+  "game",
+  "battle",
+  "challenge",
+  "study_goal",
+  "daily_review",
+] satisfies RewardSourceType[];
+
+/**
+ * Rows written before source_type existed carry an assignment id, or the
+ * reference of the reward claim that paid them out
+ */
+function ledgerSource(row: LedgerRow, claimTypes: Map<string, string>): RewardSourceType {
+  if (row.source_type) return row.source_type;
+  if (row.assignment_id) return "assignment";
+  const claimType = row.reference_id ? claimTypes.get(row.reference_id) : undefined;
+  return claimType && CLAIM_SOURCES.includes(claimType) ? (claimType as RewardSourceType) : "adjustment";
+}
+
+/**
+ * Claim types for untyped ledger rows, by reference id
+ */
+async function fetchClaimTypes(studentId: string, rows: LedgerRow[]): Promise<Map<string, string>> {
+  const untyped = rows.filter((row) => !row.source_type && !row.assignment_id && row.reference_id);
+  const referenceIds = [...new Set(untyped.map((row) => row.reference_id!))];
+  if (referenceIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from("reward_claims")
+    .select("reference_id, claim_type")
+    .eq("student_id", studentId)
+    .in("reference_id", referenceIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch reward claims: ${error.message}`);
+  }
+
+  return new Map((data ?? []).map((claim) => [claim.reference_id, claim.claim_type]));
+}
+
+/**
+ * The oldest moment in a newest-first source that hit the limit, or null
+ * when it returned everything
+ */
+function cutoffOf<T>(rows: T[] | null, at: (row: T) => string | null): string | null {
+  return rows && rows.length >= HISTORY_LIMIT ? at(rows[rows.length - 1]) : null;
+}
+
+// ============================================================================
+// Query Functions
+// ============================================================================
+
+/**
+ * A student's transactions, newest first, with running coin balances
+ */
+export async function fetchTransactionHistory(studentId: string): Promise<Transaction[]> {
+  const [profileResult, ledgerResult, deductionResult, pledgeResult, raffleResult] = await Promise.all([
+    supabase.from("student_profiles").select("coins").eq("user_id", studentId).maybeSingle(),
+    supabase
+      .from("reward_ledger")
+      .select("*")
+      .eq("student_id", studentId)
+      .order("created_at", { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from("point_deductions")
+      .select("id, points_deducted, reason, created_at, undone_at")
+      .eq("student_id", studentId)
+      .order("created_at", { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from("parent_point_pledges")
+      .select("id, bonus_coins, reward_description, fulfilled_at")
+      .eq("student_id", studentId)
+      .eq("status", "fulfilled")
+      .order("fulfilled_at", { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from("lotto_entries")
+      .select("id, reason, earned_at, assignment_id, draw_id")
+      .eq("student_id", studentId)
+      .order("earned_at", { ascending: false })
+      .limit(HISTORY_LIMIT),
+  ]);
+
+  const failed =
+    profileResult.error ?? ledgerResult.error ?? deductionResult.error ?? pledgeResult.error ?? raffleResult.error;
+  if (failed) {
+    throw new Error(`Failed to fetch transaction history: ${failed.message}`);
+  }
+
+  const claimTypes = await fetchClaimTypes(studentId, ledgerResult.data ?? []);
+
+  const sources: Omit<Transaction, "coinBalance">[][] = [
+    (ledgerResult.data ?? []).map((row) => ({
+      id: `ledger-${row.id}`,
+      at: row.created_at,
+      source: ledgerSource(row, claimTypes),
+      description: row.reason,
+      xpDelta: row.xp_delta,
+      coinDelta: row.coin_delta,
+      tickets: 0,
+      referenceId: row.reference_id ?? row.assignment_id,
+    })),
+    // An undone deduction nets to zero, so it is left out
+    (deductionResult.data ?? [])
+      .filter((row) => !row.undone_at)
+      .map((row) => ({
+        id: `deduction-${row.id}`,
+        at: row.created_at,
+        source: "teacher_action" as const,
+        description: row.reason,
+        xpDelta: 0,
+        coinDelta: -row.points_deducted,
+        tickets: 0,
+        referenceId: row.id,
+      })),
+    (pledgeResult.data ?? [])
+      .filter((row) => row.fulfilled_at)
+      .map((row) => ({
+        id: `pledge-${row.id}`,
+        at: row.fulfilled_at!,
+        source: "pledge_bonus" as const,
+        description: row.reward_description,
+        xpDelta: 0,
+        coinDelta: row.bonus_coins,
+        tickets: 0,
+        referenceId: row.id,
+      })),
+    (raffleResult.data ?? []).map((row) => ({
+      id: `raffle-${row.id}`,
+      at: row.earned_at,
+      source: "raffle" as const,
+      description: row.reason,
+      xpDelta: 0,
+      coinDelta: 0,
+      tickets: 1,
+      referenceId: row.assignment_id ?? row.draw_id,
+    })),
+  ];
+
+  const windowStart = [
+    cutoffOf(ledgerResult.data, (row) => row.created_at),
+    cutoffOf(deductionResult.data, (row) => row.created_at),
+    cutoffOf(pledgeResult.data, (row) => row.fulfilled_at),
+    cutoffOf(raffleResult.data, (row) => row.earned_at),
+  ].reduce<string | null>((start, cutoff) => (cutoff && (!start || cutoff > start) ? cutoff : start), null);
+  const entries = sources
+    .flat()
+    .filter((entry) => !windowStart || entry.at >= windowStart)
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  // Walk back from today's balance so older history beyond the window doesn't skew it
+  let balance = profileResult.data?.coins ?? 0;
+  return entries.map((entry) => {
+    const transaction = { ...entry, coinBalance: balance };
+    balance -= entry.coinDelta;
+    return transaction;
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Transactions matching a source and an inclusive date range
+ */
+export function filterTransactions(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+  return transactions.filter((t) => {
+    if (filters.source && filters.source !== "all" && t.source !== filters.source) return false;
+    const at = new Date(t.at);
+    if (filters.from && at < filters.from) return false;
+    if (filters.to && at > filters.to) return false;
+    return true;
+  });
+}
+
+function csvCell(value: string | number): string {
+  // Spreadsheets run text starting with these as a formula
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with one row per transaction, oldest first like a bank statement
+ */
+export function transactionsToCsv(transactions: Transaction[]): string {
+  const header = ["Date", "Source", "Description", "XP", "Coins", "Tickets", "Coin Balance", "Reference"];
+  const rows = [...transactions]
+    .reverse()
+    .map((t) =>
+      [
+        format(new Date(t.at), "yyyy-MM-dd HH:mm"),
+        t.source,
+        t.description,
+        t.xpDelta,
+        t.coinDelta,
+        t.tickets,
+        t.coinBalance,
+        t.referenceId ?? "",
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  return [header.join(","), ...rows].join("\n");
+}
+
+/**
+ * In-app page for the record behind a transaction, when there is one
+ */
+export function transactionLink(transaction: Transaction): string | null {
+  if (!transaction.referenceId) return null;
+  switch (transaction.source) {
+    case "assignment":
+      return `/student/assignment/${transaction.referenceId}`;
+    case "practice_set":
+      return `/student/practice/${transaction.referenceId}`;
+    case "game":
+      return `/games/${transaction.referenceId}`;
+    case "challenge":
+      return "/student/challenges";
+    case "raffle":
+      return "/student/raffle";
+    case "shop_purchase":
+      return "/student/shop";
+    case "mystery_pack":
+      return "/student/packs";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Webhook Log API Functions
+ *
+ * Records content from GeoBlox/NYCologic that failed schema validation so
+ * admins can see it in the Inbound log instead of students seeing a crash.
+ * Every student who opens a bad row reports it, so `log_rejected_content`
+ * keeps one log entry per dedupe key.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RejectedContentType = "invalid_game_data" | "invalid_answer_key" | "invalid_payload";
+
+export interface RejectedContent {
+  eventType: RejectedContentType;
+  /** The rejected row, e.g. "skill_games:<id>"; repeats are ignored */
+  dedupeKey: string;
+  /** Readable validation error from the content schemas */
+  error: string;
+  payload: Json;
+}
+
+// ============================================================================
+// Mutation Functions
+// ============================================================================
+
+/**
+ * Log rejected content to `webhook_event_logs` with status "rejected",
+ * once per dedupe key
+ */
+export async function logRejectedContent(content: RejectedContent): Promise<void> {
+  const { error } = await supabase.rpc("log_rejected_content", {
+    p_dedupe_key: content.dedupeKey,
+    p_event_type: content.eventType,
+    p_error: content.error,
+    p_payload: content.payload,
+  });
+
+  if (error) {
+    throw new Error(`Failed to log rejected content: ${error.message}`);
+  }
+}
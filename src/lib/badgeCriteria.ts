@@ -0,0 +1,212 @@
+/**
+ * Badge Criteria
+ *
+ * The declarative rules stored in `badges.criteria`, and the evaluator
+ * that checks them against a student's record. A badge with no criteria
+ * is only ever awarded by hand. `evaluate_my_badges` applies the same
+ * rules on the server when awarding; this copy drives the admin preview.
+ *
+ * @example
+ * { "type": "all", "rules": [
+ *   { "type": "assignments_completed", "count": 10, "subject": "Algebra I" },
+ *   { "type": "standard_mastery", "standard": "AI-A.REI.4", "percent": 90 }
+ * ] }
+ */
+
+import { z } from "zod";
+import { PASSING_SCORE } from "@/constants";
+import { formatSchemaError, type ParseResult } from "@/lib/contentSchemas";
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const count = z.number().int().min(1);
+
+const ruleSchemas = [
+  z.object({
+    type: z.literal("assignments_completed"),
+    count,
+    /** Matches the assignment's subject, ignoring case */
+    subject: z.string().min(1).optional(),
+    /** Only verified attempts scoring at least this count */
+    minScore: z.number().min(0).max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("streak"),
+    /** Longest streak the student has reached, not just the current one */
+    days: count,
+  }),
+  z.object({
+    type: z.literal("standard_mastery"),
+    /** Standard code, e.g. "AI-A.REI.4" */
+    standard: z.string().min(1),
+    percent: z.number().min(0).max(100),
+    /** Guards against 1 of 1 counting as mastery */
+    minAttempts: count.optional(),
+  }),
+  z.object({
+    type: z.literal("games_won"),
+    count,
+    /** Skill games, quiz battles, or both */
+    source: z.enum(["games", "battles", "any"]).default("any"),
+  }),
+  z.object({
+    type: z.literal("total_xp"),
+    xp: count,
+  }),
+] as const;
+
+export type BadgeRule = z.infer<(typeof ruleSchemas)[number]>;
+
+export type BadgeCriteria = BadgeRule | { type: "all" | "any"; rules: BadgeCriteria[] };
+
+const groupSchema = <T extends "all" | "any">(type: T) =>
+  z.object({
+    type: z.literal(type),
+    rules: z.array(z.lazy(() => badgeCriteriaSchema)).min(1),
+  });
+
+// One discriminated union, so errors point at the field that is wrong
+export const badgeCriteriaSchema = z.discriminatedUnion("type", [
+  ...ruleSchemas,
+  groupSchema("all"),
+  groupSchema("any"),
+]) as z.ZodType<BadgeCriteria, z.ZodTypeDef, unknown>;
+
+export function parseBadgeCriteria(value: unknown): ParseResult<BadgeCriteria> {
+  const result = badgeCriteriaSchema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatSchemaError(result.error) };
+}
+
+// ============================================================================
+// Facts
+// ============================================================================
+
+/** What the evaluator knows about a student */
+export interface BadgeFacts {
+  totalXp: number;
+  longestStreak: number;
+  /** One entry per verified assignment */
+  completedAssignments: { subject: string | null; score: number | null }[];
+  /** Keyed by standard code */
+  mastery: Record<string, { correct: number; attempts: number }>;
+  gamesWon: { games: number; battles: number };
+}
+
+export type BadgeFactKind = "profile" | "assignments" | "mastery" | "games";
+
+export const EMPTY_BADGE_FACTS: BadgeFacts = {
+  totalXp: 0,
+  longestStreak: 0,
+  completedAssignments: [],
+  mastery: {},
+  gamesWon: { games: 0, battles: 0 },
+};
+
+/**
+ * Which facts a set of criteria reads, so callers only load those
+ */
+export function requiredFacts(criteria: BadgeCriteria, into = new Set<BadgeFactKind>()): Set<BadgeFactKind> {
+  switch (criteria.type) {
+    case "all":
+    case "any":
+      criteria.rules.forEach((rule) => requiredFacts(rule, into));
+      break;
+    case "assignments_completed":
+      into.add("assignments");
+      break;
+    case "standard_mastery":
+      into.add("mastery");
+      break;
+    case "games_won":
+      into.add("games");
+      break;
+    case "streak":
+    case "total_xp":
+      into.add("profile");
+      break;
+  }
+  return into;
+}
+
+/**
+ * A battle counts as a win in first place; a game at a passing score
+ */
+export function isWinningSession(session: {
+  battle_id: string | null;
+  battle_rank: number | null;
+  correct_count: number;
+  total_questions: number;
+}): boolean {
+  if (session.battle_id) return session.battle_rank === 1;
+  return session.total_questions > 0 && (session.correct_count / session.total_questions) * 100 >= PASSING_SCORE;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export function meetsCriteria(criteria: BadgeCriteria, facts: BadgeFacts): boolean {
+  switch (criteria.type) {
+    case "all":
+      return criteria.rules.every((rule) => meetsCriteria(rule, facts));
+    case "any":
+      return criteria.rules.some((rule) => meetsCriteria(rule, facts));
+    case "assignments_completed": {
+      const subject = criteria.subject?.toLowerCase();
+      const matching = facts.completedAssignments.filter(
+        (a) =>
+          (!subject || a.subject?.toLowerCase() === subject) &&
+          (criteria.minScore === undefined || (a.score ?? 0) >= criteria.minScore)
+      );
+      return matching.length >= criteria.count;
+    }
+    case "streak":
+      return facts.longestStreak >= criteria.days;
+    case "standard_mastery": {
+      const record = facts.mastery[criteria.standard];
+      if (!record || record.attempts === 0) return false;
+      if (criteria.minAttempts && record.attempts < criteria.minAttempts) return false;
+      return (record.correct / record.attempts) * 100 >= criteria.percent;
+    }
+    case "games_won": {
+      const { games, battles } = facts.gamesWon;
+      const won = criteria.source === "games" ? games : criteria.source === "battles" ? battles : games + battles;
+      return won >= criteria.count;
+    }
+    case "total_xp":
+      return facts.totalXp >= criteria.xp;
+  }
+}
+
+/**
+ * Plain-language version of the criteria, for students and admins
+ */
+export function describeCriteria(criteria: BadgeCriteria): string {
+  switch (criteria.type) {
+    case "all":
+    case "any": {
+      const parts = criteria.rules.map(describeCriteria);
+      if (parts.length === 1) return parts[0];
+      return criteria.type === "all" ? parts.join(" and ") : `Any of: ${parts.join("; ")}`;
+    }
+    case "assignments_completed": {
+      const subject = criteria.subject ? ` ${criteria.subject}` : "";
+      const score = criteria.minScore !== undefined ? ` scoring ${criteria.minScore}%+` : "";
+      return `Complete ${criteria.count}${subject} assignment${criteria.count === 1 ? "" : "s"}${score}`;
+    }
+    case "streak":
+      return `Reach a ${criteria.days}-day streak`;
+    case "standard_mastery":
+      return `Score ${criteria.percent}%+ on ${criteria.standard}`;
+    case "games_won": {
+      const noun = criteria.source === "battles" ? "quiz battle" : "game";
+      return `Win ${criteria.count} ${noun}${criteria.count === 1 ? "" : "s"}`;
+    }
+    case "total_xp":
+      return `Earn ${criteria.xp.toLocaleString()} XP`;
+  }
+}
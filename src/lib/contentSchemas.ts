@@ -0,0 +1,376 @@
+/**
+ * Content Schemas
+ *
+ * Runtime validation for content that arrives from GeoBlox and NYCologic:
+ * webhook action payloads, `skill_games.game_data` and
+ * `practice_questions.answer_key`. Every parser accepts the known aliases
+ * (for example `game_type: "matching"` with `{ term, match }` pairs) and
+ * returns the canonical shape the player UI expects, or a readable error.
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export type ParseResult<T> =
+  | { success: true; data: T; error?: undefined }
+  | { success: false; data?: undefined; error: string };
+
+/**
+ * Columns stored as text sometimes hold JSON; decode them before validating
+ */
+function decodeJson(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Copy the first alias found onto the canonical key
+ */
+function renameKeys(aliases: Record<string, string[]>) {
+  return (value: unknown) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+    const record = { ...(value as Record<string, unknown>) };
+    for (const [key, names] of Object.entries(aliases)) {
+      if (record[key] !== undefined) continue;
+      const alias = names.find((name) => record[name] !== undefined);
+      if (alias) record[key] = record[alias];
+    }
+    return record;
+  };
+}
+
+/**
+ * "questions.0.answer_key: Required; title: Required"
+ */
+export function formatSchemaError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+function toResult<T>(result: z.SafeParseReturnType<unknown, unknown>): ParseResult<T> {
+  return result.success
+    ? { success: true, data: result.data as T }
+    : { success: false, error: formatSchemaError(result.error) };
+}
+
+const text = z.string().trim().min(1);
+const answerText = z.union([z.string(), z.number()]).transform(String);
+const optionalId = z.union([z.string(), z.number()]).transform(String).optional();
+
+/**
+ * Fill in missing item ids with a stable, position-based id
+ */
+function withIds<T extends { id?: string }>(prefix: string) {
+  return (items: T[]) => items.map((item, index) => ({ ...item, id: item.id ?? `${prefix}-${index + 1}` }));
+}
+
+// ============================================================================
+// Game Data
+// ============================================================================
+
+export const GAME_TYPES = ["flashcard_battle", "timed_challenge", "matching_puzzle"] as const;
+
+export type GameType = (typeof GAME_TYPES)[number];
+
+const GAME_TYPE_ALIASES: Record<string, GameType> = {
+  flashcard: "flashcard_battle",
+  flashcards: "flashcard_battle",
+  timed: "timed_challenge",
+  quiz: "timed_challenge",
+  timed_quiz: "timed_challenge",
+  matching: "matching_puzzle",
+  match: "matching_puzzle",
+  matching_game: "matching_puzzle",
+};
+
+export const gameTypeSchema = z
+  .string()
+  .transform((value) => value.trim().toLowerCase().replace(/[\s-]+/g, "_"))
+  .transform((value) => GAME_TYPE_ALIASES[value] ?? value)
+  .pipe(z.enum(GAME_TYPES));
+
+const flashcardSchema = z.preprocess(
+  renameKeys({ front: ["term", "question", "prompt"], back: ["definition", "answer", "match"] }),
+  z.object({ id: optionalId, front: text, back: answerText, hint: z.string().optional() })
+);
+
+const timedQuestionSchema = z
+  .preprocess(
+    renameKeys({
+      prompt: ["question"],
+      correctAnswer: ["correct_answer", "answer", "correct"],
+    }),
+    z.object({
+      id: optionalId,
+      prompt: text,
+      options: z.array(answerText).min(2, "needs at least 2 options"),
+      correctAnswer: answerText,
+      hint: z.string().optional(),
+    })
+  )
+  .refine((q) => q.options.includes(q.correctAnswer), {
+    message: "correctAnswer must be one of the options",
+    path: ["correctAnswer"],
+  });
+
+const matchPairSchema = z.preprocess(
+  renameKeys({ term: ["left", "front"], definition: ["match", "right", "back", "answer"] }),
+  z.object({ id: optionalId, term: text, definition: text })
+);
+
+const flashcardGameSchema = z.object({
+  cards: z.array(flashcardSchema).min(1, "needs at least 1 card").transform(withIds("card")),
+});
+
+const timedChallengeGameSchema = z.preprocess(
+  renameKeys({ timePerQuestion: ["time_per_question", "seconds_per_question"] }),
+  z.object({
+    questions: z.array(timedQuestionSchema).min(1, "needs at least 1 question").transform(withIds("q")),
+    timePerQuestion: z.coerce.number().int().positive().max(600).optional(),
+  })
+);
+
+const matchingGameSchema = z.object({
+  pairs: z.array(matchPairSchema).min(2, "needs at least 2 pairs").transform(withIds("pair")),
+});
+
+export type FlashcardGameData = z.infer<typeof flashcardGameSchema>;
+export type TimedChallengeGameData = z.infer<typeof timedChallengeGameSchema>;
+export type MatchingGameData = z.infer<typeof matchingGameSchema>;
+
+export type ParsedGame =
+  | { gameType: "flashcard_battle"; gameData: FlashcardGameData }
+  | { gameType: "timed_challenge"; gameData: TimedChallengeGameData }
+  | { gameType: "matching_puzzle"; gameData: MatchingGameData };
+
+const GAME_DATA_SCHEMAS = {
+  flashcard_battle: flashcardGameSchema,
+  timed_challenge: timedChallengeGameSchema,
+  matching_puzzle: matchingGameSchema,
+} as const;
+
+/**
+ * Validate a skill game's type and data, normalizing aliases
+ */
+export function parseGameData(gameType: unknown, gameData: unknown): ParseResult<ParsedGame> {
+  const type = gameTypeSchema.safeParse(gameType);
+  if (!type.success) {
+    return { success: false, error: `game_type: unknown game type "${String(gameType)}"` };
+  }
+
+  const schema: z.ZodTypeAny = GAME_DATA_SCHEMAS[type.data];
+  const data = toResult<ParsedGame["gameData"]>(schema.safeParse(decodeJson(gameData)));
+  if (!data.success) {
+    return { success: false, error: `game_data: ${data.error}` };
+  }
+
+  return { success: true, data: { gameType: type.data, gameData: data.data } as ParsedGame };
+}
+
+// ============================================================================
+// Answer Keys
+// ============================================================================
+
+/** Answer keys may be sent bare ("3/4") instead of wrapped ({ correct: "3/4" }) */
+function wrapBare(key: string) {
+  return (value: unknown) => {
+    const decoded = decodeJson(value);
+    if (decoded === null || typeof decoded !== "object" || Array.isArray(decoded)) {
+      return { [key]: decoded };
+    }
+    return renameKeys({ [key]: ["answer", "correct_answer", "value"] })(decoded);
+  };
+}
+
+const choiceKeySchema = z.preprocess(wrapBare("correct"), z.object({ correct: answerText }));
+
+const typedKeySchema = z.preprocess(
+  wrapBare("correct"),
+  z.object({
+    correct: answerText,
+    acceptable: z.array(answerText).optional(),
+    tolerance: z.coerce.number().nonnegative().optional(),
+  })
+);
+
+const orderKeySchema = z.preprocess(wrapBare("correct"), z.object({ correct: z.array(answerText).min(2) }));
+
+const matchingKeySchema = z.preprocess(
+  wrapBare("correct"),
+  z.object({
+    correct: z.union([
+      z.record(answerText),
+      // [{ left, right }] pairs become a left → right map
+      z
+        .array(z.object({ left: text, right: answerText }))
+        .transform((pairs) => Object.fromEntries(pairs.map((p) => [p.left, p.right]))),
+    ]),
+  })
+);
+
+const fillBlankKeySchema = z.preprocess(
+  (value) => renameKeys({ blanks: ["correct"] })(wrapBare("blanks")(value)),
+  z.object({ blanks: z.array(z.union([answerText, z.array(answerText)])).min(1) })
+);
+
+const ANSWER_KEY_SCHEMAS: Record<string, z.ZodTypeAny> = {
+  multiple_choice: choiceKeySchema,
+  short_answer: typedKeySchema,
+  numeric: typedKeySchema,
+  drag_order: orderKeySchema,
+  matching: matchingKeySchema,
+  fill_blank: fillBlankKeySchema,
+};
+
+export type PracticeAnswerKey = {
+  correct?: string | string[] | Record<string, string>;
+  acceptable?: string[];
+  tolerance?: number;
+  blanks?: (string | string[])[];
+};
+
+/**
+ * Validate a practice question's answer key for its question type
+ */
+export function parseAnswerKey(questionType: string, answerKey: unknown): ParseResult<PracticeAnswerKey> {
+  const schema = ANSWER_KEY_SCHEMAS[questionType];
+  if (!schema) {
+    return { success: false, error: `question_type: unsupported type "${questionType}"` };
+  }
+  const result = toResult<PracticeAnswerKey>(schema.safeParse(answerKey));
+  return result.success ? result : { success: false, error: `answer_key: ${result.error}` };
+}
+
+/**
+ * Validate options stored as JSON text or arrays
+ */
+export function parseQuestionOptions(options: unknown): ParseResult<string[] | { left: string; right: string }[] | null> {
+  return toResult<string[] | { left: string; right: string }[] | null>(
+    z
+      .union([z.array(answerText), z.array(z.object({ left: z.string(), right: z.string() })), z.null()])
+      .safeParse(decodeJson(options ?? null))
+  );
+}
+
+// ============================================================================
+// Webhook Actions
+// ============================================================================
+
+const studentId = z.string().uuid("must be a student UUID");
+
+const webhookQuestionSchema = z
+  .object({
+    prompt: text,
+    question_type: z.string(),
+    options: z.unknown().optional(),
+    answer_key: z.unknown(),
+    hint: z.string().nullish(),
+    difficulty: z.coerce.number().int().min(1).max(5).default(1),
+    skill_tag: z.string().nullish(),
+  })
+  .transform((q, ctx) => {
+    const key = parseAnswerKey(q.question_type, q.answer_key);
+    if (!key.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: key.error });
+      return z.NEVER;
+    }
+    return { ...q, answer_key: key.data };
+  });
+
+const createPracticeSetSchema = z.object({
+  student_id: studentId,
+  title: text,
+  description: z.string().nullish(),
+  skill_tags: z.array(z.string()).default([]),
+  xp_reward: z.coerce.number().int().nonnegative().default(0),
+  coin_reward: z.coerce.number().int().nonnegative().default(0),
+  questions: z.array(webhookQuestionSchema).min(1, "needs at least 1 question"),
+});
+
+const createSkillGameSchema = z
+  .object({
+    student_id: studentId,
+    title: text,
+    game_type: z.unknown(),
+    skill_tag: text,
+    difficulty: z.coerce.number().int().min(1).max(5).default(1),
+    xp_reward: z.coerce.number().int().nonnegative().default(0),
+    coin_reward: z.coerce.number().int().nonnegative().default(0),
+    game_data: z.unknown(),
+  })
+  .transform((game, ctx) => {
+    const parsed = parseGameData(game.game_type, game.game_data);
+    if (!parsed.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.error });
+      return z.NEVER;
+    }
+    return { ...game, game_type: parsed.data.gameType, game_data: parsed.data.gameData };
+  });
+
+const updateStudentWeaknessesSchema = z.object({
+  student_id: studentId,
+  weak_topics: z.array(z.string()).default([]),
+  misconceptions: z.array(z.object({ topic: z.string(), issue: z.string() })).default([]),
+  remediation_recommendations: z.array(z.string()).default([]),
+});
+
+const notifyStudentSchema = z.object({
+  student_id: studentId,
+  content_type: z.enum(["practice_set", "skill_game", "assignment", "message"]),
+  content_id: z.string().optional(),
+  message: text,
+});
+
+const syncMasteryUpdateSchema = z.object({
+  student_id: studentId,
+  standard_code: text,
+  mastery_level: z.enum(["not_started", "beginning", "approaching", "meeting", "exceeding", "mastered"]),
+  attempts_count: z.coerce.number().int().nonnegative(),
+  correct_count: z.coerce.number().int().nonnegative(),
+});
+
+export const WEBHOOK_ACTION_SCHEMAS = {
+  create_practice_set: createPracticeSetSchema,
+  create_skill_game: createSkillGameSchema,
+  update_student_weaknesses: updateStudentWeaknessesSchema,
+  notify_student: notifyStudentSchema,
+  sync_mastery_update: syncMasteryUpdateSchema,
+} as const;
+
+export type WebhookAction = keyof typeof WEBHOOK_ACTION_SCHEMAS;
+
+export type WebhookPayload = {
+  [A in WebhookAction]: { action: A; data: z.infer<(typeof WEBHOOK_ACTION_SCHEMAS)[A]> };
+}[WebhookAction];
+
+/**
+ * Validate a webhook request body ({ action, data }) and normalize its data
+ */
+export function parseWebhookPayload(body: unknown): ParseResult<WebhookPayload> {
+  const envelope = z.object({ action: z.string(), data: z.unknown() }).safeParse(decodeJson(body));
+  if (!envelope.success) {
+    return { success: false, error: formatSchemaError(envelope.error) };
+  }
+
+  const { action, data } = envelope.data;
+  // Own keys only, so inherited names like "constructor" are unknown actions
+  if (!Object.prototype.hasOwnProperty.call(WEBHOOK_ACTION_SCHEMAS, action)) {
+    return { success: false, error: `action: unknown action "${action}"` };
+  }
+
+  const result = toResult<WebhookPayload["data"]>(WEBHOOK_ACTION_SCHEMAS[action as WebhookAction].safeParse(data));
+  if (!result.success) {
+    return { success: false, error: `${action}: ${result.error}` };
+  }
+
+  return { success: true, data: { action, data: result.data } as WebhookPayload };
+}
@@ -0,0 +1,307 @@
+/**
+ * Reward Economy
+ *
+ * The leveling curve, per-activity reward rules, streak bonuses and daily
+ * earning caps for a school. Admins publish these as versioned configs;
+ * `DEFAULT_ECONOMY_CONFIG` mirrors the constants in `constants/rewards.ts`
+ * and applies until a config is published.
+ */
+
+import { z } from "zod";
+import {
+  DEFAULT_ASSIGNMENT_REWARDS,
+  DEFAULT_GAME_REWARDS,
+  DEFAULT_PRACTICE_REWARDS,
+  PASSING_SCORE,
+  PRACTICE_MINIMUM_SCORE,
+  QUIZ_BATTLE_REWARDS,
+  REVIEW_COINS,
+  REVIEW_MAX_XP,
+  STREAK_BONUSES,
+  STUDY_GOAL_MAX_COINS,
+  STUDY_GOAL_MAX_XP,
+  XP_PER_LEVEL,
+} from "@/constants";
+import { formatSchemaError, type ParseResult } from "@/lib/contentSchemas";
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const xpAmount = z.number().int().min(0);
+
+const levelCurveSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("linear"),
+    /** XP for every level */
+    xpPerLevel: xpAmount.min(1),
+  }),
+  z.object({
+    type: z.literal("quadratic"),
+    /** XP from level 1 to 2 */
+    baseXp: xpAmount.min(1),
+    /** Extra XP each level after that costs over the one before */
+    growthXp: xpAmount,
+  }),
+  z.object({
+    type: z.literal("table"),
+    /** Total XP to reach level 2, 3, 4, ...; later levels repeat the last step */
+    thresholds: z
+      .array(xpAmount.min(1))
+      .min(1)
+      .refine((t) => t.every((xp, i) => i === 0 || xp > t[i - 1]), "Thresholds must increase"),
+  }),
+]);
+
+const activityRuleSchema = z.object({
+  xp: xpAmount,
+  coins: xpAmount,
+  /** Award the full amount at 100% and proportionally less below it */
+  scaleWithScore: z.boolean(),
+  /** No reward below this score */
+  passingScore: z.number().min(0).max(100),
+});
+
+export const ACTIVITY_TYPES = [
+  "assignment",
+  "practice_set",
+  "game",
+  "battle",
+  "daily_review",
+  "study_goal",
+  "challenge",
+] as const;
+
+export const economyConfigSchema = z.object({
+  levelCurve: levelCurveSchema,
+  activities: z.object(
+    Object.fromEntries(ACTIVITY_TYPES.map((type) => [type, activityRuleSchema])) as Record<
+      ActivityType,
+      typeof activityRuleSchema
+    >
+  ),
+  streak: z.object({
+    xpPerDay: xpAmount,
+    maxXpBonus: xpAmount,
+    coinsPerWeek: xpAmount,
+  }),
+  /** Most a student can earn in one day; null means no cap */
+  dailyCaps: z.object({
+    xp: xpAmount.nullable(),
+    coins: xpAmount.nullable(),
+  }),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+export type LevelCurve = z.infer<typeof levelCurveSchema>;
+export type ActivityRule = z.infer<typeof activityRuleSchema>;
+export type EconomyConfig = z.infer<typeof economyConfigSchema>;
+
+export interface LevelProgress {
+  level: number;
+  /** XP earned since the current level started */
+  xpInLevel: number;
+  /** XP the current level spans */
+  xpForLevel: number;
+  xpToNext: number;
+  /** 0-100 */
+  percent: number;
+}
+
+export interface Reward {
+  xp: number;
+  coins: number;
+}
+
+export interface SimulationProfile {
+  /** How many of each activity the student finishes on a school day */
+  activitiesPerDay: Partial<Record<ActivityType, number>>;
+  averageScore: number;
+}
+
+export interface LevelMilestone {
+  level: number;
+  /** Days of activity to reach the level, or null past the horizon */
+  day: number | null;
+}
+
+export const DEFAULT_ECONOMY_CONFIG: EconomyConfig = {
+  levelCurve: { type: "linear", xpPerLevel: XP_PER_LEVEL },
+  activities: {
+    assignment: { ...fixedReward(DEFAULT_ASSIGNMENT_REWARDS), scaleWithScore: true, passingScore: PASSING_SCORE },
+    practice_set: { ...fixedReward(DEFAULT_PRACTICE_REWARDS), scaleWithScore: false, passingScore: PRACTICE_MINIMUM_SCORE },
+    game: { ...fixedReward(DEFAULT_GAME_REWARDS), scaleWithScore: false, passingScore: PASSING_SCORE },
+    battle: { ...fixedReward(QUIZ_BATTLE_REWARDS), scaleWithScore: false, passingScore: 0 },
+    daily_review: { xp: REVIEW_MAX_XP, coins: REVIEW_COINS, scaleWithScore: true, passingScore: 0 },
+    study_goal: { xp: STUDY_GOAL_MAX_XP, coins: STUDY_GOAL_MAX_COINS, scaleWithScore: false, passingScore: 0 },
+    challenge: { ...fixedReward(DEFAULT_ASSIGNMENT_REWARDS), scaleWithScore: false, passingScore: 0 },
+  },
+  streak: {
+    xpPerDay: STREAK_BONUSES.XP_PER_DAY,
+    maxXpBonus: STREAK_BONUSES.MAX_XP_BONUS,
+    coinsPerWeek: STREAK_BONUSES.COINS_PER_WEEK,
+  },
+  dailyCaps: { xp: null, coins: null },
+};
+
+function fixedReward(rewards: { XP: number; COINS: number }): Reward {
+  return { xp: rewards.XP, coins: rewards.COINS };
+}
+
+/** Levels past this are not tracked */
+export const MAX_LEVEL = 999;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Validate a stored or edited config
+ */
+export function parseEconomyConfig(value: unknown): ParseResult<EconomyConfig> {
+  const result = economyConfigSchema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatSchemaError(result.error) };
+}
+
+// ============================================================================
+// Level Curve
+// ============================================================================
+
+/**
+ * Total XP at which a level starts (level 1 starts at 0)
+ */
+export function xpToReachLevel(curve: LevelCurve, level: number): number {
+  const steps = Math.max(0, level - 1);
+  switch (curve.type) {
+    case "linear":
+      return steps * curve.xpPerLevel;
+    case "quadratic":
+      // Sum of baseXp + growthXp * k for k = 0 .. steps - 1
+      return steps * curve.baseXp + (curve.growthXp * steps * (steps - 1)) / 2;
+    case "table": {
+      const { thresholds } = curve;
+      if (steps <= thresholds.length) return steps === 0 ? 0 : thresholds[steps - 1];
+      const last = thresholds[thresholds.length - 1];
+      const lastStep = thresholds.length > 1 ? last - thresholds[thresholds.length - 2] : last;
+      return last + (steps - thresholds.length) * lastStep;
+    }
+  }
+}
+
+/**
+ * The level a student with this much XP has reached
+ */
+export function levelForXp(curve: LevelCurve, xp: number): number {
+  if (curve.type === "linear") {
+    return Math.min(MAX_LEVEL, Math.floor(Math.max(0, xp) / curve.xpPerLevel) + 1);
+  }
+  let level = 1;
+  while (level < MAX_LEVEL && xpToReachLevel(curve, level + 1) <= xp) {
+    level++;
+  }
+  return level;
+}
+
+/**
+ * Level plus progress toward the next one
+ */
+export function levelProgress(curve: LevelCurve, xp: number): LevelProgress {
+  const level = levelForXp(curve, xp);
+  const start = xpToReachLevel(curve, level);
+  const xpForLevel = xpToReachLevel(curve, level + 1) - start;
+  const xpInLevel = Math.max(0, xp - start);
+  return {
+    level,
+    xpInLevel,
+    xpForLevel,
+    xpToNext: Math.max(0, xpForLevel - xpInLevel),
+    percent: xpForLevel > 0 ? Math.min(100, (xpInLevel / xpForLevel) * 100) : 100,
+  };
+}
+
+// ============================================================================
+// Rewards
+// ============================================================================
+
+/**
+ * What one activity earns at a given score
+ */
+export function calculateActivityReward(rule: ActivityRule, score = 100): Reward {
+  if (score < rule.passingScore) return { xp: 0, coins: 0 };
+  const factor = rule.scaleWithScore ? Math.min(100, Math.max(0, score)) / 100 : 1;
+  return { xp: Math.round(rule.xp * factor), coins: Math.round(rule.coins * factor) };
+}
+
+/**
+ * Streak bonus for a given streak length
+ */
+export function calculateStreakBonus(streak: EconomyConfig["streak"], streakDays: number): Reward {
+  return {
+    xp: Math.min(streakDays * streak.xpPerDay, streak.maxXpBonus),
+    coins: streakDays > 0 && streakDays % 7 === 0 ? streak.coinsPerWeek : 0,
+  };
+}
+
+/**
+ * Trim a reward so the day's total stays within the caps
+ */
+export function applyDailyCap(caps: EconomyConfig["dailyCaps"], earnedToday: Reward, reward: Reward): Reward {
+  const room = (cap: number | null, earned: number, amount: number) =>
+    cap === null ? amount : Math.max(0, Math.min(amount, cap - earned));
+  return {
+    xp: room(caps.xp, earnedToday.xp, reward.xp),
+    coins: room(caps.coins, earnedToday.coins, reward.coins),
+  };
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Days a student following a routine every day takes to reach each level,
+ * with streak bonuses and daily caps applied
+ */
+export function simulateLevelProgression(
+  config: EconomyConfig,
+  profile: SimulationProfile,
+  maxLevel = 20,
+  horizonDays = 730
+): LevelMilestone[] {
+  const dailyReward = ACTIVITY_TYPES.reduce<Reward>(
+    (total, type) => {
+      const count = profile.activitiesPerDay[type] ?? 0;
+      const reward = calculateActivityReward(config.activities[type], profile.averageScore);
+      return { xp: total.xp + reward.xp * count, coins: total.coins + reward.coins * count };
+    },
+    { xp: 0, coins: 0 }
+  );
+
+  const reachedOn = new Map<number, number>();
+  let xp = 0;
+  let level = 1;
+  for (let day = 1; day <= horizonDays && level < maxLevel; day++) {
+    const streakBonus = calculateStreakBonus(config.streak, day);
+    const earned = applyDailyCap(config.dailyCaps, { xp: 0, coins: 0 }, {
+      xp: dailyReward.xp + streakBonus.xp,
+      coins: dailyReward.coins + streakBonus.coins,
+    });
+    if (earned.xp === 0) break;
+
+    xp += earned.xp;
+    const newLevel = Math.min(maxLevel, levelForXp(config.levelCurve, xp));
+    for (let l = level + 1; l <= newLevel; l++) reachedOn.set(l, day);
+    level = newLevel;
+  }
+
+  return Array.from({ length: maxLevel - 1 }, (_, i) => ({
+    level: i + 2,
+    day: reachedOn.get(i + 2) ?? null,
+  }));
+}
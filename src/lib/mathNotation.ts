@@ -0,0 +1,150 @@
+/**
+ * Math Notation
+ *
+ * Splits question and chat text into plain text and LaTeX segments, and
+ * turns typed answers such as "sqrt(x)^2 <= 3pi" into LaTeX for previews.
+ *
+ * Supported delimiters are $$…$$ and \[…\] for display math and $…$ and
+ * \(…\) for inline math. A "$" only opens inline math when followed by a
+ * non-space character and only closes it when preceded by one and not
+ * followed by a digit, so prices like "$5 and $10" stay plain text.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MathSegment =
+  | { type: "text"; value: string }
+  | { type: "inline"; value: string }
+  | { type: "display"; value: string };
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Find the closing inline "$" for an opening "$" at `start`, or -1
+ */
+function findInlineClose(text: string, start: number): number {
+  if (/\s/.test(text[start + 1] ?? " ")) return -1;
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "$") {
+      return /\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? "") ? -1 : i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split text into plain and math segments. Unclosed delimiters are kept as text.
+ */
+export function splitMathSegments(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  let plain = "";
+  let i = 0;
+
+  const pushMath = (type: "inline" | "display", value: string) => {
+    if (plain) segments.push({ type: "text", value: plain });
+    plain = "";
+    segments.push({ type, value: value.trim() });
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    if (rest.startsWith("\\$")) {
+      plain += "$";
+      i += 2;
+      continue;
+    }
+
+    const display = rest.startsWith("$$") ? "$$" : rest.startsWith("\\[") ? "\\]" : null;
+    if (display) {
+      const close = text.indexOf(display, i + 2);
+      if (close > i + 2) {
+        pushMath("display", text.slice(i + 2, close));
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("\\(")) {
+      const close = text.indexOf("\\)", i + 2);
+      if (close > i + 2) {
+        pushMath("inline", text.slice(i + 2, close));
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (text[i] === "$" && !rest.startsWith("$$")) {
+      const close = findInlineClose(text, i);
+      if (close > i + 1) {
+        pushMath("inline", text.slice(i + 1, close));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    plain += text[i];
+    i++;
+  }
+
+  if (plain) segments.push({ type: "text", value: plain });
+  return segments;
+}
+
+/**
+ * Whether text contains any LaTeX math
+ */
+export function hasMathNotation(text: string): boolean {
+  return splitMathSegments(text).some((segment) => segment.type !== "text");
+}
+
+// ============================================================================
+// Typed Answers
+// ============================================================================
+
+/**
+ * Convert a typed plain-text answer into LaTeX for a live preview.
+ * Handles powers, square roots, pi, comparison symbols and ±.
+ */
+export function plainMathToLatex(input: string): string {
+  let latex = input
+    .replace(/\*\*/g, "^")
+    .replace(/<=|≤/g, " \\le ")
+    .replace(/>=|≥/g, " \\ge ")
+    .replace(/!=|≠/g, " \\ne ")
+    .replace(/\+\/-|±/g, " \\pm ")
+    .replace(/pi|π/g, "\\pi ")
+    .replace(/\*/g, " \\cdot ")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3");
+
+  // sqrt(...) and √(...) with balanced parentheses become \sqrt{...}
+  let match: RegExpExecArray | null;
+  const sqrtPattern = /(?:sqrt|√)\(/;
+  while ((match = sqrtPattern.exec(latex))) {
+    const open = match.index + match[0].length - 1;
+    let depth = 0;
+    let close = -1;
+    for (let i = open; i < latex.length; i++) {
+      if (latex[i] === "(") depth++;
+      if (latex[i] === ")" && --depth === 0) {
+        close = i;
+        break;
+      }
+    }
+    if (close < 0) break;
+    latex = `${latex.slice(0, match.index)}\\sqrt{${latex.slice(open + 1, close)}}${latex.slice(close + 1)}`;
+  }
+  latex = latex.replace(/√(\w+)/g, "\\sqrt{$1}");
+
+  // Multi-character exponents need braces: x^10, x^-1, x^(n+1)
+  return latex
+    .replace(/\^\(([^()]*)\)/g, "^{$1}")
+    .replace(/\^(-\d+|\d{2,})/g, "^{$1}");
+}
@@ -0,0 +1,154 @@
+/**
+ * Mock Regents Exam
+ *
+ * Builds a full-length mock exam from a blueprint and scores it, converting
+ * raw points (summed from pointValue) to a scaled 0–100 Regents score.
+ */
+
+import type { MockExamBlueprint } from "@/data/regentsExamBlueprints";
+import type { RegentsQuestion } from "@/data/regentsSampleQuestions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MockExamSection {
+  partId: string;
+  name: string;
+  questions: RegentsQuestion[];
+}
+
+export interface MockExam {
+  examId: string;
+  totalSeconds: number;
+  sections: MockExamSection[];
+}
+
+export interface MockExamPartScore {
+  partId: string;
+  name: string;
+  rawScore: number;
+  maxRawScore: number;
+  correct: number;
+  total: number;
+}
+
+export interface MockExamScore {
+  rawScore: number;
+  maxRawScore: number;
+  scaledScore: number;
+  correct: number;
+  answered: number;
+  total: number;
+  parts: MockExamPartScore[];
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Fill each blueprint part from the question pool, preferring the part's
+ * difficulties in order. Questions are never repeated across parts; parts are
+ * shortened when the pool runs out.
+ */
+export function buildMockExam(
+  blueprint: MockExamBlueprint,
+  pool: RegentsQuestion[],
+  random: () => number = Math.random
+): MockExam {
+  let remaining = shuffle(pool, random);
+
+  const sections = blueprint.parts.map((part) => {
+    const picked: RegentsQuestion[] = [];
+    const preferences = [...part.difficulties, ...[1, 2, 3].filter((d) => !part.difficulties.includes(d))];
+
+    for (const difficulty of preferences) {
+      if (picked.length >= part.questionCount) break;
+      const matches = remaining.filter((q) => q.difficulty === difficulty);
+      picked.push(...matches.slice(0, part.questionCount - picked.length));
+      remaining = remaining.filter((q) => !picked.includes(q));
+    }
+
+    return { partId: part.id, name: part.name, questions: picked };
+  });
+
+  return {
+    examId: blueprint.examId,
+    totalSeconds: blueprint.totalMinutes * 60,
+    sections: sections.filter((s) => s.questions.length > 0),
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Convert a raw score to the scaled 0–100 score by interpolating between the
+ * blueprint's conversion anchors.
+ */
+export function convertToScaledScore(
+  conversionTable: [number, number][],
+  rawScore: number,
+  maxRawScore: number
+): number {
+  if (maxRawScore <= 0 || conversionTable.length === 0) return 0;
+  const fraction = Math.min(1, Math.max(0, rawScore / maxRawScore));
+
+  for (let i = 1; i < conversionTable.length; i++) {
+    const [upperRaw, upperScaled] = conversionTable[i];
+    if (fraction <= upperRaw) {
+      const [lowerRaw, lowerScaled] = conversionTable[i - 1];
+      const span = upperRaw - lowerRaw;
+      const t = span === 0 ? 1 : (fraction - lowerRaw) / span;
+      return Math.round(lowerScaled + t * (upperScaled - lowerScaled));
+    }
+  }
+
+  return conversionTable[conversionTable.length - 1][1];
+}
+
+/**
+ * Score a submitted mock exam. `answers` maps question id to chosen option.
+ */
+export function scoreMockExam(
+  exam: MockExam,
+  blueprint: MockExamBlueprint,
+  answers: Record<string, string>
+): MockExamScore {
+  const parts = exam.sections.map((section) => {
+    const correctQuestions = section.questions.filter((q) => answers[q.id] === q.correctAnswer);
+    return {
+      partId: section.partId,
+      name: section.name,
+      rawScore: correctQuestions.reduce((sum, q) => sum + q.pointValue, 0),
+      maxRawScore: section.questions.reduce((sum, q) => sum + q.pointValue, 0),
+      correct: correctQuestions.length,
+      total: section.questions.length,
+    };
+  });
+
+  const rawScore = parts.reduce((sum, p) => sum + p.rawScore, 0);
+  const maxRawScore = parts.reduce((sum, p) => sum + p.maxRawScore, 0);
+  const allQuestions = exam.sections.flatMap((s) => s.questions);
+
+  return {
+    rawScore,
+    maxRawScore,
+    scaledScore: convertToScaledScore(blueprint.conversionTable, rawScore, maxRawScore),
+    correct: parts.reduce((sum, p) => sum + p.correct, 0),
+    answered: allQuestions.filter((q) => answers[q.id] !== undefined).length,
+    total: allQuestions.length,
+    parts,
+  };
+}
@@ -0,0 +1,352 @@
+/**
+ * Offline Outbox
+ *
+ * Durable IndexedDB queue for edge function calls made while the student is
+ * offline. Entries are keyed by a dedupe id, so queueing the same submission
+ * twice keeps a single entry, and are replayed in order once the browser is
+ * back online.
+ *
+ * Replay is idempotent: reward claims are checked against `reward_claims`
+ * using the same `<student>:<claim_type>:<reference_id>` claim key the
+ * award-rewards function writes, graded submissions carry a fixed attempt
+ * id, and NYCologic sync events carry a dedupe key that is checked against
+ * the `nycologic_sync_events` delivery log.
+ *
+ * Failed entries back off exponentially before they are retried.
+ *
+ * School devices are shared, so when a student signs out, or a different
+ * student signs in, `clearOfflineData` drops the service worker's cached
+ * learning data. Queued entries stay: each belongs to the student who
+ * queued it and only replays in their session, so work still waiting at
+ * sign-out goes out the next time they sign in on this device.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { checkRewardClaimed } from "@/lib/api/student";
+import { isSyncEventSent, recordSyncAttempt, type SyncEventPayload } from "@/lib/api/nycologicSync";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutboxFunction = "grade-assignment" | "award-rewards" | "sync-to-nycologic";
+
+export interface OutboxEntry {
+  /** `<student>:<dedupe key>`; queueing an entry with an existing id is a no-op */
+  id: string;
+  /** Student whose session queued the entry; only their session replays it */
+  userId: string | null;
+  functionName: OutboxFunction;
+  /** Request body passed to supabase.functions.invoke */
+  body: Record<string, unknown>;
+  createdAt: string;
+  attempts: number;
+  lastAttemptAt: string | null;
+  lastError: string | null;
+  /** Earliest time the entry may be retried after a failure */
+  nextAttemptAt: string | null;
+}
+
+export interface ReplayOptions {
+  /** Retry now, ignoring backoff and the attempt limit (manual "Sync now") */
+  force?: boolean;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  failed: number;
+  remaining: number;
+  /** When the next backed-off entry becomes due, if any */
+  nextAttemptAt: string | null;
+}
+
+const DB_NAME = "scholar-offline";
+const DB_VERSION = 1;
+const STORE = "outbox";
+const CHANGE_EVENT = "scholar:outbox-change";
+/** The signed-in user whose offline data is on this device */
+const OWNER_STORAGE_KEY = "scholar:offline-owner";
+
+/** Runtime cache of authenticated REST reads; must match vite.config.ts */
+export const LEARNING_DATA_CACHE = "learning-data";
+
+/** Entries rejected this many times are kept but no longer replayed automatically */
+export const MAX_REPLAY_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+// ============================================================================
+// Queue Operations
+// ============================================================================
+
+async function currentUserId(): Promise<string | null> {
+  // getSession reads the stored session, so it works without a connection
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+function entryId(userId: string | null, dedupeKey: string): string {
+  return `${userId ?? "anonymous"}:${dedupeKey}`;
+}
+
+/**
+ * Queue an edge function call for the signed-in student. Returns false when
+ * an entry with the same dedupe key is already waiting.
+ */
+export async function enqueueOutbox(
+  dedupeKey: string,
+  functionName: OutboxFunction,
+  body: Record<string, unknown>
+): Promise<boolean> {
+  const userId = await currentUserId();
+  const id = entryId(userId, dedupeKey);
+  const existing = await withStore("readonly", (store) => store.get(id));
+  if (existing) return false;
+
+  const entry: OutboxEntry = {
+    id,
+    userId,
+    functionName,
+    body,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    lastAttemptAt: null,
+    lastError: null,
+    nextAttemptAt: null,
+  };
+  await withStore("readwrite", (store) => store.add(entry));
+  notifyChange();
+  return true;
+}
+
+/**
+ * Whether the signed-in student still has an entry waiting under this dedupe key
+ */
+export async function isInOutbox(dedupeKey: string): Promise<boolean> {
+  const id = entryId(await currentUserId(), dedupeKey);
+  return (await withStore("readonly", (store) => store.count(id))) > 0;
+}
+
+/**
+ * All queued entries, oldest first
+ */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * How many entries the signed-in student has waiting
+ */
+export async function countOutbox(): Promise<number> {
+  const userId = await currentUserId();
+  if (!userId) return 0;
+  return (await listOutbox()).filter((entry) => entry.userId === userId).length;
+}
+
+export async function removeFromOutbox(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+  notifyChange();
+}
+
+/**
+ * Remove cached learning data and record `ownerId` (nobody when null) as
+ * the device's user. Queued entries are kept for whoever queued them.
+ */
+export async function clearOfflineData(ownerId: string | null): Promise<void> {
+  if ("caches" in window) {
+    await caches.delete(LEARNING_DATA_CACHE);
+  }
+
+  if (ownerId) {
+    localStorage.setItem(OWNER_STORAGE_KEY, ownerId);
+  } else {
+    localStorage.removeItem(OWNER_STORAGE_KEY);
+  }
+}
+
+/**
+ * Clear cached reads left by anyone else when `userId` signs in
+ */
+export async function claimOfflineData(userId: string): Promise<void> {
+  if (localStorage.getItem(OWNER_STORAGE_KEY) === userId) return;
+  await clearOfflineData(userId);
+}
+
+/**
+ * Listen for queue changes in this tab. Returns an unsubscribe function.
+ */
+export function subscribeToOutbox(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+// ============================================================================
+// Connectivity
+// ============================================================================
+
+/**
+ * Whether a failed call should be queued rather than reported: the browser
+ * is offline or the request never reached the server.
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const name = (error as { name?: string } | null)?.name;
+  return name === "FunctionsFetchError" || error instanceof TypeError;
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+let activeReplay: Promise<ReplayResult> | null = null;
+
+/**
+ * Delay before the next retry: 30s, 1m, 2m, ... capped at an hour
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+async function replayEntry(entry: OutboxEntry): Promise<void> {
+  if (entry.functionName === "award-rewards") {
+    const claimType = String(entry.body.claim_type);
+    const referenceId = String(entry.body.reference_id);
+    if (await checkRewardClaimed(claimType, referenceId)) return;
+  }
+
+  if (entry.functionName === "sync-to-nycologic") {
+    if (await isSyncEventSent(String(entry.body.dedupe_key))) return;
+  }
+
+  const { data, error } = await supabase.functions.invoke(entry.functionName, { body: entry.body });
+  if (error) throw error;
+  if (data && data.success === false && !data.already_claimed) {
+    throw new Error(data.error || `${entry.functionName} failed`);
+  }
+}
+
+/**
+ * Log a sync delivery attempt so admins can see failed events. Best effort:
+ * the outbox entry itself is the durable copy.
+ */
+async function logSyncAttempt(entry: OutboxEntry, error: string | null): Promise<void> {
+  if (entry.functionName !== "sync-to-nycologic") return;
+  try {
+    await recordSyncAttempt({
+      payload: entry.body as unknown as SyncEventPayload,
+      attempts: entry.attempts + 1,
+      error,
+    });
+  } catch (logError) {
+    console.error("Failed to log sync attempt:", logError);
+  }
+}
+
+function isDue(entry: OutboxEntry, now: number, force: boolean): boolean {
+  if (force) return true;
+  if (entry.attempts >= MAX_REPLAY_ATTEMPTS) return false;
+  return !entry.nextAttemptAt || Date.parse(entry.nextAttemptAt) <= now;
+}
+
+async function runReplay(options: ReplayOptions): Promise<ReplayResult> {
+  const userId = await currentUserId();
+  const now = Date.now();
+  const entries = (await listOutbox()).filter(
+    (entry) => userId && entry.userId === userId && isDue(entry, now, !!options.force)
+  );
+  let replayed = 0;
+  let failed = 0;
+
+  for (const entry of entries) {
+    try {
+      await replayEntry(entry);
+      await logSyncAttempt(entry, null);
+      await removeFromOutbox(entry.id);
+      replayed++;
+    } catch (error) {
+      // Still offline: stop and keep the rest of the queue in order
+      if (isOfflineError(error)) break;
+      failed++;
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = entry.attempts + 1;
+      await logSyncAttempt(entry, message);
+      await saveOutboxEntry({
+        ...entry,
+        attempts,
+        lastAttemptAt: new Date().toISOString(),
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+      });
+    }
+  }
+
+  const remaining = (await listOutbox()).filter((entry) => entry.userId === userId);
+  const upcoming = remaining
+    .filter((entry) => entry.attempts < MAX_REPLAY_ATTEMPTS && entry.nextAttemptAt)
+    .map((entry) => entry.nextAttemptAt as string)
+    .sort();
+
+  return { replayed, failed, remaining: remaining.length, nextAttemptAt: upcoming[0] ?? null };
+}
+
+/**
+ * Send every queued entry that is due. Concurrent calls share one replay.
+ */
+export function replayOutbox(options: ReplayOptions = {}): Promise<ReplayResult> {
+  if (!activeReplay) {
+    activeReplay = runReplay(options).finally(() => {
+      activeReplay = null;
+    });
+  }
+  return activeReplay;
+}
@@ -0,0 +1,225 @@
+/**
+ * Parent Alerts
+ *
+ * Rules a parent opts into per child, and the alerts raised when the
+ * matching event happens. The client that sees the event builds the alert;
+ * the server matches it against each verified parent's rules, skips
+ * repeats by dedupe key, and holds email until quiet hours are over.
+ *
+ * Matching, per rule:
+ * - `enabled` must be on
+ * - `low_score` fires when the score is below the rule's threshold
+ * - every other kind fires on the event itself
+ * - in-app alerts are delivered at once; email raised in quiet hours is
+ *   scheduled for when they end (see `nextDeliveryTime`)
+ */
+
+import { LOW_SCORE_ALERT_THRESHOLD, STREAK_ALERT_HOUR, STREAK_TIME_ZONE } from "@/constants";
+import type { Database } from "@/integrations/supabase/types";
+import type { DayKey } from "@/lib/streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParentAlertKind = Database["public"]["Enums"]["parent_alert_kind"];
+
+export type AlertChannel = Database["public"]["Enums"]["alert_channel"];
+
+export interface ParentAlertRule {
+  studentId: string;
+  kind: ParentAlertKind;
+  enabled: boolean;
+  channels: AlertChannel[];
+  /** Only used by `low_score` */
+  threshold: number | null;
+  /** "HH:MM" in `timeZone`; both null means no quiet hours */
+  quietStart: string | null;
+  quietEnd: string | null;
+  timeZone: string;
+}
+
+export type ParentAlertEvent =
+  | { kind: "low_score"; assignmentId: string; assignmentTitle: string; score: number }
+  | { kind: "missed_due_date"; assignmentId: string; assignmentTitle: string; dueAt: string }
+  | { kind: "streak_at_risk"; day: DayKey; streak: number }
+  | { kind: "badge_earned"; badgeId: string; badgeName: string }
+  | { kind: "pledge_reached"; pledgeId: string; reward: string; coins: number; threshold: number };
+
+/** What is sent to the server for matching */
+export interface ParentAlert {
+  kind: ParentAlertKind;
+  /** Compared against the rule's threshold */
+  value: number | null;
+  /** The same event is only delivered once per rule */
+  dedupeKey: string;
+  title: string;
+  message: string;
+  icon: string;
+  data: Record<string, string | number>;
+}
+
+export const PARENT_ALERT_KINDS: Record<
+  ParentAlertKind,
+  { label: string; description: string; defaultThreshold: number | null }
+> = {
+  low_score: {
+    label: "Low score",
+    description: "Scores below the threshold on any assignment",
+    defaultThreshold: LOW_SCORE_ALERT_THRESHOLD,
+  },
+  missed_due_date: {
+    label: "Missed due date",
+    description: "An assignment's due date passes with nothing handed in",
+    defaultThreshold: null,
+  },
+  streak_at_risk: {
+    label: "Streak about to break",
+    description: "No learning activity yet by the evening of a school day",
+    defaultThreshold: null,
+  },
+  badge_earned: {
+    label: "Badge earned",
+    description: "Earns any badge",
+    defaultThreshold: null,
+  },
+  pledge_reached: {
+    label: "Pledge threshold reached",
+    description: "Has enough coins for one of your point pledges",
+    defaultThreshold: null,
+  },
+};
+
+const DEFAULT_QUIET_HOURS = { start: "21:00", end: "07:00" };
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * A rule as it starts out before the parent turns it on
+ */
+export function defaultAlertRule(studentId: string, kind: ParentAlertKind, timeZone: string): ParentAlertRule {
+  return {
+    studentId,
+    kind,
+    enabled: false,
+    channels: ["in_app"],
+    threshold: PARENT_ALERT_KINDS[kind].defaultThreshold,
+    quietStart: DEFAULT_QUIET_HOURS.start,
+    quietEnd: DEFAULT_QUIET_HOURS.end,
+    timeZone,
+  };
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/** Minutes past midnight on the wall clock in `timeZone` */
+function minutesInTimeZone(now: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+type QuietHours = Pick<ParentAlertRule, "quietStart" | "quietEnd" | "timeZone">;
+
+/**
+ * Whether `now` falls in the rule's quiet hours. A window whose end is
+ * before its start runs past midnight.
+ */
+export function isInQuietHours(rule: QuietHours, now: Date): boolean {
+  if (!rule.quietStart || !rule.quietEnd || rule.quietStart === rule.quietEnd) return false;
+
+  const current = minutesInTimeZone(now, rule.timeZone);
+  const start = minutesOf(rule.quietStart);
+  const end = minutesOf(rule.quietEnd);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * When an email for this rule may go out: now, or the end of the quiet
+ * hours `now` falls in
+ */
+export function nextDeliveryTime(rule: QuietHours, now: Date): Date {
+  if (!isInQuietHours(rule, now)) return now;
+  const untilEnd = (minutesOf(rule.quietEnd!) - minutesInTimeZone(now, rule.timeZone) + 24 * 60) % (24 * 60);
+  const at = new Date(now.getTime() + untilEnd * 60 * 1000);
+  at.setSeconds(0, 0);
+  return at;
+}
+
+/**
+ * Whether it is late enough in the school day to warn that an untouched
+ * streak is about to break
+ */
+export function isStreakAlertTime(now: Date): boolean {
+  return minutesInTimeZone(now, STREAK_TIME_ZONE) >= STREAK_ALERT_HOUR * 60;
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+export function buildParentAlert(event: ParentAlertEvent, studentName: string): ParentAlert {
+  switch (event.kind) {
+    case "low_score":
+      return {
+        kind: event.kind,
+        value: event.score,
+        dedupeKey: `assignment:${event.assignmentId}`,
+        title: `${studentName} scored ${event.score}%`,
+        message: `${studentName} scored ${event.score}% on "${event.assignmentTitle}".`,
+        icon: "📉",
+        data: { assignment_id: event.assignmentId, score: event.score },
+      };
+    case "missed_due_date":
+      return {
+        kind: event.kind,
+        value: null,
+        dedupeKey: `assignment:${event.assignmentId}`,
+        title: `${studentName} missed a due date`,
+        message: `"${event.assignmentTitle}" was due ${new Date(event.dueAt).toLocaleDateString()} and hasn't been handed in.`,
+        icon: "⏰",
+        data: { assignment_id: event.assignmentId, due_at: event.dueAt },
+      };
+    case "streak_at_risk":
+      return {
+        kind: event.kind,
+        value: event.streak,
+        dedupeKey: `day:${event.day}`,
+        title: `${studentName}'s streak is about to break`,
+        message: `${studentName} hasn't done any learning activity today. Their ${event.streak}-day streak ends at midnight.`,
+        icon: "🔥",
+        data: { day: event.day, streak: event.streak },
+      };
+    case "badge_earned":
+      return {
+        kind: event.kind,
+        value: null,
+        dedupeKey: `badge:${event.badgeId}`,
+        title: `${studentName} earned a badge`,
+        message: `${studentName} earned the "${event.badgeName}" badge.`,
+        icon: "🏅",
+        data: { badge_id: event.badgeId },
+      };
+    case "pledge_reached":
+      return {
+        kind: event.kind,
+        value: event.coins,
+        dedupeKey: `pledge:${event.pledgeId}`,
+        title: `${studentName} reached your pledge`,
+        message: `${studentName} has ${event.coins} coins, reaching the ${event.threshold}-coin goal for "${event.reward}".`,
+        icon: "🎁",
+        data: { pledge_id: event.pledgeId, coins: event.coins, threshold: event.threshold },
+      };
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Parent Digest
+ *
+ * Builds and renders the periodic progress summary sent to parents, one
+ * section per linked child. Everything here is pure: the API layer loads
+ * the rows, and the same functions render the email, the in-app message
+ * and the local preview.
+ *
+ * Copy comes from the `digest` section of the translations, so a digest
+ * in a language without manual translations falls back to English.
+ */
+
+import { subDays, subMonths } from "date-fns";
+import { getTranslations, type TranslationKeys } from "@/i18n/translations";
+import { getLanguage, type LanguageCode } from "@/i18n/languages";
+import type { Database } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DigestCadence = Database["public"]["Enums"]["digest_cadence"];
+
+type StudentStatus = Database["public"]["Enums"]["student_status_type"];
+
+export interface DigestPeriod {
+  /** ISO timestamps; start inclusive, end exclusive */
+  start: string;
+  end: string;
+}
+
+/** One child's rows for the period, as loaded */
+export interface ChildDigestInput {
+  studentId: string;
+  name: string;
+  ledger: { xpDelta: number; coinDelta: number }[];
+  completed: { title: string; score: number | null }[];
+  /** Due in the period with nothing handed in */
+  missed: { title: string; dueAt: string }[];
+  streakStart: number;
+  streakEnd: number;
+  badges: { name: string; earnedAt: string }[];
+  /** Standards practiced in the period */
+  mastery: { code: string; level: string; correct: number; attempts: number; masteredInPeriod: boolean }[];
+  statusLogs: { status: StudentStatus; notes: string | null; recordedAt: string }[];
+}
+
+export interface ChildDigest {
+  studentId: string;
+  name: string;
+  xpEarned: number;
+  coinsEarned: number;
+  coinsSpent: number;
+  completed: ChildDigestInput["completed"];
+  missed: ChildDigestInput["missed"];
+  streak: { start: number; end: number };
+  badges: ChildDigestInput["badges"];
+  mastery: ChildDigestInput["mastery"];
+  statusCounts: Partial<Record<StudentStatus, number>>;
+  /** Status logs the teacher wrote a note on, newest first */
+  teacherNotes: ChildDigestInput["statusLogs"];
+  hasActivity: boolean;
+}
+
+export interface ParentDigest {
+  parentName: string;
+  language: LanguageCode;
+  period: DigestPeriod;
+  children: ChildDigest[];
+}
+
+/** Body for Brevo's transactional email endpoint, `BREVO_API_URL` */
+export interface BrevoEmail {
+  to: { email: string; name?: string }[];
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+  tags: string[];
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+function periodStart(cadence: Exclude<DigestCadence, "off">, end: Date): Date {
+  switch (cadence) {
+    case "weekly":
+      return subDays(end, 7);
+    case "biweekly":
+      return subDays(end, 14);
+    case "monthly":
+      return subMonths(end, 1);
+  }
+}
+
+/**
+ * The period a digest sent at `end` covers
+ */
+export function digestPeriod(cadence: DigestCadence, end: Date): DigestPeriod {
+  const start = periodStart(cadence === "off" ? "weekly" : cadence, end);
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/**
+ * Whether a full period has passed since the last digest went out
+ */
+export function isDigestDue(cadence: DigestCadence, lastSentAt: string | null, now: Date): boolean {
+  if (cadence === "off") return false;
+  if (!lastSentAt) return true;
+  return periodStart(cadence, now) >= new Date(lastSentAt);
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+export function buildChildDigest(input: ChildDigestInput): ChildDigest {
+  let xpEarned = 0;
+  let coinsEarned = 0;
+  let coinsSpent = 0;
+  for (const entry of input.ledger) {
+    if (entry.xpDelta > 0) xpEarned += entry.xpDelta;
+    if (entry.coinDelta > 0) coinsEarned += entry.coinDelta;
+    else coinsSpent -= entry.coinDelta;
+  }
+
+  const statusCounts: ChildDigest["statusCounts"] = {};
+  for (const log of input.statusLogs) {
+    statusCounts[log.status] = (statusCounts[log.status] ?? 0) + 1;
+  }
+
+  const teacherNotes = input.statusLogs
+    .filter((log) => log.notes?.trim())
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+
+  return {
+    studentId: input.studentId,
+    name: input.name,
+    xpEarned,
+    coinsEarned,
+    coinsSpent,
+    completed: input.completed,
+    missed: input.missed,
+    streak: { start: input.streakStart, end: input.streakEnd },
+    badges: input.badges,
+    mastery: input.mastery,
+    statusCounts,
+    teacherNotes,
+    hasActivity:
+      input.ledger.length > 0 ||
+      input.completed.length > 0 ||
+      input.missed.length > 0 ||
+      input.badges.length > 0 ||
+      input.mastery.length > 0 ||
+      input.statusLogs.length > 0,
+  };
+}
+
+/**
+ * A made-up digest for previewing the layout without any linked children
+ */
+export function sampleParentDigest(language: LanguageCode, now: Date): ParentDigest {
+  const period = digestPeriod("weekly", now);
+  const day = (daysAgo: number) => subDays(now, daysAgo).toISOString();
+
+  return {
+    parentName: "Sample Parent",
+    language,
+    period,
+    children: [
+      buildChildDigest({
+        studentId: "sample",
+        name: "Alex",
+        ledger: [
+          { xpDelta: 50, coinDelta: 10 },
+          { xpDelta: 75, coinDelta: 15 },
+          { xpDelta: 0, coinDelta: -20 },
+        ],
+        completed: [
+          { title: "Solving Linear Equations", score: 92 },
+          { title: "Reading Check: Chapter 5", score: 78 },
+        ],
+        missed: [{ title: "Lab Report: Density", dueAt: day(2) }],
+        streakStart: 3,
+        streakEnd: 8,
+        badges: [{ name: "Week Warrior", earnedAt: day(1) }],
+        mastery: [
+          { code: "AI-A.REI.4", level: "mastered", correct: 18, attempts: 20, masteredInPeriod: true },
+          { code: "AI-F.IF.4", level: "developing", correct: 5, attempts: 10, masteredInPeriod: false },
+        ],
+        statusLogs: [
+          { status: "excellent", notes: "Helped a classmate with factoring.", recordedAt: day(3) },
+          { status: "on_task", notes: null, recordedAt: day(4) },
+        ],
+      }),
+    ],
+  };
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function fill(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDay(iso: string, language: LanguageCode): string {
+  return new Intl.DateTimeFormat(language, { month: "short", day: "numeric" }).format(new Date(iso));
+}
+
+/** The last moment inside the period, for display */
+function periodLabel(period: DigestPeriod, language: LanguageCode) {
+  const lastDay = new Date(new Date(period.end).getTime() - 1).toISOString();
+  return { from: formatDay(period.start, language), to: formatDay(lastDay, language) };
+}
+
+export function renderDigestSubject(digest: ParentDigest): string {
+  const t = getTranslations(digest.language).digest;
+  const { from, to } = periodLabel(digest.period, digest.language);
+  return fill(t.subject, { period: `${from} – ${to}` });
+}
+
+function statRow(label: string, value: string | number): string {
+  return `<tr><td style="padding:4px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:4px 0;text-align:end;font-weight:600">${escapeHtml(String(value))}</td></tr>`;
+}
+
+function listSection(title: string, items: string[], t: TranslationKeys["digest"]): string {
+  const body = items.length > 0
+    ? `<ul style="margin:4px 0 0;padding-inline-start:20px">${items.map((item) => `<li>${item}</li>`).join("")}</ul>`
+    : `<p style="margin:4px 0 0;color:#6b7280">${escapeHtml(t.none)}</p>`;
+  return `<h3 style="margin:16px 0 0;font-size:15px">${escapeHtml(title)}</h3>${body}`;
+}
+
+function renderChildHtml(child: ChildDigest, language: LanguageCode): string {
+  const t = getTranslations(language).digest;
+  const heading = `<h2 style="margin:0 0 8px;font-size:18px;color:#4f46e5">${escapeHtml(child.name)}</h2>`;
+
+  if (!child.hasActivity) {
+    return `${heading}<p style="margin:0;color:#6b7280">${escapeHtml(t.noActivity)}</p>`;
+  }
+
+  const stats = [
+    statRow(t.xpEarned, child.xpEarned),
+    statRow(t.coinsEarned, child.coinsEarned),
+    statRow(t.coinsSpent, child.coinsSpent),
+    statRow(t.assignmentsCompleted, child.completed.length),
+    statRow(t.assignmentsMissed, child.missed.length),
+    statRow(t.streak, fill(t.streakChange, { from: child.streak.start, to: child.streak.end })),
+  ].join("");
+
+  const completed = child.completed.map(
+    (a) => `${escapeHtml(a.title)}${a.score !== null ? ` <span style="color:#6b7280">(${a.score}%)</span>` : ""}`
+  );
+  const missed = child.missed.map(
+    (a) => `${escapeHtml(a.title)} <span style="color:#6b7280">(${escapeHtml(formatDay(a.dueAt, language))})</span>`
+  );
+  const badges = child.badges.map((b) => `🏅 ${escapeHtml(b.name)}`);
+  const mastery = child.mastery.map((m) => {
+    const percent = m.attempts > 0 ? Math.round((m.correct / m.attempts) * 100) : 0;
+    const level = (t.masteryLevel as Record<string, string>)[m.level] ?? m.level;
+    const badge = m.masteredInPeriod ? ` <strong style="color:#16a34a">${escapeHtml(t.newlyMastered)}</strong>` : "";
+    return `${escapeHtml(m.code)}: ${escapeHtml(level)} (${percent}%)${badge}`;
+  });
+  const statusSummary = (Object.entries(child.statusCounts) as [StudentStatus, number][])
+    .map(([status, count]) => `${escapeHtml(t.status[status])} ×${count}`)
+    .join(", ");
+  const notes = child.teacherNotes.map(
+    (log) =>
+      `<span style="color:#6b7280">${escapeHtml(formatDay(log.recordedAt, language))}, ${escapeHtml(t.status[log.status])}:</span> ${escapeHtml(log.notes ?? "")}`
+  );
+
+  return [
+    heading,
+    `<table role="presentation" style="width:100%;border-collapse:collapse;font-size:14px">${stats}</table>`,
+    listSection(t.assignmentsCompleted, completed, t),
+    listSection(t.assignmentsMissed, missed, t),
+    listSection(t.newBadges, badges, t),
+    listSection(t.mastery, mastery, t),
+    listSection(t.teacherNotes, statusSummary ? [statusSummary, ...notes] : notes, t),
+  ].join("");
+}
+
+/**
+ * Standalone HTML email with inline styles, so it renders the same in
+ * mail clients and the preview iframe
+ */
+export function renderDigestHtml(digest: ParentDigest): string {
+  const t = getTranslations(digest.language).digest;
+  const dir = getLanguage(digest.language)?.rtl ? "rtl" : "ltr";
+  const { from, to } = periodLabel(digest.period, digest.language);
+
+  const children = digest.children
+    .map(
+      (child) =>
+        `<div style="background:#ffffff;border:1px solid #e5e7eb;border-radius:12px;padding:20px;margin-top:16px">${renderChildHtml(child, digest.language)}</div>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="${digest.language}" dir="${dir}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${escapeHtml(renderDigestSubject(digest))}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Nunito,Arial,sans-serif;color:#111827">
+<div style="max-width:600px;margin:0 auto">
+<h1 style="margin:0;font-size:22px">${escapeHtml(t.heading)}</h1>
+<p style="margin:8px 0 0;color:#374151">${escapeHtml(fill(t.intro, { from, to }))}</p>
+${children}
+<p style="margin:24px 0 0;font-size:12px;color:#6b7280">${escapeHtml(t.footer)}</p>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Plain-text version for mail clients that do not show HTML
+ */
+export function renderDigestText(digest: ParentDigest): string {
+  const t = getTranslations(digest.language).digest;
+  const { from, to } = periodLabel(digest.period, digest.language);
+
+  const sections = digest.children.map((child) => {
+    if (!child.hasActivity) return `${child.name}\n${t.noActivity}`;
+    return [
+      child.name,
+      `${t.xpEarned}: ${child.xpEarned}`,
+      `${t.coinsEarned}: ${child.coinsEarned}`,
+      `${t.coinsSpent}: ${child.coinsSpent}`,
+      `${t.assignmentsCompleted}: ${child.completed.length}`,
+      `${t.assignmentsMissed}: ${child.missed.map((a) => a.title).join(", ") || t.none}`,
+      `${t.streak}: ${fill(t.streakChange, { from: child.streak.start, to: child.streak.end })}`,
+      `${t.newBadges}: ${child.badges.map((b) => b.name).join(", ") || t.none}`,
+      ...child.teacherNotes.map((log) => `${t.teacherNotes}: ${log.notes}`),
+    ].join("\n");
+  });
+
+  return [t.heading, fill(t.intro, { from, to }), ...sections, t.footer].join("\n\n");
+}
+
+/**
+ * One line per child for the in-app notification
+ */
+export function summarizeDigest(digest: ParentDigest): string {
+  const t = getTranslations(digest.language).digest;
+  return digest.children
+    .map((child) =>
+      child.hasActivity
+        ? `${child.name}: ${t.xpEarned} ${child.xpEarned} · ${t.assignmentsCompleted} ${child.completed.length} · ${t.newBadges} ${child.badges.length}`
+        : `${child.name}: ${t.noActivity}`
+    )
+    .join("\n");
+}
+
+export function toBrevoEmail(digest: ParentDigest, recipient: { email: string; name?: string }): BrevoEmail {
+  return {
+    to: [recipient],
+    subject: renderDigestSubject(digest),
+    htmlContent: renderDigestHtml(digest),
+    textContent: renderDigestText(digest),
+    tags: ["parent-digest"],
+  };
+}
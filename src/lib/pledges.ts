@@ -0,0 +1,94 @@
+/**
+ * Pledge Lifecycle
+ *
+ * Parent pledges, by coins (`parent_point_pledges`) or by badge
+ * (`parent_reward_pledges`), move through one state machine:
+ *
+ *   active → reached → claimed → fulfilled
+ *                              ↘ declined
+ *
+ * - `reached` is detected, never chosen: coins at or over the threshold, or
+ *   the badge earned. It sticks once recorded, even if coins are deducted
+ *   later, so `reached_at` is when the goal was first hit.
+ * - The student claims a reached pledge; the parent then fulfils it (bonus
+ *   coins are paid then) or declines it with a reason.
+ *
+ * Each move is timestamped on the pledge, written to `pledge_events` and
+ * notified to both sides as a `pledge_<status>` notification by the
+ * `transition_pledge` and `sync_pledge_progress` RPCs.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PledgeStatus = Database["public"]["Enums"]["pledge_status"];
+
+export type PledgeKind = Database["public"]["Enums"]["pledge_kind"];
+
+/** Who may make a move; `system` is progress detection */
+export type PledgeActor = "student" | "parent" | "system";
+
+export interface PledgeProgress {
+  current: number;
+  target: number;
+  /** 0–100 */
+  percent: number;
+}
+
+export const PLEDGE_STATUS_LABELS: Record<PledgeStatus, string> = {
+  active: "In progress",
+  reached: "Goal reached",
+  claimed: "Claimed",
+  fulfilled: "Given",
+  declined: "Declined",
+};
+
+const TRANSITIONS: Record<PledgeStatus, Partial<Record<PledgeStatus, PledgeActor>>> = {
+  active: { reached: "system" },
+  reached: { claimed: "student" },
+  claimed: { fulfilled: "parent", declined: "parent" },
+  fulfilled: {},
+  declined: {},
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Whether `actor` may move a pledge from `from` to `to`
+ */
+export function canTransition(from: PledgeStatus, to: PledgeStatus, actor: PledgeActor): boolean {
+  return TRANSITIONS[from][to] === actor;
+}
+
+/**
+ * Still waiting on someone: not yet given or declined
+ */
+export function isPledgeOpen(status: PledgeStatus): boolean {
+  return status !== "fulfilled" && status !== "declined";
+}
+
+/**
+ * Progress toward a pledge. Coin pledges count coins against the threshold;
+ * badge pledges are all or nothing. A pledge already past `active` shows as
+ * complete whatever the balance is now.
+ */
+export function pledgeProgress(
+  pledge: { kind: PledgeKind; status: PledgeStatus; coinThreshold: number | null },
+  coins: number,
+  badgeEarned: boolean
+): PledgeProgress {
+  const done = pledge.status !== "active";
+  if (pledge.kind === "badge") {
+    const current = done || badgeEarned ? 1 : 0;
+    return { current, target: 1, percent: current * 100 };
+  }
+
+  const target = Math.max(1, pledge.coinThreshold ?? 1);
+  const current = done ? Math.max(coins, target) : coins;
+  return { current, target, percent: Math.min(100, Math.round((Math.max(0, current) / target) * 100)) };
+}
@@ -41,8 +41,12 @@ export function createQueryClient(): QueryClient {
         refetchOnWindowFocus: true,
         // Don't refetch on reconnect by default
         refetchOnReconnect: "always",
+        // Fire requests while offline so the service worker can answer from its cache
+        networkMode: "offlineFirst",
       },
       mutations: {
+        // Run offline too; grading and reward claims queue themselves in the outbox
+        networkMode: "offlineFirst",
         // Retry mutations once on failure
         retry: 1,
         // Show error in console for debugging
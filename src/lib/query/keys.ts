@@ -88,6 +88,40 @@ export const rewardKeys = {
   badge: (id: string) => [...rewardKeys.badges(), id] as const,
   pledges: () => [...rewardKeys.all, "pledges"] as const,
   collectibles: () => [...rewardKeys.all, "collectibles"] as const,
+  transactionHistory: () => [...rewardKeys.all, "transactions"] as const,
+  transactions: (studentId: string) => [...rewardKeys.transactionHistory(), studentId] as const,
+};
+
+// ============================================================================
+// Regents Prep Keys
+// ============================================================================
+
+export const regentsKeys = {
+  all: ["regents"] as const,
+  attempts: (studentId: string) =>
+    [...regentsKeys.all, "attempts", studentId] as const,
+  mockExams: (studentId: string) =>
+    [...regentsKeys.all, "mock-exams", studentId] as const,
+  history: (studentId: string) =>
+    [...regentsKeys.all, "history", studentId] as const,
+};
+
+// ============================================================================
+// Question Bank Keys
+// ============================================================================
+
+export const questionBankKeys = {
+  all: ["question-bank"] as const,
+  list: (examType?: string) => [...questionBankKeys.all, "list", examType ?? "all"] as const,
+};
+
+// ============================================================================
+// Review Queue Keys
+// ============================================================================
+
+export const reviewKeys = {
+  all: ["review"] as const,
+  due: (studentId: string) => [...reviewKeys.all, "due", studentId] as const,
 };
 
 // ============================================================================
@@ -104,6 +138,15 @@ export const geobloxKeys = {
     [...geobloxKeys.all, "progress", studentId] as const,
 };
 
+// ============================================================================
+// NYCologic Sync Keys
+// ============================================================================
+
+export const syncEventKeys = {
+  all: ["sync-events"] as const,
+  list: (status?: string) => [...syncEventKeys.all, "list", status ?? "all"] as const,
+};
+
 // ============================================================================
 // Leaderboard Keys
 // ============================================================================
@@ -112,12 +155,14 @@ export interface LeaderboardFilters {
   period?: "daily" | "weekly" | "monthly" | "all-time";
   classId?: string;
   gradeLevel?: number;
+  sortBy?: "xp" | "streak";
 }
 
 export const leaderboardKeys = {
   all: ["leaderboard"] as const,
   list: (filters?: LeaderboardFilters) =>
     [...leaderboardKeys.all, filters ?? {}] as const,
+  classes: (userId: string) => [...leaderboardKeys.all, "classes", userId] as const,
 };
 
 // ============================================================================
@@ -129,6 +174,117 @@ export const challengeKeys = {
   active: () => [...challengeKeys.all, "active"] as const,
   detail: (id: string) => [...challengeKeys.all, id] as const,
   progress: (id: string) => [...challengeKeys.detail(id), "progress"] as const,
+  participations: () => [...challengeKeys.all, "participations"] as const,
+  teams: () => [...challengeKeys.all, "teams"] as const,
+};
+
+// ============================================================================
+// Shop Keys
+// ============================================================================
+
+export const shopKeys = {
+  all: ["shop"] as const,
+  items: (studentId: string) => [...shopKeys.all, "items", studentId] as const,
+};
+
+// ============================================================================
+// Mystery Pack Keys
+// ============================================================================
+
+export const packKeys = {
+  all: ["packs"] as const,
+  catalog: () => [...packKeys.all, "catalog"] as const,
+  student: (studentId: string) => [...packKeys.all, "student", studentId] as const,
+};
+
+// ============================================================================
+// Economy Keys
+// ============================================================================
+
+export const economyKeys = {
+  all: ["economy"] as const,
+  mine: () => [...economyKeys.all, "mine"] as const,
+  mySchool: () => [...economyKeys.all, "my-school"] as const,
+  versions: (schoolId: string | null) => [...economyKeys.all, "versions", schoolId ?? "district"] as const,
+};
+
+// ============================================================================
+// Streak Keys
+// ============================================================================
+
+export const streakKeys = {
+  all: ["streaks"] as const,
+  history: (studentId: string) => [...streakKeys.all, "history", studentId] as const,
+};
+
+// ============================================================================
+// School Calendar Keys
+// ============================================================================
+
+export const schoolCalendarKeys = {
+  all: ["school-calendar"] as const,
+  mine: () => [...schoolCalendarKeys.all, "mine"] as const,
+  scope: (schoolId: string | null) => [...schoolCalendarKeys.all, "scope", schoolId ?? "district"] as const,
+};
+
+// ============================================================================
+// Badge Keys
+// ============================================================================
+
+export const badgeKeys = {
+  all: ["badges"] as const,
+  definitions: () => [...badgeKeys.all, "definitions"] as const,
+  qualifiers: (criteria: unknown, badgeId?: string) =>
+    [...badgeKeys.all, "qualifiers", badgeId ?? "draft", criteria] as const,
+};
+
+// ============================================================================
+// Parent Link Keys
+// ============================================================================
+
+export const parentLinkKeys = {
+  all: ["parent-links"] as const,
+  mine: () => [...parentLinkKeys.all, "mine"] as const,
+  pending: () => [...parentLinkKeys.all, "pending"] as const,
+  code: () => [...parentLinkKeys.all, "code"] as const,
+};
+
+// ============================================================================
+// Parent Digest Keys
+// ============================================================================
+
+export const parentDigestKeys = {
+  all: ["parent-digest"] as const,
+  settings: () => [...parentDigestKeys.all, "settings"] as const,
+  preview: (cadence: string, language: string) => [...parentDigestKeys.all, "preview", cadence, language] as const,
+};
+
+// ============================================================================
+// Parent Alert Keys
+// ============================================================================
+
+export const parentAlertKeys = {
+  all: ["parent-alerts"] as const,
+  rules: () => [...parentAlertKeys.all, "rules"] as const,
+};
+
+// ============================================================================
+// Pledge Keys
+// ============================================================================
+
+export const pledgeKeys = {
+  all: ["pledges"] as const,
+  parent: () => [...pledgeKeys.all, "parent"] as const,
+  student: () => [...pledgeKeys.all, "student"] as const,
+};
+
+// ============================================================================
+// Battle Keys
+// ============================================================================
+
+export const battleKeys = {
+  all: ["battles"] as const,
+  playerName: (userId: string) => [...battleKeys.all, "player-name", userId] as const,
 };
 
 // ============================================================================
@@ -143,6 +299,8 @@ export const classKeys = {
   detail: (id: string) => [...classKeys.details(), id] as const,
   students: (classId: string) => [...classKeys.detail(classId), "students"] as const,
   standards: (classId: string) => [...classKeys.detail(classId), "standards"] as const,
+  timeline: (classId: string, studentId: string) =>
+    [...classKeys.detail(classId), "timeline", studentId] as const,
 };
 
 // ============================================================================
@@ -176,8 +334,23 @@ export const queryKeys = {
   practice: practiceKeys,
   rewards: rewardKeys,
   geoblox: geobloxKeys,
+  syncEvents: syncEventKeys,
+  regents: regentsKeys,
+  review: reviewKeys,
+  questionBank: questionBankKeys,
   leaderboard: leaderboardKeys,
   challenges: challengeKeys,
+  battles: battleKeys,
+  shop: shopKeys,
+  packs: packKeys,
+  economy: economyKeys,
+  streaks: streakKeys,
+  schoolCalendar: schoolCalendarKeys,
+  badges: badgeKeys,
+  parentLinks: parentLinkKeys,
+  parentDigest: parentDigestKeys,
+  parentAlerts: parentAlertKeys,
+  pledges: pledgeKeys,
   classes: classKeys,
   auth: authKeys,
   notifications: notificationKeys,
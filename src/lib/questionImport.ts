@@ -0,0 +1,382 @@
+/**
+ * Question Bank Import
+ *
+ * Parses CSV, JSON and IMS QTI 2.1 files into RegentsQuestion records and
+ * validates them before they are written to the question bank.
+ */
+
+import { REGENTS_EXAMS, type RegentsQuestion } from "@/data/regentsSampleQuestions";
+import { NYS_STANDARDS } from "@/data/nysStandards";
+import { ALL_ALGEBRA_STANDARDS } from "@/data/algebraStandards";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QuestionImportFormat = "csv" | "json" | "qti";
+
+export interface QuestionImportIssue {
+  /** 1-based record number within the file */
+  record: number;
+  message: string;
+}
+
+export interface QuestionImportResult {
+  format: QuestionImportFormat;
+  total: number;
+  valid: RegentsQuestion[];
+  issues: QuestionImportIssue[];
+}
+
+export interface QuestionImportDefaults {
+  /** Exam used when a record does not name one */
+  examType?: string;
+}
+
+export interface ValidateQuestionOptions {
+  /** Report unknown standard codes as warnings instead of errors */
+  allowUnknownStandards?: boolean;
+}
+
+/** A record as read from a file; JSON fields may hold any type */
+type QuestionDraft = { [K in keyof RegentsQuestion]?: unknown };
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const KNOWN_STANDARD_CODES = new Set([
+  ...NYS_STANDARDS.map((s) => s.code),
+  ...ALL_ALGEBRA_STANDARDS.map((s) => s.code),
+]);
+
+/**
+ * Whether a standard code exists in NYS_STANDARDS or ALL_ALGEBRA_STANDARDS
+ */
+export function isKnownStandardCode(code: string): boolean {
+  return KNOWN_STANDARD_CODES.has(code);
+}
+
+/**
+ * Check a question against the RegentsQuestion shape. Returns error messages;
+ * an empty list means the question can be saved.
+ */
+export function validateRegentsQuestion(
+  question: Partial<RegentsQuestion>,
+  options: ValidateQuestionOptions = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (!question.prompt?.trim()) errors.push("Prompt is required");
+  if (!question.examType || !REGENTS_EXAMS.some((e) => e.id === question.examType)) {
+    errors.push(`Unknown exam "${question.examType ?? ""}"`);
+  }
+  if (!question.standardCode?.trim()) {
+    errors.push("Standard code is required");
+  } else if (!options.allowUnknownStandards && !isKnownStandardCode(question.standardCode)) {
+    errors.push(`Standard "${question.standardCode}" is not in the NYS standards list`);
+  }
+
+  const choices = question.options ?? [];
+  if (choices.length < 2) errors.push("At least two options are required");
+  if (new Set(choices).size !== choices.length) errors.push("Options must be unique");
+  if (!question.correctAnswer || !choices.includes(question.correctAnswer)) {
+    errors.push("Correct answer must be one of the options");
+  }
+
+  if (![1, 2, 3].includes(question.difficulty as number)) errors.push("Difficulty must be 1, 2 or 3");
+  if (!(typeof question.pointValue === "number" && question.pointValue > 0)) {
+    errors.push("Point value must be a positive number");
+  }
+
+  return errors;
+}
+
+/**
+ * A field as trimmed text; numbers and other scalars are stringified
+ */
+function text(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+/**
+ * Options from an array, or from one string separated by "|" as in CSV
+ */
+function optionList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split("|") : [];
+  return list.map(text).filter(Boolean);
+}
+
+/**
+ * Fill defaults and coerce loosely typed fields into a RegentsQuestion
+ */
+function normalizeDraft(draft: QuestionDraft, defaults: QuestionImportDefaults): RegentsQuestion {
+  const examType = text(draft.examType) || defaults.examType || "";
+  const exam = REGENTS_EXAMS.find((e) => e.id === examType);
+  const options = optionList(draft.options);
+  let correctAnswer = text(draft.correctAnswer);
+
+  // Regents answer keys are often the choice number, e.g. "3" or "(3)"
+  const choiceNumber = correctAnswer.match(/^\(?(\d)\)?$/);
+  if (!options.includes(correctAnswer) && choiceNumber) {
+    correctAnswer = options[Number(choiceNumber[1]) - 1] ?? correctAnswer;
+  }
+
+  return {
+    id: text(draft.id) || `bank-${crypto.randomUUID()}`,
+    standardCode: text(draft.standardCode),
+    subject: text(draft.subject) || exam?.subject || "",
+    examType,
+    prompt: text(draft.prompt),
+    options,
+    correctAnswer,
+    explanation: text(draft.explanation),
+    difficulty: Number(draft.difficulty ?? 2),
+    pointValue: Number(draft.pointValue ?? 1),
+    hint: text(draft.hint) || undefined,
+    topic: text(draft.topic) || undefined,
+    imagePrompt: text(draft.imagePrompt) || undefined,
+    imageUrl: text(draft.imageUrl) || undefined,
+  };
+}
+
+function collect(
+  format: QuestionImportFormat,
+  drafts: unknown[],
+  defaults: QuestionImportDefaults,
+  parseIssues: QuestionImportIssue[] = []
+): QuestionImportResult {
+  const valid: RegentsQuestion[] = [];
+  const issues = [...parseIssues];
+
+  drafts.forEach((draft, index) => {
+    if (typeof draft !== "object" || draft === null || Array.isArray(draft)) {
+      issues.push({ record: index + 1, message: "Record must be an object" });
+      return;
+    }
+    const question = normalizeDraft(draft as QuestionDraft, defaults);
+    const errors = validateRegentsQuestion(question);
+    if (errors.length > 0) {
+      errors.forEach((message) => issues.push({ record: index + 1, message }));
+    } else {
+      valid.push(question);
+    }
+  });
+
+  return { format, total: drafts.length, valid, issues };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF or LF)
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Parse a CSV file with a header row. Options come from `option1`…`optionN`
+ * columns or a single `options` column separated by "|".
+ */
+export function parseCsvQuestions(text: string, defaults: QuestionImportDefaults = {}): QuestionImportResult {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { format: "csv", total: 0, valid: [], issues: [{ record: 0, message: "File is empty" }] };
+
+  const columns = header.map((h) => h.trim());
+  const optionColumns = columns
+    .map((name, index) => ({ name, index }))
+    .filter((c) => /^option\d+$/i.test(c.name));
+
+  const drafts = rows.map((cells) => {
+    const get = (name: string) => {
+      const index = columns.findIndex((c) => c.toLowerCase() === name.toLowerCase());
+      return index >= 0 ? cells[index] : undefined;
+    };
+    const options = optionColumns.length > 0
+      ? optionColumns.map((c) => cells[c.index] ?? "")
+      : (get("options") ?? "").split("|");
+
+    return {
+      id: get("id"),
+      examType: get("examType"),
+      standardCode: get("standardCode"),
+      subject: get("subject"),
+      prompt: get("prompt"),
+      options,
+      correctAnswer: get("correctAnswer"),
+      explanation: get("explanation"),
+      difficulty: get("difficulty") || undefined,
+      pointValue: get("pointValue") || undefined,
+      hint: get("hint"),
+      topic: get("topic"),
+    };
+  });
+
+  return collect("csv", drafts, defaults);
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+/**
+ * Parse a JSON array of RegentsQuestion-shaped objects, or `{ questions: [...] }`
+ */
+export function parseJsonQuestions(text: string, defaults: QuestionImportDefaults = {}): QuestionImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return {
+      format: "json",
+      total: 0,
+      valid: [],
+      issues: [{ record: 0, message: `Invalid JSON: ${(error as Error).message}` }],
+    };
+  }
+
+  const records = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { questions?: unknown })?.questions)
+      ? (parsed as { questions: unknown[] }).questions
+      : null;
+
+  if (!records) {
+    return {
+      format: "json",
+      total: 0,
+      valid: [],
+      issues: [{ record: 0, message: "Expected an array of questions or { \"questions\": [...] }" }],
+    };
+  }
+
+  return collect("json", records, defaults);
+}
+
+// ============================================================================
+// QTI 2.1
+// ============================================================================
+
+function textOf(element: Element | null | undefined): string {
+  return element?.textContent?.replace(/\s+/g, " ").trim() ?? "";
+}
+
+/**
+ * Parse single-response choice items from IMS QTI 2.1 XML. The file may hold
+ * one `assessmentItem` or several inside any wrapper element. The standard
+ * code is read from the item's `label` attribute.
+ */
+export function parseQtiQuestions(xml: string, defaults: QuestionImportDefaults = {}): QuestionImportResult {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    return { format: "qti", total: 0, valid: [], issues: [{ record: 0, message: "Invalid XML" }] };
+  }
+
+  const items = Array.from(doc.getElementsByTagName("assessmentItem"));
+  const parseIssues: QuestionImportIssue[] = [];
+
+  const drafts = items.map((item, index) => {
+    const interaction = item.getElementsByTagName("choiceInteraction")[0];
+    if (!interaction) {
+      parseIssues.push({ record: index + 1, message: "Only choiceInteraction items are supported" });
+    }
+
+    const choices = Array.from(interaction?.getElementsByTagName("simpleChoice") ?? []);
+    const correctId = textOf(
+      item.getElementsByTagName("correctResponse")[0]?.getElementsByTagName("value")[0]
+    );
+
+    // The stem is the item body without the interaction, plus the interaction's own prompt
+    const body = item.getElementsByTagName("itemBody")[0]?.cloneNode(true) as Element | undefined;
+    Array.from(body?.getElementsByTagName("choiceInteraction") ?? []).forEach((el) => el.remove());
+    const stem = [textOf(body), textOf(interaction?.getElementsByTagName("prompt")[0])]
+      .filter(Boolean)
+      .join(" ");
+
+    return {
+      id: item.getAttribute("identifier") ?? undefined,
+      standardCode: item.getAttribute("label") ?? undefined,
+      prompt: stem,
+      options: choices.map((c) => textOf(c)),
+      correctAnswer: textOf(choices.find((c) => c.getAttribute("identifier") === correctId)),
+      explanation: textOf(item.getElementsByTagName("modalFeedback")[0]),
+    };
+  });
+
+  return collect("qti", drafts, defaults, parseIssues);
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Guess the import format from a file name
+ */
+export function detectImportFormat(fileName: string): QuestionImportFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return "csv";
+  if (extension === "json") return "json";
+  if (extension === "xml" || extension === "qti") return "qti";
+  return null;
+}
+
+/**
+ * Parse and validate an uploaded question file
+ */
+export function parseQuestionFile(
+  fileName: string,
+  text: string,
+  defaults: QuestionImportDefaults = {}
+): QuestionImportResult | null {
+  switch (detectImportFormat(fileName)) {
+    case "csv":
+      return parseCsvQuestions(text, defaults);
+    case "json":
+      return parseJsonQuestions(text, defaults);
+    case "qti":
+      return parseQtiQuestions(text, defaults);
+    default:
+      return null;
+  }
+}
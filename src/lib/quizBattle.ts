@@ -0,0 +1,418 @@
+/**
+ * Quiz Battle
+ *
+ * Match logic for live head-to-head quiz battles between classmates. Every
+ * client folds the same stream of messages through `battleReducer`, so all
+ * scoreboards agree live. The host (first player to join the lobby) starts
+ * the match and decides when each round is revealed; only the host's match
+ * messages are applied, and each player may only answer for themselves.
+ *
+ * The live scoreboard is a preview. When the match ends each player sends
+ * the answer log to `record_quiz_battle`, which records the match and its
+ * players, scores it against the server's answer keys and awards rewards
+ * once per player, up to a daily limit of rewarded battles.
+ *
+ * Messages travel over a `BattleTransport`. The app uses Supabase Realtime
+ * (see `supabaseBattleTransport.ts`); `createInMemoryBattleHub` runs the same
+ * protocol locally.
+ */
+
+import type { RegentsQuestion } from "@/data/regentsSampleQuestions";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const BATTLE_MIN_PLAYERS = 2;
+export const BATTLE_MAX_PLAYERS = 8;
+export const BATTLE_QUESTION_COUNT = 8;
+export const BATTLE_TIME_LIMIT_MS = 20_000;
+/** How long the correct answer stays on screen between rounds */
+export const BATTLE_REVEAL_MS = 3_000;
+
+/** Points for a correct answer, before the speed bonus */
+const BASE_POINTS = 500;
+/** Extra points for an instant answer, shrinking to 0 at the time limit */
+const SPEED_BONUS_POINTS = 500;
+
+export interface BattlePlayer {
+  userId: string;
+  name: string;
+  /** Epoch ms when the player joined the lobby; the earliest is host */
+  joinedAt: number;
+}
+
+export type BattleQuestion = Pick<
+  RegentsQuestion,
+  "id" | "prompt" | "options" | "correctAnswer" | "explanation" | "standardCode"
+>;
+
+export type BattleMessage =
+  | {
+      type: "start";
+      matchId: string;
+      hostId: string;
+      players: BattlePlayer[];
+      questions: BattleQuestion[];
+      timeLimitMs: number;
+    }
+  | { type: "answer"; matchId: string; round: number; userId: string; choice: string; responseMs: number }
+  | { type: "reveal"; matchId: string; round: number }
+  | { type: "next"; matchId: string; round: number }
+  | { type: "finish"; matchId: string };
+
+/** A message as delivered, tagged with the sender's presence key */
+export type ReceivedBattleMessage = BattleMessage & { senderId: string };
+
+export interface BattleAnswer {
+  choice: string;
+  responseMs: number;
+  correct: boolean;
+  points: number;
+}
+
+export interface BattleScore {
+  userId: string;
+  name: string;
+  points: number;
+  correct: number;
+  streak: number;
+  bestStreak: number;
+  /** Sum of response times for correct answers; breaks ties */
+  correctMs: number;
+}
+
+export type BattlePhase = "lobby" | "question" | "reveal" | "finished";
+
+export interface BattleState {
+  phase: BattlePhase;
+  /** Players in the lobby, oldest first */
+  lobby: BattlePlayer[];
+  matchId: string | null;
+  hostId: string | null;
+  players: BattlePlayer[];
+  questions: BattleQuestion[];
+  round: number;
+  timeLimitMs: number;
+  /** Answers per round, keyed by user id */
+  answers: Record<string, BattleAnswer>[];
+  scores: Record<string, BattleScore>;
+}
+
+export type BattleAction =
+  | ReceivedBattleMessage
+  | { type: "presence"; players: BattlePlayer[] }
+  | { type: "reset" };
+
+export interface BattlePlayerResult {
+  rank: number;
+  points: number;
+  correct: number;
+  total: number;
+  bestStreak: number;
+  /** Answer time, counting unanswered questions at the full time limit */
+  timeSpentSeconds: number;
+}
+
+/** One answer as sent to `record_quiz_battle` */
+export interface BattleAnswerLogEntry {
+  round: number;
+  userId: string;
+  choice: string;
+  responseMs: number;
+}
+
+export interface BattleTransport {
+  /** Join the lobby and announce this player to everyone in it */
+  connect(self: BattlePlayer): Promise<void>;
+  /** Deliver a message to every member, including the sender */
+  send(message: BattleMessage): Promise<void>;
+  /** Messages from members who are not in the lobby are dropped */
+  onMessage(handler: (message: ReceivedBattleMessage) => void): () => void;
+  onPresence(handler: (players: BattlePlayer[]) => void): () => void;
+  disconnect(): Promise<void>;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Points for one answer: a correct answer earns the base points plus a
+ * bonus that falls linearly to zero at the time limit.
+ */
+export function scoreAnswer(correct: boolean, responseMs: number, timeLimitMs: number): number {
+  if (!correct) return 0;
+  const remaining = 1 - Math.min(Math.max(responseMs, 0), timeLimitMs) / timeLimitMs;
+  return Math.round(BASE_POINTS + SPEED_BONUS_POINTS * remaining);
+}
+
+/**
+ * Scores ranked by points, then correct answers, then total answer time
+ */
+export function rankScores(scores: Record<string, BattleScore>): BattleScore[] {
+  return Object.values(scores).sort(
+    (a, b) => b.points - a.points || b.correct - a.correct || a.correctMs - b.correctMs
+  );
+}
+
+// ============================================================================
+// Reducer
+// ============================================================================
+
+export const initialBattleState: BattleState = {
+  phase: "lobby",
+  lobby: [],
+  matchId: null,
+  hostId: null,
+  players: [],
+  questions: [],
+  round: 0,
+  timeLimitMs: BATTLE_TIME_LIMIT_MS,
+  answers: [],
+  scores: {},
+};
+
+function sortPlayers(players: BattlePlayer[]): BattlePlayer[] {
+  return [...players].sort((a, b) => a.joinedAt - b.joinedAt || a.userId.localeCompare(b.userId));
+}
+
+/**
+ * Apply a transport message (or a presence update) to the match state.
+ * Messages for another match, arriving out of order, answering for another
+ * player, or driving the match from anyone but the host are ignored.
+ */
+export function battleReducer(state: BattleState, action: BattleAction): BattleState {
+  if (action.type === "presence") {
+    return { ...state, lobby: sortPlayers(action.players) };
+  }
+
+  if (action.type === "reset") {
+    return initialBattleState;
+  }
+
+  const fromHost = action.senderId === currentHostId(state);
+  if (action.type !== "answer" && !fromHost) return state;
+
+  if (action.type === "start") {
+    if (state.phase !== "lobby" && state.phase !== "finished") return state;
+    if (action.hostId !== action.senderId) return state;
+    const players = sortPlayers(action.players).slice(0, BATTLE_MAX_PLAYERS);
+    return {
+      ...state,
+      phase: "question",
+      matchId: action.matchId,
+      hostId: action.hostId,
+      players,
+      questions: action.questions,
+      round: 0,
+      timeLimitMs: action.timeLimitMs,
+      answers: action.questions.map(() => ({})),
+      scores: Object.fromEntries(
+        players.map((p) => [
+          p.userId,
+          { userId: p.userId, name: p.name, points: 0, correct: 0, streak: 0, bestStreak: 0, correctMs: 0 },
+        ])
+      ),
+    };
+  }
+
+  if (action.matchId !== state.matchId) return state;
+
+  switch (action.type) {
+    case "answer": {
+      const score = state.scores[action.userId];
+      const question = state.questions[action.round];
+      const roundAnswers = state.answers[action.round];
+      if (action.userId !== action.senderId) return state;
+      if (state.phase !== "question" || action.round !== state.round) return state;
+      if (!score || !question || roundAnswers[action.userId]) return state;
+
+      const correct = action.choice === question.correctAnswer;
+      const points = scoreAnswer(correct, action.responseMs, state.timeLimitMs);
+      const streak = correct ? score.streak + 1 : 0;
+      const answers = [...state.answers];
+      answers[action.round] = {
+        ...roundAnswers,
+        [action.userId]: { choice: action.choice, responseMs: action.responseMs, correct, points },
+      };
+
+      return {
+        ...state,
+        answers,
+        scores: {
+          ...state.scores,
+          [action.userId]: {
+            ...score,
+            points: score.points + points,
+            correct: score.correct + (correct ? 1 : 0),
+            streak,
+            bestStreak: Math.max(score.bestStreak, streak),
+            correctMs: score.correctMs + (correct ? action.responseMs : 0),
+          },
+        },
+      };
+    }
+    case "reveal": {
+      if (state.phase !== "question" || action.round !== state.round) return state;
+      // Running out of time breaks a streak like a wrong answer does
+      const roundAnswers = state.answers[state.round];
+      const scores = Object.fromEntries(
+        Object.entries(state.scores).map(([userId, score]) => [
+          userId,
+          roundAnswers[userId] ? score : { ...score, streak: 0 },
+        ])
+      );
+      return { ...state, phase: "reveal", scores };
+    }
+    case "next":
+      if (state.phase !== "reveal" || action.round !== state.round + 1) return state;
+      if (action.round >= state.questions.length) return state;
+      return { ...state, phase: "question", round: action.round };
+    case "finish":
+      return state.phase === "lobby" ? state : { ...state, phase: "finished" };
+    default:
+      return state;
+  }
+}
+
+// ============================================================================
+// Host Decisions
+// ============================================================================
+
+function presentPlayers(state: BattleState): BattlePlayer[] {
+  const present = new Set(state.lobby.map((p) => p.userId));
+  return state.players.filter((p) => present.has(p.userId));
+}
+
+/**
+ * Who drives the match: the oldest lobby member before it starts, then the
+ * starting host, handing over to the next player still present if they leave
+ */
+export function currentHostId(state: BattleState): string | null {
+  if (state.phase === "lobby") return state.lobby[0]?.userId ?? null;
+  const present = presentPlayers(state);
+  if (present.some((p) => p.userId === state.hostId)) return state.hostId;
+  return present[0]?.userId ?? null;
+}
+
+/**
+ * The host reveals a round once every player still present has answered
+ */
+export function allPlayersAnswered(state: BattleState): boolean {
+  const roundAnswers = state.answers[state.round] ?? {};
+  return presentPlayers(state).every((p) => roundAnswers[p.userId]);
+}
+
+/**
+ * One player's standing in the match, or null for spectators
+ */
+export function playerResult(state: BattleState, userId: string): BattlePlayerResult | null {
+  const score = state.scores[userId];
+  if (!score) return null;
+
+  const answeredMs = state.answers.reduce((sum, round) => sum + (round[userId]?.responseMs ?? 0), 0);
+  const unanswered = state.answers.filter((round) => !round[userId]).length;
+
+  return {
+    rank: rankScores(state.scores).findIndex((s) => s.userId === userId) + 1,
+    points: score.points,
+    correct: score.correct,
+    total: state.questions.length,
+    bestStreak: score.bestStreak,
+    timeSpentSeconds: Math.round((answeredMs + unanswered * state.timeLimitMs) / 1000),
+  };
+}
+
+/**
+ * Every answer given in the match, round by round
+ */
+export function battleAnswerLog(state: BattleState): BattleAnswerLogEntry[] {
+  return state.answers.flatMap((round, index) =>
+    Object.entries(round).map(([userId, answer]) => ({
+      round: index,
+      userId,
+      choice: answer.choice,
+      responseMs: answer.responseMs,
+    }))
+  );
+}
+
+/**
+ * Pick the battle's questions: multiple choice only, shuffled
+ */
+export function pickBattleQuestions(
+  pool: RegentsQuestion[],
+  count: number = BATTLE_QUESTION_COUNT,
+  random: () => number = Math.random
+): BattleQuestion[] {
+  const candidates = pool.filter((q) => q.options.length >= 2 && q.options.includes(q.correctAnswer));
+  const shuffled = [...candidates];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, count).map(({ id, prompt, options, correctAnswer, explanation, standardCode }) => ({
+    id,
+    prompt,
+    options,
+    correctAnswer,
+    explanation,
+    standardCode,
+  }));
+}
+
+// ============================================================================
+// In-Memory Transport
+// ============================================================================
+
+/**
+ * A local lobby: every transport created from the hub sees the others'
+ * presence and messages. Delivery is asynchronous, like the network.
+ */
+export function createInMemoryBattleHub() {
+  const members = new Map<symbol, BattlePlayer>();
+  const messageHandlers = new Set<(message: ReceivedBattleMessage) => void>();
+  const presenceHandlers = new Set<(players: BattlePlayer[]) => void>();
+
+  const broadcastPresence = () => {
+    const players = [...members.values()];
+    queueMicrotask(() => presenceHandlers.forEach((handler) => handler(players)));
+  };
+
+  const createTransport = (): BattleTransport => {
+    const id = Symbol("member");
+    const ownHandlers = new Set<() => void>();
+
+    return {
+      async connect(self) {
+        members.set(id, self);
+        broadcastPresence();
+      },
+      async send(message) {
+        const sender = members.get(id);
+        if (!sender) return;
+        queueMicrotask(() => messageHandlers.forEach((handler) => handler({ ...message, senderId: sender.userId })));
+      },
+      onMessage(handler) {
+        messageHandlers.add(handler);
+        const off = () => messageHandlers.delete(handler);
+        ownHandlers.add(off);
+        return off;
+      },
+      onPresence(handler) {
+        presenceHandlers.add(handler);
+        const off = () => presenceHandlers.delete(handler);
+        ownHandlers.add(off);
+        return off;
+      },
+      async disconnect() {
+        ownHandlers.forEach((off) => off());
+        members.delete(id);
+        broadcastPresence();
+      },
+    };
+  };
+
+  return { createTransport };
+}
@@ -0,0 +1,106 @@
+/**
+ * Regents Progress Summaries
+ *
+ * Pure rollups of the Regents attempt log into the per-exam and
+ * per-standard views used by RegentsPrep and StandardsMasteryTracker.
+ */
+
+import { getStandardMasteryLevel, type StandardMasteryLevel } from "@/constants";
+import type { RegentsQuestionAttempt } from "@/lib/api/regents";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExamProgress {
+  examType: string;
+  questionsAttempted: number;
+  correctAnswers: number;
+  lastAttemptDate?: Date;
+  bestScore: number;
+  sessionsCompleted: number;
+}
+
+export interface StandardProgress {
+  standardCode: string;
+  questionsAttempted: number;
+  correctAnswers: number;
+  masteryLevel: StandardMasteryLevel;
+  mastered: boolean;
+  lastAttemptDate?: Date;
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Summarize attempts per exam. Best score is the best single session.
+ */
+export function summarizeExamProgress(attempts: RegentsQuestionAttempt[]): ExamProgress[] {
+  const byExam = new Map<string, RegentsQuestionAttempt[]>();
+  attempts.forEach((attempt) => {
+    const list = byExam.get(attempt.exam_type) ?? [];
+    list.push(attempt);
+    byExam.set(attempt.exam_type, list);
+  });
+
+  return [...byExam.entries()].map(([examType, examAttempts]) => {
+    const sessions = new Map<string, { total: number; correct: number }>();
+    examAttempts.forEach((attempt) => {
+      const session = sessions.get(attempt.session_id) ?? { total: 0, correct: 0 };
+      session.total += 1;
+      session.correct += attempt.is_correct ? 1 : 0;
+      sessions.set(attempt.session_id, session);
+    });
+
+    const bestScore = Math.max(
+      0,
+      ...[...sessions.values()].map((s) => Math.round((s.correct / s.total) * 100))
+    );
+    const lastAnsweredAt = examAttempts.reduce(
+      (latest, a) => (a.answered_at > latest ? a.answered_at : latest),
+      examAttempts[0].answered_at
+    );
+
+    return {
+      examType,
+      questionsAttempted: examAttempts.length,
+      correctAnswers: examAttempts.filter((a) => a.is_correct).length,
+      lastAttemptDate: new Date(lastAnsweredAt),
+      bestScore,
+      sessionsCompleted: sessions.size,
+    };
+  });
+}
+
+/**
+ * Summarize attempts per standard code using the real per-question results
+ */
+export function summarizeStandardProgress(attempts: RegentsQuestionAttempt[]): StandardProgress[] {
+  const byStandard = new Map<string, { attempted: number; correct: number; lastAt: string }>();
+  attempts.forEach((attempt) => {
+    const current = byStandard.get(attempt.standard_code) ?? {
+      attempted: 0,
+      correct: 0,
+      lastAt: attempt.answered_at,
+    };
+    byStandard.set(attempt.standard_code, {
+      attempted: current.attempted + 1,
+      correct: current.correct + (attempt.is_correct ? 1 : 0),
+      lastAt: attempt.answered_at > current.lastAt ? attempt.answered_at : current.lastAt,
+    });
+  });
+
+  return [...byStandard.entries()].map(([standardCode, counts]) => {
+    const masteryLevel = getStandardMasteryLevel(counts.correct, counts.attempted);
+    return {
+      standardCode,
+      questionsAttempted: counts.attempted,
+      correctAnswers: counts.correct,
+      masteryLevel,
+      mastered: masteryLevel === "mastered",
+      lastAttemptDate: new Date(counts.lastAt),
+    };
+  });
+}
@@ -0,0 +1,280 @@
+/**
+ * School Calendar
+ *
+ * Holidays, breaks and exam weeks, imported from iCal (.ics) files, and
+ * the school-day rules built on them.
+ *
+ * - Weekdays are school days unless a holiday or break covers them.
+ * - Exam weeks and plain events are informational; school is in session.
+ * - Event dates are whole days in the school's time zone, end inclusive.
+ *
+ * Also builds .ics feeds so students can subscribe to their schedule.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+import { STREAK_TIME_ZONE } from "@/constants";
+import { atTimeIn, isWeekday, shiftDay, toDayKey, type DayKey } from "@/lib/streaks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SchoolCalendarEventKind = Database["public"]["Enums"]["school_calendar_event_kind"];
+
+export interface CalendarEvent {
+  /** iCal UID, stable across re-imports of the same file */
+  uid: string;
+  title: string;
+  kind: SchoolCalendarEventKind;
+  startDate: DayKey;
+  /** Inclusive */
+  endDate: DayKey;
+}
+
+export interface SchoolCalendar {
+  events: CalendarEvent[];
+  isSchoolDay: (day: DayKey) => boolean;
+  eventsOn: (day: DayKey) => CalendarEvent[];
+}
+
+export interface IcsFeedEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  /** A whole day, or a local time in the school's time zone as YYYY-MM-DDTHH:mm */
+  start: string;
+  /** Exclusive, as in iCal; defaults to the next day for whole days */
+  end?: string;
+}
+
+/** Kinds that close school for the day */
+export const NO_SCHOOL_KINDS: readonly SchoolCalendarEventKind[] = ["holiday", "break"];
+
+/** An assignment counts as due soon within this many school days */
+export const DUE_SOON_SCHOOL_DAYS = 2;
+
+// ============================================================================
+// School Days
+// ============================================================================
+
+/**
+ * Index calendar events by day for quick school-day lookups
+ */
+export function buildSchoolCalendar(events: CalendarEvent[]): SchoolCalendar {
+  const byDay = new Map<DayKey, CalendarEvent[]>();
+  for (const event of events) {
+    for (let day = event.startDate; day <= event.endDate; day = shiftDay(day, 1)) {
+      byDay.set(day, [...(byDay.get(day) ?? []), event]);
+    }
+  }
+
+  const eventsOn = (day: DayKey) => byDay.get(day) ?? [];
+  return {
+    events,
+    eventsOn,
+    isSchoolDay: (day) => isWeekday(day) && !eventsOn(day).some((e) => NO_SCHOOL_KINDS.includes(e.kind)),
+  };
+}
+
+/** Weekdays only, for when no calendar has been imported */
+export const EMPTY_SCHOOL_CALENDAR = buildSchoolCalendar([]);
+
+/**
+ * The day `count` school days after `day` (before, when negative)
+ */
+export function addSchoolDays(calendar: SchoolCalendar, day: DayKey, count: number): DayKey {
+  const step = count < 0 ? -1 : 1;
+  let remaining = Math.abs(count);
+  let result = day;
+  while (remaining > 0) {
+    result = shiftDay(result, step);
+    if (calendar.isSchoolDay(result)) remaining--;
+  }
+  return result;
+}
+
+/**
+ * School days after `from` up to and including `to`
+ */
+export function schoolDaysBetween(calendar: SchoolCalendar, from: DayKey, to: DayKey): number {
+  let count = 0;
+  for (let day = shiftDay(from, 1); day <= to; day = shiftDay(day, 1)) {
+    if (calendar.isSchoolDay(day)) count++;
+  }
+  return count;
+}
+
+// ============================================================================
+// iCal Import
+// ============================================================================
+
+const EXAM_PATTERN = /\b(exam|regents|testing|test week|finals?)\b/i;
+const BREAK_PATTERN = /\b(recess|break|vacation)\b/i;
+const HOLIDAY_PATTERN = /\b(holiday|no school|schools? closed|closed|day off|observed)\b/i;
+
+/**
+ * Best guess at an event's kind from its title and categories.
+ * Admins can correct it before importing.
+ */
+export function classifyCalendarEvent(title: string, categories: string[] = []): SchoolCalendarEventKind {
+  const text = [title, ...categories].join(" ");
+  if (EXAM_PATTERN.test(text)) return "exam_week";
+  if (BREAK_PATTERN.test(text)) return "break";
+  if (HOLIDAY_PATTERN.test(text)) return "holiday";
+  return "event";
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const colon = line.indexOf(":");
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ""] = param.split("=");
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+/**
+ * The school day a DTSTART/DTEND value falls on, and whether it is all-day
+ */
+function parseIcsDate(property: IcsProperty): { day: DayKey; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, date, hours, minutes, seconds, utc] = match;
+  const day = `${year}-${month}-${date}`;
+  if (!hours) return { day, allDay: true };
+  if (utc) {
+    const instant = new Date(Date.UTC(+year, +month - 1, +date, +hours, +minutes, +seconds));
+    return { day: toDayKey(instant), allDay: false };
+  }
+  // Floating or TZID times: trust the wall-clock date
+  return { day, allDay: false };
+}
+
+/**
+ * Read the VEVENTs out of an .ics file. Recurring events keep only their
+ * first occurrence; school calendars list each closure separately.
+ */
+export function parseIcs(text: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === "BEGIN:VEVENT") {
+      current = [];
+    } else if (line === "END:VEVENT") {
+      if (current) {
+        const event = toCalendarEvent(current, events.length);
+        if (event) events.push(event);
+      }
+      current = null;
+    } else if (current && line.trim()) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return events.sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+function toCalendarEvent(properties: IcsProperty[], index: number): CalendarEvent | null {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const startProperty = get("DTSTART");
+  const start = startProperty && parseIcsDate(startProperty);
+  if (!start) return null;
+
+  const endProperty = get("DTEND");
+  const end = endProperty && parseIcsDate(endProperty);
+  // An all-day DTEND is exclusive
+  let endDate = end ? (end.allDay ? shiftDay(end.day, -1) : end.day) : start.day;
+  if (endDate < start.day) endDate = start.day;
+
+  const title = unescapeText(get("SUMMARY")?.value ?? "").trim() || "Untitled";
+  const categories = properties
+    .filter((p) => p.name === "CATEGORIES")
+    .flatMap((p) => unescapeText(p.value).split(","));
+
+  return {
+    uid: get("UID")?.value.trim() || `${start.day}-${index}@import`,
+    title,
+    kind: classifyCalendarEvent(title, categories),
+    startDate: start.day,
+    endDate,
+  };
+}
+
+// ============================================================================
+// iCal Export
+// ============================================================================
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Lines over 75 characters continue on the next line after a space */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i === 0 ? 75 : i + 74));
+  }
+  return parts.join("\r\n ");
+}
+
+/** Times go out in UTC, so no VTIMEZONE definition is needed */
+function icsDateValue(name: string, value: string): string {
+  if (!value.includes("T")) return `${name};VALUE=DATE:${value.replace(/-/g, "")}`;
+  const [day, time] = value.split("T");
+  return `${name}:${icsUtcStamp(atTimeIn(day, time.slice(0, 5)))}`;
+}
+
+function icsUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Serialize events as an .ics calendar
+ */
+export function buildIcsFeed(name: string, events: IcsFeedEvent[], now = new Date()): string {
+  const stamp = icsUtcStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Scholar//School Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${STREAK_TIME_ZONE}`,
+  ];
+
+  for (const event of events) {
+    const end = event.end ?? (event.start.includes("T") ? event.start : shiftDay(event.start, 1));
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      icsDateValue("DTSTART", event.start),
+      icsDateValue("DTEND", end),
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,95 @@
+/**
+ * Spaced Repetition
+ *
+ * SM-2 style scheduling for the review queue. Each card keeps an ease factor,
+ * an interval in days and a count of consecutive correct reviews. Correct
+ * answers push the next review further out; a miss resets the card so it
+ * comes back the next day.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReviewSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  /** Date the card is next due, as YYYY-MM-DD */
+  due_on: string;
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3.0;
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Schedule for a card entering the queue: due tomorrow
+ */
+export function newCardSchedule(now: Date = new Date()): ReviewSchedule {
+  return {
+    ease_factor: DEFAULT_EASE,
+    interval_days: 1,
+    repetitions: 0,
+    lapses: 0,
+    due_on: toDateKey(addDays(now, 1)),
+  };
+}
+
+/**
+ * Next schedule after answering a card. Correct answers grow the interval
+ * 1 → 3 → interval × ease; a miss resets the card to tomorrow and lowers its ease.
+ */
+export function scheduleReview(card: ReviewSchedule, isCorrect: boolean, now: Date = new Date()): ReviewSchedule {
+  if (!isCorrect) {
+    return {
+      ease_factor: Math.max(MIN_EASE, card.ease_factor - 0.2),
+      interval_days: 1,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due_on: toDateKey(addDays(now, 1)),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval =
+    repetitions === 1 ? 1 : repetitions === 2 ? 3 : Math.round(card.interval_days * card.ease_factor);
+
+  return {
+    ease_factor: Math.min(MAX_EASE, card.ease_factor + 0.1),
+    interval_days: interval,
+    repetitions,
+    lapses: card.lapses,
+    due_on: toDateKey(addDays(now, interval)),
+  };
+}
+
+/**
+ * Whether a card is due on the given day
+ */
+export function isDue(card: Pick<ReviewSchedule, "due_on">, now: Date = new Date()): boolean {
+  return card.due_on <= toDateKey(now);
+}
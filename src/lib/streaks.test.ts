@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { evaluateStreak, reconcileStreak, shiftDay, type DayKey } from "./streaks";
+
+const TODAY: DayKey = "2026-10-16";
+
+/** Activity on every day from `days - 1` days ago through today */
+function dailyActivity(days: number): Map<DayKey, number> {
+  return new Map(Array.from({ length: days }, (_, offset) => [shiftDay(TODAY, -offset), 1]));
+}
+
+describe("evaluateStreak", () => {
+  it("counts a streak that breaks inside the loaded history", () => {
+    const activity = dailyActivity(30);
+    const evaluation = evaluateStreak({
+      activity,
+      shieldedDays: new Set(),
+      shieldAvailable: false,
+      today: TODAY,
+      historyStart: shiftDay(TODAY, -120),
+    });
+    expect(evaluation).toMatchObject({ current: 30, complete: true });
+  });
+
+  it("stops at the start of the loaded history without calling the streak broken", () => {
+    const evaluation = evaluateStreak({
+      activity: dailyActivity(200),
+      shieldedDays: new Set(),
+      shieldAvailable: false,
+      today: TODAY,
+      historyStart: shiftDay(TODAY, -120),
+    });
+    expect(evaluation).toMatchObject({ current: 121, complete: false });
+  });
+
+  it("doesn't spend a shield on a gap whose other side wasn't loaded", () => {
+    const historyStart = shiftDay(TODAY, -10);
+    const activity = dailyActivity(10);
+    const evaluation = evaluateStreak({
+      activity,
+      shieldedDays: new Set(),
+      shieldAvailable: true,
+      today: TODAY,
+      // The first loaded day is a missed weekday with nothing loaded before it
+      isSchoolDay: () => true,
+      historyStart,
+    });
+    expect(evaluation).toMatchObject({ current: 10, shieldNeededFor: null, complete: false });
+  });
+});
+
+describe("reconcileStreak", () => {
+  it("keeps the recorded streak when the history ran out first", () => {
+    const evaluation = evaluateStreak({
+      activity: dailyActivity(200),
+      shieldedDays: new Set(),
+      shieldAvailable: false,
+      today: TODAY,
+      historyStart: shiftDay(TODAY, -120),
+    });
+    expect(reconcileStreak(evaluation, 199)).toBe(199);
+  });
+
+  it("trusts a complete walk over the recorded streak", () => {
+    const evaluation = evaluateStreak({
+      activity: dailyActivity(5),
+      shieldedDays: new Set(),
+      shieldAvailable: false,
+      today: TODAY,
+      historyStart: shiftDay(TODAY, -120),
+    });
+    expect(reconcileStreak(evaluation, 199)).toBe(5);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Streak Engine
+ *
+ * What counts as a streak day and how shields protect a streak.
+ *
+ * - A day qualifies when the student earns XP from a learning activity
+ *   (`STREAK_QUALIFYING_SOURCES`), counted on the school's clock.
+ * - Non-school days (weekends, and holidays once a calendar is supplied)
+ *   never break a streak; activity on them still counts.
+ * - A missed school day consumes a shield if one is available and the
+ *   streak before it is alive. Otherwise the streak resets.
+ * - Today never breaks a streak: it is pending until midnight.
+ * - The walk back stops at the edge of the history loaded. A streak still
+ *   going there is incomplete, and never counts below the one on record.
+ */
+
+import { STREAK_QUALIFYING_SOURCES, STREAK_TIME_ZONE } from "@/constants";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A calendar day as YYYY-MM-DD in the school's time zone */
+export type DayKey = string;
+
+export type StreakDayStatus = "active" | "shielded" | "missed" | "off" | "today" | "future";
+
+export interface StreakDay {
+  day: DayKey;
+  status: StreakDayStatus;
+  /** Qualifying activities that day */
+  activities: number;
+}
+
+export interface StreakInput {
+  /** Qualifying activity count per day */
+  activity: Map<DayKey, number>;
+  /** Missed days a shield already covered */
+  shieldedDays: Set<DayKey>;
+  shieldAvailable: boolean;
+  today: DayKey;
+  isSchoolDay?: (day: DayKey) => boolean;
+  /** First day whose history was loaded; the walk stops there */
+  historyStart?: DayKey;
+}
+
+export interface StreakEvaluation {
+  current: number;
+  /** Today is a school day with no activity yet and there is a streak to lose */
+  atRisk: boolean;
+  /** A missed day the available shield should cover now */
+  shieldNeededFor: DayKey | null;
+  /** False when the history ran out before the streak broke, so it may be longer */
+  complete: boolean;
+}
+
+const DEFAULT_LOOKBACK_DAYS = 400;
+
+// ============================================================================
+// Days
+// ============================================================================
+
+/**
+ * The day a moment falls on in a time zone
+ */
+export function toDayKey(date: Date, timeZone: string = STREAK_TIME_ZONE): DayKey {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * The moment a day begins in a time zone
+ */
+export function startOfDayIn(day: DayKey, timeZone: string = STREAK_TIME_ZONE): Date {
+  return atTimeIn(day, "00:00", timeZone);
+}
+
+/**
+ * The moment a wall-clock time (HH:mm) on a day happens in a time zone
+ */
+export function atTimeIn(day: DayKey, time: string, timeZone: string = STREAK_TIME_ZONE): Date {
+  const utcGuess = Date.parse(`${day}T${time}:00Z`);
+  // The zone's wall clock at that UTC moment is ahead or behind by its offset
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(utcGuess);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+  return new Date(utcGuess - (wallClock - utcGuess));
+}
+
+/**
+ * Move a day key by whole days
+ */
+export function shiftDay(day: DayKey, days: number): DayKey {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one day key to a later one
+ */
+export function daysBetween(from: DayKey, to: DayKey): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * 0 = Sunday ... 6 = Saturday
+ */
+export function dayOfWeek(day: DayKey): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Weekdays are school days unless the calendar says otherwise
+ */
+export function isWeekday(day: DayKey): boolean {
+  const weekday = dayOfWeek(day);
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Whether a ledger entry counts toward a streak
+ */
+export function isQualifyingActivity(sourceType: string, xpDelta: number): boolean {
+  return xpDelta > 0 && (STREAK_QUALIFYING_SOURCES as readonly string[]).includes(sourceType);
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Current streak length, walking back from today
+ */
+export function evaluateStreak(input: StreakInput): StreakEvaluation {
+  const isSchoolDay = input.isSchoolDay ?? isWeekday;
+  const lookback = input.historyStart ? daysBetween(input.historyStart, input.today) : DEFAULT_LOOKBACK_DAYS;
+  const active = (day: DayKey) => (input.activity.get(day) ?? 0) > 0;
+
+  let current = active(input.today) ? 1 : 0;
+  let shieldAvailable = input.shieldAvailable;
+  let shieldNeededFor: DayKey | null = null;
+  let complete = false;
+
+  for (let offset = 1; offset <= lookback; offset++) {
+    const day = shiftDay(input.today, -offset);
+    if (active(day)) {
+      current++;
+      continue;
+    }
+    if (!isSchoolDay(day) || input.shieldedDays.has(day)) continue;
+
+    // A shield only helps if there is a streak on the other side of the gap
+    if (shieldAvailable) {
+      const before = previousSchoolDayActive(day, input, isSchoolDay, lookback - offset);
+      if (before === null) break;
+      if (before) {
+        shieldAvailable = false;
+        shieldNeededFor = day;
+        continue;
+      }
+    }
+    complete = true;
+    break;
+  }
+
+  return {
+    current,
+    atRisk: isSchoolDay(input.today) && !active(input.today) && current > 0,
+    shieldNeededFor,
+    complete,
+  };
+}
+
+/**
+ * The streak to show and save. One that ran past the history loaded is at
+ * least as long as the streak on record.
+ */
+export function reconcileStreak(evaluation: StreakEvaluation, recorded: number): number {
+  return evaluation.complete ? evaluation.current : Math.max(evaluation.current, recorded);
+}
+
+/** Null when the history runs out before the previous school day */
+function previousSchoolDayActive(
+  day: DayKey,
+  input: StreakInput,
+  isSchoolDay: (day: DayKey) => boolean,
+  remaining: number
+): boolean | null {
+  for (let offset = 1; offset <= remaining; offset++) {
+    const previous = shiftDay(day, -offset);
+    if ((input.activity.get(previous) ?? 0) > 0 || input.shieldedDays.has(previous)) return true;
+    if (isSchoolDay(previous)) return false;
+  }
+  return null;
+}
+
+/**
+ * Longest run in the history supplied, with shielded and non-school days
+ * bridging gaps the same way as the current streak
+ */
+export function longestStreak(input: Omit<StreakInput, "shieldAvailable">): number {
+  const isSchoolDay = input.isSchoolDay ?? isWeekday;
+  const days = [...input.activity.keys()].filter((day) => day <= input.today).sort();
+  if (days.length === 0) return 0;
+
+  let best = 0;
+  let run = 0;
+  for (let day = days[0]; day <= input.today; day = shiftDay(day, 1)) {
+    if ((input.activity.get(day) ?? 0) > 0) {
+      run++;
+      best = Math.max(best, run);
+    } else if (day !== input.today && isSchoolDay(day) && !input.shieldedDays.has(day)) {
+      run = 0;
+    }
+  }
+  return best;
+}
+
+// ============================================================================
+// Calendar
+// ============================================================================
+
+/**
+ * Whole weeks (Sunday to Saturday) ending with the week containing today
+ */
+export function buildStreakCalendar(
+  input: Omit<StreakInput, "shieldAvailable">,
+  weeks = 12
+): StreakDay[] {
+  const isSchoolDay = input.isSchoolDay ?? isWeekday;
+  const lastDay = shiftDay(input.today, 6 - dayOfWeek(input.today));
+  const firstDay = shiftDay(lastDay, -(weeks * 7 - 1));
+
+  const result: StreakDay[] = [];
+  for (let day = firstDay; day <= lastDay; day = shiftDay(day, 1)) {
+    const activities = input.activity.get(day) ?? 0;
+    let status: StreakDayStatus;
+    if (day > input.today) status = "future";
+    else if (activities > 0) status = "active";
+    else if (day === input.today) status = "today";
+    else if (input.shieldedDays.has(day)) status = "shielded";
+    else if (!isSchoolDay(day)) status = "off";
+    else status = "missed";
+    result.push({ day, status, activities });
+  }
+  return result;
+}
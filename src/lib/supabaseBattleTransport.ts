@@ -0,0 +1,96 @@
+/**
+ * Supabase Battle Transport
+ *
+ * Carries quiz battle messages over a Supabase Realtime channel: broadcast
+ * for match messages and presence for the lobby roster. Each message is
+ * sent with the sender's presence key, and messages from anyone not
+ * present in the lobby are dropped.
+ */
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { BattleMessage, BattlePlayer, BattleTransport, ReceivedBattleMessage } from "@/lib/quizBattle";
+
+const MESSAGE_EVENT = "battle";
+
+interface BattleEnvelope {
+  senderId: string;
+  message: BattleMessage;
+}
+
+/**
+ * One lobby per class; everyone in the class joins the same channel
+ */
+export function createSupabaseBattleTransport(classId: string): BattleTransport {
+  const messageHandlers = new Set<(message: ReceivedBattleMessage) => void>();
+  const presenceHandlers = new Set<(players: BattlePlayer[]) => void>();
+  let channel: RealtimeChannel | null = null;
+  let selfId: string | null = null;
+
+  return {
+    connect(self) {
+      selfId = self.userId;
+      channel = supabase.channel(`quiz-battle-${classId}`, {
+        config: {
+          broadcast: { self: true, ack: true },
+          presence: { key: self.userId },
+        },
+      });
+
+      channel
+        .on("broadcast", { event: MESSAGE_EVENT }, ({ payload }) => {
+          const { senderId, message } = payload as BattleEnvelope;
+          if (!senderId || !(senderId in channel!.presenceState())) return;
+          messageHandlers.forEach((handler) => handler({ ...message, senderId }));
+        })
+        .on("presence", { event: "sync" }, () => {
+          const state = channel!.presenceState<BattlePlayer>();
+          // A player with several tabs open counts once
+          const players = Object.values(state).map((presences) => presences[0]);
+          presenceHandlers.forEach((handler) => handler(players));
+        });
+
+      return new Promise<void>((resolve, reject) => {
+        channel!.subscribe(async (status) => {
+          if (status === "SUBSCRIBED") {
+            await channel!.track(self);
+            resolve();
+          } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+            reject(new Error(`Failed to join battle lobby: ${status}`));
+          }
+        });
+      });
+    },
+
+    async send(message) {
+      if (!channel || !selfId) {
+        throw new Error("Battle lobby is not connected");
+      }
+      const envelope: BattleEnvelope = { senderId: selfId, message };
+      const result = await channel.send({ type: "broadcast", event: MESSAGE_EVENT, payload: envelope });
+      if (result !== "ok") {
+        throw new Error(`Failed to send battle message: ${result}`);
+      }
+    },
+
+    onMessage(handler) {
+      messageHandlers.add(handler);
+      return () => messageHandlers.delete(handler);
+    },
+
+    onPresence(handler) {
+      presenceHandlers.add(handler);
+      return () => presenceHandlers.delete(handler);
+    },
+
+    async disconnect() {
+      messageHandlers.clear();
+      presenceHandlers.clear();
+      if (channel) {
+        await supabase.removeChannel(channel);
+        channel = null;
+        selfId = null;
+      }
+    },
+  };
+}
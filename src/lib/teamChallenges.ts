@@ -0,0 +1,140 @@
+/**
+ * Team Challenges
+ *
+ * A challenge's `scope` says who works toward it:
+ *
+ * - `individual`: each student on their own, `assignments_completed`
+ *   against `min_assignments`
+ * - `class`: every student enrolled in a class, as one team
+ * - `group`: a chosen set of students within a class, as one team
+ *
+ * Teams share one goal, `goal_target` of `goal_metric`, counted from the
+ * challenge's start date. A challenge with more than one team is a
+ * competition: the first team to reach the goal wins and is the only one
+ * rewarded. Otherwise every team that reaches it is.
+ *
+ * The XP and coin bonuses are a pool split evenly across the team's members
+ * by `settle_team_challenge`, rounding down; `splitReward` is the same rule
+ * for display.
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChallengeScope = Database["public"]["Enums"]["challenge_scope"];
+
+export type TeamGoalMetric = Database["public"]["Enums"]["team_goal_metric"];
+
+/** One member's numbers since the challenge started */
+export interface TeamMemberStats {
+  studentId: string;
+  name: string;
+  xp: number;
+  assignments: number;
+  /** Average mastery 0–100 of standards practised, null with no attempts */
+  mastery: number | null;
+}
+
+export interface TeamContribution {
+  studentId: string;
+  name: string;
+  value: number | null;
+  /** 0–100 of the team total; 0 for members with no value */
+  share: number;
+}
+
+export interface TeamProgress {
+  current: number;
+  target: number;
+  /** 0–100 */
+  percent: number;
+  reached: boolean;
+  /** Largest contribution first */
+  contributions: TeamContribution[];
+}
+
+export const TEAM_GOAL_METRICS: Record<TeamGoalMetric, { label: string; unit: string }> = {
+  total_xp: { label: "Total XP", unit: "XP" },
+  total_assignments: { label: "Total assignments", unit: "assignments" },
+  average_mastery: { label: "Average mastery", unit: "% mastery" },
+};
+
+export const CHALLENGE_SCOPE_LABELS: Record<ChallengeScope, string> = {
+  individual: "Individual",
+  class: "Whole class",
+  group: "Group",
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+function memberValue(metric: TeamGoalMetric, member: TeamMemberStats): number | null {
+  switch (metric) {
+    case "total_xp":
+      return member.xp;
+    case "total_assignments":
+      return member.assignments;
+    case "average_mastery":
+      return member.mastery;
+  }
+}
+
+/**
+ * A team's progress toward its goal and what each member put in. Average
+ * mastery only counts members who have practised, so a quiet member
+ * doesn't pull the team down.
+ */
+export function teamProgress(metric: TeamGoalMetric, target: number, members: TeamMemberStats[]): TeamProgress {
+  const values = members.map((member) => memberValue(metric, member));
+  const counted = values.filter((value): value is number => value !== null);
+  const sum = counted.reduce((total, value) => total + value, 0);
+
+  const current =
+    metric === "average_mastery"
+      ? counted.length > 0
+        ? Math.round(sum / counted.length)
+        : 0
+      : sum;
+  const safeTarget = Math.max(1, target);
+
+  const contributions = members
+    .map((member, index) => ({
+      studentId: member.studentId,
+      name: member.name,
+      value: values[index],
+      share: sum > 0 && values[index] ? Math.round((values[index] / sum) * 100) : 0,
+    }))
+    .sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+
+  return {
+    current,
+    target: safeTarget,
+    percent: Math.min(100, Math.round((current / safeTarget) * 100)),
+    reached: current >= safeTarget,
+    contributions,
+  };
+}
+
+/**
+ * Each member's cut of a reward pool
+ */
+export function splitReward(pool: number, memberCount: number): number {
+  return memberCount > 0 ? Math.floor(pool / memberCount) : 0;
+}
+
+/**
+ * Competition standings: teams that reached the goal first, in the order
+ * they reached it, then the rest by progress
+ */
+export function rankTeams<T extends { goalReachedAt: string | null; progress: TeamProgress }>(teams: T[]): T[] {
+  return [...teams].sort((a, b) => {
+    if (a.goalReachedAt && b.goalReachedAt) return a.goalReachedAt.localeCompare(b.goalReachedAt);
+    if (a.goalReachedAt) return -1;
+    if (b.goalReachedAt) return 1;
+    return b.progress.percent - a.progress.percent;
+  });
+}
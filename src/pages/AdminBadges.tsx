@@ -0,0 +1,354 @@
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, Award, Eye, Loader2, Plus, Users } from "lucide-react";
+import { useBadgeDefinitions, useBadgeQualifiers, type BadgeDefinition } from "@/hooks/queries/useBadges";
+import { useGrantBadges, useSaveBadge } from "@/hooks/mutations/useBadges";
+import { describeCriteria, parseBadgeCriteria, type BadgeCriteria } from "@/lib/badgeCriteria";
+
+const CRITERIA_TEMPLATES: Record<string, { label: string; criteria: BadgeCriteria }> = {
+  assignments: {
+    label: "Complete assignments in a subject",
+    criteria: { type: "assignments_completed", count: 10, subject: "Algebra I" },
+  },
+  streak: {
+    label: "Reach a streak",
+    criteria: { type: "streak", days: 7 },
+  },
+  mastery: {
+    label: "Master a standard",
+    criteria: { type: "standard_mastery", standard: "AI-A.REI.4", percent: 90, minAttempts: 5 },
+  },
+  games: {
+    label: "Win games",
+    criteria: { type: "games_won", count: 5, source: "any" },
+  },
+  combined: {
+    label: "Several rules together",
+    criteria: {
+      type: "all",
+      rules: [
+        { type: "assignments_completed", count: 5 },
+        { type: "streak", days: 5 },
+      ],
+    },
+  },
+};
+
+interface BadgeDraft {
+  id?: string;
+  name: string;
+  description: string;
+  iconUrl: string;
+  xpReward: number;
+  criteriaText: string;
+}
+
+const EMPTY_DRAFT: BadgeDraft = {
+  name: "",
+  description: "",
+  iconUrl: "",
+  xpReward: 0,
+  criteriaText: "",
+};
+
+function toDraft(badge: BadgeDefinition): BadgeDraft {
+  return {
+    id: badge.id,
+    name: badge.name,
+    description: badge.description ?? "",
+    iconUrl: badge.icon_url ?? "",
+    xpReward: badge.xp_reward,
+    criteriaText: badge.criteria ? JSON.stringify(badge.criteria, null, 2) : "",
+  };
+}
+
+/**
+ * Empty text means the badge is awarded by hand only
+ */
+function parseCriteriaText(text: string): { criteria: BadgeCriteria | null; error: string | null } {
+  if (!text.trim()) return { criteria: null, error: null };
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { criteria: null, error: "Criteria must be valid JSON" };
+  }
+  const parsed = parseBadgeCriteria(json);
+  return parsed.success ? { criteria: parsed.data, error: null } : { criteria: null, error: parsed.error };
+}
+
+export default function AdminBadges() {
+  const { data: badges = [], isLoading } = useBadgeDefinitions();
+  const saveBadge = useSaveBadge();
+  const grantBadges = useGrantBadges();
+
+  const [draft, setDraft] = useState<BadgeDraft | null>(null);
+  const [previewCriteria, setPreviewCriteria] = useState<BadgeCriteria | null>(null);
+  const { data: qualifiers = [], isFetching: previewLoading } = useBadgeQualifiers(previewCriteria, draft?.id);
+
+  const { criteria, error: criteriaError } = useMemo(
+    () => parseCriteriaText(draft?.criteriaText ?? ""),
+    [draft?.criteriaText]
+  );
+  const toAward = qualifiers.filter((q) => !q.alreadyEarned);
+  const savedBadge = badges.find((b) => b.id === draft?.id);
+  // Awarding uses the saved criteria, so the preview must match them
+  const previewMatchesSaved =
+    !!savedBadge && JSON.stringify(savedBadge.criteria) === JSON.stringify(previewCriteria);
+
+  const update = (patch: Partial<BadgeDraft>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const startEditing = (next: BadgeDraft) => {
+    setDraft(next);
+    setPreviewCriteria(null);
+  };
+
+  const handleSave = () => {
+    if (!draft || criteriaError) return;
+    saveBadge.mutate(
+      {
+        id: draft.id,
+        name: draft.name,
+        description: draft.description,
+        icon_url: draft.iconUrl,
+        xp_reward: draft.xpReward,
+        criteria,
+      },
+      {
+        onSuccess: (id) => {
+          toast.success(criteria ? "Badge published. Students earn it automatically." : "Badge saved");
+          update({ id });
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const handleAward = () => {
+    if (!savedBadge) return;
+    grantBadges.mutate(
+      { badge: savedBadge, studentIds: toAward.map((q) => q.studentId) },
+      {
+        onSuccess: (grants) => toast.success(`Awarded "${savedBadge.name}" to ${grants.length} students`),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <AdminLayout title="Badges" breadcrumbs={[{ label: "Admin", href: "/admin" }, { label: "Badges" }]}>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Badges</h1>
+            <p className="text-muted-foreground">
+              Badges with criteria are awarded automatically after students earn rewards
+            </p>
+          </div>
+          <Button onClick={() => startEditing(EMPTY_DRAFT)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Badge
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Award className="w-5 h-5" />
+                All Badges
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : badges.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">No badges yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Badge</TableHead>
+                      <TableHead>How it's earned</TableHead>
+                      <TableHead>XP</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {badges.map((badge) => (
+                      <TableRow
+                        key={badge.id}
+                        className="cursor-pointer"
+                        data-state={draft?.id === badge.id ? "selected" : undefined}
+                        onClick={() => startEditing(toDraft(badge))}
+                      >
+                        <TableCell className="font-medium">{badge.name}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {badge.criteria ? describeCriteria(badge.criteria) : "Awarded by hand"}
+                        </TableCell>
+                        <TableCell>{badge.xp_reward}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {draft && (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{draft.id ? "Edit Badge" : "New Badge"}</CardTitle>
+                  <CardDescription>Preview who qualifies before publishing</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="badge-name">Name</Label>
+                    <Input id="badge-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="badge-description">Description</Label>
+                    <Input
+                      id="badge-description"
+                      value={draft.description}
+                      onChange={(e) => update({ description: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-[1fr_auto] gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="badge-icon">Icon URL</Label>
+                      <Input id="badge-icon" value={draft.iconUrl} onChange={(e) => update({ iconUrl: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="badge-xp">XP reward</Label>
+                      <Input
+                        id="badge-xp"
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        value={draft.xpReward}
+                        onChange={(e) => update({ xpReward: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="badge-criteria">Criteria (JSON)</Label>
+                      <Select
+                        value=""
+                        onValueChange={(key) =>
+                          update({ criteriaText: JSON.stringify(CRITERIA_TEMPLATES[key].criteria, null, 2) })
+                        }
+                      >
+                        <SelectTrigger className="w-56 h-8">
+                          <SelectValue placeholder="Start from a template" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CRITERIA_TEMPLATES).map(([key, template]) => (
+                            <SelectItem key={key} value={key}>
+                              {template.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Textarea
+                      id="badge-criteria"
+                      rows={8}
+                      className="font-mono text-xs"
+                      placeholder="Leave empty to award this badge by hand"
+                      value={draft.criteriaText}
+                      onChange={(e) => update({ criteriaText: e.target.value })}
+                    />
+                    {criteriaError ? (
+                      <p className="text-sm text-destructive flex items-start gap-2">
+                        <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                        {criteriaError}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        {criteria ? describeCriteria(criteria) : "Awarded by hand only"}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2 flex-wrap">
+                    <Button
+                      variant="outline"
+                      onClick={() => setPreviewCriteria(criteria)}
+                      disabled={!criteria}
+                    >
+                      <Eye className="w-4 h-4 mr-2" />
+                      Preview qualifying students
+                    </Button>
+                    <Button
+                      onClick={handleSave}
+                      disabled={!draft.name.trim() || !!criteriaError || saveBadge.isPending}
+                    >
+                      {saveBadge.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {draft.id ? "Save" : "Publish"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {previewCriteria && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="w-5 h-5" />
+                      Qualifying Students
+                    </CardTitle>
+                    <CardDescription>{describeCriteria(previewCriteria)}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {previewLoading ? (
+                      <div className="flex justify-center py-6">
+                        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                      </div>
+                    ) : qualifiers.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No students qualify yet.</p>
+                    ) : (
+                      <>
+                        <p className="text-sm">
+                          {qualifiers.length} student{qualifiers.length === 1 ? "" : "s"} qualify
+                          {draft.id && `, ${toAward.length} without the badge`}
+                        </p>
+                        <div className="max-h-64 overflow-y-auto space-y-1">
+                          {qualifiers.map((q) => (
+                            <div key={q.studentId} className="flex items-center justify-between text-sm">
+                              <span>{q.name}</span>
+                              {q.alreadyEarned && <Badge variant="secondary">Earned</Badge>}
+                            </div>
+                          ))}
+                        </div>
+                        {previewMatchesSaved && toAward.length > 0 && (
+                          <Button variant="outline" onClick={handleAward} disabled={grantBadges.isPending}>
+                            {grantBadges.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                            Award to {toAward.length} now
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, type ChangeEvent } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarDays, Loader2, Trash2, Upload } from "lucide-react";
+import { useMySchoolId } from "@/hooks/queries/useEconomyConfig";
+import { useSchoolCalendarEvents } from "@/hooks/queries/useSchoolCalendar";
+import { useDeleteSchoolCalendarEvent, useImportSchoolCalendar } from "@/hooks/mutations/useSchoolCalendar";
+import { parseIcs, type CalendarEvent, type SchoolCalendarEventKind } from "@/lib/schoolCalendar";
+
+const KIND_LABELS: Record<SchoolCalendarEventKind, string> = {
+  holiday: "Holiday (no school)",
+  break: "Break (no school)",
+  exam_week: "Exam week",
+  event: "Event (school open)",
+};
+
+const KIND_VARIANTS: Record<SchoolCalendarEventKind, "default" | "secondary" | "outline" | "destructive"> = {
+  holiday: "destructive",
+  break: "destructive",
+  exam_week: "default",
+  event: "outline",
+};
+
+function formatRange(event: CalendarEvent): string {
+  const start = format(new Date(`${event.startDate}T00:00`), "MMM d, yyyy");
+  if (event.endDate === event.startDate) return start;
+  return `${start} – ${format(new Date(`${event.endDate}T00:00`), "MMM d, yyyy")}`;
+}
+
+function KindSelect({
+  value,
+  onChange,
+}: {
+  value: SchoolCalendarEventKind;
+  onChange: (kind: SchoolCalendarEventKind) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(kind) => onChange(kind as SchoolCalendarEventKind)}>
+      <SelectTrigger className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(KIND_LABELS) as SchoolCalendarEventKind[]).map((kind) => (
+          <SelectItem key={kind} value={kind}>
+            {KIND_LABELS[kind]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function AdminCalendar() {
+  const { data: mySchoolId } = useMySchoolId();
+  const [scope, setScope] = useState<"district" | "school">("district");
+  const schoolId = scope === "school" ? mySchoolId ?? null : null;
+  const { data: events = [], isLoading } = useSchoolCalendarEvents(schoolId, scope === "district" || !!mySchoolId);
+  const importCalendar = useImportSchoolCalendar();
+  const deleteEvent = useDeleteSchoolCalendarEvent();
+
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<CalendarEvent[]>([]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseIcs(await file.text());
+    if (parsed.length === 0) {
+      toast.error("No events found in that file. Is it an .ics calendar?");
+      return;
+    }
+    setFileName(file.name);
+    setPreview(parsed);
+  };
+
+  const setPreviewKind = (uid: string, kind: SchoolCalendarEventKind) =>
+    setPreview((events) => events.map((event) => (event.uid === uid ? { ...event, kind } : event)));
+
+  const handleImport = () => {
+    importCalendar.mutate(
+      { schoolId, events: preview },
+      {
+        onSuccess: (count) => {
+          toast.success(`Imported ${count} calendar event${count === 1 ? "" : "s"}`);
+          setPreview([]);
+          setFileName("");
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    deleteEvent.mutate(id, {
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const closedDays = preview.filter((e) => e.kind === "holiday" || e.kind === "break").length;
+
+  return (
+    <AdminLayout
+      title="School Calendar"
+      breadcrumbs={[{ label: "Admin", href: "/admin" }, { label: "School Calendar" }]}
+    >
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">School Calendar</h1>
+            <p className="text-muted-foreground">
+              Holidays and breaks pause streaks and push back "due soon" reminders
+            </p>
+          </div>
+          <Select value={scope} onValueChange={(value) => setScope(value as "district" | "school")}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="district">District-wide</SelectItem>
+              <SelectItem value="school" disabled={!mySchoolId}>
+                My school
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="w-5 h-5" />
+              Import iCal
+            </CardTitle>
+            <CardDescription>
+              Upload an .ics export of the school calendar. Check each event's type before importing;
+              re-importing the same file updates events instead of duplicating them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input type="file" accept=".ics,text/calendar" onChange={handleFile} className="max-w-sm" />
+
+            {preview.length > 0 && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {fileName}: {preview.length} events, {closedDays} closing school
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Type</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((event) => (
+                      <TableRow key={event.uid}>
+                        <TableCell className="font-medium">{event.title}</TableCell>
+                        <TableCell>{formatRange(event)}</TableCell>
+                        <TableCell>
+                          <KindSelect value={event.kind} onChange={(kind) => setPreviewKind(event.uid, kind)} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <div className="flex gap-2">
+                  <Button onClick={handleImport} disabled={importCalendar.isPending}>
+                    {importCalendar.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Import {preview.length} events
+                  </Button>
+                  <Button variant="outline" onClick={() => setPreview([])}>
+                    Cancel
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Calendar Events
+            </CardTitle>
+            <CardDescription>
+              {scope === "district"
+                ? "Apply to every school"
+                : "Apply to your school, on top of the district calendar"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : events.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                No events yet. Every weekday counts as a school day.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="font-medium">{event.title}</TableCell>
+                      <TableCell>{formatRange(event)}</TableCell>
+                      <TableCell>
+                        <Badge variant={KIND_VARIANTS[event.kind]}>{KIND_LABELS[event.kind]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(event.id)}
+                          disabled={deleteEvent.isPending}
+                          aria-label={`Delete ${event.title}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
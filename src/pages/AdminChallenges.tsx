@@ -0,0 +1,452 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Crown, Loader2, Plus, Swords, Trash2, Users } from "lucide-react";
+import { useAllClasses, useClassRoster, type TeacherClass } from "@/hooks/queries/useTeacherClass";
+import { useTeamChallenges } from "@/hooks/queries/useChallenges";
+import { useCreateTeamChallenge } from "@/hooks/mutations/useChallenges";
+import { CHALLENGE_SCOPE_LABELS, TEAM_GOAL_METRICS, type TeamGoalMetric } from "@/lib/teamChallenges";
+
+const THEMES = ["math", "reading", "science", "writing", "default"];
+
+type TeamScope = "class" | "group";
+
+interface TeamDraft {
+  key: number;
+  classId: string;
+  name: string;
+  studentIds: string[];
+}
+
+interface ChallengeDraft {
+  title: string;
+  description: string;
+  theme: string;
+  startDate: string;
+  endDate: string;
+  scope: TeamScope;
+  goalMetric: TeamGoalMetric;
+  goalTarget: number;
+  xpBonus: number;
+  coinBonus: number;
+  teams: TeamDraft[];
+}
+
+let nextTeamKey = 1;
+
+function emptyTeam(): TeamDraft {
+  return { key: nextTeamKey++, classId: "", name: "", studentIds: [] };
+}
+
+function emptyDraft(): ChallengeDraft {
+  return {
+    title: "",
+    description: "",
+    theme: "math",
+    startDate: "",
+    endDate: "",
+    scope: "class",
+    goalMetric: "total_assignments",
+    goalTarget: 50,
+    xpBonus: 500,
+    coinBonus: 250,
+    teams: [emptyTeam()],
+  };
+}
+
+/**
+ * The first problem stopping the draft from being created, or null
+ */
+function validateDraft(draft: ChallengeDraft): string | null {
+  if (!draft.title.trim()) return "Give the challenge a title";
+  if (!draft.startDate || !draft.endDate) return "Choose start and end dates";
+  if (draft.endDate < draft.startDate) return "The end date must be after the start date";
+  if (draft.goalTarget <= 0) return "Set a goal above zero";
+  if (draft.goalMetric === "average_mastery" && draft.goalTarget > 100) return "Average mastery goals are out of 100";
+  if (draft.teams.some((team) => !team.classId || !team.name.trim())) return "Every team needs a class and a name";
+  if (draft.scope === "class" && new Set(draft.teams.map((t) => t.classId)).size < draft.teams.length) {
+    return "Each class can only be one team";
+  }
+  if (draft.scope === "group" && draft.teams.some((team) => team.studentIds.length === 0)) {
+    return "Every group needs at least one student";
+  }
+  return null;
+}
+
+interface TeamEditorProps {
+  team: TeamDraft;
+  scope: TeamScope;
+  classes: TeacherClass[];
+  onChange: (patch: Partial<TeamDraft>) => void;
+  onRemove?: () => void;
+}
+
+function TeamEditor({ team, scope, classes, onChange, onRemove }: TeamEditorProps) {
+  const { data: roster = [], isLoading } = useClassRoster(scope === "group" && team.classId ? team.classId : undefined);
+
+  const toggleStudent = (studentId: string, checked: boolean) =>
+    onChange({
+      studentIds: checked ? [...team.studentIds, studentId] : team.studentIds.filter((id) => id !== studentId),
+    });
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-3">
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <Label>Class</Label>
+          <Select
+            value={team.classId}
+            onValueChange={(classId) => {
+              const name = classes.find((c) => c.id === classId)?.name ?? "";
+              onChange({ classId, studentIds: [], name: scope === "class" || !team.name ? name : team.name });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a class" />
+            </SelectTrigger>
+            <SelectContent>
+              {classes.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Team name</Label>
+          <Input value={team.name} onChange={(e) => onChange({ name: e.target.value })} />
+        </div>
+        <Button variant="ghost" size="icon" onClick={onRemove} disabled={!onRemove} aria-label="Remove team">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {scope === "group" && team.classId && (
+        <div className="space-y-1">
+          <Label>
+            Members ({team.studentIds.length} of {roster.length})
+          </Label>
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          ) : roster.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No students enrolled</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-1 max-h-40 overflow-y-auto">
+              {roster.map((student) => (
+                <label key={student.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={team.studentIds.includes(student.id)}
+                    onCheckedChange={(checked) => toggleStudent(student.id, checked === true)}
+                  />
+                  {student.full_name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function AdminChallenges() {
+  const { data: challenges = [], isLoading } = useTeamChallenges();
+  const { data: classes = [] } = useAllClasses();
+  const createChallenge = useCreateTeamChallenge();
+  const [draft, setDraft] = useState<ChallengeDraft | null>(null);
+
+  const update = (patch: Partial<ChallengeDraft>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+  const updateTeam = (key: number, patch: Partial<TeamDraft>) =>
+    setDraft((d) => (d ? { ...d, teams: d.teams.map((t) => (t.key === key ? { ...t, ...patch } : t)) } : d));
+
+  const validationError = draft ? validateDraft(draft) : null;
+  const className = (classId: string) => classes.find((c) => c.id === classId)?.name ?? "Unknown class";
+
+  const handleCreate = () => {
+    if (!draft || validationError) return;
+    createChallenge.mutate(
+      {
+        title: draft.title.trim(),
+        description: draft.description.trim(),
+        theme: draft.theme,
+        startDate: new Date(`${draft.startDate}T00:00:00`).toISOString(),
+        endDate: new Date(`${draft.endDate}T23:59:59`).toISOString(),
+        scope: draft.scope,
+        goalMetric: draft.goalMetric,
+        goalTarget: draft.goalTarget,
+        xpBonus: draft.xpBonus,
+        coinBonus: draft.coinBonus,
+        badgeId: null,
+        teams: draft.teams.map((team) => ({
+          classId: team.classId,
+          name: team.name.trim(),
+          studentIds: team.studentIds,
+        })),
+      },
+      {
+        onSuccess: () => {
+          toast.success(draft.teams.length > 1 ? "Competition created" : "Team challenge created");
+          setDraft(null);
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <AdminLayout
+      title="Team Challenges"
+      breadcrumbs={[{ label: "Admin", href: "/admin" }, { label: "Team Challenges" }]}
+    >
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Team Challenges</h1>
+            <p className="text-muted-foreground">
+              A class or group works toward one goal; add more teams to make it a competition
+            </p>
+          </div>
+          <Button onClick={() => setDraft(emptyDraft())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Team Challenge
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Swords className="w-5 h-5" />
+                All Team Challenges
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : challenges.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">No team challenges yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Challenge</TableHead>
+                      <TableHead>Goal</TableHead>
+                      <TableHead>Teams</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {challenges.map((challenge) => (
+                      <TableRow key={challenge.id}>
+                        <TableCell>
+                          <p className="font-medium">{challenge.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(challenge.start_date), "MMM d")} –{" "}
+                            {format(new Date(challenge.end_date), "MMM d")}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {challenge.goal_target}{" "}
+                          {TEAM_GOAL_METRICS[challenge.goal_metric ?? "total_assignments"].unit}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {challenge.teams.map((team) => (
+                              <Badge key={team.id} variant={team.id === challenge.winner_team_id ? "default" : "secondary"}>
+                                {team.id === challenge.winner_team_id && <Crown className="w-3 h-3 mr-1" />}
+                                {team.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {draft && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{draft.teams.length > 1 ? "New Competition" : "New Team Challenge"}</CardTitle>
+                <CardDescription>
+                  Rewards are split evenly across each rewarded team's members
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="challenge-title">Title</Label>
+                  <Input id="challenge-title" value={draft.title} onChange={(e) => update({ title: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="challenge-description">Description</Label>
+                  <Input
+                    id="challenge-description"
+                    value={draft.description}
+                    onChange={(e) => update({ description: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Theme</Label>
+                    <Select value={draft.theme} onValueChange={(theme) => update({ theme })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {THEMES.map((theme) => (
+                          <SelectItem key={theme} value={theme} className="capitalize">
+                            {theme}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="challenge-start">Starts</Label>
+                    <Input
+                      id="challenge-start"
+                      type="date"
+                      value={draft.startDate}
+                      onChange={(e) => update({ startDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="challenge-end">Ends</Label>
+                    <Input
+                      id="challenge-end"
+                      type="date"
+                      value={draft.endDate}
+                      onChange={(e) => update({ endDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label>Goal</Label>
+                    <Select
+                      value={draft.goalMetric}
+                      onValueChange={(goalMetric) => update({ goalMetric: goalMetric as TeamGoalMetric })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(TEAM_GOAL_METRICS).map(([value, { label }]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="challenge-target">Target ({TEAM_GOAL_METRICS[draft.goalMetric].unit})</Label>
+                    <Input
+                      id="challenge-target"
+                      type="number"
+                      min={1}
+                      value={draft.goalTarget}
+                      onChange={(e) => update({ goalTarget: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="challenge-xp">XP per team</Label>
+                    <Input
+                      id="challenge-xp"
+                      type="number"
+                      min={0}
+                      value={draft.xpBonus}
+                      onChange={(e) => update({ xpBonus: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="challenge-coins">Coins per team</Label>
+                    <Input
+                      id="challenge-coins"
+                      type="number"
+                      min={0}
+                      value={draft.coinBonus}
+                      onChange={(e) => update({ coinBonus: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="flex items-center gap-2">
+                      <Users className="w-4 h-4" />
+                      Teams
+                    </Label>
+                    <Select
+                      value={draft.scope}
+                      onValueChange={(scope) =>
+                        update({ scope: scope as TeamScope, teams: draft.teams.map((t) => ({ ...t, studentIds: [] })) })
+                      }
+                    >
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="class">{CHALLENGE_SCOPE_LABELS.class}</SelectItem>
+                        <SelectItem value="group">{CHALLENGE_SCOPE_LABELS.group}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {draft.teams.map((team) => (
+                    <TeamEditor
+                      key={team.key}
+                      team={team}
+                      scope={draft.scope}
+                      classes={classes}
+                      onChange={(patch) => updateTeam(team.key, patch)}
+                      onRemove={
+                        draft.teams.length > 1
+                          ? () => update({ teams: draft.teams.filter((t) => t.key !== team.key) })
+                          : undefined
+                      }
+                    />
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update({ teams: [...draft.teams, emptyTeam()] })}
+                  >
+                    <Swords className="w-4 h-4 mr-2" />
+                    Add a competing team
+                  </Button>
+                  {draft.teams.length > 1 && (
+                    <p className="text-sm text-muted-foreground">
+                      {draft.teams.map((t) => (t.classId ? t.name || className(t.classId) : "?")).join(" vs ")} —
+                      the first team to reach the goal wins
+                    </p>
+                  )}
+                </div>
+
+                {validationError && <p className="text-sm text-muted-foreground">{validationError}</p>}
+                <Button onClick={handleCreate} disabled={!!validationError || createChallenge.isPending}>
+                  {createChallenge.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Create
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -16,6 +16,7 @@ import {
   Settings,
   BarChart3,
   Activity,
+  Swords,
 } from "lucide-react";
 import { AdminDashboardSkeleton } from "@/components/skeletons/AdminDashboardSkeleton";
 
@@ -160,6 +161,13 @@ export default function AdminDashboard() {
       href: "/admin/badges",
       color: "from-amber-500 to-amber-600",
     },
+    {
+      title: "Team Challenges",
+      description: "Set class and group goals, or class-vs-class competitions",
+      icon: Swords,
+      href: "/admin/challenges",
+      color: "from-orange-500 to-red-600",
+    },
   ];
 
   const isLoading = loadingExternal;
@@ -0,0 +1,470 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, History, Loader2, TrendingUp, Upload } from "lucide-react";
+import { useEconomyConfigVersions, useMySchoolId } from "@/hooks/queries/useEconomyConfig";
+import { usePublishEconomyConfig } from "@/hooks/mutations/usePublishEconomyConfig";
+import {
+  ACTIVITY_TYPES,
+  DEFAULT_ECONOMY_CONFIG,
+  parseEconomyConfig,
+  simulateLevelProgression,
+  type ActivityRule,
+  type ActivityType,
+  type EconomyConfig,
+  type LevelCurve,
+} from "@/lib/economy";
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  assignment: "Assignment",
+  practice_set: "Practice set",
+  game: "Game",
+  battle: "Quiz battle",
+  daily_review: "Daily review",
+  study_goal: "Study goal",
+  challenge: "Challenge",
+};
+
+const CURVE_DEFAULTS: Record<LevelCurve["type"], LevelCurve> = {
+  linear: { type: "linear", xpPerLevel: 500 },
+  quadratic: { type: "quadratic", baseXp: 300, growthXp: 100 },
+  table: { type: "table", thresholds: [500, 1100, 1800, 2600, 3500] },
+};
+
+/** Levels shown in the simulation preview */
+const PREVIEW_LEVELS = 15;
+
+const DEFAULT_ROUTINE: Partial<Record<ActivityType, number>> = {
+  assignment: 1,
+  practice_set: 1,
+  daily_review: 1,
+};
+
+function toNumber(value: string): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export default function AdminEconomy() {
+  const { data: mySchoolId } = useMySchoolId();
+  const [scope, setScope] = useState<"district" | "school">("district");
+  const schoolId = scope === "school" ? mySchoolId ?? null : null;
+  const { data: versions = [], isLoading } = useEconomyConfigVersions(schoolId, scope === "district" || !!mySchoolId);
+  const publish = usePublishEconomyConfig();
+
+  const published = versions[0];
+  const [draft, setDraft] = useState<EconomyConfig>(DEFAULT_ECONOMY_CONFIG);
+  const [thresholdsText, setThresholdsText] = useState("");
+  const [notes, setNotes] = useState("");
+  const [routine, setRoutine] = useState(DEFAULT_ROUTINE);
+  const [averageScore, setAverageScore] = useState(80);
+
+  const loadDraft = (config: EconomyConfig) => {
+    setDraft(config);
+    setThresholdsText(config.levelCurve.type === "table" ? config.levelCurve.thresholds.join(", ") : "");
+  };
+
+  // Start editing from whatever is live for the selected scope
+  useEffect(() => {
+    loadDraft(published?.config ?? DEFAULT_ECONOMY_CONFIG);
+  }, [published]);
+
+  const validation = useMemo(() => parseEconomyConfig(draft), [draft]);
+  const preview = useMemo(() => {
+    const profile = { activitiesPerDay: routine, averageScore };
+    const draftDays = validation.success ? simulateLevelProgression(draft, profile, PREVIEW_LEVELS) : [];
+    const liveDays = simulateLevelProgression(published?.config ?? DEFAULT_ECONOMY_CONFIG, profile, PREVIEW_LEVELS);
+    return liveDays.map((live, i) => ({ level: live.level, live: live.day, draft: draftDays[i]?.day ?? null }));
+  }, [draft, validation.success, published, routine, averageScore]);
+
+  const setCurve = (curve: LevelCurve) => setDraft((d) => ({ ...d, levelCurve: curve }));
+  const setRule = (type: ActivityType, patch: Partial<ActivityRule>) =>
+    setDraft((d) => ({ ...d, activities: { ...d.activities, [type]: { ...d.activities[type], ...patch } } }));
+
+  const handleCurveType = (type: LevelCurve["type"]) => {
+    const curve = CURVE_DEFAULTS[type];
+    setCurve(curve);
+    setThresholdsText(curve.type === "table" ? curve.thresholds.join(", ") : "");
+  };
+
+  const handleThresholds = (text: string) => {
+    setThresholdsText(text);
+    const thresholds = text
+      .split(",")
+      .map((part) => Number(part.trim()))
+      .filter((n) => Number.isFinite(n) && n > 0);
+    setCurve({ type: "table", thresholds });
+  };
+
+  const handlePublish = () => {
+    publish.mutate(
+      { schoolId, config: draft, notes, baseVersion: published?.version ?? 0 },
+      {
+        onSuccess: (version) => {
+          toast.success(`Published economy v${version}`);
+          setNotes("");
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const curve = draft.levelCurve;
+
+  return (
+    <AdminLayout
+      title="Economy"
+      breadcrumbs={[{ label: "Admin", href: "/admin" }, { label: "Economy" }]}
+    >
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Reward Economy</h1>
+            <p className="text-muted-foreground">
+              {published ? `Live: v${published.version}` : "Using the built-in defaults"}
+              {scope === "school" && " for your school"}
+            </p>
+          </div>
+          <Select value={scope} onValueChange={(value) => setScope(value as "district" | "school")}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="district">District-wide</SelectItem>
+              <SelectItem value="school" disabled={!mySchoolId}>
+                My school
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Level Curve</CardTitle>
+                  <CardDescription>How much XP each level takes</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Select value={curve.type} onValueChange={(value) => handleCurveType(value as LevelCurve["type"])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="linear">Linear: same XP every level</SelectItem>
+                      <SelectItem value="quadratic">Quadratic: each level costs more</SelectItem>
+                      <SelectItem value="table">Table: exact XP per level</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {curve.type === "linear" && (
+                    <div className="space-y-1">
+                      <Label htmlFor="xp-per-level">XP per level</Label>
+                      <Input
+                        id="xp-per-level"
+                        type="number"
+                        min={1}
+                        value={curve.xpPerLevel}
+                        onChange={(e) => setCurve({ ...curve, xpPerLevel: toNumber(e.target.value) })}
+                      />
+                    </div>
+                  )}
+                  {curve.type === "quadratic" && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="base-xp">XP for level 2</Label>
+                        <Input
+                          id="base-xp"
+                          type="number"
+                          min={1}
+                          value={curve.baseXp}
+                          onChange={(e) => setCurve({ ...curve, baseXp: toNumber(e.target.value) })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="growth-xp">Extra XP per level</Label>
+                        <Input
+                          id="growth-xp"
+                          type="number"
+                          min={0}
+                          value={curve.growthXp}
+                          onChange={(e) => setCurve({ ...curve, growthXp: toNumber(e.target.value) })}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {curve.type === "table" && (
+                    <div className="space-y-1">
+                      <Label htmlFor="thresholds">Total XP to reach level 2, 3, 4, ...</Label>
+                      <Input id="thresholds" value={thresholdsText} onChange={(e) => handleThresholds(e.target.value)} />
+                      <p className="text-xs text-muted-foreground">Levels past the table repeat the last step.</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Activity Rewards</CardTitle>
+                  <CardDescription>Scaled rewards pay the full amount at 100% and less below it</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Activity</TableHead>
+                        <TableHead>XP</TableHead>
+                        <TableHead>Coins</TableHead>
+                        <TableHead>Pass %</TableHead>
+                        <TableHead>Scaled</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ACTIVITY_TYPES.map((type) => {
+                        const rule = draft.activities[type];
+                        return (
+                          <TableRow key={type}>
+                            <TableCell className="font-medium">{ACTIVITY_LABELS[type]}</TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-20"
+                                value={rule.xp}
+                                onChange={(e) => setRule(type, { xp: toNumber(e.target.value) })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                className="w-20"
+                                value={rule.coins}
+                                onChange={(e) => setRule(type, { coins: toNumber(e.target.value) })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={100}
+                                className="w-20"
+                                value={rule.passingScore}
+                                onChange={(e) => setRule(type, { passingScore: toNumber(e.target.value) })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={rule.scaleWithScore}
+                                onCheckedChange={(checked) => setRule(type, { scaleWithScore: checked })}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Streaks &amp; Daily Caps</CardTitle>
+                  <CardDescription>Leave a cap empty for no limit</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="streak-xp">Streak XP per day</Label>
+                    <Input
+                      id="streak-xp"
+                      type="number"
+                      min={0}
+                      value={draft.streak.xpPerDay}
+                      onChange={(e) => setDraft((d) => ({ ...d, streak: { ...d.streak, xpPerDay: toNumber(e.target.value) } }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="streak-max">Max streak XP</Label>
+                    <Input
+                      id="streak-max"
+                      type="number"
+                      min={0}
+                      value={draft.streak.maxXpBonus}
+                      onChange={(e) => setDraft((d) => ({ ...d, streak: { ...d.streak, maxXpBonus: toNumber(e.target.value) } }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="streak-coins">Coins per streak week</Label>
+                    <Input
+                      id="streak-coins"
+                      type="number"
+                      min={0}
+                      value={draft.streak.coinsPerWeek}
+                      onChange={(e) => setDraft((d) => ({ ...d, streak: { ...d.streak, coinsPerWeek: toNumber(e.target.value) } }))}
+                    />
+                  </div>
+                  <div />
+                  <div className="space-y-1">
+                    <Label htmlFor="cap-xp">Daily XP cap</Label>
+                    <Input
+                      id="cap-xp"
+                      type="number"
+                      min={0}
+                      value={draft.dailyCaps.xp ?? ""}
+                      onChange={(e) =>
+                        setDraft((d) => ({ ...d, dailyCaps: { ...d.dailyCaps, xp: e.target.value === "" ? null : toNumber(e.target.value) } }))
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="cap-coins">Daily coin cap</Label>
+                    <Input
+                      id="cap-coins"
+                      type="number"
+                      min={0}
+                      value={draft.dailyCaps.coins ?? ""}
+                      onChange={(e) =>
+                        setDraft((d) => ({ ...d, dailyCaps: { ...d.dailyCaps, coins: e.target.value === "" ? null : toNumber(e.target.value) } }))
+                      }
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5" />
+                    Simulation Preview
+                  </CardTitle>
+                  <CardDescription>Days a student on this routine every day needs to reach each level</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    {(["assignment", "practice_set", "game", "daily_review"] as const).map((type) => (
+                      <div key={type} className="space-y-1">
+                        <Label htmlFor={`routine-${type}`}>{ACTIVITY_LABELS[type]}s / day</Label>
+                        <Input
+                          id={`routine-${type}`}
+                          type="number"
+                          min={0}
+                          value={routine[type] ?? 0}
+                          onChange={(e) => setRoutine((r) => ({ ...r, [type]: Math.max(0, toNumber(e.target.value)) }))}
+                        />
+                      </div>
+                    ))}
+                    <div className="space-y-1">
+                      <Label htmlFor="routine-score">Average score</Label>
+                      <Input
+                        id="routine-score"
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={averageScore}
+                        onChange={(e) => setAverageScore(toNumber(e.target.value))}
+                      />
+                    </div>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Level</TableHead>
+                        <TableHead>Live</TableHead>
+                        <TableHead>Draft</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.map((row) => (
+                        <TableRow key={row.level}>
+                          <TableCell>{row.level}</TableCell>
+                          <TableCell className="tabular-nums">{row.live ?? "—"}</TableCell>
+                          <TableCell className="tabular-nums font-medium">{row.draft ?? "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground">"—" means not reached within two years.</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Publish</CardTitle>
+                  <CardDescription>Publishing creates v{(published?.version ?? 0) + 1}; earlier versions stay in the history</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {!validation.success && (
+                    <p className="text-sm text-destructive flex items-start gap-2">
+                      <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                      {validation.error}
+                    </p>
+                  )}
+                  <Input placeholder="What changed?" value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  <Button onClick={handlePublish} disabled={!validation.success || publish.isPending}>
+                    {publish.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Upload className="w-4 h-4 mr-2" />
+                    )}
+                    Publish
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Version History
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {versions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nothing published yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-border">
+                      {versions.map((v) => (
+                        <li key={v.id} className="py-2 flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium flex items-center gap-2">
+                              v{v.version}
+                              {v.id === published?.id && <Badge variant="secondary">Live</Badge>}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {format(new Date(v.created_at), "MMM d, yyyy h:mm a")}
+                              {v.notes && ` · ${v.notes}`}
+                            </p>
+                          </div>
+                          <Button variant="outline" size="sm" onClick={() => loadDraft(v.config)}>
+                            Load
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -6,10 +6,15 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Copy, CheckCircle, ExternalLink, RefreshCw, Webhook, Send, ArrowDownToLine } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, CheckCircle, ExternalLink, RefreshCw, Webhook, Send, ArrowDownToLine, RotateCcw, ShieldCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { useSyncEvents, type SyncEvent, type SyncEventStatus } from "@/hooks/queries/useSyncEvents";
+import { useRetrySyncEvent } from "@/hooks/mutations/useRetrySyncEvent";
 import { format } from "date-fns";
+import { parseWebhookPayload, type ParseResult, type WebhookPayload } from "@/lib/contentSchemas";
 
 interface WebhookLog {
   id: string;
@@ -54,21 +59,21 @@ const apiActions = [
   },
   {
     action: "create_skill_game",
-    description: "Create a skill-based game for a student",
+    description: "Create a skill-based game for a student (flashcard_battle, timed_challenge or matching_puzzle)",
     example: {
       action: "create_skill_game",
       data: {
         student_id: "uuid",
         title: "Fraction Match",
-        game_type: "matching",
+        game_type: "matching_puzzle",
         skill_tag: "fractions",
         difficulty: 2,
         xp_reward: 30,
         coin_reward: 15,
         game_data: {
           pairs: [
-            { term: "1/2", match: "0.5" },
-            { term: "1/4", match: "0.25" }
+            { term: "1/2", definition: "0.5" },
+            { term: "1/4", definition: "0.25" }
           ]
         }
       }
@@ -148,6 +153,12 @@ export default function AdminGeoBloxIntegration() {
   const [copied, setCopied] = useState<string | null>(null);
   const [logs, setLogs] = useState<WebhookLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [syncStatus, setSyncStatus] = useState<SyncEventStatus | "all">("failed");
+  const syncEvents = useSyncEvents(syncStatus === "all" ? undefined : syncStatus);
+  const retrySync = useRetrySyncEvent();
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [payloadText, setPayloadText] = useState("");
+  const [payloadResult, setPayloadResult] = useState<ParseResult<WebhookPayload> | null>(null);
 
   useEffect(() => {
     fetchLogs();
@@ -174,6 +185,40 @@ export default function AdminGeoBloxIntegration() {
     setTimeout(() => setCopied(null), 2000);
   };
 
+  const retryEvent = async (event: SyncEvent) => {
+    setRetryingId(event.id);
+    try {
+      await retrySync.mutateAsync(event);
+      toast({ title: "Event delivered", description: `${event.event_type} sent to NYCologic` });
+    } catch (error) {
+      toast({
+        title: "Retry failed",
+        description: error instanceof Error ? error.message : "Failed to sync event",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const retryAllFailed = async () => {
+    const failed = (syncEvents.data ?? []).filter((event) => event.status === "failed");
+    let delivered = 0;
+    for (const event of failed) {
+      try {
+        await retrySync.mutateAsync(event);
+        delivered++;
+      } catch {
+        // Recorded on the event row; keep going with the rest
+      }
+    }
+    toast({
+      title: "Retry complete",
+      description: `${delivered} of ${failed.length} failed events delivered`,
+      variant: delivered === failed.length ? "default" : "destructive",
+    });
+  };
+
   const testWebhook = async () => {
     toast({ title: "Testing webhook...", description: "Sending test request" });
     
@@ -273,6 +318,7 @@ export default function AdminGeoBloxIntegration() {
             <TabsTrigger value="inbound">Inbound API</TabsTrigger>
             <TabsTrigger value="outbound">Outbound API</TabsTrigger>
             <TabsTrigger value="logs">Sync Logs</TabsTrigger>
+            <TabsTrigger value="nycologic">NYCologic Sync</TabsTrigger>
           </TabsList>
 
           <TabsContent value="inbound" className="space-y-4">
@@ -307,6 +353,42 @@ export default function AdminGeoBloxIntegration() {
                 ))}
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="w-5 h-5" />
+                  Validate Payload
+                </CardTitle>
+                <CardDescription>
+                  Check a request body against the content schemas. Known aliases such as
+                  game_type "matching" with {"{ term, match }"} pairs are normalized.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Textarea
+                  value={payloadText}
+                  onChange={(e) => {
+                    setPayloadText(e.target.value);
+                    setPayloadResult(null);
+                  }}
+                  placeholder='{ "action": "create_skill_game", "data": { ... } }'
+                  className="font-mono text-xs min-h-40"
+                />
+                <Button size="sm" onClick={() => setPayloadResult(parseWebhookPayload(payloadText))} disabled={!payloadText.trim()}>
+                  Validate
+                </Button>
+                {payloadResult && (payloadResult.success ? (
+                  <ScrollArea className="h-48">
+                    <pre className="bg-muted p-3 rounded text-xs overflow-x-auto">
+                      {JSON.stringify(payloadResult.data, null, 2)}
+                    </pre>
+                  </ScrollArea>
+                ) : (
+                  <p className="text-sm text-destructive">{payloadResult.error}</p>
+                ))}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="outbound" className="space-y-4">
@@ -389,7 +471,7 @@ export default function AdminGeoBloxIntegration() {
                           </TableCell>
                           <TableCell className="font-mono text-sm">{log.event_type}</TableCell>
                           <TableCell>
-                            <Badge variant={log.status === "success" ? "default" : log.status === "error" ? "destructive" : "secondary"}>
+                            <Badge variant={log.status === "success" ? "default" : log.status === "error" || log.status === "rejected" ? "destructive" : "secondary"}>
                               {log.status}
                             </Badge>
                           </TableCell>
@@ -404,6 +486,107 @@ export default function AdminGeoBloxIntegration() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="nycologic" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>NYCologic Sync Events</CardTitle>
+                    <CardDescription>
+                      Assignment, badge, mastery and progress events sent to the teacher app
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Select value={syncStatus} onValueChange={(value) => setSyncStatus(value as SyncEventStatus | "all")}>
+                      <SelectTrigger className="w-32 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="failed">Failed</SelectItem>
+                        <SelectItem value="sent">Sent</SelectItem>
+                        <SelectItem value="all">All</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={retryAllFailed}
+                      disabled={retrySync.isPending || !syncEvents.data?.some((event) => event.status === "failed")}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Retry Failed
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => syncEvents.refetch()}>
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Refresh
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {syncEvents.isLoading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading events...</div>
+                ) : syncEvents.error ? (
+                  <div className="text-center py-8 text-destructive">{syncEvents.error.message}</div>
+                ) : !syncEvents.data?.length ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    {syncStatus === "failed" ? "No failed sync events" : "No sync events recorded yet"}
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Last Attempt</TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Attempts</TableHead>
+                        <TableHead>Details</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {syncEvents.data.map((event) => (
+                        <TableRow key={event.id}>
+                          <TableCell className="text-xs">
+                            {format(new Date(event.last_attempt_at ?? event.created_at), "MMM d, HH:mm:ss")}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-mono text-sm">{event.event_type}</div>
+                            <div className="text-xs text-muted-foreground truncate max-w-[220px]" title={event.dedupe_key}>
+                              {event.dedupe_key}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={event.status === "sent" ? "default" : event.status === "failed" ? "destructive" : "secondary"}>
+                              {event.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{event.attempts}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                            {event.last_error || "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {event.status !== "sent" && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => retryEvent(event)}
+                                disabled={retryingId === event.id}
+                              >
+                                <RotateCcw className={`w-4 h-4 mr-1 ${retryingId === event.id ? "animate-spin" : ""}`} />
+                                Retry
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </AdminLayout>
@@ -0,0 +1,556 @@
+import { useState } from "react";
+import { AdminLayout } from "@/components/AdminLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  Database,
+  FileUp,
+  Library,
+  Loader2,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { REGENTS_EXAMS, type RegentsQuestion } from "@/data/regentsSampleQuestions";
+import { useQuestionBank, type BankQuestion } from "@/hooks/queries/useQuestionBank";
+import {
+  useDeleteBankQuestion,
+  useImportBankQuestions,
+  useMigrateBuiltInQuestions,
+  useSaveBankQuestion,
+} from "@/hooks/mutations/useQuestionBank";
+import { parseQuestionFile, validateRegentsQuestion, type QuestionImportResult } from "@/lib/questionImport";
+
+const EMPTY_QUESTION: RegentsQuestion = {
+  id: "",
+  standardCode: "",
+  subject: "",
+  examType: "algebra1",
+  prompt: "",
+  options: ["", "", "", ""],
+  correctAnswer: "",
+  explanation: "",
+  difficulty: 2,
+  pointValue: 2,
+};
+
+const examName = (examType: string) => REGENTS_EXAMS.find((e) => e.id === examType)?.name ?? examType;
+
+export default function AdminQuestionBank() {
+  const [examFilter, setExamFilter] = useState("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editing, setEditing] = useState<{ question: RegentsQuestion; rowId?: string } | null>(null);
+  const [importExam, setImportExam] = useState("algebra1");
+  const [importResult, setImportResult] = useState<QuestionImportResult | null>(null);
+  const [importFileName, setImportFileName] = useState("");
+  const [unknownStandards, setUnknownStandards] = useState<string[]>([]);
+
+  const { data: questions = [], isLoading } = useQuestionBank();
+  const saveQuestion = useSaveBankQuestion();
+  const deleteQuestion = useDeleteBankQuestion();
+  const importQuestions = useImportBankQuestions();
+  const migrateQuestions = useMigrateBuiltInQuestions();
+
+  const filtered = questions.filter((q) =>
+    (examFilter === "all" || q.examType === examFilter) &&
+    (q.prompt.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      q.standardCode.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const result = parseQuestionFile(file.name, text, { examType: importExam });
+    if (!result) {
+      toast.error("Unsupported file type. Use .csv, .json or QTI .xml");
+      return;
+    }
+    setImportFileName(file.name);
+    setImportResult(result);
+  };
+
+  const handleImport = () => {
+    if (!importResult) return;
+    importQuestions.mutate(importResult.valid, {
+      onSuccess: (count) => {
+        toast.success(`Imported ${count} question${count === 1 ? "" : "s"}`);
+        setImportResult(null);
+        setImportFileName("");
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleMigrate = () => {
+    migrateQuestions.mutate(undefined, {
+      onSuccess: (result) => {
+        toast.success(`Loaded ${result.imported} built-in questions`);
+        setUnknownStandards(result.unknownStandards);
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleDelete = (question: BankQuestion) => {
+    if (!confirm(`Delete question ${question.id}?`)) return;
+    deleteQuestion.mutate(question.rowId, {
+      onSuccess: () => toast.success("Question deleted"),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Question Bank</h1>
+            <p className="text-muted-foreground">
+              {questions.length} Regents questions across {new Set(questions.map((q) => q.examType)).size} exams
+            </p>
+          </div>
+          <Button onClick={() => setEditing({ question: { ...EMPTY_QUESTION } })}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Question
+          </Button>
+        </div>
+
+        {!isLoading && questions.length === 0 && (
+          <Card className="border-primary/30">
+            <CardContent className="p-4 flex items-center gap-4">
+              <Database className="w-8 h-8 text-primary shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium">The question bank is empty</p>
+                <p className="text-sm text-muted-foreground">
+                  Students are still served the built-in questions. Load them into the bank to edit them here.
+                </p>
+              </div>
+              <Button onClick={handleMigrate} disabled={migrateQuestions.isPending}>
+                {migrateQuestions.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Load Built-in Questions
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {unknownStandards.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-yellow-500" />
+                Standards missing from the standards lists
+              </CardTitle>
+              <CardDescription>
+                These built-in questions were loaded, but their standard codes must be added to the
+                standards lists before the questions can be edited.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-1">
+              {unknownStandards.map((code) => (
+                <Badge key={code} variant="outline">{code}</Badge>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Tabs defaultValue="questions">
+          <TabsList>
+            <TabsTrigger value="questions" className="gap-2">
+              <Library className="w-4 h-4" />
+              Questions
+            </TabsTrigger>
+            <TabsTrigger value="import" className="gap-2">
+              <FileUp className="w-4 h-4" />
+              Import
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="questions" className="space-y-4">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search prompts or standards..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={examFilter} onValueChange={setExamFilter}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All exams</SelectItem>
+                  {REGENTS_EXAMS.map((exam) => (
+                    <SelectItem key={exam.id} value={exam.id}>{exam.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Card>
+              <ScrollArea className="h-[560px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Exam</TableHead>
+                      <TableHead>Standard</TableHead>
+                      <TableHead>Difficulty</TableHead>
+                      <TableHead className="w-24" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8">
+                          <Loader2 className="w-5 h-5 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : filtered.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                          No questions found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filtered.map((question) => (
+                        <TableRow key={question.rowId}>
+                          <TableCell className="max-w-md">
+                            <p className="truncate">{question.prompt}</p>
+                            <p className="text-xs text-muted-foreground">{question.id}</p>
+                          </TableCell>
+                          <TableCell>{examName(question.examType)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{question.standardCode}</Badge>
+                          </TableCell>
+                          <TableCell>{"⭐".repeat(question.difficulty)}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setEditing({ question, rowId: question.rowId })}
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => handleDelete(question)}>
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Bulk Import</CardTitle>
+                <CardDescription>
+                  Upload CSV (header row with examType, standardCode, prompt, option1…option4, correctAnswer,
+                  explanation, difficulty, pointValue), JSON (an array of questions) or IMS QTI 2.1 XML
+                  (choiceInteraction items, standard code in the item label). Questions with an existing id
+                  are updated.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Default exam</Label>
+                    <Select value={importExam} onValueChange={setImportExam}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REGENTS_EXAMS.map((exam) => (
+                          <SelectItem key={exam.id} value={exam.id}>{exam.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>File</Label>
+                    <Input
+                      type="file"
+                      accept=".csv,.json,.xml,.qti"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFile(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+                </div>
+
+                {importResult && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{importFileName}</span>
+                      <Badge variant="outline" className="uppercase">{importResult.format}</Badge>
+                      <Badge>{importResult.valid.length} valid</Badge>
+                      {importResult.total - importResult.valid.length > 0 && (
+                        <Badge variant="destructive">
+                          {importResult.total - importResult.valid.length} rejected
+                        </Badge>
+                      )}
+                    </div>
+
+                    {importResult.issues.length > 0 && (
+                      <ScrollArea className="h-48 rounded-md border p-3">
+                        <ul className="space-y-1 text-sm">
+                          {importResult.issues.map((issue, index) => (
+                            <li key={index} className="flex gap-2">
+                              <span className="text-muted-foreground shrink-0">
+                                {issue.record > 0 ? `#${issue.record}` : "File"}
+                              </span>
+                              <span>{issue.message}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </ScrollArea>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={handleImport}
+                        disabled={importResult.valid.length === 0 || importQuestions.isPending}
+                      >
+                        {importQuestions.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Import {importResult.valid.length} Question{importResult.valid.length === 1 ? "" : "s"}
+                      </Button>
+                      <Button variant="outline" onClick={() => setImportResult(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {editing && (
+        <QuestionEditor
+          initial={editing.question}
+          saving={saveQuestion.isPending}
+          onCancel={() => setEditing(null)}
+          onSave={(question) =>
+            saveQuestion.mutate(
+              { question, rowId: editing.rowId },
+              {
+                onSuccess: () => {
+                  toast.success("Question saved");
+                  setEditing(null);
+                },
+                onError: (error) => toast.error(error.message),
+              }
+            )
+          }
+        />
+      )}
+    </AdminLayout>
+  );
+}
+
+function QuestionEditor({
+  initial,
+  saving,
+  onCancel,
+  onSave,
+}: {
+  initial: RegentsQuestion;
+  saving: boolean;
+  onCancel: () => void;
+  onSave: (question: RegentsQuestion) => void;
+}) {
+  const [draft, setDraft] = useState<RegentsQuestion>(() => ({
+    ...initial,
+    id: initial.id || `bank-${crypto.randomUUID()}`,
+  }));
+  const update = (changes: Partial<RegentsQuestion>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const prepared: RegentsQuestion = {
+    ...draft,
+    subject: REGENTS_EXAMS.find((e) => e.id === draft.examType)?.subject ?? draft.subject,
+    options: draft.options.map((o) => o.trim()).filter(Boolean),
+  };
+  const errors = validateRegentsQuestion(prepared);
+
+  const setOption = (index: number, value: string) => {
+    const options = [...draft.options];
+    const wasCorrect = options[index] === draft.correctAnswer;
+    options[index] = value;
+    update({ options, ...(wasCorrect ? { correctAnswer: value } : {}) });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial.id ? `Edit ${initial.id}` : "New Question"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Exam</Label>
+              <Select value={draft.examType} onValueChange={(examType) => update({ examType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REGENTS_EXAMS.map((exam) => (
+                    <SelectItem key={exam.id} value={exam.id}>{exam.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Standard code</Label>
+              <Input
+                value={draft.standardCode}
+                onChange={(e) => update({ standardCode: e.target.value })}
+                placeholder="AI-A.SSE.1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Prompt</Label>
+            <Textarea value={draft.prompt} onChange={(e) => update({ prompt: e.target.value })} rows={3} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Options (select the correct answer)</Label>
+            <RadioGroup value={draft.correctAnswer} onValueChange={(correctAnswer) => update({ correctAnswer })}>
+              {draft.options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <RadioGroupItem value={option} disabled={!option.trim()} />
+                  <span className="font-mono text-sm text-muted-foreground w-6">({index + 1})</span>
+                  <Input value={option} onChange={(e) => setOption(index, e.target.value)} />
+                  {draft.options.length > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => update({ options: draft.options.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </RadioGroup>
+            {draft.options.length < 6 && (
+              <Button variant="outline" size="sm" onClick={() => update({ options: [...draft.options, ""] })}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add option
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Explanation</Label>
+            <Textarea
+              value={draft.explanation}
+              onChange={(e) => update({ explanation: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select
+                value={String(draft.difficulty)}
+                onValueChange={(value) => update({ difficulty: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 – Easy</SelectItem>
+                  <SelectItem value="2">2 – Medium</SelectItem>
+                  <SelectItem value="3">3 – Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Credits</Label>
+              <Input
+                type="number"
+                min={1}
+                value={draft.pointValue}
+                onChange={(e) => update({ pointValue: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Topic</Label>
+              <Input value={draft.topic ?? ""} onChange={(e) => update({ topic: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Hint</Label>
+            <Input value={draft.hint ?? ""} onChange={(e) => update({ hint: e.target.value })} />
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive space-y-1">
+              {errors.map((error) => (
+                <li key={error}>• {error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSave(prepared)} disabled={errors.length > 0 || saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
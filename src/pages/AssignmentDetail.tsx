@@ -127,8 +127,11 @@ export default function AssignmentDetail() {
 
   const handleQuizComplete = async (answers: Record<string, string>) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
+      // The stored session is available offline, unlike getUser()
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
+
+
       if (!user) {
         // For demo, navigate with mock data
         navigate(`/student/grading?assignment=${id}&score=4&total=6`);
@@ -145,7 +148,7 @@ export default function AssignmentDetail() {
 
       if (result) {
         // Navigate to grading result with the actual data
-        navigate(`/student/grading?assignment=${id}&score=${result.score}&total=${result.total_questions}&xp=${result.xp_earned}&coins=${result.coins_earned}`);
+        navigate(`/student/grading?assignment=${id}&score=${result.score}&total=${result.total_questions}&xp=${result.xp_earned}&coins=${result.coins_earned}${result.queued ? "&queued=true" : ""}`);
       } else {
         // Fallback navigation
         navigate(`/student/grading?assignment=${id}&score=4&total=6`);
@@ -19,8 +19,8 @@ type UserRole = "student" | "parent" | "admin" | "teacher";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-// Allowed roles for this app (teachers must use the teacher portal)
-const ALLOWED_ROLES: UserRole[] = ["student", "parent", "admin"];
+// Allowed roles for this app (teachers sign in to the classroom console)
+const ALLOWED_ROLES: UserRole[] = ["student", "parent", "admin", "teacher"];
 
 // Fetch user role from the profiles table (source of truth)
 async function fetchUserRole(userId: string): Promise<UserRole | null> {
@@ -42,6 +42,7 @@ const getTargetPath = (role: string | undefined): string => {
   switch (role) {
     case "admin": return "/admin";
     case "parent": return "/parent";
+    case "teacher": return "/teacher";
     default: return "/student";
   }
 };
@@ -182,11 +183,11 @@ export default function Auth() {
         }
 
         if (!ALLOWED_ROLES.includes(userRole)) {
-          // User is not allowed in this app (e.g., teacher)
+          // User is not allowed in this app
           await supabase.auth.signOut();
           toast({
             title: "Access Denied",
-            description: "This portal is for students only. Please use the Teacher Portal to sign in.",
+            description: "This account type can't sign in here.",
             variant: "destructive"
           });
           return;
@@ -1,6 +1,4 @@
-import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,34 +13,18 @@ import {
   Clock, 
   CheckCircle2,
   Sparkles,
-  ArrowLeft
+  ArrowLeft,
+  Users
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { format, differenceInDays, differenceInHours } from "date-fns";
-
-interface Challenge {
-  id: string;
-  title: string;
-  description: string;
-  theme: string;
-  start_date: string;
-  end_date: string;
-  xp_bonus: number;
-  coin_bonus: number;
-  min_assignments: number;
-  badge_id: string | null;
-  badge?: {
-    name: string;
-    icon_url: string;
-  };
-}
-
-interface Participation {
-  challenge_id: string;
-  assignments_completed: number;
-  completed_at: string | null;
-  rewards_claimed: boolean;
-}
+import { useSchoolCalendar } from "@/hooks/queries/useSchoolCalendar";
+import { schoolDaysBetween } from "@/lib/schoolCalendar";
+import { toDayKey } from "@/lib/streaks";
+import { useActiveChallenges, useChallengeParticipations, type Challenge } from "@/hooks/queries/useChallenges";
+import { useJoinChallenge } from "@/hooks/mutations/useChallenges";
+import { TeamChallengeCard } from "@/components/TeamChallengeCard";
+import { CHALLENGE_SCOPE_LABELS } from "@/lib/teamChallenges";
 
 const themeColors: Record<string, { bg: string; border: string; text: string; icon: string }> = {
   math: { bg: "bg-blue-500/10", border: "border-blue-500/30", text: "text-blue-400", icon: "🧮" },
@@ -53,80 +35,30 @@ const themeColors: Record<string, { bg: string; border: string; text: string; ic
 };
 
 export default function Challenges() {
-  const [challenges, setChallenges] = useState<Challenge[]>([]);
-  const [participations, setParticipations] = useState<Participation[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [joiningId, setJoiningId] = useState<string | null>(null);
+  const { data: allChallenges = [], isLoading: challengesLoading } = useActiveChallenges();
+  const { data: participations = [], isLoading: participationsLoading } = useChallengeParticipations();
+  const joinChallenge = useJoinChallenge();
+  const joiningId = joinChallenge.isPending ? joinChallenge.variables : null;
+  const loading = challengesLoading || participationsLoading;
   const { toast } = useToast();
+  const { calendar } = useSchoolCalendar();
 
-  useEffect(() => {
-    fetchChallenges();
-  }, []);
-
-  const fetchChallenges = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      // Fetch active challenges
-      const { data: challengesData, error: challengesError } = await supabase
-        .from("challenges")
-        .select(`
-          *,
-          badge:badges(name, icon_url)
-        `)
-        .eq("is_active", true)
-        .gte("end_date", new Date().toISOString())
-        .order("start_date", { ascending: true });
-
-      if (challengesError) throw challengesError;
-      setChallenges(challengesData || []);
-
-      // Fetch user's participations
-      const { data: participationsData, error: participationsError } = await supabase
-        .from("challenge_participants")
-        .select("*")
-        .eq("student_id", user.id);
-
-      if (participationsError) throw participationsError;
-      setParticipations(participationsData || []);
-    } catch (error) {
-      console.error("Error fetching challenges:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const joinChallenge = async (challengeId: string) => {
-    setJoiningId(challengeId);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { error } = await supabase
-        .from("challenge_participants")
-        .insert({
-          challenge_id: challengeId,
-          student_id: user.id,
+  const handleJoin = (challengeId: string) => {
+    joinChallenge.mutate(challengeId, {
+      onSuccess: () => {
+        toast({
+          title: "Challenge Joined! 🎯",
+          description: "Good luck on your challenge!",
         });
-
-      if (error) throw error;
-
-      toast({
-        title: "Challenge Joined! 🎯",
-        description: "Good luck on your challenge!",
-      });
-
-      fetchChallenges();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    } finally {
-      setJoiningId(null);
-    }
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
   };
 
   const getTimeRemaining = (endDate: string) => {
@@ -135,7 +67,11 @@ export default function Challenges() {
     const days = differenceInDays(end, now);
     const hours = differenceInHours(end, now) % 24;
 
-    if (days > 0) return `${days}d ${hours}h left`;
+    if (days > 0) {
+      // Breaks inside a challenge leave fewer days to work with than the clock suggests
+      const schoolDays = schoolDaysBetween(calendar, toDayKey(now), toDayKey(end));
+      return `${days}d ${hours}h left · ${schoolDays} school day${schoolDays === 1 ? "" : "s"}`;
+    }
     if (hours > 0) return `${hours}h left`;
     return "Ending soon!";
   };
@@ -144,6 +80,11 @@ export default function Challenges() {
     return participations.find(p => p.challenge_id === challengeId);
   };
 
+  // Team challenges only show to their members, who are enrolled when they're created
+  const challenges = allChallenges.filter(
+    (challenge) => challenge.scope === "individual" || !!getParticipation(challenge.id)
+  );
+
   const getThemeStyle = (theme: string) => {
     return themeColors[theme] || themeColors.default;
   };
@@ -232,6 +173,12 @@ export default function Challenges() {
                             <Coins className="h-4 w-4 text-amber-400" />
                             <span className="text-sm font-medium">+{challenge.coin_bonus} Coins</span>
                           </div>
+                          {challenge.scope !== "individual" && (
+                            <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-muted">
+                              <Users className="h-4 w-4" />
+                              <span className="text-sm font-medium">Shared by the team</span>
+                            </div>
+                          )}
                           {challenge.badge && (
                             <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-purple-500/20">
                               <span>{challenge.badge.icon_url}</span>
@@ -240,8 +187,10 @@ export default function Challenges() {
                           )}
                         </div>
 
-                        {/* Progress or Join */}
-                        {participation ? (
+                        {/* Team progress, individual progress, or Join */}
+                        {challenge.scope !== "individual" ? (
+                          <TeamChallengeCard challenge={challenge} />
+                        ) : participation ? (
                           <div className="space-y-2">
                             <div className="flex items-center justify-between text-sm">
                               <span className="text-muted-foreground">
@@ -258,7 +207,7 @@ export default function Challenges() {
                           </div>
                         ) : (
                           <Button 
-                            onClick={() => joinChallenge(challenge.id)}
+                            onClick={() => handleJoin(challenge.id)}
                             disabled={joiningId === challenge.id}
                             className="w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700"
                           >
@@ -313,6 +262,12 @@ export default function Challenges() {
                           <span>+{challenge.xp_bonus} XP</span>
                           <span>•</span>
                           <span>+{challenge.coin_bonus} Coins</span>
+                          {challenge.scope !== "individual" && (
+                            <>
+                              <span>•</span>
+                              <span>{CHALLENGE_SCOPE_LABELS[challenge.scope]} team</span>
+                            </>
+                          )}
                           {challenge.badge && (
                             <>
                               <span>•</span>
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CoinCounter } from "@/components/CoinCounter";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Check, Clock, Loader2, ShoppingBag, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RARITY_COLORS } from "@/components/common/tokens/colors";
+import { useCurrentUserId, useStudentProfile } from "@/hooks/queries/useStudentProfile";
+import { useShopItems, type ShopItem } from "@/hooks/queries/useShopItems";
+import { usePurchaseShopItem } from "@/hooks/mutations/usePurchaseShopItem";
+import { isPurchaseLimitReached } from "@/lib/api/shop";
+
+interface PendingPurchase {
+  item: ShopItem;
+  /** Stays the same across retries of this one purchase */
+  requestId: string;
+}
+
+export default function CoinShop() {
+  const { data: userId } = useCurrentUserId();
+  const { data: profile } = useStudentProfile();
+  const { data: items = [], isLoading, error } = useShopItems(userId ?? undefined);
+  const purchase = usePurchaseShopItem();
+  const [pending, setPending] = useState<PendingPurchase | null>(null);
+
+  const coins = profile?.coins ?? 0;
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    purchase.mutate(
+      { shopItemId: pending.item.id, requestId: pending.requestId },
+      {
+        onSuccess: (result) => {
+          if (!result.success) {
+            toast.error(result.error ?? "Purchase failed");
+            return;
+          }
+          toast.success(`${pending.item.name} added to your collection!`);
+          setPending(null);
+        },
+        onError: () => {
+          toast.error("Couldn't complete the purchase. Try again.");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24">
+      <header className="bg-gradient-hero text-primary-foreground">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <Link to="/student/rewards">
+                <Button variant="ghost" size="icon-sm" className="text-primary-foreground hover:bg-primary-foreground/20">
+                  <ArrowLeft className="w-5 h-5" />
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-extrabold flex items-center gap-2">
+                <ShoppingBag className="w-6 h-6" />
+                Coin Shop
+              </h1>
+            </div>
+            <CoinCounter coins={coins} />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive text-center py-12">{error.message}</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground text-center py-12">The shop is restocking. Check back soon!</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {items.map((item, index) => {
+              const colors = RARITY_COLORS[item.rarity];
+              const limitReached = isPurchaseLimitReached(item);
+              const affordable = coins >= item.price;
+
+              return (
+                <motion.div
+                  key={item.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className={cn("rounded-2xl border-2 p-4 flex flex-col gap-3", colors.border, colors.bg)}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={cn("text-xs font-bold uppercase", colors.text)}>{colors.label}</span>
+                    {item.owned && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Check className="w-3 h-3" />
+                        Owned
+                      </Badge>
+                    )}
+                  </div>
+
+                  <div className="aspect-square rounded-xl bg-background/50 flex items-center justify-center overflow-hidden">
+                    {item.image_url ? (
+                      <img src={item.image_url} alt={item.name} className="w-full h-full object-cover" />
+                    ) : (
+                      <Sparkles className={cn("w-10 h-10", colors.text)} />
+                    )}
+                  </div>
+
+                  <div className="flex-1">
+                    <p className="font-bold text-foreground">{item.name}</p>
+                    {item.description && <p className="text-xs text-muted-foreground">{item.description}</p>}
+                  </div>
+
+                  {item.available_until && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      Leaves {formatDistanceToNow(new Date(item.available_until), { addSuffix: true })}
+                    </p>
+                  )}
+                  {item.purchase_limit !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      Bought {item.purchased_count}/{item.purchase_limit}
+                    </p>
+                  )}
+
+                  <Button
+                    size="sm"
+                    disabled={limitReached || !affordable}
+                    onClick={() => setPending({ item, requestId: crypto.randomUUID() })}
+                  >
+                    {limitReached ? "Limit reached" : `${item.price} 🪙`}
+                  </Button>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && !purchase.isPending && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Buy {pending?.item.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This costs {pending?.item.price} coins. You'll have {coins - (pending?.item.price ?? 0)} left.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={purchase.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={purchase.isPending}
+              onClick={(e) => {
+                // Keep the dialog open until the purchase settles
+                e.preventDefault();
+                handleConfirm();
+              }}
+            >
+              {purchase.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Buy
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
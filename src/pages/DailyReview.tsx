@@ -0,0 +1,380 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ScholarBuddy } from "@/components/ScholarBuddy";
+import { Confetti } from "@/components/Confetti";
+import { MathText } from "@/components/MathText";
+import { MathInput } from "@/components/MathInput";
+import { useSecureRewards } from "@/hooks/useSecureRewards";
+import { useDueReviews, type ReviewQueueItem } from "@/hooks/queries/useReviewQueue";
+import { useRecordReviewAnswer } from "@/hooks/mutations/useReviewQueue";
+import { queryKeys } from "@/lib/query";
+import { matchesAnyAnswer } from "@/lib/answerEquivalence";
+import { toDateKey } from "@/lib/spacedRepetition";
+import {
+  ArrowLeft, ArrowRight, Lightbulb, Check, X, Loader2,
+  Zap, Award, Home, RotateCcw, Brain, CalendarCheck
+} from "lucide-react";
+
+/** Cards served in one Daily Review session */
+const REVIEW_SESSION_SIZE = 20;
+
+function isAnswerCorrect(item: ReviewQueueItem, answer: string): boolean {
+  const question = item.question_data;
+  if (question.kind === "short_answer") {
+    return matchesAnyAnswer(answer, [question.correctAnswer, ...(question.acceptableAnswers ?? [])]);
+  }
+  return answer === question.correctAnswer;
+}
+
+export default function DailyReview() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { awardRewards, checkIfClaimed } = useSecureRewards();
+  const { data: dueItems = [], isLoading } = useDueReviews();
+  const recordReview = useRecordReviewAnswer();
+
+  const [cards, setCards] = useState<ReviewQueueItem[] | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState("");
+  const [revealed, setRevealed] = useState(false);
+  const [showHint, setShowHint] = useState(false);
+  const [lastCorrect, setLastCorrect] = useState<boolean | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [isComplete, setIsComplete] = useState(false);
+  const [rewardsEarned, setRewardsEarned] = useState<{ xp: number; coins: number } | null>(null);
+
+  // Take a snapshot of today's due cards so rescheduling doesn't reshuffle the session
+  useEffect(() => {
+    if (!isLoading && cards === null) {
+      setCards(dueItems.slice(0, REVIEW_SESSION_SIZE));
+    }
+  }, [isLoading, dueItems, cards]);
+
+  const current = cards?.[currentIndex];
+  const progress = cards && cards.length > 0 ? (currentIndex / cards.length) * 100 : 0;
+
+  const submitAnswer = (isCorrect: boolean) => {
+    if (!current || lastCorrect !== null) return;
+    setLastCorrect(isCorrect);
+    setRevealed(true);
+    if (isCorrect) setCorrectCount((prev) => prev + 1);
+    recordReview.mutate({ item: current, isCorrect });
+  };
+
+  const handleNext = () => {
+    if (!cards) return;
+    if (currentIndex + 1 >= cards.length) {
+      handleComplete(correctCount);
+      return;
+    }
+    setCurrentIndex((prev) => prev + 1);
+    setAnswer("");
+    setRevealed(false);
+    setShowHint(false);
+    setLastCorrect(null);
+  };
+
+  const handleComplete = async (finalCorrect: number) => {
+    setIsComplete(true);
+    queryClient.invalidateQueries({ queryKey: queryKeys.review.all });
+
+    if (finalCorrect === 0 || !cards) return;
+
+    // One Daily Review reward per calendar day
+    const referenceId = `review-${toDateKey(new Date())}`;
+    try {
+      const alreadyClaimed = await checkIfClaimed("daily_review", referenceId);
+      if (alreadyClaimed) {
+        toast({
+          title: "Review Complete",
+          description: "You've already earned today's review reward.",
+        });
+        return;
+      }
+
+      const rewardResult = await awardRewards({
+        claimType: "daily_review",
+        referenceId,
+        reason: `Daily Review: ${finalCorrect}/${cards.length} correct`,
+        validationData: {
+          score: Math.round((finalCorrect / cards.length) * 100),
+          correct_answers: finalCorrect,
+          questions_answered: cards.length,
+        },
+      });
+
+      if (rewardResult.success) {
+        const xp = rewardResult.xp_awarded ?? 0;
+        const coins = rewardResult.coins_awarded ?? 0;
+        setRewardsEarned({ xp, coins });
+        toast({
+          title: "Review Complete! 🎉",
+          description: rewardResult.capped
+            ? `You earned +${xp} XP and +${coins} coins. You've reached today's earning limit!`
+            : `You earned +${xp} XP and +${coins} coins!`,
+        });
+      }
+    } catch (error) {
+      console.error("Error awarding review rewards:", error);
+    }
+  };
+
+  if (isLoading || cards === null) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (cards.length === 0) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-center max-w-sm">
+          <CalendarCheck className="w-12 h-12 mx-auto text-success mb-4" />
+          <h1 className="text-xl font-bold mb-2">All caught up!</h1>
+          <p className="text-muted-foreground mb-6">
+            No questions are due for review today. Questions you miss in practice and games will show up here.
+          </p>
+          <Button onClick={() => navigate("/student")}>
+            <Home className="w-4 h-4 mr-2" />
+            Back Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isComplete) {
+    const score = Math.round((correctCount / cards.length) * 100);
+
+    return (
+      <div className="min-h-screen bg-background">
+        <Confetti active={score >= 80} />
+        <main className="container mx-auto px-4 py-8 max-w-md">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="text-center"
+          >
+            <ScholarBuddy
+              size="lg"
+              message={score >= 80
+                ? "Those tricky questions are sticking now! 🌟"
+                : "Missed cards come back tomorrow. You've got this!"
+              }
+            />
+
+            <h1 className="text-2xl font-extrabold mt-6 text-foreground">Review Complete!</h1>
+            <div className="mt-4 space-y-2">
+              <div className="text-4xl font-bold text-primary">{score}%</div>
+              <p className="text-muted-foreground">
+                {correctCount} out of {cards.length} remembered
+              </p>
+            </div>
+
+            {rewardsEarned && (
+              <div className="mt-6 flex justify-center gap-4">
+                <Badge variant="outline" className="text-lg py-2 px-4 bg-primary/10 text-primary">
+                  <Zap className="w-4 h-4 mr-2" />
+                  +{rewardsEarned.xp} XP
+                </Badge>
+                <Badge variant="outline" className="text-lg py-2 px-4 bg-gold/10 text-gold">
+                  <Award className="w-4 h-4 mr-2" />
+                  +{rewardsEarned.coins} coins
+                </Badge>
+              </div>
+            )}
+
+            <Button
+              variant="hero"
+              size="xl"
+              className="w-full mt-8"
+              onClick={() => navigate("/student")}
+            >
+              <Home className="w-5 h-5 mr-2" />
+              Back Home
+            </Button>
+          </motion.div>
+        </main>
+      </div>
+    );
+  }
+
+  const question = current.question_data;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card border-b border-border sticky top-0 z-40">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/student")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Exit
+            </Button>
+            <span className="text-sm font-medium text-muted-foreground">
+              {currentIndex + 1} / {cards.length}
+            </span>
+            {question.standardCode && <Badge variant="secondary">{question.standardCode}</Badge>}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-lg">
+        <div className="mb-6">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-muted-foreground mt-2 text-center flex items-center justify-center gap-1">
+            <Brain className="w-3 h-3" />
+            Daily Review
+          </p>
+        </div>
+
+        <motion.div
+          key={current.id}
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+        >
+          <div className="bg-card rounded-2xl p-6 shadow-lg border border-border">
+            <div className="flex items-center gap-2 mb-4">
+              <Badge variant="outline" className="text-xs capitalize">{current.source}</Badge>
+              {current.lapses > 0 && (
+                <Badge variant="outline" className="text-xs gap-1">
+                  <RotateCcw className="w-3 h-3" />
+                  Missed {current.lapses + 1}×
+                </Badge>
+              )}
+            </div>
+
+            <MathText as="h2" className="text-xl font-bold text-foreground mb-6">{question.prompt}</MathText>
+
+            {question.kind === "multiple_choice" && question.options && (
+              <div className="grid gap-3">
+                {question.options.map((option) => {
+                  let variant: "outline" | "success" | "destructive" = "outline";
+                  if (revealed) {
+                    if (option === question.correctAnswer) variant = "success";
+                    else if (option === answer) variant = "destructive";
+                  }
+
+                  return (
+                    <Button
+                      key={option}
+                      variant={variant}
+                      className="w-full justify-start h-auto min-h-14 text-lg whitespace-normal text-left"
+                      onClick={() => {
+                        setAnswer(option);
+                        submitAnswer(isAnswerCorrect(current, option));
+                      }}
+                      disabled={revealed}
+                    >
+                      <MathText>{option}</MathText>
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+
+            {question.kind === "short_answer" && (
+              <MathInput
+                placeholder="Type your answer..."
+                value={answer}
+                onChange={setAnswer}
+                disabled={revealed}
+                inputClassName="h-14 rounded-xl text-lg"
+              />
+            )}
+
+            {question.kind === "flashcard" && revealed && (
+              <MathText as="div" className="p-4 rounded-xl bg-muted text-lg font-medium">{question.correctAnswer}</MathText>
+            )}
+          </div>
+
+          {question.hint && !showHint && !revealed && (
+            <Button variant="ghost" className="mt-4 w-full" onClick={() => setShowHint(true)}>
+              <Lightbulb className="w-4 h-4 mr-2" />
+              Need a hint?
+            </Button>
+          )}
+
+          {showHint && question.hint && !revealed && (
+            <div className="mt-4 p-4 bg-primary/10 rounded-xl border border-primary/20 flex items-start gap-3">
+              <Lightbulb className="w-5 h-5 text-primary mt-0.5" />
+              <MathText as="p" className="text-sm text-foreground">{question.hint}</MathText>
+            </div>
+          )}
+
+          {lastCorrect !== null && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`mt-4 p-4 rounded-xl ${
+                lastCorrect
+                  ? "bg-success/10 border border-success/20"
+                  : "bg-destructive/10 border border-destructive/20"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                {lastCorrect ? <Check className="w-5 h-5 text-success" /> : <X className="w-5 h-5 text-destructive" />}
+                <span className={lastCorrect ? "text-success" : "text-destructive"}>
+                  {lastCorrect ? "Nice! See you again later." : "This one comes back tomorrow."}
+                </span>
+              </div>
+              {!lastCorrect && question.kind === "short_answer" && (
+                <p className="mt-2 text-sm text-muted-foreground">The correct answer is: <MathText>{question.correctAnswer}</MathText></p>
+              )}
+              {question.explanation && (
+                <MathText as="p" className="mt-2 text-sm text-muted-foreground">{question.explanation}</MathText>
+              )}
+            </motion.div>
+          )}
+
+          <div className="mt-6 flex gap-3">
+            {lastCorrect !== null ? (
+              <Button className="flex-1" size="lg" onClick={handleNext}>
+                {currentIndex + 1 < cards.length ? (
+                  <>
+                    Next Card
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </>
+                ) : (
+                  "Finish Review"
+                )}
+              </Button>
+            ) : question.kind === "short_answer" ? (
+              <Button
+                className="flex-1"
+                size="lg"
+                disabled={!answer.trim()}
+                onClick={() => submitAnswer(isAnswerCorrect(current, answer))}
+              >
+                Check Answer
+              </Button>
+            ) : question.kind === "flashcard" && !revealed ? (
+              <Button className="flex-1" size="lg" onClick={() => setRevealed(true)}>
+                Show Answer
+              </Button>
+            ) : question.kind === "flashcard" ? (
+              <>
+                <Button variant="outline" className="flex-1" size="lg" onClick={() => submitAnswer(false)}>
+                  <X className="w-4 h-4 mr-2" />
+                  Missed it
+                </Button>
+                <Button className="flex-1" size="lg" onClick={() => submitAnswer(true)}>
+                  <Check className="w-4 h-4 mr-2" />
+                  Got it
+                </Button>
+              </>
+            ) : null}
+          </div>
+        </motion.div>
+      </main>
+    </div>
+  );
+}
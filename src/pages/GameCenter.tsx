@@ -18,9 +18,21 @@ import {
   Trophy,
   Target,
   Loader2,
-  Sparkles
+  Sparkles,
+  Swords
 } from "lucide-react";
 import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import type { AlgebraQuestion } from "@/data/algebraQuestions";
+import { useLearnerHistory } from "@/hooks/queries/useLearnerHistory";
+import {
+  buildLearnerState,
+  buildTimedChallengeData,
+  selectAlgebraQuestions,
+} from "@/lib/adaptiveSelection";
+
+/** Questions in a generated speed round */
+const SPEED_ROUND_QUESTIONS = 8;
 
 interface SkillGame {
   id: string;
@@ -67,6 +79,8 @@ export default function GameCenter() {
   const [games, setGames] = useState<SkillGame[]>([]);
   const [weaknesses, setWeaknesses] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState("available");
+  const [creatingCourse, setCreatingCourse] = useState<AlgebraQuestion["course"] | null>(null);
+  const { data: history = [] } = useLearnerHistory();
 
   useEffect(() => {
     fetchGames();
@@ -106,6 +120,51 @@ export default function GameCenter() {
     }
   };
 
+  // Generate a timed challenge from the question bank, picked for the student's weak standards
+  const createSpeedRound = async (course: AlgebraQuestion["course"]) => {
+    setCreatingCourse(course);
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) {
+        navigate("/auth");
+        return;
+      }
+
+      const questions = selectAlgebraQuestions(
+        course,
+        buildLearnerState(history),
+        SPEED_ROUND_QUESTIONS
+      );
+      if (questions.length === 0) {
+        toast.error(`No ${course} questions are available yet`);
+        return;
+      }
+      const averageDifficulty = questions.reduce((sum, q) => sum + q.difficulty, 0) / questions.length;
+
+      const { data, error } = await supabase
+        .from("skill_games")
+        .insert({
+          student_id: userData.user.id,
+          game_type: "timed_challenge",
+          skill_tag: course,
+          title: `${course} Speed Round`,
+          difficulty: Math.round(averageDifficulty),
+          source: "adaptive",
+          game_data: buildTimedChallengeData(questions) as unknown as Json,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      navigate(`/games/${data.id}`);
+    } catch (error) {
+      console.error("Error creating speed round:", error);
+      toast.error("Failed to create game");
+    } finally {
+      setCreatingCourse(null);
+    }
+  };
+
   const availableGames = games.filter((g) => g.status === "available");
   const completedGames = games.filter((g) => g.status === "completed");
 
@@ -195,6 +254,54 @@ export default function GameCenter() {
           </Card>
         </div>
 
+        {/* Adaptive Speed Rounds */}
+        <Card className="mb-6">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3 mb-3">
+              <div className="w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+                <Clock className="w-5 h-5 text-blue-500" />
+              </div>
+              <div>
+                <h3 className="font-semibold">Speed Rounds</h3>
+                <p className="text-sm text-muted-foreground">Timed challenges built around your weakest standards</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {(["Algebra 1", "Algebra 2"] as const).map((course) => (
+                <Button
+                  key={course}
+                  variant="outline"
+                  disabled={creatingCourse !== null}
+                  onClick={() => createSpeedRound(course)}
+                >
+                  {creatingCourse === course ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Zap className="w-4 h-4 mr-2" />
+                  )}
+                  {course}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Live Quiz Battle */}
+        <Card className="mb-6">
+          <CardContent className="p-4 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-red-100 dark:bg-red-900/30 flex items-center justify-center">
+                <Swords className="w-5 h-5 text-red-500" />
+              </div>
+              <div>
+                <h3 className="font-semibold">Quiz Battle</h3>
+                <p className="text-sm text-muted-foreground">Race up to 7 classmates on the same Regents questions</p>
+              </div>
+            </div>
+            <Button onClick={() => navigate("/games/battle")}>Play</Button>
+          </CardContent>
+        </Card>
+
         {/* Games Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="grid w-full grid-cols-2 mb-6">
@@ -39,6 +39,8 @@ export default function GradingResult() {
   const urlTotal = searchParams.get("total");
   const urlXp = searchParams.get("xp");
   const urlCoins = searchParams.get("coins");
+  // Submitted offline: the score is provisional until the outbox replays it
+  const isQueued = searchParams.get("queued") === "true";
   
   const [isLoading, setIsLoading] = useState(true);
   const [showConfetti, setShowConfetti] = useState(false);
@@ -61,7 +63,9 @@ export default function GradingResult() {
         totalQuestions: total,
         percentage,
         meetsThreshold,
-        feedback: meetsThreshold 
+        feedback: isQueued
+          ? "You're offline. Your answers are saved and will be graded when you reconnect."
+          : meetsThreshold
           ? percentage === 100 
             ? "Perfect score! You're a superstar! 🌟"
             : "Great job! You've shown strong understanding."
@@ -104,7 +108,7 @@ export default function GradingResult() {
     };
     
     simulateGrading();
-  }, [assignmentId, attemptId, urlScore, urlTotal, urlXp, urlCoins]);
+  }, [assignmentId, attemptId, urlScore, urlTotal, urlXp, urlCoins, isQueued]);
 
   const handleFinalSubmit = async () => {
     if (!gradingData) return;
@@ -1,11 +1,12 @@
 /**
  * Leaderboard Page
  *
- * Displays student rankings by XP or streak.
+ * Displays classmate rankings by XP earned in a period (from the reward
+ * ledger) or by streak.
  * Refactored to use common design tokens for rank colors.
  */
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
@@ -28,198 +29,48 @@ import {
   TrendingUp,
   Loader2
 } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { useCurrentUserId, useStudentProfile } from "@/hooks/queries/useStudentProfile";
+import {
+  useLeaderboard,
+  useLeaderboardClasses,
+  type LeaderboardEntry,
+  type LeaderboardPeriod,
+  type LeaderboardSort,
+} from "@/hooks/queries/useLeaderboard";
 import { getRankColors } from "@/components/common/tokens/colors";
 import { cn } from "@/lib/utils";
 
-interface LeaderboardEntry {
-  rank: number;
-  user_id: string;
-  name: string;
-  avatar_initial: string;
-  xp: number;
-  level: number;
-  current_streak: number;
-  longest_streak: number;
-  isCurrentUser?: boolean;
-}
-
-interface ClassOption {
-  id: string;
-  name: string;
-}
-
-// Demo data
-const demoLeaderboard: LeaderboardEntry[] = [
-  { rank: 1, user_id: "1", name: "Emma S.", avatar_initial: "E", xp: 2450, level: 5, current_streak: 14, longest_streak: 21 },
-  { rank: 2, user_id: "2", name: "Liam J.", avatar_initial: "L", xp: 2280, level: 5, current_streak: 12, longest_streak: 15 },
-  { rank: 3, user_id: "3", name: "Olivia M.", avatar_initial: "O", xp: 2150, level: 4, current_streak: 8, longest_streak: 12 },
-  { rank: 4, user_id: "4", name: "Noah K.", avatar_initial: "N", xp: 1980, level: 4, current_streak: 7, longest_streak: 10, isCurrentUser: true },
-  { rank: 5, user_id: "5", name: "Ava P.", avatar_initial: "A", xp: 1820, level: 4, current_streak: 5, longest_streak: 8 },
-  { rank: 6, user_id: "6", name: "Mason R.", avatar_initial: "M", xp: 1650, level: 4, current_streak: 4, longest_streak: 7 },
-  { rank: 7, user_id: "7", name: "Sophia L.", avatar_initial: "S", xp: 1520, level: 3, current_streak: 3, longest_streak: 6 },
-  { rank: 8, user_id: "8", name: "Lucas T.", avatar_initial: "L", xp: 1380, level: 3, current_streak: 2, longest_streak: 5 },
-  { rank: 9, user_id: "9", name: "Isabella W.", avatar_initial: "I", xp: 1250, level: 3, current_streak: 1, longest_streak: 4 },
-  { rank: 10, user_id: "10", name: "Ethan B.", avatar_initial: "E", xp: 1100, level: 2, current_streak: 0, longest_streak: 3 },
-];
-
-const demoClasses: ClassOption[] = [
-  { id: "all", name: "All Classes" },
-  { id: "1", name: "Math 101" },
-  { id: "2", name: "Reading 201" },
+const PERIOD_OPTIONS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: "daily", label: "Today" },
+  { value: "weekly", label: "This Week" },
+  { value: "monthly", label: "This Month" },
+  { value: "all-time", label: "All Time" },
 ];
 
 export default function Leaderboard() {
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>(demoLeaderboard);
-  const [classes, setClasses] = useState<ClassOption[]>(demoClasses);
   const [selectedClass, setSelectedClass] = useState("all");
-  const [sortBy, setSortBy] = useState<"xp" | "streak">("xp");
-  const [loading, setLoading] = useState(false);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchCurrentUser();
-    fetchClasses();
-  }, []);
-
-  useEffect(() => {
-    fetchLeaderboard();
-  }, [selectedClass, sortBy]);
-
-  const fetchCurrentUser = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    setCurrentUserId(user?.id || null);
-  };
-
-  const fetchClasses = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: enrollments } = await supabase
-        .from('enrollments')
-        .select('class_id, classes(id, name)')
-        .eq('student_id', user.id);
-
-      if (enrollments && enrollments.length > 0) {
-        const classOptions: ClassOption[] = [
-          { id: "all", name: "All Classes" },
-          ...enrollments.map(e => ({
-            id: (e.classes as any).id,
-            name: (e.classes as any).name,
-          }))
-        ];
-        setClasses(classOptions);
-      }
-    } catch (error) {
-      console.error('Error fetching classes:', error);
-    }
-  };
-
-  const fetchLeaderboard = async () => {
-    try {
-      setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        // Use demo data if not logged in
-        updateDemoLeaderboard();
-        return;
-      }
-
-      // Get student IDs from enrollments
-      let studentIds: string[] = [];
-      
-      if (selectedClass === "all") {
-        // Get all classmates from all enrolled classes
-        const { data: myEnrollments } = await supabase
-          .from('enrollments')
-          .select('class_id')
-          .eq('student_id', user.id);
-
-        if (myEnrollments && myEnrollments.length > 0) {
-          const classIds = myEnrollments.map(e => e.class_id);
-          const { data: allEnrollments } = await supabase
-            .from('enrollments')
-            .select('student_id')
-            .in('class_id', classIds);
-
-          studentIds = [...new Set(allEnrollments?.map(e => e.student_id) || [])];
-        }
-      } else {
-        // Get students from specific class
-        const { data: classEnrollments } = await supabase
-          .from('enrollments')
-          .select('student_id')
-          .eq('class_id', selectedClass);
-
-        studentIds = classEnrollments?.map(e => e.student_id) || [];
-      }
-
-      if (studentIds.length === 0) {
-        updateDemoLeaderboard();
-        return;
-      }
-
-      // Fetch student profiles
-      const { data: profiles } = await supabase
-        .from('student_profiles')
-        .select('user_id, xp, current_streak, longest_streak')
-        .in('user_id', studentIds);
-
-      // Fetch names
-      const { data: userProfiles } = await supabase
-        .from('profiles')
-        .select('id, full_name')
-        .in('id', studentIds);
-
-      if (profiles && userProfiles) {
-        const entries: LeaderboardEntry[] = profiles.map(sp => {
-          const profile = userProfiles.find(p => p.id === sp.user_id);
-          return {
-            rank: 0,
-            user_id: sp.user_id,
-            name: profile?.full_name || 'Student',
-            avatar_initial: (profile?.full_name || 'S').charAt(0).toUpperCase(),
-            xp: sp.xp,
-            level: Math.floor(sp.xp / 500) + 1,
-            current_streak: sp.current_streak,
-            longest_streak: sp.longest_streak,
-            isCurrentUser: sp.user_id === user.id,
-          };
-        });
-
-        // Sort and assign ranks
-        const sorted = sortBy === "xp" 
-          ? entries.sort((a, b) => b.xp - a.xp)
-          : entries.sort((a, b) => b.current_streak - a.current_streak);
-
-        sorted.forEach((entry, index) => {
-          entry.rank = index + 1;
-        });
-
-        setLeaderboard(sorted);
-      } else {
-        updateDemoLeaderboard();
-      }
-    } catch (error) {
-      console.error('Error fetching leaderboard:', error);
-      updateDemoLeaderboard();
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const updateDemoLeaderboard = () => {
-    const sorted = sortBy === "xp"
-      ? [...demoLeaderboard].sort((a, b) => b.xp - a.xp)
-      : [...demoLeaderboard].sort((a, b) => b.current_streak - a.current_streak);
-    
-    sorted.forEach((entry, index) => {
-      entry.rank = index + 1;
-    });
-    
-    setLeaderboard(sorted);
-  };
+  const [sortBy, setSortBy] = useState<LeaderboardSort>("xp");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("weekly");
+  const [myGradeOnly, setMyGradeOnly] = useState(false);
+
+  const { data: currentUserId, isLoading: userLoading } = useCurrentUserId();
+  const { data: profile } = useStudentProfile();
+  const { data: classes = [] } = useLeaderboardClasses(currentUserId ?? undefined);
+  const gradeLevel = myGradeOnly ? profile?.grade_level ?? undefined : undefined;
+
+  const { data, isLoading: boardLoading } = useLeaderboard(currentUserId ?? undefined, {
+    period,
+    sortBy,
+    classId: selectedClass,
+    gradeLevel,
+  });
+
+  const loading = userLoading || boardLoading;
+  const leaderboard: LeaderboardEntry[] = data?.entries ?? [];
+  // Pin the student's own row when they rank below the shown entries
+  const pinnedEntry =
+    data?.currentUser && !leaderboard.some((entry) => entry.isCurrentUser) ? data.currentUser : null;
+  const xpLabel = period === "all-time" ? "XP" : `XP ${PERIOD_OPTIONS.find((o) => o.value === period)?.label.toLowerCase()}`;
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
@@ -239,6 +90,73 @@ export default function Leaderboard() {
     return cn(colors.bg, colors.border);
   };
 
+  const renderEntry = (entry: LeaderboardEntry, index: number) => (
+    <motion.div
+      key={entry.user_id}
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: 0.3 + index * 0.03 }}
+      className={cn(
+        "rounded-xl p-4 border transition-all hover:scale-[1.01]",
+        getRankStyle(entry.rank, entry.isCurrentUser || false)
+      )}
+    >
+      <div className="flex items-center gap-4">
+        {/* Rank */}
+        <div className="w-8 flex items-center justify-center">
+          {getRankIcon(entry.rank)}
+        </div>
+
+        {/* Avatar */}
+        <div className={`w-12 h-12 rounded-full flex items-center justify-center text-lg font-bold text-white ${
+          entry.rank === 1 ? "bg-gradient-to-br from-gold to-amber-500" :
+          entry.rank === 2 ? "bg-gradient-to-br from-gray-300 to-gray-400" :
+          entry.rank === 3 ? "bg-gradient-to-br from-amber-500 to-amber-600" :
+          "bg-gradient-primary"
+        }`}>
+          {entry.avatar_initial}
+        </div>
+
+        {/* Info */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="font-bold text-foreground truncate">
+              {entry.name}
+              {entry.isCurrentUser && (
+                <span className="text-primary ml-1">(You)</span>
+              )}
+            </p>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Level {entry.level}
+          </p>
+        </div>
+
+        {/* Stats */}
+        <div className="flex items-center gap-4 text-right">
+          <div className={sortBy === "xp" ? "font-bold" : ""}>
+            <div className="flex items-center gap-1 justify-end">
+              <Star className={`w-4 h-4 ${sortBy === "xp" ? "text-primary" : "text-muted-foreground"}`} />
+              <span className={sortBy === "xp" ? "text-primary" : "text-muted-foreground"}>
+                {entry.xp.toLocaleString()}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">{xpLabel}</p>
+          </div>
+          <div className={sortBy === "streak" ? "font-bold" : ""}>
+            <div className="flex items-center gap-1 justify-end">
+              <Flame className={`w-4 h-4 ${sortBy === "streak" ? "text-streak" : "text-muted-foreground"}`} />
+              <span className={sortBy === "streak" ? "text-streak" : "text-muted-foreground"}>
+                {entry.current_streak}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">Streak</p>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+
   return (
     <div className="min-h-screen bg-background pb-24">
       {/* Header */}
@@ -273,13 +191,26 @@ export default function Leaderboard() {
               <SelectValue placeholder="Select class" />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="all">All Classes</SelectItem>
               {classes.map(cls => (
                 <SelectItem key={cls.id} value={cls.id}>{cls.name}</SelectItem>
               ))}
             </SelectContent>
           </Select>
 
-          <Tabs value={sortBy} onValueChange={(v) => setSortBy(v as "xp" | "streak")} className="flex-1">
+          {profile?.grade_level != null && (
+            <Select value={myGradeOnly ? "mine" : "all"} onValueChange={(v) => setMyGradeOnly(v === "mine")}>
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Grades</SelectItem>
+                <SelectItem value="mine">Grade {profile.grade_level}</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <Tabs value={sortBy} onValueChange={(v) => setSortBy(v as LeaderboardSort)} className="flex-1">
             <TabsList className="grid w-full grid-cols-2 sm:w-64">
               <TabsTrigger value="xp" className="gap-2">
                 <Star className="w-4 h-4" />
@@ -293,6 +224,18 @@ export default function Leaderboard() {
           </Tabs>
         </motion.div>
 
+        {sortBy === "xp" && (
+          <Tabs value={period} onValueChange={(v) => setPeriod(v as LeaderboardPeriod)}>
+            <TabsList className="grid w-full grid-cols-4 sm:w-[28rem]">
+              {PERIOD_OPTIONS.map((option) => (
+                <TabsTrigger key={option.value} value={option.value}>
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+
         {/* Top 3 Podium */}
         {!loading && leaderboard.length >= 3 && (
           <motion.div
@@ -373,73 +316,20 @@ export default function Leaderboard() {
             <div className="flex items-center justify-center py-20">
               <Loader2 className="w-8 h-8 animate-spin text-primary" />
             </div>
+          ) : leaderboard.length === 0 ? (
+            <div className="text-center py-20 text-muted-foreground">
+              {currentUserId ? "No classmates to rank yet." : "Sign in to see how you rank!"}
+            </div>
           ) : (
-            leaderboard.map((entry, index) => (
-              <motion.div
-                key={entry.user_id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ delay: 0.3 + index * 0.03 }}
-                className={cn(
-                  "rounded-xl p-4 border transition-all hover:scale-[1.01]",
-                  getRankStyle(entry.rank, entry.isCurrentUser || false)
-                )}
-              >
-                <div className="flex items-center gap-4">
-                  {/* Rank */}
-                  <div className="w-8 flex items-center justify-center">
-                    {getRankIcon(entry.rank)}
-                  </div>
-
-                  {/* Avatar */}
-                  <div className={`w-12 h-12 rounded-full flex items-center justify-center text-lg font-bold text-white ${
-                    entry.rank === 1 ? "bg-gradient-to-br from-gold to-amber-500" :
-                    entry.rank === 2 ? "bg-gradient-to-br from-gray-300 to-gray-400" :
-                    entry.rank === 3 ? "bg-gradient-to-br from-amber-500 to-amber-600" :
-                    "bg-gradient-primary"
-                  }`}>
-                    {entry.avatar_initial}
-                  </div>
-
-                  {/* Info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <p className="font-bold text-foreground truncate">
-                        {entry.name}
-                        {entry.isCurrentUser && (
-                          <span className="text-primary ml-1">(You)</span>
-                        )}
-                      </p>
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      Level {entry.level}
-                    </p>
-                  </div>
-
-                  {/* Stats */}
-                  <div className="flex items-center gap-4 text-right">
-                    <div className={sortBy === "xp" ? "font-bold" : ""}>
-                      <div className="flex items-center gap-1 justify-end">
-                        <Star className={`w-4 h-4 ${sortBy === "xp" ? "text-primary" : "text-muted-foreground"}`} />
-                        <span className={sortBy === "xp" ? "text-primary" : "text-muted-foreground"}>
-                          {entry.xp.toLocaleString()}
-                        </span>
-                      </div>
-                      <p className="text-xs text-muted-foreground">XP</p>
-                    </div>
-                    <div className={sortBy === "streak" ? "font-bold" : ""}>
-                      <div className="flex items-center gap-1 justify-end">
-                        <Flame className={`w-4 h-4 ${sortBy === "streak" ? "text-streak" : "text-muted-foreground"}`} />
-                        <span className={sortBy === "streak" ? "text-streak" : "text-muted-foreground"}>
-                          {entry.current_streak}
-                        </span>
-                      </div>
-                      <p className="text-xs text-muted-foreground">Streak</p>
-                    </div>
-                  </div>
-                </div>
-              </motion.div>
-            ))
+            <>
+              {leaderboard.map((entry, index) => renderEntry(entry, index))}
+              {pinnedEntry && (
+                <>
+                  <div className="text-center text-muted-foreground text-sm py-1">•••</div>
+                  {renderEntry(pinnedEntry, leaderboard.length)}
+                </>
+              )}
+            </>
           )}
         </motion.div>
 
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CollectibleCard } from "@/components/CollectibleCard";
+import { Confetti } from "@/components/Confetti";
+import { MysteryPackOdds } from "@/components/MysteryPackOdds";
+import { ArrowLeft, Coins, Gift, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { RARITY_COLORS } from "@/components/common/tokens/colors";
+import { useCurrentUserId } from "@/hooks/queries/useStudentProfile";
+import { useStudentPacks, type StudentPack } from "@/hooks/queries/useMysteryPacks";
+import { useClaimMilestonePacks, useOpenMysteryPack, type OpenPackResult } from "@/hooks/mutations/useMysteryPacks";
+import { describeMilestone } from "@/lib/api/mysteryPacks";
+
+/** Minimum time the pack shakes before the reveal */
+const OPENING_ANIMATION_MS = 1200;
+
+export default function MysteryPacks() {
+  const { data: userId } = useCurrentUserId();
+  const { data: packs = [], isLoading, error } = useStudentPacks(userId ?? undefined);
+  const { mutate: claimPacks } = useClaimMilestonePacks();
+  const openPack = useOpenMysteryPack();
+  const [opening, setOpening] = useState<StudentPack | null>(null);
+  const [revealed, setRevealed] = useState<OpenPackResult | null>(null);
+
+  // Pick up milestones reached outside a reward claim, like a streak kept alive overnight
+  useEffect(() => {
+    claimPacks();
+  }, [claimPacks]);
+
+  const unopened = packs.filter((p) => !p.opened_at);
+  const opened = packs.filter((p) => p.opened_at);
+
+  const handleOpen = async (pack: StudentPack) => {
+    setOpening(pack);
+    setRevealed(null);
+    try {
+      const [result] = await Promise.all([
+        openPack.mutateAsync(pack.id),
+        new Promise((resolve) => setTimeout(resolve, OPENING_ANIMATION_MS)),
+      ]);
+      if (!result.success) {
+        toast.error(result.error ?? "Couldn't open this pack");
+        setOpening(null);
+        return;
+      }
+      setRevealed(result);
+    } catch {
+      toast.error("Couldn't open this pack. Try again.");
+      setOpening(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (openPack.isPending) return;
+    setOpening(null);
+    setRevealed(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24">
+      <Confetti active={!!revealed?.collectible && !revealed.duplicate} />
+
+      <header className="bg-gradient-hero text-primary-foreground">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-3">
+            <Link to="/student/rewards">
+              <Button variant="ghost" size="icon-sm" className="text-primary-foreground hover:bg-primary-foreground/20">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-extrabold flex items-center gap-2">
+              <Gift className="w-6 h-6" />
+              Mystery Packs
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-8">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive text-center py-12">{error.message}</p>
+        ) : (
+          <>
+            <section>
+              <h2 className="font-bold text-foreground mb-3">Ready to Open</h2>
+              {unopened.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Level up, keep your streak going or finish a challenge to earn a pack.
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {unopened.map((pack, index) => (
+                    <motion.div
+                      key={pack.id}
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ delay: index * 0.05 }}
+                      className="rounded-2xl border-2 border-gold/40 bg-gold/10 p-4 flex flex-col items-center gap-3 text-center"
+                    >
+                      <Gift className="w-12 h-12 text-gold" />
+                      <div>
+                        <p className="font-bold text-foreground">{pack.pack_name}</p>
+                        <p className="text-xs text-muted-foreground">{describeMilestone(pack.milestone_key)}</p>
+                      </div>
+                      <Button size="sm" className="w-full" disabled={!!opening} onClick={() => handleOpen(pack)}>
+                        Open
+                      </Button>
+                    </motion.div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {opened.length > 0 && (
+              <section>
+                <h2 className="font-bold text-foreground mb-3">Opened</h2>
+                <ul className="divide-y divide-border rounded-xl border border-border bg-card">
+                  {opened.map((pack) => (
+                    <li key={pack.id} className="p-3 flex items-center justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium text-foreground truncate">{pack.pack_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {describeMilestone(pack.milestone_key)} · {format(new Date(pack.opened_at!), "MMM d")}
+                        </p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        {pack.rarity && (
+                          <p className={cn("font-semibold", RARITY_COLORS[pack.rarity].text)}>
+                            {pack.collectible_name ?? RARITY_COLORS[pack.rarity].label}
+                          </p>
+                        )}
+                        {pack.duplicate_coins !== null && (
+                          <p className="text-xs text-muted-foreground">Duplicate · +{pack.duplicate_coins} 🪙</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+
+        <MysteryPackOdds />
+      </main>
+
+      <Dialog open={!!opening} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{opening?.pack_name}</DialogTitle>
+            <DialogDescription>
+              {revealed ? (revealed.duplicate ? "You already have this one!" : "New card for your collection!") : "Opening..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-col items-center gap-4 py-4">
+            {revealed?.collectible ? (
+              <motion.div
+                initial={{ rotateY: 90, opacity: 0 }}
+                animate={{ rotateY: 0, opacity: 1 }}
+                transition={{ duration: 0.5 }}
+                className="w-44"
+              >
+                <CollectibleCard
+                  name={revealed.collectible.name}
+                  description={revealed.collectible.description ?? undefined}
+                  imageUrl={revealed.collectible.image_url ?? undefined}
+                  rarity={revealed.collectible.rarity}
+                />
+              </motion.div>
+            ) : (
+              <motion.div
+                animate={{ rotate: [0, -8, 8, -8, 8, 0], scale: [1, 1.05, 1] }}
+                transition={{ duration: 0.6, repeat: Infinity }}
+              >
+                <Gift className="w-24 h-24 text-gold" />
+              </motion.div>
+            )}
+
+            {revealed?.duplicate && (
+              <p className="flex items-center gap-2 font-semibold text-foreground">
+                <Coins className="w-5 h-5 text-gold" />
+                Converted to +{revealed.coins_awarded} coins
+              </p>
+            )}
+
+            {revealed && (
+              <Button className="w-full" onClick={handleClose}>
+                Awesome!
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { motion } from "framer-motion";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,9 @@ import { StreakCounter } from "@/components/StreakCounter";
 import { CoinCounter } from "@/components/CoinCounter";
 import { BadgeCard } from "@/components/BadgeCard";
 import { PointPledgeManager } from "@/components/PointPledgeManager";
+import { MysteryPackOdds } from "@/components/MysteryPackOdds";
+import { useEconomyConfig } from "@/hooks/queries/useEconomyConfig";
+import { levelProgress } from "@/lib/economy";
 import {
   Dialog,
   DialogContent,
@@ -25,6 +28,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Users,
   Trophy,
@@ -40,12 +44,27 @@ import {
   CheckCircle2,
   AlertCircle,
   Gift,
+  Settings,
   Trash2
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { PoweredByFooter } from "@/components/PoweredByFooter";
 import { ParentDashboardSkeleton } from "@/components/skeletons/ParentDashboardSkeleton";
+import { useMyParentLinks, type ParentLink } from "@/hooks/queries/useParentLinks";
+import { useRequestParentLink } from "@/hooks/mutations/useParentLinks";
+import { useSendParentDigest } from "@/hooks/mutations/useParentDigest";
+import { alertOnMissedAssignments, alertOnStreakAtRisk } from "@/lib/api/parentAlerts";
+import { ParentDigestSettings } from "@/components/ParentDigestSettings";
+import { ParentAlertSettings } from "@/components/ParentAlertSettings";
+import { PledgeActions } from "@/components/PledgeActions";
+import { PledgeTimeline } from "@/components/PledgeTimeline";
+import { useParentPledges, type Pledge } from "@/hooks/queries/usePledges";
+import { useCreateBadgePledge, useDeletePledge } from "@/hooks/mutations/usePledges";
+import { PLEDGE_STATUS_LABELS } from "@/lib/pledges";
+
+/** Stable while the links query has no data, so effects on it don't rerun every render */
+const NO_LINKS: ParentLink[] = [];
 
 interface Badge {
   id: string;
@@ -54,22 +73,10 @@ interface Badge {
   icon_url: string | null;
 }
 
-interface RewardPledge {
-  id: string;
-  badge_id: string;
-  student_id: string;
-  reward_description: string;
-  is_active: boolean;
-  claimed: boolean;
-  claimed_at: string | null;
-  badge?: Badge;
-  student_name?: string;
-}
-
+/** An approved link, with the student's progress */
 interface LinkedStudent {
   id: string;
   student_id: string;
-  verified: boolean;
   relationship: string;
   student_name: string;
   student_profile: {
@@ -83,74 +90,61 @@ interface LinkedStudent {
   recent_rewards: { id: string; xp_delta: number; coin_delta: number; reason: string; created_at: string }[];
 }
 
-// Demo data for display
-const demoStudents: LinkedStudent[] = [
-  {
-    id: "1",
-    student_id: "demo-1",
-    verified: true,
-    relationship: "parent",
-    student_name: "Alex Johnson",
-    student_profile: {
-      xp: 1250,
-      coins: 340,
-      current_streak: 7,
-      longest_streak: 14,
-      streak_shield_available: true,
-    },
-    recent_badges: [
-      { id: "1", name: "Week Warrior", earned_at: new Date(Date.now() - 86400000).toISOString() },
-      { id: "2", name: "Math Master", earned_at: new Date(Date.now() - 172800000).toISOString() },
-    ],
-    recent_rewards: [
-      { id: "1", xp_delta: 50, coin_delta: 10, reason: "Assignment completed: Math Magic", created_at: new Date(Date.now() - 3600000).toISOString() },
-      { id: "2", xp_delta: 75, coin_delta: 15, reason: "Assignment completed: Reading Ch 5", created_at: new Date(Date.now() - 86400000).toISOString() },
-    ],
-  },
-  {
-    id: "2",
-    student_id: "demo-2",
-    verified: true,
-    relationship: "parent",
-    student_name: "Sam Johnson",
-    student_profile: {
-      xp: 850,
-      coins: 210,
-      current_streak: 3,
-      longest_streak: 5,
-      streak_shield_available: true,
-    },
-    recent_badges: [
-      { id: "3", name: "3-Day Streak", earned_at: new Date(Date.now() - 86400000).toISOString() },
-    ],
-    recent_rewards: [
-      { id: "3", xp_delta: 60, coin_delta: 12, reason: "Assignment completed: Science Quiz", created_at: new Date(Date.now() - 7200000).toISOString() },
-    ],
-  },
-];
-
 export default function ParentDashboard() {
   const { toast } = useToast();
-  const [students, setStudents] = useState<LinkedStudent[]>(demoStudents);
-  const [loading, setLoading] = useState(false);
+  const { data: links = NO_LINKS, isLoading: linksLoading } = useMyParentLinks();
+  const approvedLinks = useMemo(() => links.filter((link) => link.status === "approved"), [links]);
+  const loadedFor = useRef<string | null>(null);
+  const [students, setStudents] = useState<LinkedStudent[]>([]);
+  const alertStudents = useMemo(
+    () => students.map((s) => ({ studentId: s.student_id, name: s.student_name })),
+    [students]
+  );
+  const [loadingDetails, setLoadingDetails] = useState(false);
+  const loading = linksLoading || loadingDetails;
   const [selectedStudent, setSelectedStudent] = useState<LinkedStudent | null>(null);
+  const { config: economy } = useEconomyConfig();
   const [showLinkDialog, setShowLinkDialog] = useState(false);
-  const [linkEmail, setLinkEmail] = useState("");
-  const [linking, setLinking] = useState(false);
+  const [linkIdentifier, setLinkIdentifier] = useState("");
+  const [linkRelationship, setLinkRelationship] = useState("parent");
+  const requestLink = useRequestParentLink();
+  const { mutate: sendDueDigest } = useSendParentDigest();
   
   // Reward pledges state
-  const [pledges, setPledges] = useState<RewardPledge[]>([]);
+  const { data: allPledges = [] } = useParentPledges();
+  const pledges = allPledges.filter((pledge) => pledge.kind === "badge");
+  const createBadgePledge = useCreateBadgePledge();
+  const deletePledge = useDeletePledge();
   const [availableBadges, setAvailableBadges] = useState<Badge[]>([]);
   const [showPledgeDialog, setShowPledgeDialog] = useState(false);
   const [pledgeStudent, setPledgeStudent] = useState<string>("");
   const [pledgeBadge, setPledgeBadge] = useState<string>("");
   const [pledgeReward, setPledgeReward] = useState("");
-  const [creatingPledge, setCreatingPledge] = useState(false);
+  const creatingPledge = createBadgePledge.isPending;
   const [userId, setUserId] = useState<string | null>(null);
 
+  // Reload progress only when the set of approved children changes
+  useEffect(() => {
+    const key = approvedLinks.map((link) => link.id).join(",");
+    if (loadedFor.current === key) return;
+    loadedFor.current = key;
+    fetchLinkedStudents(approvedLinks);
+
+    // Alerts about something a child didn't do can't wait for the child's app
+    approvedLinks.forEach((link) => {
+      alertOnMissedAssignments(link.studentId).catch((error) =>
+        console.error("Error checking missed due dates:", error)
+      );
+      alertOnStreakAtRisk(link.studentId).catch((error) => console.error("Streak alert error:", error));
+    });
+  }, [approvedLinks]);
+
+  // Catch up on a digest that came due while the parent was away
+  useEffect(() => {
+    sendDueDigest({});
+  }, [sendDueDigest]);
+
   useEffect(() => {
-    fetchLinkedStudents();
-    fetchPledges();
     fetchBadges();
     
     const getUser = async () => {
@@ -160,45 +154,29 @@ export default function ParentDashboard() {
     getUser();
   }, []);
 
-  const fetchLinkedStudents = async () => {
-    try {
-      setLoading(true);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: links, error } = await supabase
-        .from('parent_students')
-        .select('*')
-        .eq('parent_id', user.id);
-
-      if (error) throw error;
-
-      if (!links || links.length === 0) {
-        setStudents(demoStudents); // Show demo data if no linked students
-        return;
-      }
+  // Progress is only ever loaded for approved links
+  const fetchLinkedStudents = async (approved: ParentLink[]) => {
+    if (approved.length === 0) {
+      setStudents([]);
+      return;
+    }
 
+    try {
+      setLoadingDetails(true);
       const studentsWithDetails = await Promise.all(
-        links.map(async (link) => {
-          // Get profile name
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('id', link.student_id)
-            .single();
-
+        approved.map(async (link) => {
           // Get student profile stats
           const { data: studentProfile } = await supabase
             .from('student_profiles')
             .select('xp, coins, current_streak, longest_streak, streak_shield_available')
-            .eq('user_id', link.student_id)
+            .eq('user_id', link.studentId)
             .single();
 
           // Get recent badges
           const { data: badges } = await supabase
             .from('student_badges')
             .select('id, badge_id, earned_at, badges(name)')
-            .eq('student_id', link.student_id)
+            .eq('student_id', link.studentId)
             .order('earned_at', { ascending: false })
             .limit(5);
 
@@ -206,16 +184,15 @@ export default function ParentDashboard() {
           const { data: rewards } = await supabase
             .from('reward_ledger')
             .select('id, xp_delta, coin_delta, reason, created_at')
-            .eq('student_id', link.student_id)
+            .eq('student_id', link.studentId)
             .order('created_at', { ascending: false })
             .limit(10);
 
           return {
             id: link.id,
-            student_id: link.student_id,
-            verified: link.verified,
+            student_id: link.studentId,
             relationship: link.relationship,
-            student_name: profile?.full_name || 'Unknown Student',
+            student_name: link.studentName || 'Unknown Student',
             student_profile: studentProfile,
             recent_badges: badges?.map(b => ({
               id: b.id,
@@ -231,32 +208,33 @@ export default function ParentDashboard() {
     } catch (error) {
       console.error('Error fetching students:', error);
     } finally {
-      setLoading(false);
+      setLoadingDetails(false);
     }
   };
 
-  const handleLinkStudent = async () => {
-    if (!linkEmail.trim()) return;
-    
-    setLinking(true);
-    try {
-      // In a real app, this would send an invitation or look up the student
-      // For now, we'll show a message that this requires teacher verification
-      toast({
-        title: "Link Request Sent",
-        description: "A verification request has been sent. The teacher will need to approve this link.",
-      });
-      setShowLinkDialog(false);
-      setLinkEmail("");
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to send link request",
-        variant: "destructive",
-      });
-    } finally {
-      setLinking(false);
-    }
+  const handleLinkStudent = () => {
+    if (!linkIdentifier.trim()) return;
+
+    requestLink.mutate(
+      { identifier: linkIdentifier, relationship: linkRelationship },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Link Request Sent",
+            description: "Your child's teacher will review the request. You'll be notified either way.",
+          });
+          setShowLinkDialog(false);
+          setLinkIdentifier("");
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
   const handleLogout = async () => {
@@ -272,129 +250,57 @@ export default function ParentDashboard() {
     if (data) setAvailableBadges(data);
   };
 
-  const fetchPledges = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    const { data: pledgesData } = await supabase
-      .from('parent_reward_pledges')
-      .select('*')
-      .eq('parent_id', user.id)
-      .order('created_at', { ascending: false });
-
-    if (pledgesData) {
-      // Fetch badge and student details for each pledge
-      const enrichedPledges = await Promise.all(
-        pledgesData.map(async (pledge) => {
-          const { data: badge } = await supabase
-            .from('badges')
-            .select('*')
-            .eq('id', pledge.badge_id)
-            .single();
-          
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('full_name')
-            .eq('id', pledge.student_id)
-            .single();
-
-          return {
-            ...pledge,
-            badge: badge || undefined,
-            student_name: profile?.full_name || 'Unknown',
-          };
-        })
-      );
-      setPledges(enrichedPledges);
-    }
-  };
-
-  const handleCreatePledge = async () => {
+  const handleCreatePledge = () => {
     if (!pledgeStudent || !pledgeBadge || !pledgeReward.trim()) return;
 
-    setCreatingPledge(true);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      const { error } = await supabase.from('parent_reward_pledges').insert({
-        parent_id: user.id,
-        student_id: pledgeStudent,
-        badge_id: pledgeBadge,
-        reward_description: pledgeReward.trim(),
-      });
-
-      if (error) throw error;
-
-      toast({
-        title: "Reward Pledge Created! 🎁",
-        description: "Your child will be motivated to earn this badge!",
-      });
-      
-      setShowPledgeDialog(false);
-      setPledgeStudent("");
-      setPledgeBadge("");
-      setPledgeReward("");
-      fetchPledges();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to create pledge",
-        variant: "destructive",
-      });
-    } finally {
-      setCreatingPledge(false);
-    }
-  };
-
-  const handleClaimPledge = async (pledgeId: string) => {
-    try {
-      const { error } = await supabase
-        .from('parent_reward_pledges')
-        .update({ claimed: true, claimed_at: new Date().toISOString() })
-        .eq('id', pledgeId);
-
-      if (error) throw error;
-
-      toast({
-        title: "Reward Claimed! ✅",
-        description: "Don't forget to give the reward to your child!",
-      });
-      fetchPledges();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to mark as claimed",
-        variant: "destructive",
-      });
-    }
+    createBadgePledge.mutate(
+      { studentId: pledgeStudent, badgeId: pledgeBadge, rewardDescription: pledgeReward.trim() },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Reward Pledge Created! 🎁",
+            description: "Your child will be motivated to earn this badge!",
+          });
+          setShowPledgeDialog(false);
+          setPledgeStudent("");
+          setPledgeBadge("");
+          setPledgeReward("");
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to create pledge",
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
-  const handleDeletePledge = async (pledgeId: string) => {
-    try {
-      const { error } = await supabase
-        .from('parent_reward_pledges')
-        .delete()
-        .eq('id', pledgeId);
-
-      if (error) throw error;
-
-      toast({
-        title: "Pledge Removed",
-        description: "The reward pledge has been deleted",
-      });
-      fetchPledges();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete pledge",
-        variant: "destructive",
-      });
-    }
+  const handleDeletePledge = (pledge: Pledge) => {
+    deletePledge.mutate(
+      { kind: pledge.kind, pledgeId: pledge.id },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Pledge Removed",
+            description: "The reward pledge has been deleted",
+          });
+        },
+        onError: () => {
+          toast({
+            title: "Error",
+            description: "Failed to delete pledge",
+            variant: "destructive",
+          });
+        },
+      }
+    );
   };
 
-  const getLevel = (xp: number) => Math.floor(xp / 500) + 1;
-  const getXpProgress = (xp: number) => xp % 500;
+  const getLevel = (xp: number) => levelProgress(economy.levelCurve, xp).level;
+  const getXpProgress = (xp: number) => levelProgress(economy.levelCurve, xp).xpInLevel;
+  const getLevelXp = (xp: number) => levelProgress(economy.levelCurve, xp).xpForLevel;
 
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -441,7 +347,7 @@ export default function ParentDashboard() {
       <main className="container mx-auto px-4 py-6 space-y-6">
         {loading ? (
           <ParentDashboardSkeleton />
-        ) : students.length === 0 ? (
+        ) : links.length === 0 ? (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -458,282 +364,302 @@ export default function ParentDashboard() {
             </Button>
           </motion.div>
         ) : (
-          <>
-            {/* Overview Cards */}
-            <motion.section
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-            >
-              <h2 className="text-lg font-bold text-foreground mb-4">Your Children</h2>
-              <div className="grid gap-4 md:grid-cols-2">
-                {students.filter(s => s.verified).map((student, index) => (
-                  <motion.div
-                    key={student.id}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 }}
-                    className="bg-card rounded-2xl p-5 border border-border shadow-sm cursor-pointer hover:shadow-md transition-shadow"
-                    onClick={() => setSelectedStudent(student)}
-                  >
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center gap-3">
-                        <div className="w-12 h-12 bg-gradient-primary rounded-full flex items-center justify-center">
-                          <span className="text-xl font-bold text-primary-foreground">
-                            {student.student_name.charAt(0)}
-                          </span>
-                        </div>
-                        <div>
-                          <h3 className="font-bold text-foreground">{student.student_name}</h3>
-                          <p className="text-sm text-muted-foreground">
-                            Level {student.student_profile ? getLevel(student.student_profile.xp) : 1}
-                          </p>
+          <Tabs defaultValue="overview" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="settings" className="gap-2">
+                <Settings className="w-4 h-4" />
+                Settings
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="space-y-6">
+                {/* Overview Cards */}
+                <motion.section
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                >
+                  <h2 className="text-lg font-bold text-foreground mb-4">Your Children</h2>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    {students.map((student, index) => (
+                      <motion.div
+                        key={student.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.1 }}
+                        className="bg-card rounded-2xl p-5 border border-border shadow-sm cursor-pointer hover:shadow-md transition-shadow"
+                        onClick={() => setSelectedStudent(student)}
+                      >
+                        <div className="flex items-start justify-between mb-4">
+                          <div className="flex items-center gap-3">
+                            <div className="w-12 h-12 bg-gradient-primary rounded-full flex items-center justify-center">
+                              <span className="text-xl font-bold text-primary-foreground">
+                                {student.student_name.charAt(0)}
+                              </span>
+                            </div>
+                            <div>
+                              <h3 className="font-bold text-foreground">{student.student_name}</h3>
+                              <p className="text-sm text-muted-foreground">
+                                Level {student.student_profile ? getLevel(student.student_profile.xp) : 1}
+                              </p>
+                            </div>
+                          </div>
+                          {student.student_profile && (
+                            <StreakCounter 
+                              streak={student.student_profile.current_streak} 
+                              hasShield={student.student_profile.streak_shield_available}
+                              size="sm"
+                            />
+                          )}
                         </div>
-                      </div>
-                      {student.student_profile && (
-                        <StreakCounter 
-                          streak={student.student_profile.current_streak} 
-                          hasShield={student.student_profile.streak_shield_available}
-                          size="sm"
-                        />
-                      )}
-                    </div>
-
-                    {student.student_profile && (
-                      <>
-                        <XPBar
-                          currentXP={getXpProgress(student.student_profile.xp)}
-                          xpForNextLevel={500}
-                          level={getLevel(student.student_profile.xp)}
-                          size="sm"
-                          className="mb-3"
-                        />
 
-                        <div className="flex items-center gap-4 text-sm">
-                          <div className="flex items-center gap-1 text-muted-foreground">
-                            <Star className="w-4 h-4 text-primary" />
-                            <span>{student.student_profile.xp} XP</span>
+                        {student.student_profile && (
+                          <>
+                            <XPBar
+                              currentXP={getXpProgress(student.student_profile.xp)}
+                              xpForNextLevel={getLevelXp(student.student_profile.xp)}
+                              level={getLevel(student.student_profile.xp)}
+                              size="sm"
+                              className="mb-3"
+                            />
+
+                            <div className="flex items-center gap-4 text-sm">
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Star className="w-4 h-4 text-primary" />
+                                <span>{student.student_profile.xp} XP</span>
+                              </div>
+                              <div className="flex items-center gap-1 text-muted-foreground">
+                                <Trophy className="w-4 h-4 text-gold" />
+                                <span>{student.recent_badges.length} badges</span>
+                              </div>
+                              <CoinCounter coins={student.student_profile.coins} size="sm" />
+                            </div>
+                          </>
+                        )}
+                      </motion.div>
+                    ))}
+
+                    {/* Requests still with the teacher, or turned down */}
+                    {links.filter(link => link.status !== "approved").map((link) => (
+                      <div
+                        key={link.id}
+                        className="bg-muted/50 rounded-2xl p-5 border border-dashed border-border"
+                      >
+                        <div className="flex items-center gap-3">
+                          <div className="w-12 h-12 bg-muted rounded-full flex items-center justify-center">
+                            {link.status === "pending" ? (
+                              <Clock className="w-6 h-6 text-muted-foreground" />
+                            ) : (
+                              <AlertCircle className="w-6 h-6 text-destructive" />
+                            )}
                           </div>
-                          <div className="flex items-center gap-1 text-muted-foreground">
-                            <Trophy className="w-4 h-4 text-gold" />
-                            <span>{student.recent_badges.length} badges</span>
+                          <div>
+                            <h3 className="font-medium text-muted-foreground">
+                              {link.status === "pending" ? "Pending Verification" : "Request Not Approved"}
+                            </h3>
+                            <p className="text-sm text-muted-foreground">
+                              {link.status === "pending"
+                                ? `Waiting for teacher approval (sent ${formatTime(link.createdAt).toLowerCase()})`
+                                : "Contact your child's teacher if you think this is a mistake"}
+                            </p>
                           </div>
-                          <CoinCounter coins={student.student_profile.coins} size="sm" />
                         </div>
-                      </>
-                    )}
-                  </motion.div>
-                ))}
-
-                {/* Pending verifications */}
-                {students.filter(s => !s.verified).map((student) => (
-                  <div
-                    key={student.id}
-                    className="bg-muted/50 rounded-2xl p-5 border border-dashed border-border"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="w-12 h-12 bg-muted rounded-full flex items-center justify-center">
-                        <Clock className="w-6 h-6 text-muted-foreground" />
-                      </div>
-                      <div>
-                        <h3 className="font-medium text-muted-foreground">Pending Verification</h3>
-                        <p className="text-sm text-muted-foreground">
-                          Waiting for teacher approval
-                        </p>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            </motion.section>
+                </motion.section>
 
-            {/* Recent Activity */}
-            <motion.section
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.2 }}
-            >
-              <h2 className="text-lg font-bold text-foreground mb-4">Recent Activity</h2>
-              <div className="bg-card rounded-2xl border border-border overflow-hidden">
-                {students
-                  .filter(s => s.verified)
-                  .flatMap(s => s.recent_rewards.map(r => ({ ...r, student_name: s.student_name })))
-                  .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-                  .slice(0, 10)
-                  .map((activity, index, arr) => (
-                    <div
-                      key={activity.id}
-                      className={`px-5 py-4 flex items-center gap-4 ${
-                        index !== arr.length - 1 ? "border-b border-border" : ""
-                      }`}
-                    >
-                      <div className="w-10 h-10 bg-success/10 rounded-full flex items-center justify-center flex-shrink-0">
-                        <CheckCircle2 className="w-5 h-5 text-success" />
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-foreground truncate">
-                          <span className="text-primary">{activity.student_name}</span>
-                          {" "}completed an assignment
-                        </p>
-                        <p className="text-sm text-muted-foreground truncate">{activity.reason}</p>
-                      </div>
-                      <div className="text-right flex-shrink-0">
-                        <p className="text-sm font-medium text-success">+{activity.xp_delta} XP</p>
-                        <p className="text-xs text-muted-foreground">{formatTime(activity.created_at)}</p>
-                      </div>
-                    </div>
-                  ))}
+                {/* Recent Activity */}
+                <motion.section
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.2 }}
+                >
+                  <h2 className="text-lg font-bold text-foreground mb-4">Recent Activity</h2>
+                  <div className="bg-card rounded-2xl border border-border overflow-hidden">
+                    {students
+                      .flatMap(s => s.recent_rewards.map(r => ({ ...r, student_name: s.student_name })))
+                      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+                      .slice(0, 10)
+                      .map((activity, index, arr) => (
+                        <div
+                          key={activity.id}
+                          className={`px-5 py-4 flex items-center gap-4 ${
+                            index !== arr.length - 1 ? "border-b border-border" : ""
+                          }`}
+                        >
+                          <div className="w-10 h-10 bg-success/10 rounded-full flex items-center justify-center flex-shrink-0">
+                            <CheckCircle2 className="w-5 h-5 text-success" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-foreground truncate">
+                              <span className="text-primary">{activity.student_name}</span>
+                              {" "}completed an assignment
+                            </p>
+                            <p className="text-sm text-muted-foreground truncate">{activity.reason}</p>
+                          </div>
+                          <div className="text-right flex-shrink-0">
+                            <p className="text-sm font-medium text-success">+{activity.xp_delta} XP</p>
+                            <p className="text-xs text-muted-foreground">{formatTime(activity.created_at)}</p>
+                          </div>
+                        </div>
+                      ))}
 
-                {students.filter(s => s.verified).flatMap(s => s.recent_rewards).length === 0 && (
-                  <div className="p-8 text-center text-muted-foreground">
-                    No recent activity
+                    {students.flatMap(s => s.recent_rewards).length === 0 && (
+                      <div className="p-8 text-center text-muted-foreground">
+                        No recent activity
+                      </div>
+                    )}
+                  </div>
+                </motion.section>
+
+                {/* Reward Pledges Section */}
+                <motion.section
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.25 }}
+                >
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+                      <Gift className="w-5 h-5 text-primary" />
+                      Reward Pledges
+                    </h2>
+                    <Button size="sm" onClick={() => setShowPledgeDialog(true)}>
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Pledge
+                    </Button>
                   </div>
-                )}
-              </div>
-            </motion.section>
-
-            {/* Reward Pledges Section */}
-            <motion.section
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.25 }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
-                  <Gift className="w-5 h-5 text-primary" />
-                  Reward Pledges
-                </h2>
-                <Button size="sm" onClick={() => setShowPledgeDialog(true)}>
-                  <Plus className="w-4 h-4 mr-1" />
-                  Add Pledge
-                </Button>
-              </div>
               
-              {pledges.length > 0 ? (
-                <div className="grid gap-3 md:grid-cols-2">
-                  {pledges.map((pledge) => (
-                    <motion.div
-                      key={pledge.id}
-                      initial={{ opacity: 0, scale: 0.95 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      className={`bg-card rounded-xl p-4 border ${
-                        pledge.claimed 
-                          ? 'border-success/30 bg-success/5' 
-                          : 'border-border'
-                      }`}
-                    >
-                      <div className="flex items-start justify-between gap-3">
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <Trophy className="w-4 h-4 text-gold flex-shrink-0" />
-                            <span className="font-medium text-foreground truncate">
-                              {pledge.badge?.name || 'Badge'}
-                            </span>
-                            {pledge.claimed && (
-                              <span className="text-xs bg-success/20 text-success px-2 py-0.5 rounded-full">
-                                Claimed
-                              </span>
-                            )}
-                          </div>
-                          <p className="text-sm text-muted-foreground mb-2">
-                            For: {pledge.student_name}
-                          </p>
-                          <div className="flex items-center gap-2">
-                            <Gift className="w-4 h-4 text-primary" />
-                            <span className="text-sm font-medium text-primary">
-                              {pledge.reward_description}
-                            </span>
+                  {pledges.length > 0 ? (
+                    <div className="grid gap-3 md:grid-cols-2">
+                      {pledges.map((pledge) => (
+                        <motion.div
+                          key={pledge.id}
+                          initial={{ opacity: 0, scale: 0.95 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          className={`bg-card rounded-xl p-4 border ${
+                            pledge.status === "fulfilled"
+                              ? 'border-success/30 bg-success/5' 
+                              : pledge.status === "claimed"
+                              ? 'border-primary/50 bg-primary/5'
+                              : 'border-border'
+                          }`}
+                        >
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <Trophy className="w-4 h-4 text-gold flex-shrink-0" />
+                                <span className="font-medium text-foreground truncate">
+                                  {pledge.badgeName}
+                                </span>
+                                {pledge.status !== "active" && (
+                                  <span className={`text-xs px-2 py-0.5 rounded-full ${
+                                    pledge.status === "fulfilled"
+                                      ? 'bg-success/20 text-success'
+                                      : 'bg-muted text-muted-foreground'
+                                  }`}>
+                                    {PLEDGE_STATUS_LABELS[pledge.status]}
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-sm text-muted-foreground mb-2">
+                                For: {pledge.studentName}
+                              </p>
+                              <div className="flex items-center gap-2">
+                                <Gift className="w-4 h-4 text-primary" />
+                                <span className="text-sm font-medium text-primary">
+                                  {pledge.rewardDescription}
+                                </span>
+                              </div>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                              <PledgeActions pledge={pledge} />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="text-xs text-muted-foreground hover:text-destructive"
+                                onClick={() => handleDeletePledge(pledge)}
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex flex-col gap-1">
-                          {!pledge.claimed && (
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="text-xs"
-                              onClick={() => handleClaimPledge(pledge.id)}
-                            >
-                              <CheckCircle2 className="w-3 h-3 mr-1" />
-                              Mark Given
-                            </Button>
-                          )}
-                          <Button
+                          <PledgeTimeline pledge={pledge} className="mt-3" />
+                        </motion.div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="bg-card rounded-2xl border border-dashed border-border p-8 text-center">
+                      <Gift className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                      <h3 className="font-medium text-foreground mb-1">No Reward Pledges Yet</h3>
+                      <p className="text-sm text-muted-foreground mb-4">
+                        Create pledges to reward your child when they earn specific badges!
+                      </p>
+                      <Button size="sm" onClick={() => setShowPledgeDialog(true)}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Create Your First Pledge
+                      </Button>
+                    </div>
+                  )}
+                </motion.section>
+
+                {/* Point-Based Pledges Section */}
+                <PointPledgeManager 
+                  students={students.map(s => ({
+                    id: s.id,
+                    student_id: s.student_id,
+                    student_name: s.student_name,
+                    coins: s.student_profile?.coins || 0,
+                  }))}
+                />
+
+                {/* Mystery pack odds, so parents can see what packs contain */}
+                <MysteryPackOdds />
+
+                {/* Recent Badges */}
+                <motion.section
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.3 }}
+                >
+                  <h2 className="text-lg font-bold text-foreground mb-4">Recent Badges Earned</h2>
+                  <div className="flex gap-4 overflow-x-auto pb-2">
+                    {students
+                      .flatMap(s => s.recent_badges.map(b => ({ ...b, student_name: s.student_name })))
+                      .sort((a, b) => new Date(b.earned_at).getTime() - new Date(a.earned_at).getTime())
+                      .slice(0, 6)
+                      .map((badge, index) => (
+                        <motion.div
+                          key={badge.id}
+                          initial={{ opacity: 0, scale: 0.8 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          transition={{ delay: 0.3 + index * 0.1 }}
+                          className="flex-shrink-0"
+                        >
+                          <BadgeCard
+                            name={badge.name}
+                            description={`Earned by ${badge.student_name}`}
+                            earned={true}
+                            earnedAt={badge.earned_at}
                             size="sm"
-                            variant="ghost"
-                            className="text-xs text-muted-foreground hover:text-destructive"
-                            onClick={() => handleDeletePledge(pledge.id)}
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
-                        </div>
-                      </div>
-                    </motion.div>
-                  ))}
-                </div>
-              ) : (
-                <div className="bg-card rounded-2xl border border-dashed border-border p-8 text-center">
-                  <Gift className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-                  <h3 className="font-medium text-foreground mb-1">No Reward Pledges Yet</h3>
-                  <p className="text-sm text-muted-foreground mb-4">
-                    Create pledges to reward your child when they earn specific badges!
-                  </p>
-                  <Button size="sm" onClick={() => setShowPledgeDialog(true)}>
-                    <Plus className="w-4 h-4 mr-1" />
-                    Create Your First Pledge
-                  </Button>
-                </div>
-              )}
-            </motion.section>
-
-            {/* Point-Based Pledges Section */}
-            <PointPledgeManager 
-              students={students.filter(s => s.verified).map(s => ({
-                id: s.id,
-                student_id: s.student_id,
-                student_name: s.student_name,
-                coins: s.student_profile?.coins || 0,
-              }))}
-              onPledgeChange={fetchPledges}
-            />
-
-            {/* Recent Badges */}
-            <motion.section
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.3 }}
-            >
-              <h2 className="text-lg font-bold text-foreground mb-4">Recent Badges Earned</h2>
-              <div className="flex gap-4 overflow-x-auto pb-2">
-                {students
-                  .filter(s => s.verified)
-                  .flatMap(s => s.recent_badges.map(b => ({ ...b, student_name: s.student_name })))
-                  .sort((a, b) => new Date(b.earned_at).getTime() - new Date(a.earned_at).getTime())
-                  .slice(0, 6)
-                  .map((badge, index) => (
-                    <motion.div
-                      key={badge.id}
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      transition={{ delay: 0.3 + index * 0.1 }}
-                      className="flex-shrink-0"
-                    >
-                      <BadgeCard
-                        name={badge.name}
-                        description={`Earned by ${badge.student_name}`}
-                        earned={true}
-                        earnedAt={badge.earned_at}
-                        size="sm"
-                      />
-                    </motion.div>
-                  ))}
+                          />
+                        </motion.div>
+                      ))}
 
-                {students.filter(s => s.verified).flatMap(s => s.recent_badges).length === 0 && (
-                  <div className="w-full p-8 text-center text-muted-foreground bg-card rounded-2xl border border-border">
-                    No badges earned yet
+                    {students.flatMap(s => s.recent_badges).length === 0 && (
+                      <div className="w-full p-8 text-center text-muted-foreground bg-card rounded-2xl border border-border">
+                        No badges earned yet
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </motion.section>
-          </>
+                </motion.section>
+            </TabsContent>
+
+            <TabsContent value="settings" className="space-y-6">
+              <ParentAlertSettings students={alertStudents} />
+              <ParentDigestSettings />
+            </TabsContent>
+          </Tabs>
         )}
       </main>
 
@@ -788,7 +714,7 @@ export default function ParentDashboard() {
                   <h4 className="font-medium text-foreground mb-2">Level Progress</h4>
                   <XPBar
                     currentXP={getXpProgress(selectedStudent.student_profile.xp)}
-                    xpForNextLevel={500}
+                    xpForNextLevel={getLevelXp(selectedStudent.student_profile.xp)}
                     level={getLevel(selectedStudent.student_profile.xp)}
                   />
                 </div>
@@ -836,8 +762,8 @@ export default function ParentDashboard() {
           <DialogHeader>
             <DialogTitle>Link a Child</DialogTitle>
             <DialogDescription>
-              Enter your child's email or student code to request access to their progress.
-              A teacher will need to verify this connection.
+              Enter your child's school email, or the link code they can create from their
+              profile page. A teacher will need to verify this connection.
             </DialogDescription>
           </DialogHeader>
           
@@ -847,10 +773,24 @@ export default function ParentDashboard() {
               <Input
                 id="student-email"
                 placeholder="student@school.edu or ABC123"
-                value={linkEmail}
-                onChange={(e) => setLinkEmail(e.target.value)}
+                value={linkIdentifier}
+                onChange={(e) => setLinkIdentifier(e.target.value)}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label>Relationship</Label>
+              <Select value={linkRelationship} onValueChange={setLinkRelationship}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="parent">Parent</SelectItem>
+                  <SelectItem value="guardian">Guardian</SelectItem>
+                  <SelectItem value="other">Other family member</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             
             <div className="bg-muted/50 rounded-lg p-3 flex gap-2">
               <AlertCircle className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
@@ -864,8 +804,8 @@ export default function ParentDashboard() {
             <Button variant="outline" onClick={() => setShowLinkDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={handleLinkStudent} disabled={!linkEmail.trim() || linking}>
-              {linking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
+            <Button onClick={handleLinkStudent} disabled={!linkIdentifier.trim() || requestLink.isPending}>
+              {requestLink.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
               Send Request
             </Button>
           </DialogFooter>
@@ -893,7 +833,7 @@ export default function ParentDashboard() {
                   <SelectValue placeholder="Choose a child" />
                 </SelectTrigger>
                 <SelectContent>
-                  {students.filter(s => s.verified).map(student => (
+                  {students.map(student => (
                     <SelectItem key={student.student_id} value={student.student_id}>
                       {student.student_name}
                     </SelectItem>
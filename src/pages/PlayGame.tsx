@@ -7,6 +7,10 @@ import FlashcardBattle from "@/components/games/FlashcardBattle";
 import TimedChallenge from "@/components/games/TimedChallenge";
 import MatchingPuzzle from "@/components/games/MatchingPuzzle";
 import { useSecureRewards } from "@/hooks/useSecureRewards";
+import { useEnqueueMissedQuestions, type MissedQuestionInput } from "@/hooks/mutations/useReviewQueue";
+import { Button } from "@/components/ui/button";
+import { parseGameData } from "@/lib/contentSchemas";
+import { logRejectedContent } from "@/lib/api";
 
 interface GameData {
   id: string;
@@ -33,7 +37,9 @@ export default function PlayGame() {
   const [loading, setLoading] = useState(true);
   const [game, setGame] = useState<GameData | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
+  const [invalidReason, setInvalidReason] = useState<string | null>(null);
   const { awardRewards, checkIfClaimed } = useSecureRewards();
+  const enqueueMissed = useEnqueueMissedQuestions();
 
   useEffect(() => {
     fetchGame();
@@ -55,13 +61,21 @@ export default function PlayGame() {
         .single();
 
       if (error) throw error;
-      
-      // Parse game_data if it's a string
-      const gameData = typeof data.game_data === 'string' 
-        ? JSON.parse(data.game_data) 
-        : data.game_data;
-      
-      setGame({ ...data, game_data: gameData } as GameData);
+
+      // Validate and normalize game_data; a bad row is logged rather than crashing the player
+      const parsed = parseGameData(data.game_type, data.game_data);
+      if (!parsed.success) {
+        setInvalidReason(parsed.error);
+        logRejectedContent({
+          eventType: "invalid_game_data",
+          dedupeKey: `skill_games:${data.id}`,
+          error: `skill_games ${data.id}: ${parsed.error}`,
+          payload: { skill_game_id: data.id, game_type: data.game_type },
+        }).catch((logError) => console.error("Error logging rejected game:", logError));
+        return;
+      }
+
+      setGame({ ...data, game_type: parsed.data.gameType, game_data: parsed.data.gameData } as GameData);
 
       // Update status to in_progress
       if (data.status === "available") {
@@ -88,9 +102,44 @@ export default function PlayGame() {
     totalQuestions: number;
     streakMax: number;
     timeSpentSeconds: number;
+    missedIds?: string[];
   }) => {
     if (!game || !userId) return;
 
+    // Missed questions and cards come back in Daily Review
+    if (result.missedIds?.length) {
+      const missed: MissedQuestionInput[] = [
+        ...(game.game_data.questions ?? [])
+          .filter((q) => result.missedIds!.includes(q.id))
+          .map((q) => ({
+            questionId: `${game.id}:${q.id}`,
+            source: "game" as const,
+            question: {
+              kind: "multiple_choice" as const,
+              prompt: q.prompt,
+              options: q.options,
+              correctAnswer: q.correctAnswer,
+              hint: q.hint,
+              standardCode: game.skill_tag,
+            },
+          })),
+        ...(game.game_data.cards ?? [])
+          .filter((c) => result.missedIds!.includes(c.id))
+          .map((c) => ({
+            questionId: `${game.id}:${c.id}`,
+            source: "game" as const,
+            question: {
+              kind: "flashcard" as const,
+              prompt: c.front,
+              correctAnswer: c.back,
+              hint: c.hint,
+              standardCode: game.skill_tag,
+            },
+          })),
+      ];
+      enqueueMissed.mutate(missed);
+    }
+
     try {
       const passed = result.correctCount / result.totalQuestions >= 0.7;
       const scorePercentage = Math.round((result.correctCount / result.totalQuestions) * 100);
@@ -139,8 +188,6 @@ export default function PlayGame() {
           const rewardResult = await awardRewards({
             claimType: "game",
             referenceId: game.id,
-            xpAmount: game.xp_reward,
-            coinAmount: game.coin_reward,
             reason: `Completed ${game.title} game with ${scorePercentage}%`,
             validationData: {
               score: scorePercentage,
@@ -151,7 +198,14 @@ export default function PlayGame() {
           });
 
           if (rewardResult.success) {
-            toast.success(`+${game.xp_reward} XP and +${game.coin_reward} coins earned!`);
+            const earned = `+${rewardResult.xp_awarded ?? 0} XP and +${rewardResult.coins_awarded ?? 0} coins`;
+            toast.success(
+              rewardResult.queued
+                ? `${earned} saved offline. They'll sync when you reconnect.`
+                : rewardResult.capped
+                  ? `${earned} earned. You've reached today's earning limit!`
+                  : `${earned} earned!`
+            );
           } else if (rewardResult.already_claimed) {
             toast.info("Game completed! Rewards already claimed.");
           } else {
@@ -178,6 +232,20 @@ export default function PlayGame() {
     );
   }
 
+  if (invalidReason) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <div className="text-center max-w-sm">
+          <p className="font-semibold text-foreground mb-2">This game can't be played right now</p>
+          <p className="text-sm text-muted-foreground mb-4">
+            Its content has a problem and has been reported so it can be fixed.
+          </p>
+          <Button onClick={handleExit}>Back to Games</Button>
+        </div>
+      </div>
+    );
+  }
+
   if (!game) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
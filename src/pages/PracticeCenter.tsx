@@ -18,6 +18,9 @@ import {
 } from "lucide-react";
 import { PoweredByFooter } from "@/components/PoweredByFooter";
 import { ALGEBRA_1_STANDARDS, ALGEBRA_2_STANDARDS } from "@/data/algebraStandards";
+import { getAlgebraQuestionsByCourse } from "@/data/algebraQuestions";
+import { useLearnerHistory } from "@/hooks/queries/useLearnerHistory";
+import { buildLearnerState, recommendFocusStandards } from "@/lib/adaptiveSelection";
 
 interface PracticeSet {
   id: string;
@@ -49,6 +52,11 @@ export default function PracticeCenter() {
   const [practiceSets, setPracticeSets] = useState<PracticeSet[]>([]);
   const [skillGaps, setSkillGaps] = useState<SkillGap[]>([]);
   const [weaknesses, setWeaknesses] = useState<string[]>([]);
+  const { data: history = [] } = useLearnerHistory();
+
+  const learnerState = buildLearnerState(history);
+  const algebra1Focus = recommendFocusStandards(getAlgebraQuestionsByCourse("Algebra 1"), learnerState);
+  const algebra2Focus = recommendFocusStandards(getAlgebraQuestionsByCourse("Algebra 2"), learnerState);
 
   useEffect(() => {
     fetchPracticeData();
@@ -231,16 +239,27 @@ export default function PracticeCenter() {
                 </div>
                 
                 <div className="flex flex-wrap gap-2">
-                  <Badge variant="outline" className="text-xs">Expressions</Badge>
-                  <Badge variant="outline" className="text-xs">Equations</Badge>
-                  <Badge variant="outline" className="text-xs">Functions</Badge>
-                  <Badge variant="outline" className="text-xs">Quadratics</Badge>
+                  {algebra1Focus.length > 0 ? (
+                    algebra1Focus.map((code) => (
+                      <Badge key={code} variant="secondary" className="text-xs gap-1">
+                        <Target className="w-3 h-3" />
+                        {code}
+                      </Badge>
+                    ))
+                  ) : (
+                    <>
+                      <Badge variant="outline" className="text-xs">Expressions</Badge>
+                      <Badge variant="outline" className="text-xs">Equations</Badge>
+                      <Badge variant="outline" className="text-xs">Functions</Badge>
+                      <Badge variant="outline" className="text-xs">Quadratics</Badge>
+                    </>
+                  )}
                 </div>
 
                 <div className="flex gap-2">
                   <Button 
                     className="flex-1"
-                    onClick={() => navigate("/regents-prep")}
+                    onClick={() => navigate("/regents-prep?exam=algebra1")}
                   >
                     <Play className="w-4 h-4 mr-2" />
                     Practice
@@ -289,16 +308,27 @@ export default function PracticeCenter() {
                 </div>
                 
                 <div className="flex flex-wrap gap-2">
-                  <Badge variant="outline" className="text-xs">Polynomials</Badge>
-                  <Badge variant="outline" className="text-xs">Exponentials</Badge>
-                  <Badge variant="outline" className="text-xs">Logarithms</Badge>
-                  <Badge variant="outline" className="text-xs">Trigonometry</Badge>
+                  {algebra2Focus.length > 0 ? (
+                    algebra2Focus.map((code) => (
+                      <Badge key={code} variant="secondary" className="text-xs gap-1">
+                        <Target className="w-3 h-3" />
+                        {code}
+                      </Badge>
+                    ))
+                  ) : (
+                    <>
+                      <Badge variant="outline" className="text-xs">Polynomials</Badge>
+                      <Badge variant="outline" className="text-xs">Exponentials</Badge>
+                      <Badge variant="outline" className="text-xs">Logarithms</Badge>
+                      <Badge variant="outline" className="text-xs">Trigonometry</Badge>
+                    </>
+                  )}
                 </div>
 
                 <div className="flex gap-2">
                   <Button 
                     className="flex-1"
-                    onClick={() => navigate("/regents-prep")}
+                    onClick={() => navigate("/regents-prep?exam=algebra2")}
                   >
                     <Play className="w-4 h-4 mr-2" />
                     Practice
@@ -11,7 +11,13 @@ import { DragOrderQuestion } from "@/components/quiz/DragOrderQuestion";
 import { MatchingQuestion } from "@/components/quiz/MatchingQuestion";
 import { FillBlankQuestion } from "@/components/quiz/FillBlankQuestion";
 import { Confetti } from "@/components/Confetti";
+import { MathText } from "@/components/MathText";
+import { MathInput } from "@/components/MathInput";
 import { useSecureRewards } from "@/hooks/useSecureRewards";
+import { useEnqueueMissedQuestions } from "@/hooks/mutations/useReviewQueue";
+import { matchesAnyAnswer } from "@/lib/answerEquivalence";
+import { parseAnswerKey, parseQuestionOptions, type PracticeAnswerKey } from "@/lib/contentSchemas";
+import { logRejectedContent } from "@/lib/api";
 import {
   ArrowLeft, ArrowRight, Lightbulb, Check, X, Loader2,
   Trophy, Zap, Award, RotateCcw, Home
@@ -22,7 +28,7 @@ interface PracticeQuestion {
   prompt: string;
   question_type: string;
   options: string[] | { left: string; right: string }[] | null;
-  answer_key: any;
+  answer_key: PracticeAnswerKey;
   hint: string | null;
   difficulty: number;
   skill_tag: string | null;
@@ -41,6 +47,7 @@ export default function PracticeExercise() {
   const { id } = useParams<{ id: string }>();
   const { toast } = useToast();
   const { awardRewards, checkIfClaimed } = useSecureRewards();
+  const enqueueMissed = useEnqueueMissedQuestions();
   
   const [loading, setLoading] = useState(true);
   const [practiceSet, setPracticeSet] = useState<PracticeSetData | null>(null);
@@ -79,13 +86,32 @@ export default function PracticeExercise() {
 
       if (questionsError) throw questionsError;
       
-      // Parse options from JSON
-      const parsedQuestions = (questionsData || []).map(q => ({
-        ...q,
-        options: q.options ? (typeof q.options === 'string' ? JSON.parse(q.options) : q.options) : null,
-        answer_key: typeof q.answer_key === 'string' ? JSON.parse(q.answer_key) : q.answer_key,
-      }));
-      
+      // Validate options and answer keys; malformed questions are skipped and logged
+      const parsedQuestions: PracticeQuestion[] = [];
+      for (const q of questionsData || []) {
+        const options = parseQuestionOptions(q.options);
+        const answerKey = parseAnswerKey(q.question_type, q.answer_key);
+        if (!options.success || !answerKey.success) {
+          const reason = options.error ? `options: ${options.error}` : answerKey.error;
+          logRejectedContent({
+            eventType: "invalid_answer_key",
+            dedupeKey: `practice_questions:${q.id}`,
+            error: `practice_questions ${q.id}: ${reason}`,
+            payload: { practice_set_id: q.practice_set_id, question_id: q.id, question_type: q.question_type },
+          }).catch((logError) => console.error("Error logging rejected question:", logError));
+          continue;
+        }
+        parsedQuestions.push({ ...q, options: options.data, answer_key: answerKey.data });
+      }
+
+      const skipped = (questionsData || []).length - parsedQuestions.length;
+      if (skipped > 0) {
+        toast({
+          title: "Some questions were skipped",
+          description: `${skipped} question${skipped === 1 ? " has" : "s have"} a problem and won't be shown.`,
+        });
+      }
+
       setQuestions(parsedQuestions);
     } catch (error) {
       console.error("Error fetching practice data:", error);
@@ -114,10 +140,11 @@ export default function PracticeExercise() {
     }
     
     if (questionType === "short_answer" || questionType === "numeric") {
-      const acceptable = answerKey.acceptable || [answerKey.correct];
-      return acceptable.some((ans: string) => 
-        ans.toLowerCase().trim() === userAnswer.toLowerCase().trim()
-      );
+      const acceptable: string[] = (answerKey.acceptable || [answerKey.correct]).map(String);
+      return matchesAnyAnswer(userAnswer, acceptable, {
+        mode: questionType === "numeric" ? "numeric" : "auto",
+        absoluteTolerance: answerKey.tolerance,
+      });
     }
     
     if (questionType === "drag_order") {
@@ -145,7 +172,7 @@ export default function PracticeExercise() {
     if (questionType === "fill_blank") {
       try {
         const userAnswers = JSON.parse(userAnswer);
-        const correctAnswers = answerKey.blanks || answerKey.correct;
+        const correctAnswers = answerKey.blanks;
         return correctAnswers.every((correct: string, idx: number) => {
           const acceptable = Array.isArray(correct) ? correct : [correct];
           return acceptable.some((ans: string) => 
@@ -178,10 +205,43 @@ export default function PracticeExercise() {
     const isCorrect = checkAnswer(userAnswer);
     if (isCorrect) {
       setCorrectCount(prev => prev + 1);
+    } else {
+      queueForReview(currentQuestion);
     }
     setShowResult(true);
   };
 
+  // Only question types Daily Review can show again are queued
+  const queueForReview = (question: PracticeQuestion) => {
+    if (question.question_type === "multiple_choice") {
+      enqueueMissed.mutate([{
+        questionId: question.id,
+        source: "practice",
+        question: {
+          kind: "multiple_choice",
+          prompt: question.prompt,
+          options: question.options as string[],
+          correctAnswer: String(question.answer_key.correct),
+          hint: question.hint ?? undefined,
+          standardCode: question.skill_tag ?? undefined,
+        },
+      }]);
+    } else if (question.question_type === "short_answer" || question.question_type === "numeric") {
+      enqueueMissed.mutate([{
+        questionId: question.id,
+        source: "practice",
+        question: {
+          kind: "short_answer",
+          prompt: question.prompt,
+          correctAnswer: String(question.answer_key.correct),
+          acceptableAnswers: question.answer_key.acceptable,
+          hint: question.hint ?? undefined,
+          standardCode: question.skill_tag ?? undefined,
+        },
+      }]);
+    }
+  };
+
   const handleNext = () => {
     if (currentIndex < questions.length - 1) {
       setCurrentIndex(prev => prev + 1);
@@ -223,8 +283,6 @@ export default function PracticeExercise() {
           const rewardResult = await awardRewards({
             claimType: "practice_set",
             referenceId: practiceSet.id,
-            xpAmount: practiceSet.xp_reward,
-            coinAmount: practiceSet.coin_reward,
             reason: `Completed practice: ${practiceSet.title} with ${score}%`,
             validationData: {
               score,
@@ -234,10 +292,16 @@ export default function PracticeExercise() {
           });
 
           if (rewardResult.success) {
-            setRewardsEarned({ xp: practiceSet.xp_reward, coins: practiceSet.coin_reward });
+            const xp = rewardResult.xp_awarded ?? 0;
+            const coins = rewardResult.coins_awarded ?? 0;
+            setRewardsEarned({ xp, coins });
             toast({
               title: score >= 70 ? "Great job! 🎉" : "Practice Complete",
-              description: `You earned +${practiceSet.xp_reward} XP and +${practiceSet.coin_reward} coins!`,
+              description: rewardResult.queued
+                ? `+${xp} XP and +${coins} coins saved offline. They'll sync when you reconnect.`
+                : rewardResult.capped
+                  ? `You earned +${xp} XP and +${coins} coins. You've reached today's earning limit!`
+                  : `You earned +${xp} XP and +${coins} coins!`,
             });
           } else if (rewardResult.already_claimed) {
             toast({
@@ -446,9 +510,9 @@ export default function PracticeExercise() {
               )}
             </div>
 
-            <h2 className="text-xl font-bold text-foreground mb-6">
+            <MathText as="h2" className="text-xl font-bold text-foreground mb-6">
               {currentQuestion.prompt}
-            </h2>
+            </MathText>
 
             {/* Question Type Renderers */}
             {currentQuestion.question_type === "multiple_choice" && currentQuestion.options && (
@@ -475,7 +539,7 @@ export default function PracticeExercise() {
                       onClick={() => !showResult && handleAnswer(option)}
                       disabled={showResult}
                     >
-                      {option}
+                      <MathText>{option}</MathText>
                       {showResult && option === currentQuestion.answer_key.correct && (
                         <Check className="w-5 h-5 ml-auto" />
                       )}
@@ -489,13 +553,12 @@ export default function PracticeExercise() {
             )}
 
             {(currentQuestion.question_type === "short_answer" || currentQuestion.question_type === "numeric") && (
-              <input
-                type={currentQuestion.question_type === "numeric" ? "number" : "text"}
-                className="w-full p-4 border border-border rounded-xl bg-background text-foreground text-lg focus:border-primary focus:ring-1 focus:ring-primary outline-none"
-                placeholder={currentQuestion.question_type === "numeric" ? "Enter a number..." : "Type your answer..."}
+              <MathInput
+                placeholder={currentQuestion.question_type === "numeric" ? "Enter a number (e.g. 3/4 or 0.75)..." : "Type your answer..."}
                 value={answers[currentQuestion.id] || ""}
-                onChange={(e) => handleAnswer(e.target.value)}
+                onChange={handleAnswer}
                 disabled={showResult}
+                inputClassName="h-14 rounded-xl text-lg"
               />
             )}
 
@@ -545,7 +608,7 @@ export default function PracticeExercise() {
             >
               <div className="flex items-start gap-3">
                 <Lightbulb className="w-5 h-5 text-primary mt-0.5" />
-                <p className="text-sm text-foreground">{currentQuestion.hint}</p>
+                <MathText as="p" className="text-sm text-foreground">{currentQuestion.hint}</MathText>
               </div>
             </motion.div>
           )}
@@ -573,11 +636,10 @@ export default function PracticeExercise() {
               </div>
               {!isCorrect && (
                 <p className="mt-2 text-sm text-muted-foreground">
-                  The correct answer is: {
-                    typeof currentQuestion.answer_key.correct === 'object'
-                      ? JSON.stringify(currentQuestion.answer_key.correct)
-                      : currentQuestion.answer_key.correct
-                  }
+                  The correct answer is:{" "}
+                  {typeof currentQuestion.answer_key.correct === 'object'
+                    ? JSON.stringify(currentQuestion.answer_key.correct)
+                    : <MathText>{String(currentQuestion.answer_key.correct)}</MathText>}
                 </p>
               )}
             </motion.div>
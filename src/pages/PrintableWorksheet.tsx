@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { MathText } from "@/components/MathText";
 import { ArrowLeft, Printer, Loader2 } from "lucide-react";
 
 interface PracticeQuestion {
@@ -155,14 +156,14 @@ export default function PrintableWorksheet() {
               <div className="flex gap-4">
                 <span className="font-bold text-gray-800 text-lg">{idx + 1}.</span>
                 <div className="flex-1">
-                  <p className="text-gray-900 font-medium mb-3">{question.prompt}</p>
+                  <MathText as="p" className="text-gray-900 font-medium mb-3">{question.prompt}</MathText>
                   
                   {question.question_type === "multiple_choice" && question.options && (
                     <div className="space-y-2 ml-4">
                       {(question.options as string[]).map((option, optIdx) => (
                         <div key={optIdx} className="flex items-center gap-3">
                           <div className="w-5 h-5 border-2 border-gray-400 rounded-full flex-shrink-0" />
-                          <span className="text-gray-800">{option}</span>
+                          <MathText className="text-gray-800">{option}</MathText>
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,369 @@
+/**
+ * QuizBattle Page
+ *
+ * Live head-to-head quiz against classmates: a class lobby, simultaneous
+ * Regents questions with speed-weighted scoring, and a live scoreboard.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Check, Crown, Flame, Loader2, Swords, Trophy, Users, X } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { REGENTS_EXAMS } from "@/data/regentsSampleQuestions";
+import { useCurrentUserId } from "@/hooks/queries/useStudentProfile";
+import { useLeaderboardClasses } from "@/hooks/queries/useLeaderboard";
+import { useRegentsQuestionPool } from "@/hooks/queries/useQuestionBank";
+import { useBattlePlayerName } from "@/hooks/queries/useBattlePlayerName";
+import { useRecordQuizBattle } from "@/hooks/mutations/useRecordQuizBattle";
+import { useQuizBattle } from "@/hooks/useQuizBattle";
+import {
+  BATTLE_MAX_PLAYERS,
+  BATTLE_MIN_PLAYERS,
+  battleAnswerLog,
+  pickBattleQuestions,
+  playerResult,
+  rankScores,
+  type BattleState,
+} from "@/lib/quizBattle";
+
+export default function QuizBattle() {
+  const navigate = useNavigate();
+  const { data: userId } = useCurrentUserId();
+  const { data: name } = useBattlePlayerName(userId);
+  const { data: classes = [], isLoading: classesLoading } = useLeaderboardClasses(userId);
+  const { getQuestionsForExam } = useRegentsQuestionPool();
+  const [classId, setClassId] = useState<string>();
+  const [examName, setExamName] = useState(REGENTS_EXAMS[0].name);
+
+  const activeClassId = classId ?? classes[0]?.id;
+  const battle = useQuizBattle({ classId: activeClassId, userId, name });
+  const { state } = battle;
+  const inMatch = battle.isPlayer && state.phase !== "lobby";
+
+  useBattleResultSaver(state, userId, activeClassId);
+
+  const handleStart = () => {
+    const questions = pickBattleQuestions(getQuestionsForExam(examName));
+    if (questions.length === 0) {
+      toast.error(`No ${examName} questions are available yet`);
+      return;
+    }
+    battle.start(questions);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="container mx-auto px-4 py-3 flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/games")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <Swords className="w-6 h-6 text-primary" />
+            <h1 className="text-xl font-bold">Quiz Battle</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl">
+        {classesLoading || !userId ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : classes.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Join a class to battle your classmates.
+            </CardContent>
+          </Card>
+        ) : inMatch && state.phase === "finished" ? (
+          <BattleResults state={state} userId={userId} canStart={battle.canStart} onPlayAgain={handleStart} />
+        ) : inMatch ? (
+          <div className="grid gap-6 md:grid-cols-[1fr_16rem]">
+            <BattleRound state={state} userId={userId} onAnswer={battle.answer} />
+            <Scoreboard state={state} userId={userId} />
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <Users className="w-5 h-5" />
+                  Lobby
+                </span>
+                {classes.length > 1 && (
+                  <Select value={activeClassId} onValueChange={setClassId}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {classes.map((cls) => (
+                        <SelectItem key={cls.id} value={cls.id}>
+                          {cls.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {battle.connection === "error" ? (
+                <p className="text-destructive">Couldn't join the lobby. Check your connection and try again.</p>
+              ) : battle.connection !== "connected" ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {state.lobby.length} of {BATTLE_MAX_PLAYERS} players
+                    {state.lobby.length > BATTLE_MAX_PLAYERS && ` (the first ${BATTLE_MAX_PLAYERS} to join will play)`}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {state.lobby.map((player) => (
+                      <Badge key={player.userId} variant={player.userId === userId ? "default" : "secondary"}>
+                        {player.userId === battle.hostId && <Crown className="w-3 h-3 mr-1" />}
+                        {player.name}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  {(state.phase === "question" || state.phase === "reveal") && !battle.isPlayer ? (
+                    <p className="text-sm text-muted-foreground">
+                      A battle is in progress. You can join the next one.
+                    </p>
+                  ) : battle.isHost ? (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Select value={examName} onValueChange={setExamName}>
+                        <SelectTrigger className="sm:w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REGENTS_EXAMS.map((exam) => (
+                            <SelectItem key={exam.id} value={exam.name}>
+                              {exam.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button onClick={handleStart} disabled={!battle.canStart}>
+                        <Swords className="w-4 h-4 mr-2" />
+                        {state.lobby.length < BATTLE_MIN_PLAYERS ? "Waiting for a classmate…" : "Start Battle"}
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Waiting for {state.lobby.find((p) => p.userId === battle.hostId)?.name ?? "the host"} to start…
+                    </p>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
+
+/**
+ * Record the student's result once per finished match; the server scores
+ * it and decides the rewards
+ */
+function useBattleResultSaver(state: BattleState, userId: string | undefined, classId: string | undefined) {
+  const { mutate: recordBattle } = useRecordQuizBattle();
+  const savedMatchId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (state.phase !== "finished" || !userId || !classId || !state.matchId || !state.hostId) return;
+    if (savedMatchId.current === state.matchId) return;
+    if (!state.scores[userId]) return;
+    savedMatchId.current = state.matchId;
+
+    recordBattle(
+      {
+        battleId: state.matchId,
+        classId,
+        hostId: state.hostId,
+        playerIds: state.players.map((p) => p.userId),
+        questionIds: state.questions.map((q) => q.id),
+        answers: battleAnswerLog(state),
+      },
+      {
+        onSuccess: (result) => {
+          if (!result.awarded) return;
+          if (result.xpEarned > 0 || result.coinsEarned > 0) {
+            toast.success(`+${result.xpEarned} XP and +${result.coinsEarned} coins earned!`);
+          } else if (result.dailyLimitReached) {
+            toast.info("You've reached today's battle rewards. Battles still count for practice!");
+          }
+        },
+      }
+    );
+  }, [state, userId, classId, recordBattle]);
+}
+
+function BattleRound({
+  state,
+  userId,
+  onAnswer,
+}: {
+  state: BattleState;
+  userId: string;
+  onAnswer: (choice: string) => void;
+}) {
+  const question = state.questions[state.round];
+  const myAnswer = state.answers[state.round]?.[userId];
+  const revealed = state.phase === "reveal";
+  const [remainingMs, setRemainingMs] = useState(state.timeLimitMs);
+
+  useEffect(() => {
+    const shownAt = Date.now();
+    setRemainingMs(state.timeLimitMs);
+    const timer = setInterval(() => {
+      setRemainingMs(Math.max(state.timeLimitMs - (Date.now() - shownAt), 0));
+    }, 250);
+    return () => clearInterval(timer);
+  }, [state.round, state.matchId, state.timeLimitMs]);
+
+  const answeredCount = Object.keys(state.answers[state.round] ?? {}).length;
+
+  return (
+    <motion.div key={`${state.matchId}-${state.round}`} initial={{ opacity: 0, x: 20 }} animate={{ opacity: 1, x: 0 }}>
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Question {state.round + 1} of {state.questions.length}
+            </span>
+            <span>
+              {answeredCount}/{state.players.length} answered
+            </span>
+          </div>
+          <Progress value={revealed ? 0 : (remainingMs / state.timeLimitMs) * 100} />
+          <CardTitle className="text-lg leading-relaxed">
+            <MathText>{question.prompt}</MathText>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {question.options.map((option) => {
+            const isCorrect = option === question.correctAnswer;
+            const isChosen = myAnswer?.choice === option;
+            let style = "";
+            if (revealed && isCorrect) style = "border-success bg-success/10";
+            else if (revealed && isChosen) style = "border-destructive bg-destructive/10";
+            else if (isChosen) style = "border-primary bg-primary/10";
+
+            return (
+              <Button
+                key={option}
+                variant="outline"
+                className={`w-full justify-between h-auto py-3 text-left whitespace-normal ${style}`}
+                disabled={!!myAnswer || revealed}
+                onClick={() => onAnswer(option)}
+              >
+                <MathText>{option}</MathText>
+                {revealed && isCorrect && <Check className="w-4 h-4 text-success shrink-0" />}
+                {revealed && isChosen && !isCorrect && <X className="w-4 h-4 text-destructive shrink-0" />}
+              </Button>
+            );
+          })}
+          {myAnswer && !revealed && (
+            <p className="text-sm text-center text-muted-foreground pt-2">Locked in! Waiting for classmates…</p>
+          )}
+          {revealed && myAnswer?.correct && (
+            <p className="text-sm text-center font-medium text-success pt-2">+{myAnswer.points} points</p>
+          )}
+          {revealed && question.explanation && (
+            <p className="text-sm text-muted-foreground pt-2">
+              <MathText>{question.explanation}</MathText>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+function Scoreboard({ state, userId }: { state: BattleState; userId: string }) {
+  const present = new Set(state.lobby.map((p) => p.userId));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Trophy className="w-4 h-4" />
+          Scoreboard
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-2">
+          {rankScores(state.scores).map((score, index) => (
+            <motion.li
+              layout
+              key={score.userId}
+              className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+                score.userId === userId ? "bg-primary/10 font-semibold" : "bg-muted/50"
+              } ${present.has(score.userId) ? "" : "opacity-50"}`}
+            >
+              <span className="truncate">
+                {index + 1}. {score.name}
+                {score.streak >= 3 && (
+                  <span className="inline-flex items-center ml-1 text-orange-500">
+                    <Flame className="w-3 h-3" />
+                    {score.streak}
+                  </span>
+                )}
+              </span>
+              <span className="font-mono">{score.points}</span>
+            </motion.li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BattleResults({
+  state,
+  userId,
+  canStart,
+  onPlayAgain,
+}: {
+  state: BattleState;
+  userId: string;
+  canStart: boolean;
+  onPlayAgain: () => void;
+}) {
+  const navigate = useNavigate();
+  const result = playerResult(state, userId);
+
+  return (
+    <div className="max-w-md mx-auto space-y-6 text-center">
+      <motion.div initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}>
+        <Trophy className="w-16 h-16 mx-auto text-yellow-500 mb-2" />
+        <h2 className="text-2xl font-bold">{result?.rank === 1 ? "You won!" : `You finished #${result?.rank}`}</h2>
+        <p className="text-muted-foreground">
+          {result?.correct} of {result?.total} correct · {result?.points} points
+        </p>
+      </motion.div>
+
+      <Scoreboard state={state} userId={userId} />
+
+      <div className="flex gap-2 justify-center">
+        <Button variant="outline" onClick={() => navigate("/games")}>
+          Back to Games
+        </Button>
+        {canStart && <Button onClick={onPlayAgain}>Play Again</Button>}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -32,50 +32,88 @@ import {
   Lock,
   Unlock,
   Gamepad2,
+  Keyboard,
+  ListChecks,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
+import { areAnswersEquivalent } from "@/lib/answerEquivalence";
 import { useToast } from "@/hooks/use-toast";
 import { Confetti } from "@/components/Confetti";
-import { 
-  REGENTS_EXAMS, 
-  REGENTS_QUESTIONS, 
-  getQuestionsByExam,
-  getRandomQuestionsForExam,
-  type RegentsQuestion 
-} from "@/data/regentsSampleQuestions";
+import { REGENTS_EXAMS, type RegentsQuestion } from "@/data/regentsSampleQuestions";
 import { NYS_STANDARDS, getStandardsBySubjectAndGrade } from "@/data/nysStandards";
 import { AlgebraTutor } from "@/components/AlgebraTutor";
 import { RegentsPrepSkeleton } from "@/components/skeletons/RegentsPrepSkeleton";
 import { useQuizSounds } from "@/hooks/useQuizSounds";
 import { QuestionImage } from "@/components/QuestionImage";
+import { MathText } from "@/components/MathText";
+import { MathInput } from "@/components/MathInput";
 import { useGeobloxAccess } from "@/hooks/useGeobloxAccess";
+import { useRegentsProgress } from "@/hooks/queries/useRegentsProgress";
+import { useLearnerHistory } from "@/hooks/queries/useLearnerHistory";
+import { useCurrentUserId } from "@/hooks/queries/useStudentProfile";
+import { useRegentsQuestionPool } from "@/hooks/queries/useQuestionBank";
+import { useRecordRegentsAttempts, type RegentsAnswerInput } from "@/hooks/mutations/useRecordRegentsAttempts";
+import { useMockExamResults } from "@/hooks/queries/useMockExamResults";
+import { useSaveMockExamResult } from "@/hooks/mutations/useSaveMockExamResult";
+import { useEnqueueMissedQuestions, type MissedQuestionInput } from "@/hooks/mutations/useReviewQueue";
+import { getExamBlueprint } from "@/data/regentsExamBlueprints";
+import { buildMockExam, scoreMockExam, type MockExam, type MockExamScore } from "@/lib/mockExam";
+import type { MockExamResult } from "@/lib/api/regents";
+import MockExamRunner from "@/components/MockExamRunner";
+import MockExamReport from "@/components/MockExamReport";
+import {
+  buildLearnerState,
+  selectAdaptiveQuestions,
+  type AnswerHistoryEntry,
+} from "@/lib/adaptiveSelection";
+
+/** Seconds allowed per question in timed mode */
+const TIMED_SECONDS_PER_QUESTION = 45;
 
-interface ExamProgress {
-  examType: string;
-  questionsAttempted: number;
-  correctAnswers: number;
-  lastAttemptDate?: Date;
-  bestScore: number;
+const EMPTY_HISTORY: AnswerHistoryEntry[] = [];
+
+/** Review queue entry for a missed Regents question */
+function toMissedQuestion(question: RegentsQuestion): MissedQuestionInput {
+  return {
+    questionId: question.id,
+    source: "regents",
+    question: {
+      kind: "multiple_choice",
+      prompt: question.prompt,
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation,
+      hint: question.hint,
+      standardCode: question.standardCode,
+    },
+  };
 }
 
-interface StandardProgress {
-  standardCode: string;
-  questionsAttempted: number;
-  correctAnswers: number;
-  mastered: boolean;
+interface MockExamReportState {
+  score: MockExamScore;
+  answers: Record<string, string>;
+  flagged: string[];
+  timeUsedSeconds: number;
+  previousResults: MockExamResult[];
 }
 
 export default function RegentsPrep() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const { playCorrectSound, playIncorrectSound, playStreakSound, playCompletionSound, playTimeoutSound } = useQuizSounds();
   const { mastery: geobloxMastery, isUnlocked: geobloxUnlocked, progressToUnlock, refresh: refreshGeoblox } = useGeobloxAccess();
-  const [loading, setLoading] = useState(true);
+  const { data: userId, isLoading: userLoading } = useCurrentUserId();
+  const { isLoading: progressLoading, examProgress, standardProgress } = useRegentsProgress();
+  const { data: history = EMPTY_HISTORY } = useLearnerHistory();
+  const { isLoading: poolLoading, getQuestionsForExam } = useRegentsQuestionPool();
+  const loading = progressLoading || poolLoading;
+  const recordAttempts = useRecordRegentsAttempts();
+  const { data: mockResults = [] } = useMockExamResults();
+  const saveMockResult = useSaveMockExamResult();
+  const enqueueMissed = useEnqueueMissedQuestions();
   const [activeTab, setActiveTab] = useState("exams");
   const [selectedExam, setSelectedExam] = useState<string | null>(null);
-  const [examProgress, setExamProgress] = useState<ExamProgress[]>([]);
-  const [standardProgress, setStandardProgress] = useState<StandardProgress[]>([]);
   const [practiceMode, setPracticeMode] = useState<"exam" | "standard" | null>(null);
   const [currentQuestions, setCurrentQuestions] = useState<RegentsQuestion[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -88,12 +126,21 @@ export default function RegentsPrep() {
   const [timeLeft, setTimeLeft] = useState(0);
   const [timedMode, setTimedMode] = useState(false);
   const [startTime, setStartTime] = useState(0);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [questionStartedAt, setQuestionStartedAt] = useState(0);
+  const [sessionAnswers, setSessionAnswers] = useState<RegentsAnswerInput[]>([]);
   const [showExplanation, setShowExplanation] = useState(false);
   const [showTutor, setShowTutor] = useState(false);
+  const [typeAnswers, setTypeAnswers] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [mockExam, setMockExam] = useState<MockExam | null>(null);
+  const [mockStartedAt, setMockStartedAt] = useState<string | null>(null);
+  const [mockReport, setMockReport] = useState<MockExamReportState | null>(null);
 
+  // Progress is stored per student, so signed-out visitors go to sign in
   useEffect(() => {
-    fetchProgress();
-  }, []);
+    if (!userLoading && !userId) navigate("/auth");
+  }, [userLoading, userId, navigate]);
 
   // Timer effect
   useEffect(() => {
@@ -112,51 +159,37 @@ export default function RegentsPrep() {
     return () => clearInterval(timer);
   }, [timedMode, practiceMode, showResult, currentIndex]);
 
-  const fetchProgress = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        navigate("/auth");
-        return;
-      }
-
-      // Simulate fetching progress from localStorage (in production, this would be from DB)
-      const savedProgress = localStorage.getItem(`regents_progress_${user.id}`);
-      if (savedProgress) {
-        const parsed = JSON.parse(savedProgress);
-        setExamProgress(parsed.exams || []);
-        setStandardProgress(parsed.standards || []);
-      }
-    } catch (error) {
-      console.error("Error fetching progress:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const saveProgress = async (newExamProgress: ExamProgress[], newStandardProgress: StandardProgress[]) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        localStorage.setItem(`regents_progress_${user.id}`, JSON.stringify({
-          exams: newExamProgress,
-          standards: newStandardProgress,
-        }));
-      }
-    } catch (error) {
-      console.error("Error saving progress:", error);
-    }
+  const recordAnswer = (question: RegentsQuestion, answer: string | null, isCorrect: boolean) => {
+    setSessionAnswers((prev) => prev.some((a) => a.questionId === question.id) ? prev : [
+      ...prev,
+      {
+        questionId: question.id,
+        examType: question.examType,
+        standardCode: question.standardCode,
+        selectedAnswer: answer,
+        isCorrect,
+        timeTakenSeconds: Math.round((Date.now() - questionStartedAt) / 1000),
+        answeredAt: new Date().toISOString(),
+      },
+    ]);
   };
 
   const handleTimeout = () => {
+    recordAnswer(currentQuestions[currentIndex], null, false);
     setStreak(0);
     setShowResult(true);
     setShowExplanation(true);
     playTimeoutSound();
   };
 
-  const startPractice = (examType: string, timed: boolean, questionCount: number = 10) => {
-    const questions = getRandomQuestionsForExam(examType, questionCount);
+  // Learner state from the saved history plus this session's answers
+  const getLearnerState = useCallback(
+    (answers: RegentsAnswerInput[] = []) => buildLearnerState([...history, ...answers]),
+    [history]
+  );
+
+  const startPractice = useCallback((examType: string, timed: boolean, questionCount: number = 10) => {
+    const questions = selectAdaptiveQuestions(getQuestionsForExam(examType), getLearnerState(), questionCount);
     if (questions.length === 0) {
       toast({
         title: "No questions available",
@@ -174,18 +207,33 @@ export default function RegentsPrep() {
     setStreak(0);
     setMaxStreak(0);
     setSelectedAnswer(null);
+    setTypedAnswer("");
     setShowResult(false);
     setShowExplanation(false);
     setTimedMode(timed);
-    setTimeLeft(timed ? 45 : 0); // 45 seconds per question in timed mode
+    setTimeLeft(timed ? TIMED_SECONDS_PER_QUESTION : 0);
     setStartTime(Date.now());
-  };
+    setSessionId(crypto.randomUUID());
+    setQuestionStartedAt(Date.now());
+    setSessionAnswers([]);
+  }, [getQuestionsForExam, getLearnerState, toast]);
+
+  // Deep links such as /regents-prep?exam=algebra1 start adaptive practice once progress loads
+  useEffect(() => {
+    const examParam = searchParams.get("exam");
+    if (loading || !examParam) return;
+    setSearchParams({}, { replace: true });
+    startPractice(examParam, false);
+  }, [loading, searchParams, setSearchParams, startPractice]);
 
-  const handleAnswer = (answer: string) => {
+  const handleAnswer = (answer: string, typed = false) => {
     if (showResult) return;
     
     setSelectedAnswer(answer);
-    const isCorrect = answer === currentQuestions[currentIndex].correctAnswer;
+    // Typed answers are graded for equivalence, so "1/2" matches a choice of "0.5"
+    const correctAnswer = currentQuestions[currentIndex].correctAnswer;
+    const isCorrect = typed ? areAnswersEquivalent(answer, correctAnswer) : answer === correctAnswer;
+    recordAnswer(currentQuestions[currentIndex], answer, isCorrect);
 
     if (isCorrect) {
       setCorrectCount((prev) => prev + 1);
@@ -213,9 +261,20 @@ export default function RegentsPrep() {
     if (currentIndex + 1 >= currentQuestions.length) {
       finishPractice();
     } else {
+      // Re-plan the rest of the session so difficulty follows in-session streaks
+      const asked = currentQuestions.slice(0, currentIndex + 1);
+      const pool = getQuestionsForExam(selectedExam!).filter((q) => !asked.some((a) => a.id === q.id));
+      const upcoming = selectAdaptiveQuestions(
+        pool,
+        getLearnerState(sessionAnswers),
+        currentQuestions.length - asked.length
+      );
+      setCurrentQuestions([...asked, ...upcoming]);
       setCurrentIndex((prev) => prev + 1);
-      setTimeLeft(timedMode ? 45 : 0);
+      setTimeLeft(timedMode ? TIMED_SECONDS_PER_QUESTION : 0);
+      setQuestionStartedAt(Date.now());
       setSelectedAnswer(null);
+      setTypedAnswer("");
       setShowResult(false);
       setShowExplanation(false);
     }
@@ -229,52 +288,24 @@ export default function RegentsPrep() {
       playCompletionSound();
     }
 
-    // Update progress
-    const existingProgress = examProgress.find(p => p.examType === selectedExam);
-    const newProgress: ExamProgress = {
-      examType: selectedExam!,
-      questionsAttempted: (existingProgress?.questionsAttempted || 0) + currentQuestions.length,
-      correctAnswers: (existingProgress?.correctAnswers || 0) + correctCount,
-      lastAttemptDate: new Date(),
-      bestScore: Math.max(existingProgress?.bestScore || 0, percentage),
-    };
-
-    const updatedExamProgress = [
-      ...examProgress.filter(p => p.examType !== selectedExam),
-      newProgress,
-    ];
-    setExamProgress(updatedExamProgress);
-
-    // Update standard progress
-    const standardCounts = new Map<string, { attempted: number; correct: number }>();
-    currentQuestions.forEach((q, idx) => {
-      const wasCorrect = idx < correctCount; // Simplified - in real app would track per question
-      const current = standardCounts.get(q.standardCode) || { attempted: 0, correct: 0 };
-      standardCounts.set(q.standardCode, {
-        attempted: current.attempted + 1,
-        correct: current.correct + (wasCorrect ? 1 : 0),
-      });
-    });
-
-    const updatedStandardProgress = [...standardProgress];
-    standardCounts.forEach((counts, code) => {
-      const existing = updatedStandardProgress.find(s => s.standardCode === code);
-      if (existing) {
-        existing.questionsAttempted += counts.attempted;
-        existing.correctAnswers += counts.correct;
-        existing.mastered = existing.correctAnswers / existing.questionsAttempted >= 0.8;
-      } else {
-        updatedStandardProgress.push({
-          standardCode: code,
-          questionsAttempted: counts.attempted,
-          correctAnswers: counts.correct,
-          mastered: counts.correct / counts.attempted >= 0.8,
-        });
+    // Save every answered question to the attempt log
+    recordAttempts.mutate(
+      { sessionId: sessionId!, answers: sessionAnswers },
+      {
+        onError: () => {
+          toast({
+            title: "Progress not saved",
+            description: "We couldn't save this session. Please check your connection.",
+            variant: "destructive",
+          });
+        },
       }
-    });
-    setStandardProgress(updatedStandardProgress);
+    );
+
+    // Missed questions come back in Daily Review
+    const missedIds = sessionAnswers.filter((a) => !a.isCorrect).map((a) => a.questionId);
+    enqueueMissed.mutate(currentQuestions.filter((q) => missedIds.includes(q.id)).map(toMissedQuestion));
 
-    saveProgress(updatedExamProgress, updatedStandardProgress);
     setPracticeMode(null);
     
     toast({
@@ -283,6 +314,96 @@ export default function RegentsPrep() {
     });
   };
 
+  const startMockExam = (examType: string) => {
+    const blueprint = getExamBlueprint(examType);
+    const pool = getQuestionsForExam(examType);
+    if (!blueprint || pool.length === 0) {
+      toast({
+        title: "Mock exam unavailable",
+        description: "A full-length exam for this subject is coming soon!",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedExam(examType);
+    setMockExam(buildMockExam(blueprint, pool));
+    setMockStartedAt(new Date().toISOString());
+    setMockReport(null);
+  };
+
+  const handleMockSubmit = (result: {
+    answers: Record<string, string>;
+    answerTimes: Record<string, number>;
+    flagged: string[];
+    timeUsedSeconds: number;
+  }) => {
+    const blueprint = getExamBlueprint(mockExam!.examId)!;
+    const score = scoreMockExam(mockExam!, blueprint, result.answers);
+    const submittedAt = new Date().toISOString();
+
+    if (score.scaledScore >= 85) {
+      setShowConfetti(true);
+      playCompletionSound();
+    }
+
+    setMockReport({
+      score,
+      answers: result.answers,
+      flagged: result.flagged,
+      timeUsedSeconds: result.timeUsedSeconds,
+      previousResults: mockResults.filter((r) => r.exam_type === mockExam!.examId),
+    });
+
+    enqueueMissed.mutate(
+      mockExam!.sections
+        .flatMap((section) => section.questions)
+        .filter((question) => result.answers[question.id] !== question.correctAnswer)
+        .map(toMissedQuestion)
+    );
+
+    saveMockResult.mutate(
+      {
+        examType: mockExam!.examId,
+        rawScore: score.rawScore,
+        maxRawScore: score.maxRawScore,
+        scaledScore: score.scaledScore,
+        timeUsedSeconds: result.timeUsedSeconds,
+        flaggedCount: result.flagged.length,
+        partScores: score.parts,
+        startedAt: mockStartedAt!,
+        answers: mockExam!.sections.flatMap((section) =>
+          section.questions.map((question) => ({
+            questionId: question.id,
+            examType: question.examType,
+            standardCode: question.standardCode,
+            selectedAnswer: result.answers[question.id] ?? null,
+            isCorrect: result.answers[question.id] === question.correctAnswer,
+            timeTakenSeconds: result.answerTimes[question.id] ?? 0,
+            answeredAt: submittedAt,
+          }))
+        ),
+      },
+      {
+        onError: () => {
+          toast({
+            title: "Mock exam not saved",
+            description: "We couldn't save this exam. Please check your connection.",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const exitMockExam = () => {
+    setMockExam(null);
+    setMockReport(null);
+    setMockStartedAt(null);
+    setSelectedExam(null);
+    setShowConfetti(false);
+  };
+
   const exitPractice = () => {
     setPracticeMode(null);
     setSelectedExam(null);
@@ -312,10 +433,44 @@ export default function RegentsPrep() {
     return <RegentsPrepSkeleton />;
   }
 
+  // Mock Exam Views
+  if (mockExam && mockReport) {
+    return (
+      <>
+        {showConfetti && <Confetti active={showConfetti} />}
+        <MockExamReport
+          exam={mockExam}
+          examName={REGENTS_EXAMS.find(e => e.id === mockExam.examId)?.name ?? ""}
+          score={mockReport.score}
+          answers={mockReport.answers}
+          flagged={mockReport.flagged}
+          timeUsedSeconds={mockReport.timeUsedSeconds}
+          previousResults={mockReport.previousResults}
+          onDone={exitMockExam}
+        />
+      </>
+    );
+  }
+
+  if (mockExam) {
+    return (
+      <MockExamRunner
+        exam={mockExam}
+        examName={REGENTS_EXAMS.find(e => e.id === mockExam.examId)?.name ?? ""}
+        onSubmit={handleMockSubmit}
+        onExit={exitMockExam}
+      />
+    );
+  }
+
   // Practice Mode View
   if (practiceMode && currentQuestions.length > 0) {
     const currentQuestion = currentQuestions[currentIndex];
     const progress = ((currentIndex) / currentQuestions.length) * 100;
+    const isMathExam = REGENTS_EXAMS.find(e => e.id === selectedExam)?.subject === "Mathematics";
+    const showTypedInput = isMathExam && typeAnswers;
+    const typedCorrect = showResult && selectedAnswer !== null &&
+      areAnswersEquivalent(selectedAnswer, currentQuestion.correctAnswer);
 
     return (
       <div className="min-h-screen bg-background">
@@ -345,6 +500,20 @@ export default function RegentsPrep() {
               </div>
               
               <div className="flex items-center gap-2">
+                {/* Constructed-response style: type the answer instead of picking a choice */}
+                {isMathExam && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTypeAnswers((prev) => !prev)}
+                    disabled={showResult}
+                    className="gap-2"
+                  >
+                    {typeAnswers ? <ListChecks className="w-4 h-4" /> : <Keyboard className="w-4 h-4" />}
+                    <span className="hidden sm:inline">{typeAnswers ? "Show Choices" : "Type Answer"}</span>
+                  </Button>
+                )}
+
                 {/* AI Tutor Button - only for Algebra */}
                 {(selectedExam === "algebra1" || selectedExam === "algebra2") && (
                   <Button 
@@ -409,48 +578,94 @@ export default function RegentsPrep() {
                     />
                   )}
                   
-                  <p className="text-lg font-medium">
+                  <MathText as="p" className="text-lg font-medium">
                     {currentQuestion.prompt}
-                  </p>
+                  </MathText>
                 </CardContent>
               </Card>
 
-              {/* Options */}
-              <div className="grid grid-cols-1 gap-3 mb-6">
-                {currentQuestion.options.map((option, index) => {
-                  const isSelected = selectedAnswer === option;
-                  const isCorrect = option === currentQuestion.correctAnswer;
-                  const showCorrectness = showResult;
-
-                  return (
-                    <motion.button
-                      key={option}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: index * 0.05 }}
-                      onClick={() => handleAnswer(option)}
+              {/* Typed Answer */}
+              {showTypedInput && (
+                <form
+                  className="space-y-3 mb-6"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (typedAnswer.trim()) handleAnswer(typedAnswer.trim(), true);
+                  }}
+                >
+                  <div className="flex items-start gap-2">
+                    <MathInput
+                      value={typedAnswer}
+                      onChange={setTypedAnswer}
+                      onSubmit={() => typedAnswer.trim() && handleAnswer(typedAnswer.trim(), true)}
+                      placeholder="Type your answer, e.g. 3/4 or (x-3)(x+3)"
                       disabled={showResult}
-                      className={cn(
-                        "p-4 rounded-lg border-2 text-left transition-all",
-                        !showResult && "hover:border-primary hover:bg-primary/5",
-                        !showResult && !isSelected && "border-border",
-                        showCorrectness && isCorrect && "border-green-500 bg-green-50 dark:bg-green-900/20",
-                        showCorrectness && isSelected && !isCorrect && "border-red-500 bg-red-50 dark:bg-red-900/20",
+                      className="flex-1"
+                      inputClassName={cn(
+                        "h-12 text-lg",
+                        showResult && (typedCorrect ? "border-green-500" : "border-red-500")
                       )}
-                    >
-                      <div className="flex items-center justify-between">
-                        <span className="font-medium">{option}</span>
-                        {showCorrectness && isCorrect && (
-                          <CheckCircle className="w-5 h-5 text-green-500" />
-                        )}
-                        {showCorrectness && isSelected && !isCorrect && (
-                          <XCircle className="w-5 h-5 text-red-500" />
+                      autoFocus
+                    />
+                    {!showResult && (
+                      <Button type="submit" size="lg" disabled={!typedAnswer.trim()}>
+                        Check
+                      </Button>
+                    )}
+                  </div>
+                  {showResult && (
+                    <div className="flex items-center gap-2 text-sm">
+                      {typedCorrect ? (
+                        <CheckCircle className="w-4 h-4 text-green-500" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-500" />
+                      )}
+                      <span>
+                        Answer: <MathText className="font-medium">{currentQuestion.correctAnswer}</MathText>
+                      </span>
+                    </div>
+                  )}
+                </form>
+              )}
+
+              {/* Options */}
+              {!showTypedInput && (
+                <div className="grid grid-cols-1 gap-3 mb-6">
+                  {currentQuestion.options.map((option, index) => {
+                    const isSelected = selectedAnswer === option;
+                    const isCorrect = option === currentQuestion.correctAnswer;
+                    const showCorrectness = showResult;
+
+                    return (
+                      <motion.button
+                        key={option}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.05 }}
+                        onClick={() => handleAnswer(option)}
+                        disabled={showResult}
+                        className={cn(
+                          "p-4 rounded-lg border-2 text-left transition-all",
+                          !showResult && "hover:border-primary hover:bg-primary/5",
+                          !showResult && !isSelected && "border-border",
+                          showCorrectness && isCorrect && "border-green-500 bg-green-50 dark:bg-green-900/20",
+                          showCorrectness && isSelected && !isCorrect && "border-red-500 bg-red-50 dark:bg-red-900/20",
                         )}
-                      </div>
-                    </motion.button>
-                  );
-                })}
-              </div>
+                      >
+                        <div className="flex items-center justify-between">
+                          <MathText className="font-medium">{option}</MathText>
+                          {showCorrectness && isCorrect && (
+                            <CheckCircle className="w-5 h-5 text-green-500" />
+                          )}
+                          {showCorrectness && isSelected && !isCorrect && (
+                            <XCircle className="w-5 h-5 text-red-500" />
+                          )}
+                        </div>
+                      </motion.button>
+                    );
+                  })}
+                </div>
+              )}
 
               {/* Explanation */}
               <AnimatePresence>
@@ -466,9 +681,9 @@ export default function RegentsPrep() {
                           <Brain className="w-5 h-5 text-primary mt-0.5" />
                           <div>
                             <p className="font-medium mb-1">Explanation</p>
-                            <p className="text-sm text-muted-foreground">
+                            <MathText as="p" className="text-sm text-muted-foreground">
                               {currentQuestion.explanation}
-                            </p>
+                            </MathText>
                           </div>
                         </div>
                       </CardContent>
@@ -586,7 +801,9 @@ export default function RegentsPrep() {
             <div className="grid gap-4 md:grid-cols-2">
               {REGENTS_EXAMS.map((exam, idx) => {
                 const progress = getExamProgress(exam.id);
-                const questionCount = getQuestionsByExam(exam.id).length;
+                const questionCount = getQuestionsForExam(exam.id).length;
+                const examMocks = mockResults.filter(r => r.exam_type === exam.id);
+                const latestMock = examMocks[examMocks.length - 1];
                 const isGeometry = exam.id === "geometry";
                 
                 return (
@@ -701,6 +918,22 @@ export default function RegentsPrep() {
                             Timed
                           </Button>
                         </div>
+                        {getExamBlueprint(exam.id) && (
+                          <Button
+                            variant="secondary"
+                            className="w-full"
+                            onClick={() => startMockExam(exam.id)}
+                            disabled={questionCount === 0}
+                          >
+                            <FileText className="w-4 h-4 mr-2" />
+                            Full Mock Exam
+                            {latestMock && (
+                              <Badge variant="outline" className="ml-2 text-xs">
+                                Last: {latestMock.scaled_score}
+                              </Badge>
+                            )}
+                          </Button>
+                        )}
                       </CardContent>
                     </Card>
                   </motion.div>
@@ -773,6 +1006,51 @@ export default function RegentsPrep() {
           {/* Progress Tab */}
           <TabsContent value="history" className="mt-6">
             <div className="space-y-4">
+              {mockResults.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      Mock Exams
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {REGENTS_EXAMS.filter(e => mockResults.some(r => r.exam_type === e.id)).map(exam => {
+                      const results = mockResults.filter(r => r.exam_type === exam.id);
+                      const best = Math.max(...results.map(r => r.scaled_score));
+                      return (
+                        <div key={exam.id} className="p-3 rounded-lg bg-muted/50">
+                          <div className="flex items-center justify-between mb-2">
+                            <p className="font-medium">{exam.name}</p>
+                            <Badge variant="outline">Best {best}</Badge>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {results.map((result, i) => {
+                              const previous = results[i - 1];
+                              const delta = previous ? result.scaled_score - previous.scaled_score : 0;
+                              return (
+                                <div key={result.id} className="text-center px-2 py-1 rounded-md bg-background border border-border">
+                                  <p className="text-sm font-semibold">
+                                    {result.scaled_score}
+                                    {previous && (
+                                      <span className={cn("text-xs ml-1", delta >= 0 ? "text-green-600" : "text-red-600")}>
+                                        {delta >= 0 ? "+" : ""}{delta}
+                                      </span>
+                                    )}
+                                  </p>
+                                  <p className="text-[10px] text-muted-foreground">
+                                    {new Date(result.submitted_at).toLocaleDateString()}
+                                  </p>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              )}
               {examProgress.length > 0 ? (
                 examProgress.map((progress, idx) => {
                   const exam = REGENTS_EXAMS.find(e => e.id === progress.examType);
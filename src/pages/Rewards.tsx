@@ -8,7 +8,7 @@ import { CoinCounter } from "@/components/CoinCounter";
 import { StreakCounter } from "@/components/StreakCounter";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Trophy, Sparkles, Star } from "lucide-react";
+import { ArrowLeft, Trophy, Sparkles, Star, ShoppingBag, Gift } from "lucide-react";
 
 // Demo data
 const demoStudent = {
@@ -114,6 +114,18 @@ export default function Rewards() {
           </div>
           <div className="flex items-center justify-between">
             <CoinCounter coins={student.coins} />
+            <Link to="/student/shop">
+              <Button variant="outline" size="sm">
+                <ShoppingBag className="w-4 h-4 mr-1" />
+                Shop
+              </Button>
+            </Link>
+            <Link to="/student/packs">
+              <Button variant="outline" size="sm">
+                <Gift className="w-4 h-4 mr-1" />
+                Packs
+              </Button>
+            </Link>
             <StreakCounter streak={student.streak} hasShield={student.hasShield} size="sm" />
           </div>
         </motion.div>
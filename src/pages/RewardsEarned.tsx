@@ -4,6 +4,8 @@ import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { ScholarBuddy } from "@/components/ScholarBuddy";
 import { Confetti } from "@/components/Confetti";
+import { TransactionHistory } from "@/components/TransactionHistory";
+import { useCurrentUserId } from "@/hooks/queries/useStudentProfile";
 import { Star, Coins, Trophy, Gift, Ticket, Home } from "lucide-react";
 
 interface RewardState {
@@ -18,6 +20,7 @@ export default function RewardsEarned() {
   const location = useLocation();
   const [showConfetti, setShowConfetti] = useState(true);
   const [animationStep, setAnimationStep] = useState(0);
+  const { data: userId } = useCurrentUserId();
 
   const rewards: RewardState = location.state || {
     xp: 50,
@@ -165,6 +168,14 @@ export default function RewardsEarned() {
               </Button>
             </Link>
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={animationStep >= 4 ? { opacity: 1 } : {}}
+            className="mt-10"
+          >
+            <TransactionHistory studentId={userId} />
+          </motion.div>
         </motion.div>
       </main>
     </div>
@@ -14,7 +14,7 @@ import {
   Trophy, LogOut, BookOpen, Target, TrendingUp, 
   Home, Award, Zap, BarChart3, Flame, Loader2,
   GraduationCap, Brain, Sparkles, ChevronRight,
-  AlertTriangle, Gamepad2, RefreshCw, Clock
+  AlertTriangle, Gamepad2, RefreshCw, Clock, CalendarCheck, Gift
 } from "lucide-react";
 import { PoweredByFooter } from "@/components/PoweredByFooter";
 import highschoolLogo from "@/assets/highschool-logo-new.png";
@@ -24,6 +24,11 @@ import { useLanguage } from "@/i18n/LanguageContext";
 import { StudentHomeSkeleton } from "@/components/skeletons/StudentHomeSkeleton";
 import { PrefetchLink } from "@/components/PrefetchLink";
 import { prefetchRoutes } from "@/hooks/usePrefetch";
+import { useDueReviews } from "@/hooks/queries/useReviewQueue";
+import { useCurrentUserId } from "@/hooks/queries/useStudentProfile";
+import { useStudentPacks } from "@/hooks/queries/useMysteryPacks";
+import { useEconomyConfig } from "@/hooks/queries/useEconomyConfig";
+import { levelProgress } from "@/lib/economy";
 
 interface ExternalStudentData {
   full_name: string;
@@ -73,6 +78,11 @@ export default function StudentHome() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { t } = useLanguage();
+  const { data: dueReviews = [] } = useDueReviews();
+  const { data: currentUserId } = useCurrentUserId();
+  const { config: economy } = useEconomyConfig();
+  const { data: packs = [] } = useStudentPacks(currentUserId ?? undefined);
+  const unopenedPacks = packs.filter((p) => !p.opened_at).length;
   
   const [loading, setLoading] = useState(true);
   const [showTour, setShowTour] = useState(false);
@@ -157,7 +167,7 @@ export default function StudentHome() {
         .select("id, coin_threshold, reward_description, reward_type")
         .eq("student_id", user.id)
         .eq("is_active", true)
-        .eq("claimed", false)
+        .eq("status", "active")
         .gt("coin_threshold", coins)
         .order("coin_threshold", { ascending: true })
         .limit(1);
@@ -275,9 +285,7 @@ export default function StudentHome() {
 
   const coins = studentProfile?.coins || 0;
   const xp = studentProfile?.xp || 0;
-  const level = Math.floor(xp / 500) + 1;
-  const xpInLevel = xp - ((level - 1) * 500);
-  const progressPercent = (xpInLevel / 500) * 100;
+  const { level } = levelProgress(economy.levelCurve, xp);
   const streak = studentProfile?.current_streak || 0;
 
   // Calculate progress to next reward
@@ -536,6 +544,62 @@ export default function StudentHome() {
             </Card>
           </motion.section>
 
+          {/* Daily Review */}
+          <motion.section
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15, duration: 0.4 }}
+          >
+            <PrefetchLink to="/student/review">
+              <motion.div
+                whileHover={{ scale: 1.01 }}
+                className="flex items-center gap-4 p-4 bg-card border border-border hover:border-primary/30 rounded-2xl transition-all cursor-pointer"
+              >
+                <div className="w-12 h-12 rounded-xl bg-warning/15 flex items-center justify-center shrink-0">
+                  <CalendarCheck className="w-6 h-6 text-warning" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-foreground">Daily Review</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {dueReviews.length > 0
+                      ? `${dueReviews.length} question${dueReviews.length === 1 ? "" : "s"} you missed ${dueReviews.length === 1 ? "is" : "are"} due today`
+                      : "All caught up. Missed questions come back here."}
+                  </p>
+                </div>
+                {dueReviews.length > 0 && <Badge className="shrink-0">{dueReviews.length}</Badge>}
+                <ChevronRight className="w-5 h-5 text-muted-foreground shrink-0" />
+              </motion.div>
+            </PrefetchLink>
+          </motion.section>
+
+          {/* Mystery Packs */}
+          {unopenedPacks > 0 && (
+            <motion.section
+              initial={{ opacity: 0, y: 16 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15, duration: 0.4 }}
+            >
+              <PrefetchLink to="/student/packs">
+                <motion.div
+                  whileHover={{ scale: 1.01 }}
+                  className="flex items-center gap-4 p-4 bg-card border border-border hover:border-primary/30 rounded-2xl transition-all cursor-pointer"
+                >
+                  <div className="w-12 h-12 rounded-xl bg-gold/15 flex items-center justify-center shrink-0">
+                    <Gift className="w-6 h-6 text-gold" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-foreground">Mystery Packs</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {unopenedPacks === 1 ? "You have a pack to open!" : `You have ${unopenedPacks} packs to open!`}
+                    </p>
+                  </div>
+                  <Badge className="shrink-0">{unopenedPacks}</Badge>
+                  <ChevronRight className="w-5 h-5 text-muted-foreground shrink-0" />
+                </motion.div>
+              </PrefetchLink>
+            </motion.section>
+          )}
+
           {/* Section 3: Practice & Game Options */}
           <motion.section
             initial={{ opacity: 0, y: 16 }}
@@ -23,6 +23,8 @@ import { XPBar } from "@/components/XPBar";
 import { StreakCounter } from "@/components/StreakCounter";
 import { CoinCounter } from "@/components/CoinCounter";
 import { BadgeCard } from "@/components/BadgeCard";
+import { ParentLinkCode } from "@/components/ParentLinkCode";
+import { StudentRewardPledges } from "@/components/StudentRewardPledges";
 import { CollectibleCard } from "@/components/CollectibleCard";
 import { AvatarCustomizer, AvatarPreview } from "@/components/AvatarCustomizer";
 import { Button } from "@/components/ui/button";
@@ -34,6 +36,12 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { PoweredByFooter } from "@/components/PoweredByFooter";
+import { useEconomyConfig } from "@/hooks/queries/useEconomyConfig";
+import { levelProgress } from "@/lib/economy";
+import { useCurrentUserId } from "@/hooks/queries/useStudentProfile";
+import { useStreak } from "@/hooks/useStreak";
+import { usePurchaseStreakShield } from "@/hooks/mutations/useStreakShield";
+import { STREAK_SHIELD_PRICE } from "@/constants";
 
 type Rarity = "common" | "rare" | "epic" | "legendary";
 type Slot = "frame" | "background" | "hat" | "pet" | "accessory";
@@ -58,9 +66,6 @@ interface EquippedItems {
 interface ProfileData {
   name: string;
   avatar: string | null;
-  level: number;
-  xp: number;
-  xpForNextLevel: number;
   coins: number;
   streak: number;
   longestStreak: number;
@@ -91,6 +96,10 @@ interface BadgeData {
 
 export default function StudentProfile() {
   const [profile, setProfile] = useState<ProfileData | null>(null);
+  const { config: { levelCurve } } = useEconomyConfig();
+  const { data: currentUserId } = useCurrentUserId();
+  const streak = useStreak(currentUserId ?? undefined);
+  const purchaseShield = usePurchaseStreakShield();
   const [stats, setStats] = useState<StatsData | null>(null);
   const [badges, setBadges] = useState<BadgeData[]>([]);
   const [collectibles, setCollectibles] = useState<Collectible[]>([]);
@@ -341,16 +350,11 @@ export default function StudentProfile() {
             : 0;
 
         const totalXp = studentProfile?.xp || 0;
-        const level = Math.floor(totalXp / 500) + 1;
-        const currentLevelXp = totalXp - (level - 1) * 500;
 
         if (cancelled) return;
         setProfile({
           name: userProfile?.full_name || user.email?.split("@")[0] || "Scholar",
           avatar: userProfile?.avatar_url || null,
-          level,
-          xp: currentLevelXp,
-          xpForNextLevel: 500,
           coins: studentProfile?.coins || 0,
           streak: studentProfile?.current_streak || 0,
           longestStreak: studentProfile?.longest_streak || 0,
@@ -406,9 +410,6 @@ export default function StudentProfile() {
   const displayProfile = profile || {
     name: "Scholar",
     avatar: null,
-    level: 1,
-    xp: 0,
-    xpForNextLevel: 500,
     coins: 0,
     streak: 0,
     longestStreak: 0,
@@ -430,8 +431,40 @@ export default function StudentProfile() {
 
   const earnedBadges = badges.filter(b => b.earned);
   const earnedCollectibles = collectibles.filter(c => c.earned);
+  const levelInfo = levelProgress(levelCurve, displayProfile.totalXpEarned);
+
+  const handleBuyShield = () => {
+    purchaseShield.mutate(crypto.randomUUID(), {
+      onSuccess: (result) => {
+        if (result.success) {
+          toast.success("Streak shield ready! It will save your streak if you miss a school day.");
+        } else {
+          toast.error(result.error || "Couldn't buy a streak shield");
+        }
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const streakFooter = (
+    <div className="space-y-2 text-xs">
+      <p className="text-muted-foreground">Longest streak: {streak.longest} days</p>
+      {streak.atRisk && (
+        <p className="text-streak font-medium">Finish an activity today to keep your streak going!</p>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        disabled={streak.shieldAvailable || purchaseShield.isPending || displayProfile.coins < STREAK_SHIELD_PRICE}
+        onClick={handleBuyShield}
+      >
+        {streak.shieldAvailable ? "Shield ready" : `Buy shield (${STREAK_SHIELD_PRICE} coins)`}
+      </Button>
+    </div>
+  );
   const daysSinceJoin = Math.floor((Date.now() - displayProfile.joinedAt.getTime()) / (1000 * 60 * 60 * 24));
-  const remainingXp = Math.max(displayProfile.xpForNextLevel - displayProfile.xp, 0);
+  const remainingXp = Math.max(levelInfo.xpForLevel - levelInfo.xpInLevel, 0);
 
   return (
     <div className="min-h-screen bg-background pb-8">
@@ -479,9 +512,9 @@ export default function StudentProfile() {
             </div>
 
             <XPBar
-              currentXP={displayProfile.xp}
-              xpForNextLevel={displayProfile.xpForNextLevel}
-              level={displayProfile.level}
+              currentXP={levelInfo.xpInLevel}
+              xpForNextLevel={levelInfo.xpForLevel}
+              level={levelInfo.level}
             />
 
             <div className="grid grid-cols-2 gap-3 mt-6">
@@ -491,7 +524,13 @@ export default function StudentProfile() {
               </div>
               <div className="flex justify-center">
                 <div className="text-center">
-                  <StreakCounter streak={displayProfile.streak} hasShield={displayProfile.hasShield} size="sm" />
+                  <StreakCounter
+                    streak={streak.isLoading ? displayProfile.streak : streak.current}
+                    hasShield={streak.isLoading ? displayProfile.hasShield : streak.shieldAvailable}
+                    size="sm"
+                    calendar={streak.calendar}
+                    calendarFooter={streakFooter}
+                  />
                   <p className="text-xs text-muted-foreground mt-1">Current Streak</p>
                 </div>
               </div>
@@ -636,6 +675,10 @@ export default function StudentProfile() {
           )}
         </motion.div>
 
+        <ParentLinkCode />
+
+        <StudentRewardPledges />
+
         {/* Tabs */}
         <Tabs defaultValue="achievements" className="w-full">
           <TabsList className="grid w-full grid-cols-3 mb-6">
@@ -850,7 +893,7 @@ export default function StudentProfile() {
               </h3>
               <p className="opacity-90">
                 You're making great progress! Complete {remainingXp} more XP to reach
-                Level {displayProfile.level + 1}! 🌟
+                Level {levelInfo.level + 1}! 🌟
               </p>
             </div>
           </div>
@@ -0,0 +1,238 @@
+/**
+ * TeacherClassConsole Page
+ *
+ * Live classroom console: roster with one-tap status logging, point
+ * deductions with undo, and a per-student timeline.
+ */
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ArrowLeft, Coins, Flame, History, Loader2, MinusCircle, Star, Undo2, Users } from "lucide-react";
+import { QuickStatusButtons, StatusLabel, StudentStatusRecorder } from "@/components/StudentStatusRecorder";
+import { PointDeductionDialog } from "@/components/PointDeductionDialog";
+import { useClassRoster, useStudentTimeline, useTeacherClass } from "@/hooks/queries/useTeacherClass";
+import type { RosterStudent, TimelineEvent } from "@/hooks/queries/useTeacherClass";
+import { useUndoPointDeduction } from "@/hooks/mutations/useClassroomActions";
+import { useToast } from "@/hooks/use-toast";
+
+export default function TeacherClassConsole() {
+  const { id: classId } = useParams();
+  const { data: classInfo, isLoading: classLoading } = useTeacherClass(classId);
+  const { data: roster = [], isLoading: rosterLoading } = useClassRoster(classInfo ? classId : undefined);
+  const [timelineStudent, setTimelineStudent] = useState<RosterStudent | null>(null);
+
+  if (classLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!classInfo || !classId) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">This class doesn't exist or isn't one of yours.</p>
+        <Link to="/teacher">
+          <Button variant="outline">Back to My Classes</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const loggedToday = roster.filter((s) => s.today_status).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card border-b border-border sticky top-0 z-40">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+              <Link to="/teacher">
+                <Button variant="ghost" size="icon-sm">
+                  <ArrowLeft className="w-5 h-5" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="font-bold text-foreground text-xl">{classInfo.name}</h1>
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-mono">{classInfo.class_code}</span> · {roster.length} students · {loggedToday} logged today
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <StudentStatusRecorder students={roster} classId={classId} />
+              <PointDeductionDialog students={roster} classId={classId} />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        {rosterLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : roster.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="w-20 h-20 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Users className="w-10 h-10 text-muted-foreground" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground mb-2">No Students Enrolled</h2>
+            <p className="text-muted-foreground">
+              Students join with the class code <span className="font-mono">{classInfo.class_code}</span>.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+            {roster.map((student, index) => (
+              <motion.div
+                key={student.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.02 }}
+                className="rounded-xl border border-border bg-card p-4 space-y-3"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-gradient-primary flex items-center justify-center font-bold text-white">
+                    {student.full_name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-foreground truncate">{student.full_name}</p>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Coins className="w-3 h-3" /> {student.coins}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Star className="w-3 h-3" /> {student.xp} XP
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Flame className="w-3 h-3" /> {student.current_streak}
+                      </span>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon-sm" title="Timeline" onClick={() => setTimelineStudent(student)}>
+                    <History className="w-4 h-4" />
+                  </Button>
+                </div>
+                <QuickStatusButtons
+                  classId={classId}
+                  studentId={student.id}
+                  studentName={student.full_name}
+                  currentStatus={student.today_status}
+                />
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <StudentTimelineSheet
+        classId={classId}
+        student={timelineStudent}
+        onClose={() => setTimelineStudent(null)}
+      />
+    </div>
+  );
+}
+
+function StudentTimelineSheet({
+  classId,
+  student,
+  onClose,
+}: {
+  classId: string;
+  student: RosterStudent | null;
+  onClose: () => void;
+}) {
+  const { data: events = [], isLoading } = useStudentTimeline(classId, student?.id);
+  const undoDeduction = useUndoPointDeduction(classId);
+  const { toast } = useToast();
+
+  const handleUndo = async (event: Extract<TimelineEvent, { kind: "deduction" }>) => {
+    try {
+      await undoDeduction.mutateAsync(event.id);
+      toast({ title: "Deduction undone", description: `${event.points} points restored.` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to undo the deduction. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Sheet open={!!student} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>{student?.full_name}</SheetTitle>
+          <SheetDescription>Statuses, deductions and rewards</SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-3">
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center py-10 text-muted-foreground">Nothing recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {events.map((event) => (
+                <li key={`${event.kind}-${event.id}`} className="rounded-lg border border-border p-3">
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {format(new Date(event.at), "MMM d, h:mm a")}
+                  </p>
+                  {event.kind === "status" && (
+                    <div className="space-y-1">
+                      <StatusLabel status={event.status} />
+                      {event.notes && <p className="text-sm text-muted-foreground">{event.notes}</p>}
+                    </div>
+                  )}
+                  {event.kind === "deduction" && (
+                    <div className="flex items-start justify-between gap-2">
+                      <div className={event.undone_at ? "line-through opacity-60" : undefined}>
+                        <p className="text-sm font-medium text-destructive flex items-center gap-1">
+                          <MinusCircle className="w-4 h-4" /> {event.points} points
+                        </p>
+                        <p className="text-sm text-muted-foreground">{event.reason}</p>
+                      </div>
+                      {event.undone_at ? (
+                        <Badge variant="outline">Undone</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleUndo(event)}
+                          disabled={undoDeduction.isPending}
+                        >
+                          <Undo2 className="w-4 h-4 mr-1" />
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {event.kind === "reward" && (
+                    <div>
+                      <p className="text-sm font-medium text-success">
+                        +{event.xp} XP{event.coins > 0 ? ` · +${event.coins} coins` : ""}
+                      </p>
+                      <p className="text-sm text-muted-foreground">{event.reason}</p>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * TeacherHome Page
+ *
+ * Lists the signed-in teacher's classes and links to each classroom console,
+ * below any parent link requests waiting on the teacher.
+ */
+
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { GraduationCap, LogOut, Loader2, ChevronRight, School } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ParentLinkRequests } from "@/components/ParentLinkRequests";
+import { useTeacherClasses } from "@/hooks/queries/useTeacherClass";
+
+export default function TeacherHome() {
+  const { data: classes = [], isLoading, error } = useTeacherClasses();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-card border-b border-border sticky top-0 z-40">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
+                <GraduationCap className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h1 className="font-bold text-foreground text-xl">My Classes</h1>
+                <p className="text-sm text-muted-foreground">Open a class to log behavior and manage points</p>
+              </div>
+            </div>
+            <Button variant="ghost" size="icon-sm" onClick={() => supabase.auth.signOut()}>
+              <LogOut className="w-5 h-5 text-muted-foreground" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <ParentLinkRequests />
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-20 text-destructive">{error.message}</div>
+        ) : classes.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="w-20 h-20 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <School className="w-10 h-10 text-muted-foreground" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground mb-2">No Classes Yet</h2>
+            <p className="text-muted-foreground">Classes you teach will appear here.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {classes.map((cls, index) => (
+              <motion.div
+                key={cls.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Link to={`/teacher/class/${cls.id}`}>
+                  <Card className="hover:border-primary/50 transition-colors">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center justify-between text-lg">
+                        {cls.name}
+                        <ChevronRight className="w-5 h-5 text-muted-foreground" />
+                      </CardTitle>
+                      <CardDescription>{cls.subject || "General"}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex gap-2">
+                      <Badge variant="outline" className="font-mono">{cls.class_code}</Badge>
+                      {cls.grade_level !== null && <Badge variant="secondary">Grade {cls.grade_level}</Badge>}
+                    </CardContent>
+                  </Card>
+                </Link>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
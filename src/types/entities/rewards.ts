@@ -8,7 +8,7 @@ import type { BadgeId, RewardClaimId, PledgeId, UserId } from "../utils/branded"
 // Claim Types
 // ============================================================================
 
-export type ClaimType = "practice_set" | "game" | "study_goal" | "assignment" | "challenge";
+export type ClaimType = "practice_set" | "game" | "study_goal" | "assignment" | "challenge" | "daily_review";
 
 // ============================================================================
 // Reward Claim
@@ -37,8 +37,6 @@ export interface ValidationData {
 export interface AwardRewardsParams {
   claimType: ClaimType;
   referenceId: string;
-  xpAmount: number;
-  coinAmount: number;
   reason: string;
   validationData?: ValidationData;
 }
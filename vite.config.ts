@@ -26,7 +26,30 @@ export default defineConfig(({ mode }) => ({
       },
       workbox: {
         navigateFallback: "/index.html",
+        // Precache every route chunk, including the bundled question banks, for offline practice
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
         runtimeCaching: [
+          {
+            // Practice sets, assignments and question bank reads fall back to the last response offline.
+            // Responses are per student, so useOfflineSync clears this cache on sign-out and user change;
+            // profiles are left out so names and balances are never served from it.
+            urlPattern: ({ url, request }) =>
+              request.method === "GET" &&
+              /\/rest\/v1\/(practice_sets|practice_questions|assignments|questions|skill_games|review_queue_items)\b/.test(url.pathname),
+            handler: "NetworkFirst",
+            options: {
+              cacheName: "learning-data",
+              networkTimeoutSeconds: 5,
+              cacheableResponse: {
+                statuses: [0, 200],
+              },
+              expiration: {
+                maxEntries: 200,
+                maxAgeSeconds: 60 * 60 * 24 * 7, // 7 days
+              },
+            },
+          },
           {
             urlPattern: ({ request }) => request.destination === "image",
             handler: "CacheFirst",